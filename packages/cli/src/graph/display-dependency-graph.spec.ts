@@ -0,0 +1,129 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { writeFileSync } from 'fs';
+import { mock } from 'node:test';
+import { join } from 'path';
+
+// 3p
+import { yellow } from 'colors/safe';
+
+// FoalTS
+import { mkdirIfDoesNotExist, rmDirAndFilesIfExist } from '../generate/utils';
+import { displayDependencyGraph } from './display-dependency-graph';
+
+describe('displayDependencyGraph', () => {
+
+  let logMock: ReturnType<typeof mock.method<Console, 'log'>>['mock'];
+  let errorMock: ReturnType<typeof mock.method<Console, 'error'>>['mock'];
+  let exitCode: typeof process.exitCode;
+
+  function writeAppController(content: string): void {
+    mkdirIfDoesNotExist('build/app');
+    writeFileSync('build/app/app.controller.js', content, 'utf8');
+    delete require.cache[join(process.cwd(), './build/app/app.controller.js')];
+  }
+
+  beforeEach(() => {
+    writeAppController(`
+      const { Dependency } = require('@foal/core');
+
+      class UserService {}
+
+      class AppController {}
+      Dependency(UserService)(AppController.prototype, 'userService');
+
+      module.exports.AppController = AppController;
+    `);
+
+    exitCode = process.exitCode;
+    logMock = mock.method(console, 'log', () => {}).mock;
+    errorMock = mock.method(console, 'error', () => {}).mock;
+  });
+
+  afterEach(() => {
+    rmDirAndFilesIfExist('build/app');
+    process.exitCode = exitCode;
+    mock.reset();
+  });
+
+  it('should display the dependency graph of the application in the DOT language.', () => {
+    displayDependencyGraph({ format: 'dot' });
+
+    deepStrictEqual(logMock.calls.map(call => call.arguments[0]), [
+      [
+        'digraph dependencies {',
+        '  "AppController" [label="AppController"];',
+        '  "UserService" [label="UserService"];',
+        '  "AppController" -> "UserService" [label="userService"];',
+        '}',
+      ].join('\n')
+    ]);
+    strictEqual(errorMock.callCount(), 0);
+    strictEqual(process.exitCode, exitCode);
+  });
+
+  it('should display the dependency graph of the application as a Mermaid flowchart.', () => {
+    displayDependencyGraph({ format: 'mermaid' });
+
+    deepStrictEqual(logMock.calls.map(call => call.arguments[0]), [
+      [
+        'graph LR',
+        '  n0["AppController"]',
+        '  n1["UserService"]',
+        '  n0 -->|userService| n1',
+      ].join('\n')
+    ]);
+  });
+
+  it('should display the dependency graph of the application in JSON.', () => {
+    displayDependencyGraph({ format: 'json' });
+
+    strictEqual(logMock.callCount(), 1);
+    deepStrictEqual(JSON.parse(logMock.calls[0].arguments[0]), {
+      cycles: [],
+      edges: [ { from: 'AppController', propertyKey: 'userService', to: 'UserService', type: 'dependency' } ],
+      nodes: [
+        { id: 'AppController', name: 'AppController', scope: 'singleton' },
+        { id: 'UserService', name: 'UserService', scope: 'singleton' },
+      ],
+      unresolved: [],
+    });
+  });
+
+  it('should display the cycles and the unresolved dependencies on stderr and set the exit code to 1.', () => {
+    writeAppController(`
+      const { Dependency } = require('@foal/core');
+
+      class ServiceA {}
+      class ServiceB {}
+      Dependency(ServiceB)(ServiceA.prototype, 'serviceB');
+      Dependency(ServiceA)(ServiceB.prototype, 'serviceA');
+
+      class AppController {}
+      Dependency(ServiceA)(AppController.prototype, 'serviceA');
+      Dependency(undefined)(AppController.prototype, 'logger');
+
+      module.exports.AppController = AppController;
+    `);
+
+    displayDependencyGraph({ format: 'json' });
+
+    deepStrictEqual(errorMock.calls.map(call => call.arguments.join(' ')), [
+      '',
+      yellow('! Dependency cycle: ServiceA -> ServiceB -> ServiceA'),
+      yellow('! The type of the dependency "logger" in AppController is undefined '
+        + '(circular import or missing "emitDecoratorMetadata").'),
+    ]);
+    strictEqual(process.exitCode, 1);
+  });
+
+  it('should not display anything if the AppController cannot be loaded.', () => {
+    rmDirAndFilesIfExist('build/app');
+
+    displayDependencyGraph({ format: 'dot' });
+
+    strictEqual(logMock.callCount(), 0);
+    deepStrictEqual(errorMock.calls.map(call => call.arguments[0]), [ 'AppController not found.' ]);
+  });
+
+});
@@ -0,0 +1,42 @@
+// 3p
+import { yellow } from 'colors/safe';
+
+// FoalTS
+import { loadAppController } from '../utils';
+import { getDependencyGraphWarnings } from './get-dependency-graph-warnings';
+
+export type DependencyGraphFormat = 'dot'|'mermaid'|'json';
+
+export function displayDependencyGraph({ format }: { format: DependencyGraphFormat }): void {
+  const result = loadAppController();
+  if (!result) {
+    return;
+  }
+
+  const services = new result.core.ServiceManager();
+  const graph = services.getDependencyGraph(result.AppController);
+
+  switch (format) {
+    case 'dot':
+      console.log(graph.toDot());
+      break;
+    case 'mermaid':
+      console.log(graph.toMermaid());
+      break;
+    case 'json': {
+      const { nodes, edges, cycles, unresolved } = graph;
+      console.log(JSON.stringify({ nodes, edges, cycles, unresolved }, null, 2));
+      break;
+    }
+  }
+
+  // Warnings are written to stderr so that the output can be piped to another program.
+  const warnings = getDependencyGraphWarnings(graph);
+  if (warnings.length > 0) {
+    console.error();
+    warnings.forEach(warning => console.error(yellow(`! ${warning}`)));
+  }
+  if (graph.cycles.length > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,35 @@
+// std
+import { deepStrictEqual } from 'assert';
+
+// 3p
+import type { DependencyGraph } from '@foal/core';
+
+// FoalTS
+import { getDependencyGraphWarnings } from './get-dependency-graph-warnings';
+
+describe('getDependencyGraphWarnings', () => {
+
+  it('should return a warning for each cycle and each unresolved dependency.', () => {
+    const graph = {
+      cycles: [
+        [ 'ServiceA', 'ServiceB', 'ServiceA' ],
+      ],
+      unresolved: [
+        { from: 'ApiController', propertyKey: 'userService' },
+      ],
+    } as DependencyGraph;
+
+    deepStrictEqual(getDependencyGraphWarnings(graph), [
+      'Dependency cycle: ServiceA -> ServiceB -> ServiceA',
+      'The type of the dependency "userService" in ApiController is undefined '
+        + '(circular import or missing "emitDecoratorMetadata").',
+    ]);
+  });
+
+  it('should return an empty array if the graph has no cycles and no unresolved dependencies.', () => {
+    const graph = { cycles: [], unresolved: [] } as unknown as DependencyGraph;
+
+    deepStrictEqual(getDependencyGraphWarnings(graph), []);
+  });
+
+});
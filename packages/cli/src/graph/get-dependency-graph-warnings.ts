@@ -0,0 +1,19 @@
+// 3p
+import type { DependencyGraph } from '@foal/core';
+
+/**
+ * Describe the dependency cycles and the unresolved dependencies of a dependency graph.
+ *
+ * @export
+ * @param {DependencyGraph} graph - The graph returned by `ServiceManager.getDependencyGraph`.
+ * @returns {string[]} The warnings.
+ */
+export function getDependencyGraphWarnings(graph: DependencyGraph): string[] {
+  return [
+    ...graph.cycles.map(cycle => `Dependency cycle: ${cycle.join(' -> ')}`),
+    ...graph.unresolved.map(
+      ({ from, propertyKey }) => `The type of the dependency "${propertyKey}" in ${from} is undefined `
+        + '(circular import or missing "emitDecoratorMetadata").'
+    ),
+  ];
+}
@@ -0,0 +1,2 @@
+export { displayDependencyGraph, DependencyGraphFormat } from './display-dependency-graph';
+export { getDependencyGraphWarnings } from './get-dependency-graph-warnings';
@@ -25,7 +25,9 @@ import {
   upgrade,
 } from './generate';
 import { ClientError } from './generate/file-system';
+import { DependencyGraphFormat, displayDependencyGraph } from './graph';
 import { rmdir } from './rmdir';
+import { displayRoutes } from './routes';
 import { runScript } from './run';
 
 function displayError(...lines: string[]): void {
@@ -72,6 +74,32 @@ program
     runScript({ name }, process.argv);
   });
 
+program
+  .command('routes')
+  .description('List the routes of the application (the application must be built).')
+  .option('-j, --json', 'Print the routes as JSON', false)
+  .action((options: { json: boolean }) => {
+    displayRoutes({ json: options.json });
+  });
+
+const dependencyGraphFormats: DependencyGraphFormat[] = [ 'dot', 'mermaid', 'json' ];
+
+program
+  .command('graph')
+  .description('Display the dependency graph of the application (the application must be built).')
+  .option('-f, --format <format>', 'Output format (dot, mermaid or json)', 'dot')
+  .action((options: { format: DependencyGraphFormat }) => {
+    if (!dependencyGraphFormats.includes(options.format)) {
+      displayError(
+        `Unknown format ${yellow(options.format)}. Please provide a valid one:`,
+        '',
+        ...dependencyGraphFormats.map(f => `  - ${f}`)
+      );
+      return;
+    }
+    displayDependencyGraph({ format: options.format });
+  });
+
 program
   .command('connect')
   .argument('<framework>', 'Frontend framework to connect to')
@@ -0,0 +1,86 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { writeFileSync } from 'fs';
+import { mock } from 'node:test';
+import { join } from 'path';
+
+// 3p
+import { yellow } from 'colors/safe';
+
+// FoalTS
+import { mkdirIfDoesNotExist, rmDirAndFilesIfExist } from '../generate/utils';
+import { displayRoutes } from './display-routes';
+
+describe('displayRoutes', () => {
+
+  let logMock: ReturnType<typeof mock.method<Console, 'log'>>['mock'];
+
+  beforeEach(() => {
+    mkdirIfDoesNotExist('build/app');
+    writeFileSync('build/app/app.controller.js', `
+      const { Get, Post } = require('@foal/core');
+
+      class AppController {
+        getUsers() {}
+        createUser() {}
+        createUser2() {}
+      }
+      Get('/users')(AppController.prototype, 'getUsers');
+      Post('/users')(AppController.prototype, 'createUser');
+      Post('/users')(AppController.prototype, 'createUser2');
+
+      module.exports.AppController = AppController;
+    `, 'utf8');
+    delete require.cache[join(process.cwd(), './build/app/app.controller.js')];
+
+    logMock = mock.method(console, 'log', () => {}).mock;
+  });
+
+  afterEach(() => {
+    rmDirAndFilesIfExist('build/app');
+    mock.reset();
+  });
+
+  function getLoggedLines(): string[] {
+    return logMock.calls.map(call => call.arguments.join(' '));
+  }
+
+  it('should display the route table and the warnings of the application.', () => {
+    displayRoutes({ json: false });
+
+    deepStrictEqual(getLoggedLines(), [
+      '   METHOD  PATH    HANDLER                    HOOKS  OPERATION ID',
+      '   GET     /users  AppController.getUsers',
+      '   POST    /users  AppController.createUser',
+      '!  POST    /users  AppController.createUser2',
+      '',
+      yellow('! POST /users (AppController.createUser2) is registered more than once. Only the first registration is reached.'),
+    ]);
+  });
+
+  it('should display the route table in JSON if the "json" option is true.', () => {
+    displayRoutes({ json: true });
+
+    strictEqual(logMock.callCount(), 1);
+    const entries = JSON.parse(logMock.calls[0].arguments[0]);
+    deepStrictEqual(
+      entries.map(({ httpMethod, path, propertyKey, duplicate }: any) => ({ duplicate, httpMethod, path, propertyKey })),
+      [
+        { duplicate: false, httpMethod: 'GET', path: '/users', propertyKey: 'getUsers' },
+        { duplicate: false, httpMethod: 'POST', path: '/users', propertyKey: 'createUser' },
+        { duplicate: true, httpMethod: 'POST', path: '/users', propertyKey: 'createUser2' },
+      ]
+    );
+  });
+
+  it('should not display anything if the AppController cannot be loaded.', () => {
+    rmDirAndFilesIfExist('build/app');
+    const errorMock = mock.method(console, 'error', () => {}).mock;
+
+    displayRoutes({ json: false });
+
+    strictEqual(logMock.callCount(), 0);
+    deepStrictEqual(errorMock.calls.map(call => call.arguments[0]), [ 'AppController not found.' ]);
+  });
+
+});
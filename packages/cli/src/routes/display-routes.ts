@@ -0,0 +1,28 @@
+// 3p
+import { yellow } from 'colors/safe';
+
+// FoalTS
+import { loadAppController } from '../utils';
+import { formatRouteTable, getRouteWarnings } from './format-route-table';
+
+export function displayRoutes({ json }: { json: boolean }): void {
+  const result = loadAppController();
+  if (!result) {
+    return;
+  }
+
+  const entries = result.core.getRouteTable(result.AppController);
+
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  formatRouteTable(entries).forEach(line => console.log(line));
+
+  const warnings = getRouteWarnings(entries);
+  if (warnings.length > 0) {
+    console.log();
+    warnings.forEach(warning => console.log(yellow(`! ${warning}`)));
+  }
+}
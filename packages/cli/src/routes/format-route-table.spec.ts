@@ -0,0 +1,85 @@
+// std
+import { deepStrictEqual } from 'assert';
+
+// 3p
+import type { RouteTableEntry } from '@foal/core';
+
+// FoalTS
+import { formatRouteTable, getRouteWarnings } from './format-route-table';
+
+describe('formatRouteTable', () => {
+
+  it('should return the lines of a table listing the routes and marking the unreachable ones.', () => {
+    const entries: RouteTableEntry[] = [
+      {
+        controllerName: 'UserController',
+        duplicate: false,
+        hooks: [ 'userRequired', 'validateBody' ],
+        httpMethod: 'POST',
+        operationId: 'createUser',
+        path: '/users',
+        propertyKey: 'createUser',
+      },
+      {
+        controllerName: 'AppController',
+        duplicate: true,
+        hooks: [],
+        httpMethod: 'POST',
+        path: '/users',
+        propertyKey: 'foo',
+      },
+    ];
+
+    deepStrictEqual(formatRouteTable(entries), [
+      '   METHOD  PATH    HANDLER                    HOOKS                       OPERATION ID',
+      '   POST    /users  UserController.createUser  userRequired, validateBody  createUser',
+      '!  POST    /users  AppController.foo',
+    ]);
+  });
+
+});
+
+describe('getRouteWarnings', () => {
+
+  it('should return a warning for each duplicate or shadowed route.', () => {
+    const entries: RouteTableEntry[] = [
+      {
+        controllerName: 'UserController',
+        duplicate: false,
+        hooks: [],
+        httpMethod: 'GET',
+        path: '/users/:id',
+        propertyKey: 'getUser',
+      },
+      {
+        controllerName: 'UserController',
+        duplicate: true,
+        hooks: [],
+        httpMethod: 'GET',
+        path: '/users/:id',
+        propertyKey: 'getUser2',
+      },
+      {
+        controllerName: 'AppController',
+        duplicate: false,
+        hooks: [],
+        httpMethod: 'GET',
+        path: '/users/:userId',
+        propertyKey: 'getUser',
+        shadowedBy: {
+          controllerName: 'UserController',
+          httpMethod: 'GET',
+          path: '/users/:id',
+          propertyKey: 'getUser',
+        }
+      },
+    ];
+
+    deepStrictEqual(getRouteWarnings(entries), [
+      'GET /users/:id (UserController.getUser2) is registered more than once. Only the first registration is reached.',
+      'GET /users/:userId (AppController.getUser) is shadowed by GET /users/:id (UserController.getUser) '
+        + 'and is never reached.',
+    ]);
+  });
+
+});
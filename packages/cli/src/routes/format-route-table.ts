@@ -0,0 +1,62 @@
+// 3p
+import type { RouteTableEntry } from '@foal/core';
+
+function getHandler(entry: { controllerName: string, propertyKey: string }): string {
+  return `${entry.controllerName}.${entry.propertyKey}`;
+}
+
+/**
+ * Format the routes of an application as a text table.
+ *
+ * Duplicate and shadowed routes are marked with a "!" in the first column.
+ *
+ * @export
+ * @param {RouteTableEntry[]} entries - The routes returned by `getRouteTable`.
+ * @returns {string[]} The lines of the table.
+ */
+export function formatRouteTable(entries: RouteTableEntry[]): string[] {
+  const rows = [
+    [ '', 'METHOD', 'PATH', 'HANDLER', 'HOOKS', 'OPERATION ID' ],
+    ...entries.map(entry => [
+      entry.duplicate || entry.shadowedBy ? '!' : '',
+      entry.httpMethod,
+      entry.path,
+      getHandler(entry),
+      entry.hooks.join(', '),
+      entry.operationId || '',
+    ])
+  ];
+
+  const widths = rows[0].map((_, index) => Math.max(...rows.map(row => row[index].length)));
+
+  return rows.map(row => row
+    .map((cell, index) => cell.padEnd(widths[index]))
+    .join('  ')
+    .trimEnd()
+  );
+}
+
+/**
+ * Describe the duplicate and shadowed routes of an application.
+ *
+ * @export
+ * @param {RouteTableEntry[]} entries - The routes returned by `getRouteTable`.
+ * @returns {string[]} One warning per unreachable route.
+ */
+export function getRouteWarnings(entries: RouteTableEntry[]): string[] {
+  const warnings: string[] = [];
+
+  for (const entry of entries) {
+    const route = `${entry.httpMethod} ${entry.path} (${getHandler(entry)})`;
+    if (entry.duplicate) {
+      warnings.push(`${route} is registered more than once. Only the first registration is reached.`);
+    } else if (entry.shadowedBy) {
+      const { httpMethod, path } = entry.shadowedBy;
+      warnings.push(
+        `${route} is shadowed by ${httpMethod} ${path} (${getHandler(entry.shadowedBy)}) and is never reached.`
+      );
+    }
+  }
+
+  return warnings;
+}
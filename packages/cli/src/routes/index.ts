@@ -0,0 +1,2 @@
+export { displayRoutes } from './display-routes';
+export { formatRouteTable, getRouteWarnings } from './format-route-table';
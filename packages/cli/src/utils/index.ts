@@ -0,0 +1 @@
+export { loadAppController } from './load-app-controller.util';
@@ -0,0 +1,50 @@
+// std
+import { existsSync } from 'fs';
+
+// 3p
+import type { Class } from '@foal/core';
+
+/**
+ * Load the @foal/core package and the compiled AppController of the project located
+ * in the current directory.
+ *
+ * If one of them cannot be found, an error message is displayed and undefined is returned.
+ *
+ * @export
+ * @returns {({ core: typeof import('@foal/core'), AppController: Class }|undefined)}
+ */
+export function loadAppController(): { core: typeof import('@foal/core'), AppController: Class }|undefined {
+  let core: typeof import('@foal/core');
+  try {
+    core = require(require.resolve('@foal/core', {
+      paths: [ process.cwd() ],
+    }));
+  } catch (error: any) {
+    if (error.code === 'MODULE_NOT_FOUND') {
+      console.error('@foal/core module not found. Are you sure you are in a FoalTS project?');
+      return;
+    }
+
+    throw error;
+  }
+
+  if (!existsSync('build/app/app.controller.js')) {
+    if (existsSync('src/app/app.controller.ts')) {
+      console.error('AppController not found in build/app/ but found in src/app/. Did you forget to build the application?');
+    } else {
+      console.error('AppController not found.');
+    }
+    return;
+  }
+
+  const { AppController } = require(require.resolve('./build/app/app.controller', {
+    paths: [ process.cwd() ],
+  }));
+
+  if (!AppController) {
+    console.error('No "AppController" class exported from build/app/app.controller.js.');
+    return;
+  }
+
+  return { AppController, core };
+}
@@ -24,7 +24,7 @@ import { IUserWithPermissions } from './user-with-permissions.interface';
  * @returns {HookDecorator} - The hook.
  */
 export function PermissionRequired(perm: string, options: { redirect?: string, openapi?: boolean } = {}): HookDecorator {
-  function hook(ctx: Context<IUserWithPermissions|null>) {
+  function permissionRequired(ctx: Context<IUserWithPermissions|null>) {
     if (!ctx.user) {
       if (options.redirect) {
         return new HttpResponseRedirect(options.redirect);
@@ -46,5 +46,5 @@ export function PermissionRequired(perm: string, options: { redirect?: string, o
     ApiResponse(403, { description: 'Permission denied.' })
   ];
 
-  return Hook(hook, openapi, { openapi: options.openapi });
+  return Hook(permissionRequired, openapi, { openapi: options.openapi });
 }
@@ -1,7 +1,7 @@
 import { ApiResponse, Context, Hook, HookDecorator, HttpResponseRedirect, HttpResponseUnauthorized } from '../../../core';
 
 export function UserRequired(options: { redirectTo?: string, openapi?: boolean } = {}): HookDecorator {
-  function hook(ctx: Context) {
+  function userRequired(ctx: Context) {
     if (!ctx.user) {
       if (options.redirectTo) {
         return new HttpResponseRedirect(options.redirectTo);
@@ -16,5 +16,5 @@ export function UserRequired(options: { redirectTo?: string, openapi?: boolean }
       ApiResponse(401, { description: 'Unauthenticated request.' })
   ];
 
-  return Hook(hook, openapi, { openapi: options.openapi });
+  return Hook(userRequired, openapi, { openapi: options.openapi });
 }
@@ -0,0 +1,77 @@
+// std
+import { rejects, strictEqual } from 'assert';
+
+// FoalTS
+import { createService } from '../../../core';
+import { AuthorizationService } from './authorization.service';
+import { hasRole, IPolicy } from './policy';
+
+describe('AuthorizationService', () => {
+
+  class Post {
+    constructor(readonly ownerId: number, readonly published = false) {}
+  }
+
+  class DraftPost extends Post {}
+
+  class PostPolicy implements IPolicy<{ id: number }, Post> {
+    can(user: { id: number }|null, action: string, post: Post) {
+      if (action === 'read') {
+        return post.published || user?.id === post.ownerId;
+      }
+      return user?.id === post.ownerId;
+    }
+  }
+
+  let authz: AuthorizationService;
+
+  beforeEach(() => authz = createService(AuthorizationService));
+
+  describe('has a "can" method that', () => {
+
+    it('should use the policy associated with the class of the resource.', async () => {
+      authz.definePolicy(Post, PostPolicy);
+
+      strictEqual(await authz.can({ id: 1 }, 'update', new Post(1)), true);
+      strictEqual(await authz.can({ id: 2 }, 'update', new Post(1)), false);
+      strictEqual(await authz.can(null, 'read', new Post(1, true)), true);
+      strictEqual(await authz.can(null, 'read', new Post(1)), false);
+    });
+
+    it('should use the policy associated with a parent class of the resource.', async () => {
+      authz.definePolicy(Post, new PostPolicy());
+
+      strictEqual(await authz.can({ id: 1 }, 'update', new DraftPost(1)), true);
+      strictEqual(await authz.can({ id: 2 }, 'update', new DraftPost(1)), false);
+    });
+
+    it('should use the default policy if no policy is associated with the resource.', async () => {
+      authz.setDefaultPolicy(hasRole('admin'));
+
+      strictEqual(await authz.can({ roles: [ 'admin' ] }, 'delete', new Post(1)), true);
+      strictEqual(await authz.can({ roles: [ 'admin' ] }, 'export'), true);
+      strictEqual(await authz.can({ roles: [] }, 'export'), false);
+    });
+
+    it('should use the given policy instead of the one associated with the resource.', async () => {
+      authz.definePolicy(Post, PostPolicy);
+
+      strictEqual(await authz.can({ id: 2, roles: [ 'admin' ] }, 'update', new Post(1), hasRole('admin')), true);
+    });
+
+    it('should return false if the policy does not return true.', async () => {
+      const policy = { can: () => 'yes' as any };
+
+      strictEqual(await authz.can({}, 'update', undefined, policy), false);
+    });
+
+    it('should throw an error if no policy is found.', async () => {
+      await rejects(
+        () => authz.can({ id: 1 }, 'update', new Post(1)),
+        new Error('[AuthorizationService] No policy found to authorize the action "update" on the resource "Post".')
+      );
+    });
+
+  });
+
+});
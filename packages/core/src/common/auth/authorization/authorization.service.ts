@@ -0,0 +1,97 @@
+// FoalTS
+import { Class, dependency, ServiceManager } from '../../../core';
+import { checkPolicy, PolicyLike } from './policy';
+
+/**
+ * Service deciding whether a user can perform an action on a resource.
+ *
+ * Policies are associated with resource classes (ex: `authz.definePolicy(Post, PostPolicy)`).
+ * Subclasses inherit the policy of their parent class. A default policy can be defined for
+ * the resources without policy and for the actions without resource.
+ *
+ * The service can be used in controllers, GraphQL resolvers, socket.io handlers, etc:
+ *
+ * ```typescript
+ * if (!await this.authz.can(ctx.user, 'update', post)) {
+ *   return new HttpResponseForbidden();
+ * }
+ * ```
+ *
+ * @export
+ * @class AuthorizationService
+ */
+export class AuthorizationService {
+
+  @dependency
+  services: ServiceManager;
+
+  private readonly policies = new Map<Class, PolicyLike>();
+  private defaultPolicy: PolicyLike|undefined;
+
+  /**
+   * Associate a policy with a resource class.
+   *
+   * @param {Class} resourceClass - The class of the resources.
+   * @param {PolicyLike} policy - The policy instance or class.
+   * @returns {this}
+   * @memberof AuthorizationService
+   */
+  definePolicy(resourceClass: Class, policy: PolicyLike): this {
+    this.policies.set(resourceClass, policy);
+    return this;
+  }
+
+  /**
+   * Define the policy used when no policy is associated with the resource.
+   *
+   * @param {PolicyLike} policy - The policy instance or class.
+   * @returns {this}
+   * @memberof AuthorizationService
+   */
+  setDefaultPolicy(policy: PolicyLike): this {
+    this.defaultPolicy = policy;
+    return this;
+  }
+
+  /**
+   * Get the policy applying to a resource.
+   *
+   * @param {*} [resource] - The resource.
+   * @returns {(PolicyLike|undefined)} The policy associated with the class of the resource
+   * (or one of its parent classes) or the default policy.
+   * @memberof AuthorizationService
+   */
+  getPolicy(resource?: any): PolicyLike|undefined {
+    let prototype = resource !== undefined && resource !== null ? Object.getPrototypeOf(resource) : null;
+    while (prototype && prototype !== Object.prototype) {
+      const policy = this.policies.get(prototype.constructor);
+      if (policy) {
+        return policy;
+      }
+      prototype = Object.getPrototypeOf(prototype);
+    }
+    return this.defaultPolicy;
+  }
+
+  /**
+   * Check if a user can perform an action on a resource.
+   *
+   * @param {*} user - The user (it may be null if the user is not authenticated).
+   * @param {string} action - The action (ex: "update").
+   * @param {*} [resource] - The resource, if any.
+   * @param {PolicyLike} [policy] - The policy to use instead of the one associated with the resource.
+   * @returns {Promise<boolean>} True if the action is allowed.
+   * @memberof AuthorizationService
+   */
+  async can(user: any, action: string, resource?: any, policy?: PolicyLike): Promise<boolean> {
+    const actualPolicy = policy || this.getPolicy(resource);
+    if (!actualPolicy) {
+      const resourceName = resource !== undefined && resource !== null ? resource.constructor.name : 'undefined';
+      throw new Error(
+        `[AuthorizationService] No policy found to authorize the action "${action}" on the resource "${resourceName}".`
+      );
+    }
+    return checkPolicy(actualPolicy, user, action, resource, this.services);
+  }
+
+}
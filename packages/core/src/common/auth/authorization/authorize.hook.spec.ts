@@ -0,0 +1,136 @@
+// std
+import { deepStrictEqual, ok, strictEqual } from 'assert';
+
+// FoalTS
+import {
+  Context,
+  getApiResponses,
+  getHookFunction,
+  HttpResponseForbidden,
+  HttpResponseNotFound,
+  HttpResponseRedirect,
+  HttpResponseUnauthorized,
+  IApiResponses,
+  ServiceManager,
+} from '../../../core';
+import { AuthorizationService } from './authorization.service';
+import { Authorize } from './authorize.hook';
+import { anyOf, hasRole, isOwner } from './policy';
+
+describe('Authorize', () => {
+
+  class Post {
+    constructor(readonly id: number, readonly ownerId: number) {}
+  }
+
+  const posts = [ new Post(1, 1) ];
+
+  function getPost(ctx: Context) {
+    return posts.find(post => post.id === Number(ctx.request.params.id));
+  }
+
+  let services: ServiceManager;
+
+  beforeEach(() => {
+    services = new ServiceManager();
+    services.get(AuthorizationService).definePolicy(Post, anyOf(hasRole('admin'), isOwner()));
+  });
+
+  it('should return an HttpResponseUnauthorized if the user is not authenticated.', async () => {
+    const hook = getHookFunction(Authorize('update', getPost));
+
+    const response = await hook(new Context({ params: { id: '1' } }), services);
+
+    ok(response instanceof HttpResponseUnauthorized);
+  });
+
+  it('should return an HttpResponseRedirect if the user is not authenticated and a redirect path was given.', async () => {
+    const hook = getHookFunction(Authorize('update', getPost, { redirect: '/login' }));
+
+    const response = await hook(new Context({ params: { id: '1' } }), services);
+
+    ok(response instanceof HttpResponseRedirect);
+    strictEqual(response.path, '/login');
+  });
+
+  it('should return an HttpResponseNotFound if the resource does not exist.', async () => {
+    const hook = getHookFunction(Authorize('update', getPost));
+    const ctx = new Context({ params: { id: '2' } });
+    ctx.user = { id: 1 };
+
+    const response = await hook(ctx, services);
+
+    ok(response instanceof HttpResponseNotFound);
+  });
+
+  it('should return an HttpResponseForbidden if the policy denies the action.', async () => {
+    const hook = getHookFunction(Authorize('update', getPost));
+    const ctx = new Context({ params: { id: '1' } });
+    ctx.user = { id: 2, roles: [] };
+
+    const response = await hook(ctx, services);
+
+    ok(response instanceof HttpResponseForbidden);
+  });
+
+  it('should not return any response if the policy allows the action.', async () => {
+    const hook = getHookFunction(Authorize('update', async ctx => getPost(ctx)));
+
+    const ctx = new Context({ params: { id: '1' } });
+    ctx.user = { id: 1 };
+    strictEqual(await hook(ctx, services), undefined);
+
+    const ctx2 = new Context({ params: { id: '1' } });
+    ctx2.user = { id: 2, roles: [ 'admin' ] };
+    strictEqual(await hook(ctx2, services), undefined);
+  });
+
+  it('should use the policy given in the options.', async () => {
+    const hook = getHookFunction(Authorize('export', undefined, { policy: hasRole('admin') }));
+
+    const ctx = new Context({});
+    ctx.user = { roles: [ 'admin' ] };
+    strictEqual(await hook(ctx, services), undefined);
+
+    const ctx2 = new Context({});
+    ctx2.user = { roles: [] };
+    ok(await hook(ctx2, services) instanceof HttpResponseForbidden);
+  });
+
+  describe('should define an API specification', () => {
+
+    it('unless options.openapi is false', () => {
+      @Authorize('update', getPost, { openapi: false })
+      class Foobar {}
+
+      strictEqual(getApiResponses(Foobar), undefined);
+    });
+
+    it('with the proper API responses', () => {
+      @Authorize('update', getPost)
+      class Foobar {}
+
+      const expected: IApiResponses = {
+        401: { description: 'Unauthenticated request.' },
+        403: { description: 'Permission denied.' },
+        404: { description: 'Resource not found.' },
+      };
+
+      deepStrictEqual(getApiResponses(Foobar), expected);
+    });
+
+    it('with the proper API responses (redirection and no resource)', () => {
+      @Authorize('export', undefined, { policy: hasRole('admin'), redirect: '/login' })
+      class Foobar {}
+
+      const expected: IApiResponses = {
+        302: { description: 'Unauthenticated request.' },
+        403: { description: 'Permission denied.' },
+      };
+
+      deepStrictEqual(getApiResponses(Foobar), expected);
+    });
+
+  });
+
+});
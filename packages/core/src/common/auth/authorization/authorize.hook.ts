@@ -0,0 +1,70 @@
+// FoalTS
+import {
+  ApiResponse,
+  Context,
+  Hook,
+  HookDecorator,
+  HttpResponseForbidden,
+  HttpResponseNotFound,
+  HttpResponseRedirect,
+  HttpResponseUnauthorized,
+  ServiceManager,
+} from '../../../core';
+import { AuthorizationService } from './authorization.service';
+import { PolicyLike } from './policy';
+
+/**
+ * Hook factory to check if the user can perform an action on a resource.
+ *
+ * The resource is retrieved with the `getResource` function. If it returns null or undefined,
+ * the hook returns an HttpResponseNotFound. The decision is then made by the `AuthorizationService`
+ * using the policy given in the options or the policy associated with the resource.
+ *
+ * @export
+ * @param {string} action - The action (ex: "update").
+ * @param {(ctx: Context, services: ServiceManager) => any} [getResource] - Function returning the
+ * resource (or a promise of it).
+ * @param {{ policy?: PolicyLike, redirect?: string, openapi?: boolean }} [options={}] - Hook options.
+ * @param {PolicyLike|undefined} options.policy - Policy to use instead of the one associated with the resource.
+ * @param {string|undefined} options.redirect - Optional URL path to redirect unauthenticated users.
+ * @param {boolean|undefined} options.openapi - Add OpenAPI metadata.
+ * @returns {HookDecorator} - The hook.
+ */
+export function Authorize(
+  action: string,
+  getResource?: (ctx: Context, services: ServiceManager) => any,
+  options: { policy?: PolicyLike, redirect?: string, openapi?: boolean } = {}
+): HookDecorator {
+  async function authorize(ctx: Context, services: ServiceManager) {
+    if (!ctx.user) {
+      if (options.redirect) {
+        return new HttpResponseRedirect(options.redirect);
+      }
+      return new HttpResponseUnauthorized();
+    }
+
+    let resource: any;
+    if (getResource) {
+      resource = await getResource(ctx, services);
+      if (resource === undefined || resource === null) {
+        return new HttpResponseNotFound();
+      }
+    }
+
+    if (!await services.get(AuthorizationService).can(ctx.user, action, resource, options.policy)) {
+      return new HttpResponseForbidden();
+    }
+  }
+
+  const openapi = [
+    options.redirect ?
+      ApiResponse(302, { description: 'Unauthenticated request.' }) :
+      ApiResponse(401, { description: 'Unauthenticated request.' }),
+    ApiResponse(403, { description: 'Permission denied.' })
+  ];
+  if (getResource) {
+    openapi.push(ApiResponse(404, { description: 'Resource not found.' }));
+  }
+
+  return Hook(authorize, openapi, { openapi: options.openapi });
+}
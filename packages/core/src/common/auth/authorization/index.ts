@@ -0,0 +1,3 @@
+export { AuthorizationService } from './authorization.service';
+export { Authorize } from './authorize.hook';
+export { allOf, anyOf, hasPermission, hasRole, IPolicy, isOwner, IUserWithRoles, PolicyLike } from './policy';
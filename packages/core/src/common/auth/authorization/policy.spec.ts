@@ -0,0 +1,154 @@
+// std
+import { strictEqual } from 'assert';
+
+// FoalTS
+import { dependency, ServiceManager } from '../../../core';
+import { allOf, anyOf, hasPermission, hasRole, IPolicy, isOwner } from './policy';
+
+describe('allOf', () => {
+
+  const allow: IPolicy = { can: () => true };
+  const deny: IPolicy = { can: async () => false };
+
+  it('should return a policy allowing the action only if all the policies allow it.', async () => {
+    const services = new ServiceManager();
+
+    strictEqual(await allOf(allow, allow).can(null, 'read', undefined, services), true);
+    strictEqual(await allOf(allow, deny).can(null, 'read', undefined, services), false);
+    strictEqual(await allOf().can(null, 'read', undefined, services), true);
+  });
+
+  it('should stop at the first denial.', async () => {
+    let called = false;
+    const spy: IPolicy = { can: () => called = true };
+
+    await allOf(deny, spy).can(null, 'read', undefined, new ServiceManager());
+
+    strictEqual(called, false);
+  });
+
+  it('should resolve the policy classes with the service manager.', async () => {
+    class Settings {
+      allowed = true;
+    }
+    class SettingsPolicy implements IPolicy {
+      @dependency
+      settings: Settings;
+
+      can() {
+        return this.settings.allowed;
+      }
+    }
+
+    const services = new ServiceManager();
+    services.get(Settings).allowed = false;
+
+    strictEqual(await allOf(allow, SettingsPolicy).can(null, 'read', undefined, services), false);
+  });
+
+});
+
+describe('anyOf', () => {
+
+  const allow: IPolicy = { can: () => true };
+  const deny: IPolicy = { can: async () => false };
+
+  it('should return a policy allowing the action if at least one of the policies allows it.', async () => {
+    const services = new ServiceManager();
+
+    strictEqual(await anyOf(deny, allow).can(null, 'read', undefined, services), true);
+    strictEqual(await anyOf(deny, deny).can(null, 'read', undefined, services), false);
+    strictEqual(await anyOf().can(null, 'read', undefined, services), false);
+  });
+
+  it('should stop at the first approval.', async () => {
+    let called = false;
+    const spy: IPolicy = { can: () => called = true };
+
+    await anyOf(allow, spy).can(null, 'read', undefined, new ServiceManager());
+
+    strictEqual(called, false);
+  });
+
+});
+
+describe('hasRole', () => {
+
+  it('should return a policy allowing the users having one of the roles.', () => {
+    const policy = hasRole('admin', 'editor');
+    const services = new ServiceManager();
+
+    strictEqual(policy.can({ roles: [ 'editor' ] }, 'update', undefined, services), true);
+    strictEqual(policy.can({ roles: [ 'reader' ] }, 'update', undefined, services), false);
+    strictEqual(policy.can({} as any, 'update', undefined, services), false);
+    strictEqual(policy.can(null, 'update', undefined, services), false);
+  });
+
+});
+
+describe('hasPermission', () => {
+
+  it('should return a policy allowing the users having the permission.', () => {
+    const policy = hasPermission('edit-posts');
+    const services = new ServiceManager();
+    const user = (perms: string[]) => ({ hasPerm: (perm: string) => perms.includes(perm) });
+
+    strictEqual(policy.can(user([ 'edit-posts' ]), 'update', undefined, services), true);
+    strictEqual(policy.can(user([]), 'update', undefined, services), false);
+    strictEqual(policy.can(null, 'update', undefined, services), false);
+  });
+
+});
+
+describe('isOwner', () => {
+
+  const services = new ServiceManager();
+
+  it('should return a policy allowing the owner of the resource.', () => {
+    const policy = isOwner();
+
+    strictEqual(policy.can({ id: 1 }, 'update', { ownerId: 1 }, services), true);
+    strictEqual(policy.can({ id: 1 }, 'update', { ownerId: '1' }, services), true);
+    strictEqual(policy.can({ id: 2 }, 'update', { ownerId: 1 }, services), false);
+    strictEqual(policy.can({ id: 1 }, 'update', {}, services), false);
+    strictEqual(policy.can({}, 'update', { ownerId: undefined }, services), false);
+    strictEqual(policy.can(null, 'update', { ownerId: 1 }, services), false);
+    strictEqual(policy.can({ id: 1 }, 'update', undefined, services), false);
+  });
+
+  it('should support custom property names and related objects.', () => {
+    const policy = isOwner({ ownerKey: 'author', userKey: '_id' });
+
+    strictEqual(policy.can({ _id: 'a' }, 'update', { author: { _id: 'a' } }, services), true);
+    strictEqual(policy.can({ _id: 'a' }, 'update', { author: 'a' }, services), true);
+    strictEqual(policy.can({ _id: 'a' }, 'update', { author: { _id: 'b' } }, services), false);
+  });
+
+  it('should not treat the MongoDB ObjectIds and the buffers as related objects.', () => {
+    // Same interface as the ObjectId class of the "bson" package.
+    class ObjectId {
+      get _bsontype() { return 'ObjectId'; }
+      readonly id: Buffer;
+      constructor(hex: string) { this.id = Buffer.from(hex, 'hex'); }
+      toString() { return this.id.toString('hex'); }
+    }
+
+    const policy = isOwner();
+    const ownerId = new ObjectId('65f1c2a4b8e9d0a1b2c3d4e5');
+
+    strictEqual(policy.can({ id: new ObjectId('65f1c2a4b8e9d0a1b2c3d4e5') }, 'update', { ownerId }, services), true);
+    strictEqual(policy.can({ id: '65f1c2a4b8e9d0a1b2c3d4e5' }, 'update', { ownerId }, services), true);
+    strictEqual(policy.can({ id: new ObjectId('65f1c2a4b8e9d0a1b2c3d4e6') }, 'update', { ownerId }, services), false);
+
+    const buffer = Buffer.from('a');
+    strictEqual(policy.can({ id: 'a' }, 'update', { ownerId: buffer }, services), true);
+  });
+
+  it('should support a function returning the owner ID.', () => {
+    const policy = isOwner({ getOwnerId: resource => resource.metadata.createdBy });
+
+    strictEqual(policy.can({ id: 1 }, 'update', { metadata: { createdBy: 1 } }, services), true);
+    strictEqual(policy.can({ id: 2 }, 'update', { metadata: { createdBy: 1 } }, services), false);
+  });
+
+});
@@ -0,0 +1,168 @@
+// FoalTS
+import { Class, ServiceManager } from '../../../core';
+import { IUserWithPermissions } from '../access';
+
+/**
+ * Policy deciding whether a user can perform an action on a resource.
+ *
+ * @export
+ * @interface IPolicy
+ * @template User
+ * @template Resource
+ */
+export interface IPolicy<User = any, Resource = any> {
+  /**
+   * @param {User} user - The user performing the action.
+   * @param {string} action - The action (ex: "read", "update").
+   * @param {Resource} resource - The resource, if any.
+   * @param {ServiceManager} services - The service manager (used to resolve nested policy classes).
+   * @returns {(boolean|Promise<boolean>)} True if the action is allowed.
+   */
+  can(user: User, action: string, resource: Resource, services: ServiceManager): boolean|Promise<boolean>;
+}
+
+/**
+ * Policy instance or policy class. Policy classes are instantiated by the service manager
+ * and can therefore have dependencies.
+ */
+export type PolicyLike<User = any, Resource = any> = IPolicy<User, Resource> | Class<IPolicy<User, Resource>>;
+
+/**
+ * User with roles (ex: `['admin', 'editor']`).
+ *
+ * @export
+ * @interface IUserWithRoles
+ */
+export interface IUserWithRoles {
+  roles: string[];
+}
+
+export async function checkPolicy(
+  policy: PolicyLike, user: any, action: string, resource: any, services: ServiceManager
+): Promise<boolean> {
+  const instance = typeof policy === 'function' ? services.get(policy) : policy;
+  return (await instance.can(user, action, resource, services)) === true;
+}
+
+/**
+ * Create a policy allowing an action only if all the given policies allow it.
+ *
+ * The policies are evaluated in order and the evaluation stops at the first denial.
+ *
+ * @export
+ * @param {...PolicyLike[]} policies - The policies.
+ * @returns {IPolicy} The composed policy.
+ */
+export function allOf(...policies: PolicyLike[]): IPolicy {
+  return {
+    async can(user, action, resource, services) {
+      for (const policy of policies) {
+        if (!await checkPolicy(policy, user, action, resource, services)) {
+          return false;
+        }
+      }
+      return true;
+    }
+  };
+}
+
+/**
+ * Create a policy allowing an action if at least one of the given policies allows it.
+ *
+ * The policies are evaluated in order and the evaluation stops at the first approval.
+ *
+ * @export
+ * @param {...PolicyLike[]} policies - The policies.
+ * @returns {IPolicy} The composed policy.
+ */
+export function anyOf(...policies: PolicyLike[]): IPolicy {
+  return {
+    async can(user, action, resource, services) {
+      for (const policy of policies) {
+        if (await checkPolicy(policy, user, action, resource, services)) {
+          return true;
+        }
+      }
+      return false;
+    }
+  };
+}
+
+/**
+ * Create a policy allowing any action to the users having at least one of the given roles.
+ *
+ * The user must implement the `IUserWithRoles` interface.
+ *
+ * @export
+ * @param {...string[]} roles - The roles.
+ * @returns {IPolicy<IUserWithRoles|null>} The policy.
+ */
+export function hasRole(...roles: string[]): IPolicy<IUserWithRoles|null> {
+  return {
+    can(user) {
+      return !!user && Array.isArray(user.roles) && roles.some(role => user.roles.includes(role));
+    }
+  };
+}
+
+/**
+ * Create a policy allowing any action to the users having the given permission.
+ *
+ * The user must implement the `IUserWithPermissions` interface.
+ *
+ * @export
+ * @param {string} perm - The name of the permission.
+ * @returns {IPolicy<IUserWithPermissions|null>} The policy.
+ */
+export function hasPermission(perm: string): IPolicy<IUserWithPermissions|null> {
+  return {
+    can(user) {
+      return !!user && typeof user.hasPerm === 'function' && user.hasPerm(perm);
+    }
+  };
+}
+
+function isRelatedObject(value: unknown): value is Record<string, any> {
+  // MongoDB ObjectIds have a "_bsontype" property (on their prototype) and an "id" property
+  // containing their bytes.
+  return typeof value === 'object' && value !== null && !Buffer.isBuffer(value) && !('_bsontype' in value);
+}
+
+/**
+ * Create a policy allowing any action to the owner of the resource.
+ *
+ * The owner is identified by the property `ownerKey` of the resource, which can be either
+ * an ID or a related object (ex: a loaded TypeORM relation). It is compared to the property
+ * `userKey` of the user. IDs are compared as strings so that numbers, strings and MongoDB
+ * ObjectIds can be used interchangeably. Buffers and ObjectIds are never treated as related
+ * objects, even though ObjectIds have an `id` property.
+ *
+ * The owner ID can also be returned by the `getOwnerId` option, in which case `ownerKey` is ignored.
+ *
+ * @export
+ * @param {{ ownerKey?: string, userKey?: string, getOwnerId?: (resource: any) => unknown }} [options={}] -
+ * The names of the properties (defaults: "ownerId" and "id") or the function returning the owner ID.
+ * @returns {IPolicy} The policy.
+ */
+export function isOwner(
+  { ownerKey = 'ownerId', userKey = 'id', getOwnerId }: {
+    ownerKey?: string, userKey?: string, getOwnerId?: (resource: any) => unknown
+  } = {}
+): IPolicy {
+  return {
+    can(user, action, resource) {
+      if (!user || !resource) {
+        return false;
+      }
+      const userId = user[userKey];
+      let ownerId: any = getOwnerId ? getOwnerId(resource) : resource[ownerKey];
+      if (!getOwnerId && isRelatedObject(ownerId) && userKey in ownerId) {
+        ownerId = ownerId[userKey];
+      }
+      if (userId === undefined || userId === null || ownerId === undefined || ownerId === null) {
+        return false;
+      }
+      return String(ownerId) === String(userId);
+    }
+  };
+}
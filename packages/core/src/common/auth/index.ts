@@ -1,2 +1,4 @@
 export * from './access';
+export * from './authorization';
+export * from './mfa';
 export * from './passwords';
\ No newline at end of file
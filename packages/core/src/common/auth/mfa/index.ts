@@ -0,0 +1,12 @@
+export { MfaRequired } from './mfa-required.hook';
+export { isMfaVerified, markMfaAsVerified, MfaSessionState } from './mfa-session';
+export { consumeRecoveryCode, generateRecoveryCodes, hashRecoveryCode } from './recovery-codes';
+export {
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  getTotpUri,
+  TotpOptions,
+  verifyTotp,
+  VerifyTotpOptions,
+} from './totp';
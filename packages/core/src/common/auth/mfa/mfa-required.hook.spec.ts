@@ -0,0 +1,117 @@
+// std
+import { deepStrictEqual, ok, strictEqual, throws } from 'assert';
+
+// FoalTS
+import {
+  Context,
+  createService,
+  getApiResponses,
+  getHookFunction,
+  HttpResponseForbidden,
+  HttpResponseRedirect,
+  HttpResponseUnauthorized,
+  IApiResponses,
+  ServiceManager,
+} from '../../../core';
+import { createSession, MemoryStore, Session } from '../../../sessions';
+import { MfaRequired } from './mfa-required.hook';
+import { markMfaAsVerified } from './mfa-session';
+
+describe('MfaRequired', () => {
+
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await createSession(createService(MemoryStore));
+  });
+
+  function createContext(user: any): Context {
+    const ctx = new Context({});
+    ctx.session = session;
+    ctx.user = user;
+    return ctx;
+  }
+
+  it('should throw an error if ctx.session is not defined.', () => {
+    const hook = getHookFunction(MfaRequired());
+
+    throws(
+      () => hook(new Context({}), new ServiceManager()),
+      new Error('[MfaRequired] ctx.session is not defined. The hook must be used after the UseSessions hook.')
+    );
+  });
+
+  it('should return an HttpResponseUnauthorized if the user is not authenticated.', () => {
+    const hook = getHookFunction(MfaRequired());
+
+    ok(hook(createContext(null), new ServiceManager()) instanceof HttpResponseUnauthorized);
+  });
+
+  it('should return an HttpResponseForbidden if the second factor was not completed.', () => {
+    const hook = getHookFunction(MfaRequired());
+
+    const response = hook(createContext({ id: 1 }), new ServiceManager());
+
+    ok(response instanceof HttpResponseForbidden);
+    deepStrictEqual(response.body, { code: 'mfa_required' });
+  });
+
+  it('should return an HttpResponseRedirect if the second factor was not completed and a redirect path was given.', () => {
+    const hook = getHookFunction(MfaRequired({ redirect: '/mfa' }));
+
+    const response = hook(createContext({ id: 1 }), new ServiceManager());
+
+    ok(response instanceof HttpResponseRedirect);
+    strictEqual(response.path, '/mfa');
+  });
+
+  it('should return an HttpResponseForbidden if the second factor was completed more than "maxAge" seconds ago.', () => {
+    const hook = getHookFunction(MfaRequired({ maxAge: 300 }));
+    session.set('mfa', { method: 'totp', verifiedAt: Math.floor(Date.now() / 1000) - 600 });
+
+    ok(hook(createContext({ id: 1 }), new ServiceManager()) instanceof HttpResponseForbidden);
+  });
+
+  it('should not return any response if the second factor was completed.', () => {
+    const hook = getHookFunction(MfaRequired({ maxAge: 300 }));
+    markMfaAsVerified(session);
+
+    strictEqual(hook(createContext({ id: 1 }), new ServiceManager()), undefined);
+  });
+
+  describe('should define an API specification', () => {
+
+    it('unless options.openapi is false', () => {
+      @MfaRequired({ openapi: false })
+      class Foobar {}
+
+      strictEqual(getApiResponses(Foobar), undefined);
+    });
+
+    it('with the proper API responses', () => {
+      @MfaRequired()
+      class Foobar {}
+
+      const expected: IApiResponses = {
+        401: { description: 'Unauthenticated request.' },
+        403: { description: 'Multi-factor authentication required.' },
+      };
+
+      deepStrictEqual(getApiResponses(Foobar), expected);
+    });
+
+    it('with the proper API responses (redirection)', () => {
+      @MfaRequired({ redirect: '/mfa' })
+      class Foobar {}
+
+      const expected: IApiResponses = {
+        302: { description: 'Multi-factor authentication required.' },
+        401: { description: 'Unauthenticated request.' },
+      };
+
+      deepStrictEqual(getApiResponses(Foobar), expected);
+    });
+
+  });
+
+});
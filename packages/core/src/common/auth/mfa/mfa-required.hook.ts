@@ -0,0 +1,52 @@
+// FoalTS
+import {
+  ApiResponse,
+  Context,
+  Hook,
+  HookDecorator,
+  HttpResponseForbidden,
+  HttpResponseRedirect,
+  HttpResponseUnauthorized,
+} from '../../../core';
+import { isMfaVerified } from './mfa-session';
+
+/**
+ * Hook factory to check that the user has completed the second factor of authentication
+ * (see `markMfaAsVerified`).
+ *
+ * It must be used after the `UseSessions` hook.
+ *
+ * @export
+ * @param {{ maxAge?: number, redirect?: string, openapi?: boolean }} [options={}] - Hook options.
+ * @param {number|undefined} options.maxAge - Maximum time (in seconds) since the second factor
+ * was completed. Use it to require a recent "step-up" verification for sensitive routes.
+ * @param {string|undefined} options.redirect - Optional URL path to redirect the users that have not
+ * completed the second factor.
+ * @param {boolean|undefined} options.openapi - Add OpenAPI metadata.
+ * @returns {HookDecorator} - The hook.
+ */
+export function MfaRequired(options: { maxAge?: number, redirect?: string, openapi?: boolean } = {}): HookDecorator {
+  function mfaRequired(ctx: Context) {
+    if (!ctx.session) {
+      throw new Error('[MfaRequired] ctx.session is not defined. The hook must be used after the UseSessions hook.');
+    }
+    if (!ctx.user) {
+      return new HttpResponseUnauthorized();
+    }
+    if (!isMfaVerified(ctx.session, options.maxAge)) {
+      if (options.redirect) {
+        return new HttpResponseRedirect(options.redirect);
+      }
+      return new HttpResponseForbidden({ code: 'mfa_required' });
+    }
+  }
+
+  const openapi = [
+    ApiResponse(401, { description: 'Unauthenticated request.' }),
+    options.redirect ?
+      ApiResponse(302, { description: 'Multi-factor authentication required.' }) :
+      ApiResponse(403, { description: 'Multi-factor authentication required.' }),
+  ];
+
+  return Hook(mfaRequired, openapi, { openapi: options.openapi });
+}
@@ -0,0 +1,45 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { createService } from '../../../core';
+import { createSession, MemoryStore } from '../../../sessions';
+import { isMfaVerified, markMfaAsVerified } from './mfa-session';
+
+describe('markMfaAsVerified', () => {
+
+  it('should save the method and the date of the verification in the session.', async () => {
+    const session = await createSession(createService(MemoryStore));
+
+    markMfaAsVerified(session, 'recovery-code');
+
+    deepStrictEqual(session.get('mfa'), { method: 'recovery-code', verifiedAt: Math.floor(Date.now() / 1000) });
+  });
+
+});
+
+describe('isMfaVerified', () => {
+
+  it('should return false if the second factor was not completed.', async () => {
+    const session = await createSession(createService(MemoryStore));
+
+    strictEqual(isMfaVerified(session), false);
+  });
+
+  it('should return true if the second factor was completed.', async () => {
+    const session = await createSession(createService(MemoryStore));
+    markMfaAsVerified(session);
+
+    strictEqual(isMfaVerified(session), true);
+    strictEqual(isMfaVerified(session, 60), true);
+  });
+
+  it('should return false if the second factor was completed more than "maxAge" seconds ago.', async () => {
+    const session = await createSession(createService(MemoryStore));
+    session.set('mfa', { method: 'totp', verifiedAt: Math.floor(Date.now() / 1000) - 120 });
+
+    strictEqual(isMfaVerified(session), true);
+    strictEqual(isMfaVerified(session, 60), false);
+  });
+
+});
@@ -0,0 +1,53 @@
+// FoalTS
+import { Session } from '../../../sessions';
+
+/**
+ * Content of the session key "mfa" set when the user completes the second factor.
+ *
+ * @export
+ * @interface MfaSessionState
+ */
+export interface MfaSessionState {
+  /**
+   * Method used to complete the second factor (ex: "totp", "recovery-code").
+   */
+  method: string;
+  /**
+   * Date (in seconds since the Unix epoch) at which the second factor was completed.
+   */
+  verifiedAt: number;
+}
+
+/**
+ * Save in the session that the user has completed the second factor.
+ *
+ * The session ID should be regenerated after the login (first factor) and before calling this
+ * function (see `Session.regenerateID`).
+ *
+ * @export
+ * @param {Session} session - The user session.
+ * @param {string} [method='totp'] - The method used (ex: "totp", "recovery-code").
+ */
+export function markMfaAsVerified(session: Session, method = 'totp'): void {
+  const state: MfaSessionState = { method, verifiedAt: Math.floor(Date.now() / 1000) };
+  session.set('mfa', state);
+}
+
+/**
+ * Check if the user has completed the second factor in this session.
+ *
+ * @export
+ * @param {Session} session - The user session.
+ * @param {number} [maxAge] - Maximum time (in seconds) since the second factor was completed.
+ * @returns {boolean} True if the second factor was completed (less than `maxAge` seconds ago).
+ */
+export function isMfaVerified(session: Session, maxAge?: number): boolean {
+  const state = session.get<MfaSessionState|null>('mfa', null);
+  if (!state || typeof state.verifiedAt !== 'number') {
+    return false;
+  }
+  if (maxAge !== undefined && Math.floor(Date.now() / 1000) - state.verifiedAt > maxAge) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,52 @@
+// std
+import { deepStrictEqual, notStrictEqual, ok, strictEqual } from 'assert';
+
+// FoalTS
+import { consumeRecoveryCode, generateRecoveryCodes, hashRecoveryCode } from './recovery-codes';
+
+describe('generateRecoveryCodes', () => {
+
+  it('should generate 10 random codes by default.', () => {
+    const codes = generateRecoveryCodes();
+
+    strictEqual(codes.length, 10);
+    strictEqual(new Set(codes).size, 10);
+    for (const code of codes) {
+      ok(/^[A-Z2-7]{4}-[A-Z2-7]{4}-[A-Z2-7]{4}$/.test(code), code);
+    }
+    strictEqual(generateRecoveryCodes(3).length, 3);
+  });
+
+});
+
+describe('hashRecoveryCode', () => {
+
+  it('should return a hash ignoring the case, the spaces and the dashes.', () => {
+    const hash = hashRecoveryCode('ABCD-EFGH-IJKL');
+
+    ok(/^[0-9a-f]{64}$/.test(hash));
+    strictEqual(hashRecoveryCode('abcd efgh ijkl'), hash);
+    notStrictEqual(hashRecoveryCode('ABCD-EFGH-IJKM'), hash);
+  });
+
+});
+
+describe('consumeRecoveryCode', () => {
+
+  it('should return the remaining hashes if the code is valid.', () => {
+    const codes = generateRecoveryCodes(3);
+    const hashedCodes = codes.map(hashRecoveryCode);
+
+    deepStrictEqual(consumeRecoveryCode(codes[1].toLowerCase(), hashedCodes), [ hashedCodes[0], hashedCodes[2] ]);
+  });
+
+  it('should return null if the code is invalid or already used.', () => {
+    const codes = generateRecoveryCodes(3);
+    const remainingHashes = consumeRecoveryCode(codes[0], codes.map(hashRecoveryCode)) as string[];
+
+    strictEqual(consumeRecoveryCode(codes[0], remainingHashes), null);
+    strictEqual(consumeRecoveryCode('AAAA-BBBB-CCCC', remainingHashes), null);
+    strictEqual(consumeRecoveryCode(codes[1], []), null);
+  });
+
+});
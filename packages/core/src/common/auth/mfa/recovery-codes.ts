@@ -0,0 +1,69 @@
+// std
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// FoalTS
+import { encodeBase32 } from '../../encoding';
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generate random recovery codes (ex: "K7XQ-2MPA-WZ4D").
+ *
+ * The codes must be displayed once to the user and only their hashes (see `hashRecoveryCode`)
+ * must be stored.
+ *
+ * @export
+ * @param {number} [count=10] - Number of codes.
+ * @returns {string[]} The recovery codes.
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  const codes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    // 60 bits of entropy.
+    const code = encodeBase32(randomBytes(8)).slice(0, 12);
+    codes.push(code.match(/.{4}/g)!.join('-'));
+  }
+  return codes;
+}
+
+/**
+ * Hash a recovery code.
+ *
+ * The recovery codes are random and long enough for a fast hash (SHA-256) to be used.
+ * The case, the spaces and the dashes are ignored.
+ *
+ * @export
+ * @param {string} code - The recovery code.
+ * @returns {string} The hex-encoded hash.
+ */
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Check a recovery code against the stored hashes and consume it.
+ *
+ * @export
+ * @param {string} code - The recovery code entered by the user.
+ * @param {string[]} hashedCodes - The hashes of the remaining recovery codes.
+ * @returns {(string[]|null)} The hashes of the remaining recovery codes (to be saved in place of the
+ * previous ones) or null if the code is invalid.
+ */
+export function consumeRecoveryCode(code: string, hashedCodes: string[]): string[]|null {
+  const hash = Buffer.from(hashRecoveryCode(code), 'hex');
+
+  let matchedIndex = -1;
+  hashedCodes.forEach((hashedCode, index) => {
+    const buffer = Buffer.from(hashedCode, 'hex');
+    if (buffer.length === hash.length && timingSafeEqual(buffer, hash)) {
+      matchedIndex = index;
+    }
+  });
+
+  if (matchedIndex === -1) {
+    return null;
+  }
+  return hashedCodes.filter((_, index) => index !== matchedIndex);
+}
@@ -0,0 +1,104 @@
+// std
+import { notStrictEqual, ok, strictEqual } from 'assert';
+
+// FoalTS
+import { encodeBase32 } from '../../encoding';
+import { generateTotp, generateTotpSecret, getTotpStep, getTotpUri, verifyTotp } from './totp';
+
+describe('generateTotpSecret', () => {
+
+  it('should generate a random base32-encoded secret of 20 bytes by default.', () => {
+    const secret = generateTotpSecret();
+
+    ok(/^[A-Z2-7]{32}$/.test(secret));
+    notStrictEqual(generateTotpSecret(), secret);
+    strictEqual(generateTotpSecret(10).length, 16);
+  });
+
+});
+
+describe('getTotpUri', () => {
+
+  it('should return the otpauth URI of the secret.', () => {
+    strictEqual(
+      getTotpUri({ accountName: 'mary@foalts.org', issuer: 'My App', secret: 'JBSWY3DPEHPK3PXP' }),
+      'otpauth://totp/My%20App:mary%40foalts.org?algorithm=SHA1&digits=6&issuer=My+App&period=30&secret=JBSWY3DPEHPK3PXP'
+    );
+  });
+
+  it('should include the custom options.', () => {
+    strictEqual(
+      getTotpUri({
+        accountName: 'mary', algorithm: 'SHA256', digits: 8, issuer: 'App', period: 60, secret: 'JBSWY3DPEHPK3PXP'
+      }),
+      'otpauth://totp/App:mary?algorithm=SHA256&digits=8&issuer=App&period=60&secret=JBSWY3DPEHPK3PXP'
+    );
+  });
+
+});
+
+describe('generateTotp', () => {
+
+  // Test vectors from RFC 6238 (Appendix B).
+  const sha1Secret = encodeBase32(Buffer.from('12345678901234567890'));
+  const sha256Secret = encodeBase32(Buffer.from('12345678901234567890123456789012'));
+  const sha512Secret = encodeBase32(Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'));
+
+  it('should generate the codes of RFC 6238.', () => {
+    const step = (seconds: number) => getTotpStep({ time: seconds * 1000 });
+
+    strictEqual(generateTotp(sha1Secret, step(59), { digits: 8 }), '94287082');
+    strictEqual(generateTotp(sha1Secret, step(1111111109), { digits: 8 }), '07081804');
+    strictEqual(generateTotp(sha1Secret, step(20000000000), { digits: 8 }), '65353130');
+    strictEqual(generateTotp(sha256Secret, step(59), { algorithm: 'SHA256', digits: 8 }), '46119246');
+    strictEqual(generateTotp(sha512Secret, step(59), { algorithm: 'SHA512', digits: 8 }), '90693936');
+  });
+
+  it('should generate codes of 6 digits by default.', () => {
+    strictEqual(generateTotp(sha1Secret, 1), '287082');
+  });
+
+});
+
+describe('verifyTotp', () => {
+
+  const secret = generateTotpSecret();
+  const time = Date.UTC(2024, 0, 1);
+  const currentStep = getTotpStep({ time });
+
+  it('should return the time step if the code is valid.', () => {
+    strictEqual(verifyTotp(generateTotp(secret, currentStep), secret, { time }), currentStep);
+  });
+
+  it('should ignore the spaces.', () => {
+    const code = generateTotp(secret, currentStep);
+
+    strictEqual(verifyTotp(`${code.slice(0, 3)} ${code.slice(3)}`, secret, { time }), currentStep);
+  });
+
+  it('should accept the codes of the adjacent time steps (clock drift).', () => {
+    strictEqual(verifyTotp(generateTotp(secret, currentStep - 1), secret, { time }), currentStep - 1);
+    strictEqual(verifyTotp(generateTotp(secret, currentStep + 1), secret, { time }), currentStep + 1);
+    strictEqual(verifyTotp(generateTotp(secret, currentStep - 2), secret, { time }), null);
+    strictEqual(verifyTotp(generateTotp(secret, currentStep - 2), secret, { time, window: 2 }), currentStep - 2);
+    strictEqual(verifyTotp(generateTotp(secret, currentStep - 1), secret, { time, window: 0 }), null);
+  });
+
+  it('should reject the codes of the time steps already used (replay protection).', () => {
+    const code = generateTotp(secret, currentStep);
+
+    strictEqual(verifyTotp(code, secret, { lastUsedStep: currentStep, time }), null);
+    strictEqual(verifyTotp(code, secret, { lastUsedStep: currentStep - 1, time }), currentStep);
+    strictEqual(verifyTotp(generateTotp(secret, currentStep - 1), secret, { lastUsedStep: currentStep - 1, time }), null);
+  });
+
+  it('should return null if the code is invalid.', () => {
+    const code = generateTotp(secret, currentStep);
+    const wrongCode = ((Number(code) + 1) % 1000000).toString().padStart(6, '0');
+
+    strictEqual(verifyTotp(wrongCode, secret, { time, window: 0 }), null);
+    strictEqual(verifyTotp('12345', secret, { time }), null);
+    strictEqual(verifyTotp('abcdef', secret, { time }), null);
+  });
+
+});
@@ -0,0 +1,142 @@
+// std
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// FoalTS
+import { decodeBase32, encodeBase32 } from '../../encoding';
+
+export interface TotpOptions {
+  /**
+   * HMAC algorithm. Default: "SHA1" (the only one supported by most authenticator apps).
+   */
+  algorithm?: 'SHA1'|'SHA256'|'SHA512';
+  /**
+   * Number of digits of the codes. Default: 6.
+   */
+  digits?: number;
+  /**
+   * Lifetime of a code in seconds. Default: 30.
+   */
+  period?: number;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  /**
+   * Number of periods before and after the current one during which a code is still accepted
+   * (clock drift). Default: 1.
+   */
+  window?: number;
+  /**
+   * Time step returned by the last successful verification. The codes of this time step and
+   * of the previous ones are rejected to prevent replay attacks.
+   */
+  lastUsedStep?: number;
+  /**
+   * Current time in milliseconds. Default: `Date.now()`.
+   */
+  time?: number;
+}
+
+/**
+ * Generate a random TOTP secret encoded in base32.
+ *
+ * @export
+ * @param {number} [size=20] - Size of the secret in bytes.
+ * @returns {string} The base32-encoded secret.
+ */
+export function generateTotpSecret(size = 20): string {
+  return encodeBase32(randomBytes(size));
+}
+
+/**
+ * Build the `otpauth://` URI of a TOTP secret. This URI is usually displayed as a QR code
+ * to be scanned by an authenticator app.
+ *
+ * @export
+ * @param {{ secret: string, accountName: string, issuer: string } & TotpOptions} options - The secret,
+ * the name of the user account (ex: an email) and the name of the application.
+ * @returns {string} The URI.
+ */
+export function getTotpUri(
+  { secret, accountName, issuer, algorithm = 'SHA1', digits = 6, period = 30 }:
+    { secret: string, accountName: string, issuer: string } & TotpOptions
+): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    algorithm,
+    digits: digits.toString(),
+    issuer,
+    period: period.toString(),
+    secret,
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Generate the TOTP code (RFC 6238) of a time step.
+ *
+ * @export
+ * @param {string} secret - The base32-encoded secret.
+ * @param {number} step - The time step (number of periods since the Unix epoch).
+ * @param {TotpOptions} [options={}] - The TOTP options.
+ * @returns {string} The code.
+ */
+export function generateTotp(secret: string, step: number, { algorithm = 'SHA1', digits = 6 }: TotpOptions = {}): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  // Dynamic truncation (RFC 4226).
+  const hmac = createHmac(algorithm.toLowerCase(), decodeBase32(secret)).update(counter).digest();
+  // tslint:disable-next-line:no-bitwise
+  const offset = hmac[hmac.length - 1] & 0xf;
+  // tslint:disable-next-line:no-bitwise
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Get the current TOTP time step.
+ *
+ * @export
+ * @param {{ period?: number, time?: number }} [options={}] - The period in seconds (default: 30) and the
+ * time in milliseconds (default: now).
+ * @returns {number} The time step.
+ */
+export function getTotpStep({ period = 30, time = Date.now() }: { period?: number, time?: number } = {}): number {
+  return Math.floor(time / 1000 / period);
+}
+
+/**
+ * Verify a TOTP code.
+ *
+ * If the code is valid, the function returns the matched time step. It must be saved (for example in
+ * the user record) and passed as `lastUsedStep` to the next verification so that the same code
+ * cannot be used twice.
+ *
+ * @export
+ * @param {string} code - The code entered by the user.
+ * @param {string} secret - The base32-encoded secret.
+ * @param {VerifyTotpOptions} [options={}] - The verification options.
+ * @returns {(number|null)} The matched time step or null if the code is invalid.
+ */
+export function verifyTotp(code: string, secret: string, options: VerifyTotpOptions = {}): number|null {
+  const { window = 1, lastUsedStep, time, period, digits = 6 } = options;
+
+  const normalizedCode = code.replace(/\s/g, '');
+  if (normalizedCode.length !== digits || !/^\d+$/.test(normalizedCode)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep({ period, time });
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    if (lastUsedStep !== undefined && step <= lastUsedStep) {
+      continue;
+    }
+    const expectedCode = generateTotp(secret, step, options);
+    if (timingSafeEqual(Buffer.from(expectedCode), Buffer.from(normalizedCode))) {
+      return step;
+    }
+  }
+
+  return null;
+}
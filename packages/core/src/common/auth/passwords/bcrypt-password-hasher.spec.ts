@@ -0,0 +1,69 @@
+// std
+import { deepStrictEqual, rejects, strictEqual } from 'assert';
+
+// FoalTS
+import { Config } from '../../../core';
+import { BcryptPasswordHasher } from './bcrypt-password-hasher';
+
+describe('BcryptPasswordHasher', () => {
+
+  const passwordHash = '$2b$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy';
+
+  afterEach(() => Config.remove('settings.password.bcrypt.rounds'));
+
+  it('should recognize the bcrypt password hashes.', () => {
+    const hasher = new BcryptPasswordHasher();
+
+    strictEqual(hasher.recognizes(passwordHash), true);
+    strictEqual(hasher.recognizes('$2a$10$xxx'), true);
+    strictEqual(hasher.recognizes('$2y$10$xxx'), true);
+    strictEqual(hasher.recognizes('pbkdf2_sha256$600000$salt$key'), false);
+  });
+
+  it('should tell if the number of rounds of the password hash is lower than the current one.', () => {
+    const hasher = new BcryptPasswordHasher();
+
+    strictEqual(hasher.needsRehash(passwordHash), true);
+
+    Config.set('settings.password.bcrypt.rounds', 10);
+    strictEqual(hasher.needsRehash(passwordHash), false);
+  });
+
+  it('should use the bcrypt package to hash and verify the passwords.', async () => {
+    const calls: any[] = [];
+    class BcryptPasswordHasher2 extends BcryptPasswordHasher {
+      protected getBcrypt() {
+        return {
+          compare: async (data: string, encrypted: string) => { calls.push([ 'compare', data, encrypted ]); return true; },
+          hash: async (data: string, rounds: number) => { calls.push([ 'hash', data, rounds ]); return 'hash'; },
+        };
+      }
+    }
+    const hasher = new BcryptPasswordHasher2();
+
+    strictEqual(await hasher.hash('hello world'), 'hash');
+    strictEqual(await hasher.verify('hello world', passwordHash), true);
+
+    deepStrictEqual(calls, [
+      [ 'hash', 'hello world', 12 ],
+      [ 'compare', 'hello world', passwordHash ],
+    ]);
+  });
+
+  it('should throw an error if the bcrypt package is not installed.', async function () {
+    try {
+      require.resolve('bcrypt');
+      this.skip();
+    } catch {}
+    try {
+      require.resolve('bcryptjs');
+      this.skip();
+    } catch {}
+
+    await rejects(
+      () => new BcryptPasswordHasher().verify('hello world', passwordHash),
+      new Error('The password hash was generated with bcrypt. Install the package "bcrypt" or "bcryptjs" to use it.')
+    );
+  });
+
+});
@@ -0,0 +1,60 @@
+// FoalTS
+import { Config } from '../../../core';
+import { PasswordHasher } from './password-hasher';
+
+interface BcryptModule {
+  hash(data: string, rounds: number): Promise<string>;
+  compare(data: string, encrypted: string): Promise<boolean>;
+}
+
+/**
+ * Password hasher using bcrypt. It is mostly useful to verify the password hashes
+ * of a legacy application.
+ *
+ * It requires the optional package "bcrypt" (or "bcryptjs") to be installed. The number
+ * of rounds can be changed with the configuration key "settings.password.bcrypt.rounds" (default: 12).
+ *
+ * Hash format: `$2b$<rounds>$<salt and hash>` (`$2a$` and `$2y$` are also recognized).
+ *
+ * @export
+ * @class BcryptPasswordHasher
+ * @implements {PasswordHasher}
+ */
+export class BcryptPasswordHasher implements PasswordHasher {
+  readonly algorithm = 'bcrypt';
+
+  recognizes(passwordHash: string): boolean {
+    return /^\$2[aby]\$\d{2}\$/.test(passwordHash);
+  }
+
+  async hash(plainTextPassword: string): Promise<string> {
+    return this.getBcrypt().hash(plainTextPassword, this.getRounds());
+  }
+
+  async verify(plainTextPassword: string, passwordHash: string): Promise<boolean> {
+    return this.getBcrypt().compare(plainTextPassword, passwordHash);
+  }
+
+  needsRehash(passwordHash: string): boolean {
+    return parseInt(passwordHash.split('$')[2], 10) < this.getRounds();
+  }
+
+  protected getBcrypt(): BcryptModule {
+    for (const name of [ 'bcrypt', 'bcryptjs' ]) {
+      try {
+        return require(name);
+      } catch (error: any) {
+        if (error.code !== 'MODULE_NOT_FOUND') {
+          throw error;
+        }
+      }
+    }
+    throw new Error(
+      'The password hash was generated with bcrypt. Install the package "bcrypt" or "bcryptjs" to use it.'
+    );
+  }
+
+  private getRounds(): number {
+    return Config.get('settings.password.bcrypt.rounds', 'number', 12);
+  }
+}
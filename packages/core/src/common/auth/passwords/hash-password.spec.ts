@@ -3,6 +3,7 @@ import { strictEqual } from 'assert';
 import { pbkdf2Sync } from 'crypto';
 
 // FoalTS
+import { Config } from '../../../core';
 import { hashPassword } from './hash-password';
 
 describe('hashPassword', () => {
@@ -24,4 +25,24 @@ describe('hashPassword', () => {
     strictEqual(derivedKey, expectedBuffer.toString('base64'));
   });
 
+  context('given the configuration key "settings.password.algorithm" is "scrypt"', () => {
+
+    beforeEach(() => {
+      Config.set('settings.password.algorithm', 'scrypt');
+      Config.set('settings.password.scrypt.cost', 1024);
+    });
+
+    afterEach(() => {
+      Config.remove('settings.password.algorithm');
+      Config.remove('settings.password.scrypt.cost');
+    });
+
+    it('should hash the plain password with scrypt.', async () => {
+      const actual = await hashPassword('hello world');
+
+      strictEqual(actual.split('$')[0], 'scrypt');
+    });
+
+  });
+
 });
@@ -1,3 +1,7 @@
+export { BcryptPasswordHasher } from './bcrypt-password-hasher';
 export { hashPassword } from './hash-password';
+export { getPasswordHasher, PasswordHasher, registerPasswordHasher } from './password-hasher';
 export { passwordHashNeedsToBeRefreshed } from './password-hash-needs-to-be-refreshed';
+export { Pbkdf2PasswordHasher } from './pbkdf2-password-hasher';
+export { ScryptPasswordHasher } from './scrypt-password-hasher';
 export { verifyPassword } from './verify-password';
\ No newline at end of file
@@ -1,7 +1,8 @@
 // std
-import { strictEqual } from 'assert';
+import { strictEqual, throws } from 'assert';
 
 // FoalTS
+import { Config } from '../../../core';
 import { PASSWORD_ITERATIONS } from './hash-password';
 import { passwordHashNeedsToBeRefreshed } from './password-hash-needs-to-be-refreshed';
 
@@ -22,4 +23,20 @@ describe('passwordHashNeedsToBeRefreshed', () => {
     const passwordHash = createPasswordHash(PASSWORD_ITERATIONS);
     strictEqual(passwordHashNeedsToBeRefreshed(passwordHash), false);
   });
+  it('should return true if the password hash was generated with another algorithm.', () => {
+    strictEqual(passwordHashNeedsToBeRefreshed('$2b$12$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy'), true);
+    strictEqual(passwordHashNeedsToBeRefreshed('scrypt$65536$8$2$salt$derivedKey'), true);
+
+    Config.set('settings.password.algorithm', 'scrypt');
+    try {
+      strictEqual(passwordHashNeedsToBeRefreshed(createPasswordHash(PASSWORD_ITERATIONS)), true);
+      strictEqual(passwordHashNeedsToBeRefreshed('scrypt$65536$8$2$salt$derivedKey'), false);
+      strictEqual(passwordHashNeedsToBeRefreshed('scrypt$16384$8$2$salt$derivedKey'), true);
+    } finally {
+      Config.remove('settings.password.algorithm');
+    }
+  });
+  it('should throw an error if the format of the password hash is unknown.', () => {
+    throws(() => passwordHashNeedsToBeRefreshed('foobar'), new Error('Invalid algorithm.'));
+  });
 });
\ No newline at end of file
@@ -1,7 +1,19 @@
-import { PASSWORD_ITERATIONS } from './hash-password';
-import { decomposePbkdf2PasswordHash } from './utils';
+import { getPasswordHasher, getPasswordHasherOf } from './password-hasher';
 
+/**
+ * Check if a password hash must be regenerated with the current algorithm and cost parameters
+ * (see `hashPassword`). This is usually done when the user logs in.
+ *
+ * @export
+ * @param {string} passwordHash - The password hash.
+ * @returns {boolean} True if the hash was generated with another algorithm or with lower cost parameters.
+ */
 export function passwordHashNeedsToBeRefreshed(passwordHash: string): boolean {
-  const { iterations } = decomposePbkdf2PasswordHash(passwordHash);
-  return iterations < PASSWORD_ITERATIONS;
-}
\ No newline at end of file
+  const hasher = getPasswordHasher();
+  if (hasher.recognizes(passwordHash)) {
+    return hasher.needsRehash(passwordHash);
+  }
+  // Throw an error if the format is unknown.
+  getPasswordHasherOf(passwordHash);
+  return true;
+}
@@ -0,0 +1,71 @@
+// std
+import { strictEqual, throws } from 'assert';
+
+// FoalTS
+import { Config } from '../../../core';
+import { BcryptPasswordHasher } from './bcrypt-password-hasher';
+import { getPasswordHasher, getPasswordHasherOf, PasswordHasher, registerPasswordHasher } from './password-hasher';
+import { Pbkdf2PasswordHasher } from './pbkdf2-password-hasher';
+import { ScryptPasswordHasher } from './scrypt-password-hasher';
+
+describe('getPasswordHasher', () => {
+
+  afterEach(() => Config.remove('settings.password.algorithm'));
+
+  it('should return the PBKDF2 hasher by default.', () => {
+    strictEqual(getPasswordHasher() instanceof Pbkdf2PasswordHasher, true);
+  });
+
+  it('should return the hasher specified in the configuration.', () => {
+    Config.set('settings.password.algorithm', 'scrypt');
+    strictEqual(getPasswordHasher() instanceof ScryptPasswordHasher, true);
+
+    Config.set('settings.password.algorithm', 'bcrypt');
+    strictEqual(getPasswordHasher() instanceof BcryptPasswordHasher, true);
+  });
+
+  it('should throw an error if the algorithm is unknown.', () => {
+    Config.set('settings.password.algorithm', 'md5');
+
+    throws(
+      () => getPasswordHasher(),
+      /^Error: \[CONFIG\] Unknown password algorithm "md5" in "settings.password.algorithm". Supported algorithms: /
+    );
+  });
+
+});
+
+describe('getPasswordHasherOf', () => {
+
+  it('should return the hasher recognizing the password hash.', () => {
+    strictEqual(getPasswordHasherOf('pbkdf2_sha256$600000$salt$key') instanceof Pbkdf2PasswordHasher, true);
+    strictEqual(getPasswordHasherOf('scrypt$1024$8$1$salt$key') instanceof ScryptPasswordHasher, true);
+    strictEqual(getPasswordHasherOf('$2b$10$xxx') instanceof BcryptPasswordHasher, true);
+  });
+
+  it('should throw an error if no hasher recognizes the password hash.', () => {
+    throws(() => getPasswordHasherOf('foobar'), new Error('Invalid algorithm.'));
+  });
+
+});
+
+describe('registerPasswordHasher', () => {
+
+  afterEach(() => Config.remove('settings.password.algorithm'));
+
+  it('should register a custom password hasher.', async () => {
+    const hasher: PasswordHasher = {
+      algorithm: 'reverse',
+      hash: async password => `reverse$${password.split('').reverse().join('')}`,
+      needsRehash: () => false,
+      recognizes: passwordHash => passwordHash.startsWith('reverse$'),
+      verify: async (password, passwordHash) => passwordHash === `reverse$${password.split('').reverse().join('')}`,
+    };
+    registerPasswordHasher(hasher);
+    Config.set('settings.password.algorithm', 'reverse');
+
+    strictEqual(getPasswordHasher(), hasher);
+    strictEqual(getPasswordHasherOf('reverse$cba'), hasher);
+  });
+
+});
@@ -0,0 +1,79 @@
+// FoalTS
+import { Config } from '../../../core';
+import { BcryptPasswordHasher } from './bcrypt-password-hasher';
+import { Pbkdf2PasswordHasher } from './pbkdf2-password-hasher';
+import { ScryptPasswordHasher } from './scrypt-password-hasher';
+
+/**
+ * Strategy used to hash and verify passwords.
+ *
+ * @export
+ * @interface PasswordHasher
+ */
+export interface PasswordHasher {
+  /**
+   * Name of the algorithm used in the configuration key "settings.password.algorithm".
+   */
+  readonly algorithm: string;
+  /**
+   * Return true if the password hash was generated by this algorithm.
+   */
+  recognizes(passwordHash: string): boolean;
+  hash(plainTextPassword: string): Promise<string>;
+  verify(plainTextPassword: string, passwordHash: string): Promise<boolean>;
+  /**
+   * Return true if the cost parameters of the password hash are lower than the current ones.
+   */
+  needsRehash(passwordHash: string): boolean;
+}
+
+const hashers: PasswordHasher[] = [
+  new Pbkdf2PasswordHasher(),
+  new ScryptPasswordHasher(),
+  new BcryptPasswordHasher(),
+];
+
+/**
+ * Register a password hasher. Hashers registered later take precedence over the previous
+ * ones when they use the same algorithm name.
+ *
+ * @export
+ * @param {PasswordHasher} hasher - The password hasher.
+ */
+export function registerPasswordHasher(hasher: PasswordHasher): void {
+  hashers.unshift(hasher);
+}
+
+/**
+ * Get the password hasher selected with the configuration key "settings.password.algorithm"
+ * (default: "pbkdf2").
+ *
+ * @export
+ * @returns {PasswordHasher} The password hasher.
+ */
+export function getPasswordHasher(): PasswordHasher {
+  const algorithm = Config.get('settings.password.algorithm', 'string', 'pbkdf2');
+  const hasher = hashers.find(h => h.algorithm === algorithm);
+  if (!hasher) {
+    throw new Error(
+      `[CONFIG] Unknown password algorithm "${algorithm}" in "settings.password.algorithm". `
+      + `Supported algorithms: ${Array.from(new Set(hashers.map(h => h.algorithm))).join(', ')}.`
+    );
+  }
+  return hasher;
+}
+
+/**
+ * Get the password hasher able to verify a password hash.
+ *
+ * @export
+ * @param {string} passwordHash - The password hash.
+ * @returns {PasswordHasher} The password hasher.
+ */
+export function getPasswordHasherOf(passwordHash: string): PasswordHasher {
+  const hasher = hashers.find(h => h.recognizes(passwordHash));
+  if (!hasher) {
+    throw new Error('Invalid algorithm.');
+  }
+  return hasher;
+}
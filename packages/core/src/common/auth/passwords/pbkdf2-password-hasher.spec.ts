@@ -0,0 +1,32 @@
+// std
+import { ok, strictEqual } from 'assert';
+
+// FoalTS
+import { Config } from '../../../core';
+import { Pbkdf2PasswordHasher } from './pbkdf2-password-hasher';
+
+describe('Pbkdf2PasswordHasher', () => {
+
+  const hasher = new Pbkdf2PasswordHasher();
+
+  afterEach(() => Config.remove('settings.password.pbkdf2.iterations'));
+
+  it('should recognize the PBKDF2 password hashes.', () => {
+    strictEqual(hasher.recognizes('pbkdf2_sha256$600000$salt$key'), true);
+    strictEqual(hasher.recognizes('scrypt$1024$8$1$salt$key'), false);
+  });
+
+  it('should use the number of iterations specified in the configuration.', async () => {
+    Config.set('settings.password.pbkdf2.iterations', 1000);
+
+    const passwordHash = await hasher.hash('hello world');
+
+    strictEqual(passwordHash.split('$')[1], '1000');
+    ok(await hasher.verify('hello world', passwordHash));
+    strictEqual(hasher.needsRehash(passwordHash), false);
+
+    Config.set('settings.password.pbkdf2.iterations', 2000);
+    strictEqual(hasher.needsRehash(passwordHash), true);
+  });
+
+});
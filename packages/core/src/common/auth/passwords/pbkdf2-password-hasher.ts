@@ -0,0 +1,65 @@
+// std
+import { pbkdf2, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+// FoalTS
+import { Config } from '../../../core';
+import { PasswordHasher } from './password-hasher';
+import { decomposePbkdf2PasswordHash } from './utils';
+
+export const PASSWORD_ITERATIONS = 600000;
+
+/**
+ * Password hasher using PBKDF2 + HMAC + SHA256.
+ *
+ * The random salt is 16 bytes long and the derived key is 32 bytes long. The number
+ * of iterations is 600,000 by default and can be changed with the configuration key
+ * "settings.password.pbkdf2.iterations".
+ *
+ * Hash format: `pbkdf2_sha256$<iterations>$<salt>$<derived key>`.
+ *
+ * @export
+ * @class Pbkdf2PasswordHasher
+ * @implements {PasswordHasher}
+ */
+export class Pbkdf2PasswordHasher implements PasswordHasher {
+  readonly algorithm = 'pbkdf2';
+
+  recognizes(passwordHash: string): boolean {
+    return passwordHash.startsWith('pbkdf2_');
+  }
+
+  async hash(plainTextPassword: string): Promise<string> {
+    const saltBuffer = await promisify(randomBytes)(16);
+    const iterations = this.getIterations();
+    const keylen = 32;
+    const digest = 'sha256';
+    const derivedKeyBuffer = await promisify(pbkdf2)(plainTextPassword, saltBuffer, iterations, keylen, digest);
+
+    const salt = saltBuffer.toString('base64');
+    const derivedKey = derivedKeyBuffer.toString('base64');
+    return `pbkdf2_${digest}$${iterations}$${salt}$${derivedKey}`;
+  }
+
+  async verify(plainTextPassword: string, passwordHash: string): Promise<boolean> {
+    const { digestAlgorithm, iterations, salt, derivedKey, keyLength } = decomposePbkdf2PasswordHash(passwordHash);
+
+    const password = await promisify(pbkdf2)(
+      plainTextPassword,
+      salt,
+      iterations,
+      keyLength,
+      digestAlgorithm
+    );
+    return timingSafeEqual(password, derivedKey);
+  }
+
+  needsRehash(passwordHash: string): boolean {
+    const { iterations } = decomposePbkdf2PasswordHash(passwordHash);
+    return iterations < this.getIterations();
+  }
+
+  private getIterations(): number {
+    return Config.get('settings.password.pbkdf2.iterations', 'number', PASSWORD_ITERATIONS);
+  }
+}
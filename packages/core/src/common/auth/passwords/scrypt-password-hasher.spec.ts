@@ -0,0 +1,66 @@
+// std
+import { ok, strictEqual, throws } from 'assert';
+import { scryptSync } from 'crypto';
+
+// FoalTS
+import { Config } from '../../../core';
+import { ScryptPasswordHasher } from './scrypt-password-hasher';
+
+describe('ScryptPasswordHasher', () => {
+
+  const hasher = new ScryptPasswordHasher();
+
+  beforeEach(() => {
+    // Low cost to speed up the tests.
+    Config.set('settings.password.scrypt.cost', 1024);
+    Config.set('settings.password.scrypt.parallelization', 1);
+  });
+
+  afterEach(() => {
+    Config.remove('settings.password.scrypt.cost');
+    Config.remove('settings.password.scrypt.parallelization');
+    Config.remove('settings.password.scrypt.blockSize');
+  });
+
+  it('should recognize the scrypt password hashes.', () => {
+    strictEqual(hasher.recognizes('scrypt$1024$8$1$salt$key'), true);
+    strictEqual(hasher.recognizes('pbkdf2_sha256$600000$salt$key'), false);
+  });
+
+  it('should hash the password into a 32-byte derived key with a 16-byte random salt.', async () => {
+    const passwordHash = await hasher.hash('hello world');
+
+    const [ algorithm, N, r, p, salt, derivedKey ] = passwordHash.split('$');
+    strictEqual(algorithm, 'scrypt');
+    strictEqual(N, '1024');
+    strictEqual(r, '8');
+    strictEqual(p, '1');
+    strictEqual(Buffer.from(salt, 'base64').length, 16);
+
+    const expected = scryptSync('hello world', Buffer.from(salt, 'base64'), 32, { N: 1024, p: 1, r: 8 });
+    strictEqual(derivedKey, expected.toString('base64'));
+  });
+
+  it('should verify the password hashes.', async () => {
+    const passwordHash = await hasher.hash('hello world');
+
+    ok(await hasher.verify('hello world', passwordHash));
+    strictEqual(await hasher.verify('wrong password', passwordHash), false);
+  });
+
+  it('should throw an error if the password hash is malformed.', async () => {
+    throws(() => hasher.needsRehash('scrypt$foo$8$1$salt$key'), new Error('Invalid password format.'));
+    throws(() => hasher.needsRehash('scrypt$1024$8$1$salt'), new Error('Invalid password format.'));
+  });
+
+  it('should tell if the cost parameters of the password hash are lower than the current ones.', () => {
+    strictEqual(hasher.needsRehash('scrypt$1024$8$1$salt$key'), false);
+    strictEqual(hasher.needsRehash('scrypt$2048$8$1$salt$key'), false);
+    strictEqual(hasher.needsRehash('scrypt$512$8$1$salt$key'), true);
+    strictEqual(hasher.needsRehash('scrypt$1024$4$1$salt$key'), true);
+
+    Config.set('settings.password.scrypt.parallelization', 2);
+    strictEqual(hasher.needsRehash('scrypt$1024$8$1$salt$key'), true);
+  });
+
+});
@@ -0,0 +1,93 @@
+// std
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+// FoalTS
+import { Config } from '../../../core';
+import { PasswordHasher } from './password-hasher';
+
+function scryptAsync(password: string, salt: Buffer, keylen: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keylen, options, (err, derivedKey) => err ? reject(err) : resolve(derivedKey));
+  });
+}
+
+interface ScryptCost {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * Password hasher using scrypt.
+ *
+ * The random salt is 16 bytes long and the derived key is 32 bytes long. The cost parameters
+ * can be changed with the configuration keys "settings.password.scrypt.cost" (N, default: 65536),
+ * "settings.password.scrypt.blockSize" (r, default: 8) and "settings.password.scrypt.parallelization"
+ * (p, default: 2).
+ *
+ * Hash format: `scrypt$<N>$<r>$<p>$<salt>$<derived key>`.
+ *
+ * @export
+ * @class ScryptPasswordHasher
+ * @implements {PasswordHasher}
+ */
+export class ScryptPasswordHasher implements PasswordHasher {
+  readonly algorithm = 'scrypt';
+
+  recognizes(passwordHash: string): boolean {
+    return passwordHash.startsWith('scrypt$');
+  }
+
+  async hash(plainTextPassword: string): Promise<string> {
+    const { N, r, p } = this.getCost();
+    const saltBuffer = await promisify(randomBytes)(16);
+    const derivedKeyBuffer = await scryptAsync(plainTextPassword, saltBuffer, 32, this.getOptions({ N, r, p }));
+
+    return `scrypt$${N}$${r}$${p}$${saltBuffer.toString('base64')}$${derivedKeyBuffer.toString('base64')}`;
+  }
+
+  async verify(plainTextPassword: string, passwordHash: string): Promise<boolean> {
+    const { cost, salt, derivedKey } = this.decompose(passwordHash);
+
+    const password = await scryptAsync(plainTextPassword, salt, derivedKey.length, this.getOptions(cost));
+    return timingSafeEqual(password, derivedKey);
+  }
+
+  needsRehash(passwordHash: string): boolean {
+    const { cost } = this.decompose(passwordHash);
+    const currentCost = this.getCost();
+    return cost.N < currentCost.N || cost.r < currentCost.r || cost.p < currentCost.p;
+  }
+
+  private getCost(): ScryptCost {
+    return {
+      N: Config.get('settings.password.scrypt.cost', 'number', 65536),
+      p: Config.get('settings.password.scrypt.parallelization', 'number', 2),
+      r: Config.get('settings.password.scrypt.blockSize', 'number', 8),
+    };
+  }
+
+  private getOptions({ N, r, p }: ScryptCost): ScryptOptions {
+    // The default memory limit of Node (32 MB) is too low for the recommended parameters.
+    return { N, maxmem: 256 * N * r, p, r };
+  }
+
+  private decompose(passwordHash: string): { cost: ScryptCost, salt: Buffer, derivedKey: Buffer } {
+    const [ algorithm, N, r, p, saltInBase64, derivedKeyInBase64 ] = passwordHash.split('$');
+    if (algorithm !== 'scrypt') {
+      throw new Error('Invalid algorithm.');
+    }
+
+    const cost = { N: parseInt(N, 10), p: parseInt(p, 10), r: parseInt(r, 10) };
+    if (isNaN(cost.N) || isNaN(cost.r) || isNaN(cost.p) || !saltInBase64 || !derivedKeyInBase64) {
+      throw new Error('Invalid password format.');
+    }
+
+    return {
+      cost,
+      derivedKey: Buffer.from(derivedKeyInBase64, 'base64'),
+      salt: Buffer.from(saltInBase64, 'base64'),
+    };
+  }
+}
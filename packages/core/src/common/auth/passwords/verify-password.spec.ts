@@ -1,6 +1,6 @@
 // std
-import { ok, strictEqual } from 'assert';
-import { pbkdf2Sync } from 'crypto';
+import { ok, rejects, strictEqual } from 'assert';
+import { pbkdf2Sync, scryptSync } from 'crypto';
 
 // FoalTS
 import { hashPassword } from './hash-password';
@@ -29,4 +29,19 @@ describe('verifyPassword', () => {
     strictEqual(await verifyPassword('wrong password', passwordHash), false);
   });
 
+  it('should verify scrypt password hashes whatever the configured algorithm.', async () => {
+    const plainPassword = 'hello world';
+
+    const saltBuffer = Buffer.from('aaa', 'base64');
+    const derivedKey = scryptSync(plainPassword, saltBuffer, 32, { N: 1024, p: 1, r: 8 });
+    const passwordHash = `scrypt$1024$8$1$aaa$${derivedKey.toString('base64')}`;
+
+    ok(await verifyPassword(plainPassword, passwordHash));
+    strictEqual(await verifyPassword('wrong password', passwordHash), false);
+  });
+
+  it('should throw an error if the format of the password hash is unknown.', async () => {
+    await rejects(() => verifyPassword('hello world', 'foobar'), new Error('Invalid algorithm.'));
+  });
+
 });
@@ -1,24 +1,16 @@
-import { pbkdf2, timingSafeEqual } from 'crypto';
-import { promisify } from 'util';
-import { decomposePbkdf2PasswordHash } from './utils';
+import { getPasswordHasherOf } from './password-hasher';
 
 /**
  * Compare a plain text password and a hash to see if they match.
  *
+ * The algorithm is detected from the format of the hash. PBKDF2 and scrypt hashes, as well as
+ * bcrypt hashes (`$2b$...`) if the package "bcrypt" or "bcryptjs" is installed, are supported.
+ *
  * @export
  * @param {string} plainTextPassword - The password in clear text.
  * @param {string} passwordHash - The password hash generated by the `hashPassword` function.
  * @returns {Promise<boolean>} True if the hash and the password match. False otherwise.
  */
 export async function verifyPassword(plainTextPassword: string, passwordHash: string): Promise<boolean> {
-  const { digestAlgorithm, iterations, salt, derivedKey, keyLength } = decomposePbkdf2PasswordHash(passwordHash);
-
-  const password = await promisify(pbkdf2)(
-    plainTextPassword,
-    salt,
-    iterations,
-    keyLength,
-    digestAlgorithm
-  );
-  return timingSafeEqual(password, derivedKey);
+  return getPasswordHasherOf(passwordHash).verify(plainTextPassword, passwordHash);
 }
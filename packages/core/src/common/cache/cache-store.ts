@@ -0,0 +1,109 @@
+// std
+import { join } from 'path';
+
+/**
+ * Options of an entry stored with `CacheStore.set`.
+ *
+ * @export
+ * @interface CacheEntryOptions
+ */
+export interface CacheEntryOptions {
+  /**
+   * Lifetime of the entry in seconds. If no value is provided, the entry does not expire.
+   */
+  ttl?: number;
+  /**
+   * Tags of the entry. They are used to delete several entries at once with `CacheStore.invalidateTag`.
+   */
+  tags?: string[];
+}
+
+/**
+ * Key-value store used by the cache features of the framework (such as the `@Cache` hook).
+ *
+ * The values MUST be JSON-serializable.
+ *
+ * All cache stores must inherit this abstract class.
+ *
+ * When this class is used with the `@dependency` decorator,
+ * it returns the `ConcreteCacheStore` class from the file or the package specified
+ * with the configuration key "settings.cache.store". If no value is provided, the
+ * built-in `MemoryCacheStore` is used.
+ *
+ * @export
+ * @abstract
+ * @class CacheStore
+ */
+export abstract class CacheStore {
+
+  static readonly concreteClassConfigPath = 'settings.cache.store';
+  static readonly concreteClassName = 'ConcreteCacheStore';
+  static readonly defaultConcreteClassPath = join(__dirname, './memory-cache-store');
+  static readonly concreteClassAliases: Record<string, string> = {
+    memory: join(__dirname, './memory-cache-store'),
+  };
+
+  /**
+   * Reads an entry.
+   *
+   * If the entry does not exist or has expired, undefined MUST be returned.
+   *
+   * @abstract
+   * @template T
+   * @param {string} key - The key of the entry.
+   * @returns {(Promise<T|undefined>)} The value of the entry.
+   * @memberof CacheStore
+   */
+  abstract get<T = unknown>(key: string): Promise<T|undefined>;
+  /**
+   * Creates or replaces an entry.
+   *
+   * @abstract
+   * @param {string} key - The key of the entry.
+   * @param {unknown} value - The JSON-serializable value of the entry.
+   * @param {CacheEntryOptions} [options] - The lifetime and the tags of the entry.
+   * @returns {Promise<void>}
+   * @memberof CacheStore
+   */
+  abstract set(key: string, value: unknown, options?: CacheEntryOptions): Promise<void>;
+  /**
+   * Creates an entry only if it does not exist or has expired.
+   *
+   * The check and the creation MUST be atomic: if several calls are made concurrently
+   * with the same key, only one of them creates the entry.
+   *
+   * @abstract
+   * @param {string} key - The key of the entry.
+   * @param {unknown} value - The JSON-serializable value of the entry.
+   * @param {CacheEntryOptions} [options] - The lifetime and the tags of the entry.
+   * @returns {Promise<boolean>} True if the entry was created and false if it already existed.
+   * @memberof CacheStore
+   */
+  abstract add(key: string, value: unknown, options?: CacheEntryOptions): Promise<boolean>;
+  /**
+   * Deletes an entry. Does nothing if the entry does not exist.
+   *
+   * @abstract
+   * @param {string} key - The key of the entry.
+   * @returns {Promise<void>}
+   * @memberof CacheStore
+   */
+  abstract delete(key: string): Promise<void>;
+  /**
+   * Deletes all the entries with the given tag.
+   *
+   * @abstract
+   * @param {string} tag - The tag.
+   * @returns {Promise<void>}
+   * @memberof CacheStore
+   */
+  abstract invalidateTag(tag: string): Promise<void>;
+  /**
+   * Deletes all the entries.
+   *
+   * @abstract
+   * @returns {Promise<void>}
+   * @memberof CacheStore
+   */
+  abstract clear(): Promise<void>;
+}
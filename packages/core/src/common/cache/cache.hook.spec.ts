@@ -0,0 +1,219 @@
+// std
+import { deepStrictEqual, strictEqual, throws } from 'assert';
+
+// FoalTS
+import {
+  Context,
+  getHookFunction,
+  HttpResponse,
+  HttpResponseCreated,
+  HttpResponseOK,
+  isHttpResponseOK,
+  ServiceManager
+} from '../../core';
+import { Cache } from './cache.hook';
+import { CacheStore } from './cache-store';
+import { MemoryCacheStore } from './memory-cache-store';
+import { ResponseCache } from './response-cache.service';
+
+describe('Cache', () => {
+
+  let services: ServiceManager;
+
+  function createContext(
+    { method = 'GET', path = '/products', query = {}, headers = {}, user }:
+    { method?: string, path?: string, query?: any, headers?: any, user?: any } = {}
+  ): Context {
+    const ctx = new Context({
+      cookies: {},
+      get(name: string) { return headers[name]; },
+      method,
+      params: {},
+      path,
+      query,
+    }, 'ProductController', 'getProducts');
+    ctx.user = user;
+    return ctx;
+  }
+
+  async function execute(
+    hook: ReturnType<typeof getHookFunction>, ctx: Context, response: HttpResponse
+  ): Promise<HttpResponse> {
+    const result = await hook(ctx, services);
+    if (isHttpResponseOK(result)) {
+      return result;
+    }
+    if (typeof result === 'function') {
+      await result(response);
+    }
+    return response;
+  }
+
+  beforeEach(() => services = new ServiceManager());
+
+  it('should throw an error if a "varyBy" value is invalid.', () => {
+    throws(
+      () => Cache({ ttl: 60, varyBy: [ 'body.foo' ] }),
+      new Error(
+        '[Cache] Invalid "varyBy" value: "body.foo". '
+        + 'Expected "user", "query.<name>", "params.<name>", "headers.<name>" or "cookies.<name>".'
+      )
+    );
+  });
+
+  it('should cache the responses in the store specified in the configuration (MemoryCacheStore by default).', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+
+    await execute(hook, createContext(), new HttpResponseOK([ 'product1' ]));
+
+    strictEqual(services.get(CacheStore) instanceof MemoryCacheStore, true);
+    const response = await execute(hook, createContext(), new HttpResponseOK([ 'product2' ]));
+
+    deepStrictEqual(response.body, [ 'product1' ]);
+  });
+
+  it('should not return the cached response of another path.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+
+    await execute(hook, createContext({ path: '/products' }), new HttpResponseOK('products'));
+    const response = await execute(hook, createContext({ path: '/users' }), new HttpResponseOK('users'));
+
+    strictEqual(response.body, 'users');
+  });
+
+  it('should only cache the responses of GET and HEAD requests.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+
+    strictEqual(await hook(createContext({ method: 'POST' }), services), undefined);
+
+    await execute(hook, createContext({ method: 'HEAD' }), new HttpResponseOK('product1'));
+    const response = await execute(hook, createContext(), new HttpResponseOK('product2'));
+
+    strictEqual(response.body, 'product1');
+  });
+
+  it('should only cache the responses with the status 200.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+
+    const createdResponse = await execute(hook, createContext(), new HttpResponseCreated('product1'));
+    const response = await execute(hook, createContext(), new HttpResponseOK('product2'));
+
+    deepStrictEqual(createdResponse.getHeaders(), {});
+    strictEqual(response.body, 'product2');
+  });
+
+  it('should not cache the responses of the requests with a Content-Security-Policy nonce.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+    const ctx = createContext();
+    Object.assign(ctx.state, { cspNonce: 'a_nonce' });
+
+    await execute(hook, ctx, new HttpResponseOK('a'));
+
+    strictEqual(await services.get(ResponseCache).get('ProductController.getProducts:/products'), undefined);
+  });
+
+  it('should not cache the cookies of the responses.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+
+    await execute(hook, createContext(), new HttpResponseOK('product1').setCookie('foo', 'bar'));
+    const response = await execute(hook, createContext(), new HttpResponseOK('product2'));
+
+    strictEqual(response.body, 'product1');
+    deepStrictEqual(response.getCookies(), {});
+  });
+
+  it('should include the query string in the default key.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+
+    await execute(hook, createContext({ query: { page: '1', sort: 'name' } }), new HttpResponseOK('page1'));
+    let response = await execute(hook, createContext({ query: { page: '2', sort: 'name' } }), new HttpResponseOK('page2'));
+    strictEqual(response.body, 'page2');
+
+    response = await execute(hook, createContext({ query: { sort: 'name', page: '1' } }), new HttpResponseOK('page1bis'));
+    strictEqual(response.body, 'page1');
+
+    strictEqual(
+      await services.get(ResponseCache).get('ProductController.getProducts:/products?page=1&sort=name') instanceof HttpResponseOK,
+      true
+    );
+  });
+
+  it('should support the "key" option.', async () => {
+    const hook = getHookFunction(Cache({ key: () => 'products', ttl: 60 }));
+
+    await execute(hook, createContext({ path: '/products' }), new HttpResponseOK('product1'));
+    const response = await execute(hook, createContext({ path: '/products/' }), new HttpResponseOK('product2'));
+
+    strictEqual(response.body, 'product1');
+    strictEqual(await services.get(ResponseCache).get('products') instanceof HttpResponseOK, true);
+  });
+
+  it('should support the "varyBy" option.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60, varyBy: [ 'user', 'query.lang', 'headers.Accept-Language' ] }));
+
+    await execute(hook, createContext({ query: { lang: 'fr' }, user: { id: 1 } }), new HttpResponseOK('a'));
+
+    let response = await execute(hook, createContext({ query: { lang: 'fr' }, user: { id: 1 } }), new HttpResponseOK('b'));
+    strictEqual(response.body, 'a');
+
+    response = await execute(hook, createContext({ query: { lang: 'en' }, user: { id: 1 } }), new HttpResponseOK('c'));
+    strictEqual(response.body, 'c');
+
+    response = await execute(hook, createContext({ query: { lang: 'fr' }, user: { id: 2 } }), new HttpResponseOK('d'));
+    strictEqual(response.body, 'd');
+
+    response = await execute(
+      hook,
+      createContext({ headers: { 'Accept-Language': 'fr' }, query: { lang: 'fr' }, user: { id: 1 } }),
+      new HttpResponseOK('e')
+    );
+    strictEqual(response.body, 'e');
+  });
+
+  it('should add the Cache-Control and Vary headers to the response.', async () => {
+    let hook = getHookFunction(Cache({ ttl: 60 }));
+    let response = await execute(hook, createContext(), new HttpResponseOK());
+    deepStrictEqual(response.getHeaders(), { 'Cache-Control': 'public, max-age=60' });
+
+    services = new ServiceManager();
+    hook = getHookFunction(Cache({ ttl: 60, varyBy: [ 'user', 'headers.Accept-Language' ] }));
+    response = await execute(hook, createContext(), new HttpResponseOK().setHeader('Vary', 'Accept-Encoding'));
+    deepStrictEqual(response.getHeaders(), {
+      'Cache-Control': 'private, max-age=60',
+      'Vary': 'Accept-Encoding, Authorization, Cookie, Accept-Language',
+    });
+
+    services = new ServiceManager();
+    hook = getHookFunction(Cache({ cacheControl: false, ttl: 60 }));
+    response = await execute(hook, createContext(), new HttpResponseOK());
+    deepStrictEqual(response.getHeaders(), {});
+
+    services = new ServiceManager();
+    hook = getHookFunction(Cache({ ttl: 60 }));
+    response = await execute(hook, createContext(), new HttpResponseOK().setHeader('Cache-Control', 'no-cache'));
+    deepStrictEqual(response.getHeaders(), { 'Cache-Control': 'no-cache' });
+  });
+
+  it('should return the headers of the cached response.', async () => {
+    const hook = getHookFunction(Cache({ ttl: 60 }));
+
+    await execute(hook, createContext(), new HttpResponseOK().setHeader('Content-Type', 'text/plain'));
+    const response = await execute(hook, createContext(), new HttpResponseOK());
+
+    deepStrictEqual(response.getHeaders(), {
+      'Cache-Control': 'public, max-age=60',
+      'Content-Type': 'text/plain',
+    });
+  });
+
+  it('should support tags.', async () => {
+    const hook = getHookFunction(Cache({ tags: ctx => [ 'products', ctx.request.path ], ttl: 60 }));
+
+    await execute(hook, createContext(), new HttpResponseOK('product1'));
+    await services.get(ResponseCache).invalidateTag('products');
+    const response = await execute(hook, createContext(), new HttpResponseOK('product2'));
+
+    strictEqual(response.body, 'product2');
+  });
+
+});
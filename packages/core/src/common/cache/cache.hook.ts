@@ -0,0 +1,153 @@
+// FoalTS
+import { Context, Hook, HookDecorator, HttpResponse, ServiceManager } from '../../core';
+import { ResponseCache } from './response-cache.service';
+
+export interface CacheOptions {
+  /**
+   * Lifetime of the cached responses in seconds.
+   */
+  ttl: number;
+  /**
+   * Function returning the cache key of the request.
+   * Default: the name of the route (`ControllerName.methodName`) followed by the request path
+   * and the query string (whose parameters are sorted by name).
+   */
+  key?: (ctx: Context) => string|Promise<string>;
+  /**
+   * Request values added to the cache key:
+   * - `user`: the authenticated user (its `id` property if it exists),
+   * - `query.<name>`: a query parameter,
+   * - `params.<name>`: a path parameter,
+   * - `headers.<name>`: a request header,
+   * - `cookies.<name>`: a cookie.
+   */
+  varyBy?: string[];
+  /**
+   * Tags of the cached responses. They can be deleted with `ResponseCache.invalidateTag`.
+   */
+  tags?: string[]|((ctx: Context) => string[]);
+  /**
+   * Value of the Cache-Control header added to the response if none is already set.
+   * Default: `public, max-age=<ttl>` (or `private, max-age=<ttl>` if the responses vary by user).
+   * Use false to not add the header.
+   */
+  cacheControl?: string|false;
+}
+
+const varyBySources = [ 'query', 'params', 'headers', 'cookies' ];
+
+function getVaryByValue(ctx: Context, varyBy: string): string {
+  if (varyBy === 'user') {
+    if (!ctx.user) {
+      return '';
+    }
+    return String(ctx.user.id ?? JSON.stringify(ctx.user));
+  }
+
+  const [ source, name ] = varyBy.split(/\.(.*)/);
+  const value = source === 'headers'
+    ? ctx.request.get(name)
+    : ctx.request[source as 'query'|'params'|'cookies'][name];
+  return value === undefined ? '' : JSON.stringify(value);
+}
+
+function getQueryString(query: Record<string, any>): string {
+  const params = new URLSearchParams();
+  for (const name of Object.keys(query).sort()) {
+    for (const value of ([] as any[]).concat(query[name])) {
+      params.append(name, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return queryString && `?${queryString}`;
+}
+
+function getVaryHeaders(varyBy: string[]): string[] {
+  const headers = new Set<string>();
+  for (const item of varyBy) {
+    if (item === 'user') {
+      headers.add('Authorization');
+      headers.add('Cookie');
+    } else if (item.startsWith('headers.')) {
+      headers.add(item.slice('headers.'.length));
+    } else if (item.startsWith('cookies.')) {
+      headers.add('Cookie');
+    }
+  }
+  return Array.from(headers);
+}
+
+/**
+ * Hook caching the successful responses (status 200) of the GET and HEAD requests.
+ *
+ * When a response is cached, the controller method (and the hooks executed after this one)
+ * are not called. The cookies and the CORS headers of the responses are not cached: `createApp`
+ * adds the CORS headers of the route to the cached responses.
+ *
+ * The responses of the requests with a Content-Security-Policy nonce (`ctx.state.cspNonce`)
+ * are not cached since the nonce must be different for each response.
+ *
+ * The responses are stored with the `ResponseCache` service in the `CacheStore` of the application
+ * (see the configuration key "settings.cache.store").
+ *
+ * The `Cache-Control` and `Vary` headers are added to the response.
+ *
+ * @export
+ * @param {CacheOptions} options - The hook options.
+ * @returns {HookDecorator} The hook.
+ */
+export function Cache(options: CacheOptions): HookDecorator {
+  const varyBy = options.varyBy || [];
+  for (const item of varyBy) {
+    if (item !== 'user' && !varyBySources.includes(item.split('.')[0])) {
+      throw new Error(
+        `[Cache] Invalid "varyBy" value: "${item}". `
+        + 'Expected "user", "query.<name>", "params.<name>", "headers.<name>" or "cookies.<name>".'
+      );
+    }
+  }
+
+  const varyHeaders = getVaryHeaders(varyBy);
+  const cacheControl = options.cacheControl ?? (
+    `${varyBy.includes('user') ? 'private' : 'public'}, max-age=${options.ttl}`
+  );
+
+  function setHeaders(response: HttpResponse) {
+    if (cacheControl !== false && response.getHeader('Cache-Control') === undefined) {
+      response.setHeader('Cache-Control', cacheControl);
+    }
+    if (varyHeaders.length > 0) {
+      const vary = response.getHeader('Vary');
+      response.setHeader('Vary', vary ? `${vary}, ${varyHeaders.join(', ')}` : varyHeaders.join(', '));
+    }
+  }
+
+  async function cache(ctx: Context<any, { cspNonce?: string }>, services: ServiceManager) {
+    if (ctx.request.method !== 'GET' && ctx.request.method !== 'HEAD') {
+      return;
+    }
+
+    const responseCache = services.get(ResponseCache);
+
+    const baseKey = options.key
+      ? await options.key(ctx)
+      : `${ctx.controllerName}.${ctx.controllerMethodName}:${ctx.request.path}${getQueryString(ctx.request.query)}`;
+    const key = [ baseKey, ...varyBy.map(item => getVaryByValue(ctx, item)) ].join(':');
+
+    const cachedResponse = await responseCache.get(key);
+    if (cachedResponse) {
+      return cachedResponse;
+    }
+
+    return async (response: HttpResponse) => {
+      if (response.statusCode !== 200 || ctx.state.cspNonce) {
+        return;
+      }
+      setHeaders(response);
+      const tags = typeof options.tags === 'function' ? options.tags(ctx) : options.tags;
+      await responseCache.set(key, response, { tags, ttl: options.ttl });
+    };
+  }
+
+  return Hook(cache);
+}
@@ -0,0 +1,163 @@
+// std
+import { deepStrictEqual, rejects, strictEqual } from 'assert';
+
+// FoalTS
+import { ServiceManager } from '../../core';
+import { CacheService } from './cache.service';
+import { CacheStore } from './cache-store';
+import { MemoryCacheStore } from './memory-cache-store';
+
+describe('CacheService', () => {
+
+  let cache: CacheService;
+
+  beforeEach(() => cache = new ServiceManager().get(CacheService));
+
+  it('should use the store specified in the configuration (MemoryCacheStore by default).', () => {
+    strictEqual(cache.store instanceof MemoryCacheStore, true);
+  });
+
+  it('should support get, set and delete operations.', async () => {
+    strictEqual(await cache.get('foo'), undefined);
+
+    await cache.set('foo', { bar: 'baz' });
+    deepStrictEqual(await cache.get('foo'), { bar: 'baz' });
+
+    await cache.delete('foo');
+    strictEqual(await cache.get('foo'), undefined);
+  });
+
+  it('should support entries with a lifetime.', async () => {
+    await cache.set('foo', 'bar', 0.1);
+    await cache.set('foo2', 'bar', { ttl: 0.1 });
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    strictEqual(await cache.get('foo'), undefined);
+    strictEqual(await cache.get('foo2'), undefined);
+  });
+
+  it('should support add operations.', async () => {
+    strictEqual(await cache.add('foo', 'bar', { tags: [ 'products' ] }), true);
+    strictEqual(await cache.add('foo', 'baz'), false);
+    strictEqual(await cache.get('foo'), 'bar');
+
+    await cache.invalidateTag('products');
+    strictEqual(await cache.get('foo'), undefined);
+  });
+
+  it('should support tags.', async () => {
+    await cache.set('foo', 'bar', { tags: [ 'products' ] });
+    await cache.set('foo2', 'bar');
+
+    await cache.invalidateTag('products');
+
+    strictEqual(await cache.get('foo'), undefined);
+    strictEqual(await cache.get('foo2'), 'bar');
+  });
+
+  describe('has a "wrap" method that', () => {
+
+    it('should call the function and cache its result if the entry does not exist.', async () => {
+      let calls = 0;
+      const fn = () => ++calls;
+
+      strictEqual(await cache.wrap('foo', fn, 60), 1);
+      strictEqual(await cache.wrap('foo', fn, 60), 1);
+      strictEqual(await cache.get('foo'), 1);
+    });
+
+    it('should call the function only once for concurrent calls.', async () => {
+      let calls = 0;
+      const fn = async () => {
+        calls++;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return 'bar';
+      };
+
+      const values = await Promise.all([ cache.wrap('foo', fn), cache.wrap('foo', fn), cache.wrap('foo', fn) ]);
+
+      deepStrictEqual(values, [ 'bar', 'bar', 'bar' ]);
+      strictEqual(calls, 1);
+    });
+
+    it('should not cache the errors.', async () => {
+      let calls = 0;
+      const fn = async () => {
+        calls++;
+        if (calls === 1) {
+          throw new Error('Database unavailable.');
+        }
+        return 'bar';
+      };
+
+      await rejects(() => cache.wrap('foo', fn), new Error('Database unavailable.'));
+      strictEqual(await cache.wrap('foo', fn), 'bar');
+    });
+
+    it('should only cache null and undefined values if "negativeTtl" is defined.', async () => {
+      let calls = 0;
+      const fn = () => {
+        calls++;
+        return null;
+      };
+
+      strictEqual(await cache.wrap('foo', fn, { ttl: 60 }), null);
+      strictEqual(await cache.wrap('foo', fn, { ttl: 60 }), null);
+      strictEqual(calls, 2);
+
+      strictEqual(await cache.wrap('bar', fn, { negativeTtl: 0.1, ttl: 60 }), null);
+      strictEqual(await cache.wrap('bar', fn, { negativeTtl: 0.1, ttl: 60 }), null);
+      strictEqual(calls, 3);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      strictEqual(await cache.wrap('bar', fn, { negativeTtl: 0.1, ttl: 60 }), null);
+      strictEqual(calls, 4);
+    });
+
+  });
+
+  describe('has a "namespace" method that', () => {
+
+    it('should return a cache service whose keys are prefixed with the namespace.', async () => {
+      const users = cache.namespace('users');
+
+      await users.set('1', 'John');
+
+      strictEqual(await users.get('1'), 'John');
+      strictEqual(await cache.get('1'), undefined);
+      strictEqual(await cache.namespace('users').get('1'), 'John');
+      strictEqual(users.store, cache.store);
+      strictEqual(await cache.store.get('data:users:1') !== undefined, true);
+    });
+
+    it('should return a cache service whose entries can be invalidated with "invalidateNamespace".', async () => {
+      const users = cache.namespace('users');
+      const admins = users.namespace('admins');
+
+      await cache.set('1', 'foo');
+      await users.set('1', 'John');
+      await admins.set('1', 'Mary');
+      await cache.namespace('products').set('1', 'Chair');
+
+      await cache.invalidateNamespace('users');
+
+      strictEqual(await cache.get('1'), 'foo');
+      strictEqual(await users.get('1'), undefined);
+      strictEqual(await admins.get('1'), undefined);
+      strictEqual(await cache.namespace('products').get('1'), 'Chair');
+
+      await admins.set('1', 'Mary');
+      await users.invalidateNamespace('admins');
+      strictEqual(await admins.get('1'), undefined);
+    });
+
+  });
+
+  it('should share its store with the other cache features.', () => {
+    const services = new ServiceManager();
+    strictEqual(services.get(CacheService).store, services.get(CacheStore));
+  });
+
+});
@@ -0,0 +1,205 @@
+// FoalTS
+import { dependency } from '../../core';
+import { CacheEntryOptions, CacheStore } from './cache-store';
+
+/**
+ * Options of `CacheService.wrap`.
+ *
+ * @export
+ * @interface CacheWrapOptions
+ */
+export interface CacheWrapOptions extends CacheEntryOptions {
+  /**
+   * Lifetime in seconds of the `null` and `undefined` values returned by the function.
+   * If no value is provided, these values are not cached.
+   */
+  negativeTtl?: number;
+}
+
+interface CacheEnvelope<T> {
+  value: T;
+}
+
+/**
+ * Application cache service.
+ *
+ * The entries are saved in the `CacheStore` of the application (see the configuration key
+ * "settings.cache.store"). Their values must be JSON-serializable.
+ *
+ * @export
+ * @class CacheService
+ */
+export class CacheService {
+
+  @dependency
+  store: CacheStore;
+
+  private namespaces: string[] = [];
+  // Shared between the service and its namespaces.
+  private pendingValues = new Map<string, Promise<any>>();
+
+  /**
+   * Returns a cache service whose keys are prefixed with the given namespace.
+   *
+   * The entries of a namespace can be deleted with `invalidateNamespace`.
+   *
+   * @param {string} name - The name of the namespace.
+   * @returns {CacheService} The namespaced cache service.
+   * @memberof CacheService
+   */
+  namespace(name: string): CacheService {
+    const cache = new CacheService();
+    cache.store = this.store;
+    cache.namespaces = [ ...this.namespaces, name ];
+    cache.pendingValues = this.pendingValues;
+    return cache;
+  }
+
+  /**
+   * Reads an entry.
+   *
+   * @template T
+   * @param {string} key - The key of the entry.
+   * @returns {(Promise<T|undefined>)} The value or undefined if the entry does not exist or has expired.
+   * @memberof CacheService
+   */
+  async get<T = any>(key: string): Promise<T|undefined> {
+    const envelope = await this.store.get<CacheEnvelope<T>>(this.getStoreKey(key));
+    return envelope?.value;
+  }
+
+  /**
+   * Creates or replaces an entry.
+   *
+   * @param {string} key - The key of the entry.
+   * @param {unknown} value - The JSON-serializable value.
+   * @param {(number|CacheEntryOptions)} [options={}] - The lifetime of the entry in seconds or the entry options.
+   * @returns {Promise<void>}
+   * @memberof CacheService
+   */
+  async set(key: string, value: unknown, options: number|CacheEntryOptions = {}): Promise<void> {
+    if (typeof options === 'number') {
+      options = { ttl: options };
+    }
+    await this.store.set(this.getStoreKey(key), { value }, {
+      tags: [ ...(options.tags || []), ...this.getNamespaceTags() ],
+      ttl: options.ttl,
+    });
+  }
+
+  /**
+   * Creates an entry only if it does not exist or has expired. The check and the creation
+   * are atomic, provided that the store is shared by all the processes of the application.
+   *
+   * @param {string} key - The key of the entry.
+   * @param {unknown} value - The JSON-serializable value.
+   * @param {(number|CacheEntryOptions)} [options={}] - The lifetime of the entry in seconds or the entry options.
+   * @returns {Promise<boolean>} True if the entry was created and false if it already existed.
+   * @memberof CacheService
+   */
+  async add(key: string, value: unknown, options: number|CacheEntryOptions = {}): Promise<boolean> {
+    if (typeof options === 'number') {
+      options = { ttl: options };
+    }
+    return this.store.add(this.getStoreKey(key), { value }, {
+      tags: [ ...(options.tags || []), ...this.getNamespaceTags() ],
+      ttl: options.ttl,
+    });
+  }
+
+  /**
+   * Deletes an entry.
+   *
+   * @param {string} key - The key of the entry.
+   * @returns {Promise<void>}
+   * @memberof CacheService
+   */
+  async delete(key: string): Promise<void> {
+    await this.store.delete(this.getStoreKey(key));
+  }
+
+  /**
+   * Returns the cached value of an entry or, if it does not exist, calls the function and caches its result.
+   *
+   * Concurrent calls with the same key share the same function call (single-flight). Note that this
+   * only applies to the calls made in the same process.
+   *
+   * The errors thrown or rejected by the function are not cached.
+   *
+   * @template T
+   * @param {string} key - The key of the entry.
+   * @param {(() => T|Promise<T>)} fn - The function computing the value.
+   * @param {(number|CacheWrapOptions)} [options={}] - The lifetime of the entry in seconds or the entry options.
+   * @returns {Promise<T>} The value.
+   * @memberof CacheService
+   */
+  async wrap<T>(key: string, fn: () => T|Promise<T>, options: number|CacheWrapOptions = {}): Promise<T> {
+    if (typeof options === 'number') {
+      options = { ttl: options };
+    }
+    const { negativeTtl, ...entryOptions } = options;
+
+    const storeKey = this.getStoreKey(key);
+    const pendingValue = this.pendingValues.get(storeKey);
+    if (pendingValue) {
+      return pendingValue;
+    }
+
+    const promise = (async () => {
+      const envelope = await this.store.get<CacheEnvelope<T>>(storeKey);
+      if (envelope) {
+        return envelope.value;
+      }
+
+      const value = await fn();
+      if (value !== null && value !== undefined) {
+        await this.set(key, value, entryOptions);
+      } else if (negativeTtl !== undefined) {
+        await this.set(key, value, { ...entryOptions, ttl: negativeTtl });
+      }
+      return value;
+    })();
+
+    this.pendingValues.set(storeKey, promise);
+    try {
+      return await promise;
+    } finally {
+      this.pendingValues.delete(storeKey);
+    }
+  }
+
+  /**
+   * Deletes all the entries with the given tag.
+   *
+   * @param {string} tag - The tag.
+   * @returns {Promise<void>}
+   * @memberof CacheService
+   */
+  async invalidateTag(tag: string): Promise<void> {
+    await this.store.invalidateTag(tag);
+  }
+
+  /**
+   * Deletes all the entries of a namespace.
+   *
+   * @param {string} name - The name of the namespace (relative to the namespace of this service).
+   * @returns {Promise<void>}
+   * @memberof CacheService
+   */
+  async invalidateNamespace(name: string): Promise<void> {
+    await this.store.invalidateTag(this.getNamespaceTag([ ...this.namespaces, name ]));
+  }
+
+  private getStoreKey(key: string): string {
+    return [ 'data', ...this.namespaces, key ].join(':');
+  }
+
+  private getNamespaceTag(namespaces: string[]): string {
+    return `namespace:${namespaces.join(':')}`;
+  }
+
+  private getNamespaceTags(): string[] {
+    return this.namespaces.map((_, index) => this.getNamespaceTag(this.namespaces.slice(0, index + 1)));
+  }
+
+}
@@ -0,0 +1,5 @@
+export { Cache, CacheOptions } from './cache.hook';
+export { CacheService, CacheWrapOptions } from './cache.service';
+export { CacheEntryOptions, CacheStore } from './cache-store';
+export { MemoryCacheStore } from './memory-cache-store';
+export { CachedResponse, ResponseCache } from './response-cache.service';
@@ -0,0 +1,135 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { Config } from '../../core';
+import { MemoryCacheStore } from './memory-cache-store';
+
+describe('MemoryCacheStore', () => {
+
+  let store: MemoryCacheStore;
+
+  beforeEach(() => store = new MemoryCacheStore());
+
+  afterEach(() => Config.remove('settings.cache.memoryStore.maxEntries'));
+
+  describe('has a "get" method that', () => {
+
+    it('should return undefined if the entry does not exist or has expired.', async () => {
+      strictEqual(await store.get('foo'), undefined);
+
+      await store.set('foo', 'bar', { ttl: 0.1 });
+      strictEqual(await store.get('foo'), 'bar');
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      strictEqual(await store.get('foo'), undefined);
+    });
+
+    it('should return a copy of the value.', async () => {
+      await store.set('foo', { items: [ 1 ] });
+
+      const value = await store.get<{ items: number[] }>('foo');
+      value?.items.push(2);
+
+      deepStrictEqual(await store.get('foo'), { items: [ 1 ] });
+    });
+
+  });
+
+  describe('has a "set" method that', () => {
+
+    it('should replace the previous entry.', async () => {
+      await store.set('foo', 'bar', { tags: [ 'tag1' ] });
+      await store.set('foo', 'baz');
+
+      await store.invalidateTag('tag1');
+
+      strictEqual(await store.get('foo'), 'baz');
+    });
+
+    it('should delete the least recently used entries when "settings.cache.memoryStore.maxEntries" is reached.', async () => {
+      Config.set('settings.cache.memoryStore.maxEntries', 2);
+
+      await store.set('a', 1);
+      await store.set('b', 2);
+      await store.get('a');
+      await store.set('c', 3);
+
+      strictEqual(await store.get('a'), 1);
+      strictEqual(await store.get('b'), undefined);
+      strictEqual(await store.get('c'), 3);
+    });
+
+  });
+
+  describe('has an "add" method that', () => {
+
+    it('should create the entry only if it does not exist or has expired.', async () => {
+      strictEqual(await store.add('foo', 'bar', { ttl: 0.05 }), true);
+      strictEqual(await store.add('foo', 'baz'), false);
+      strictEqual(await store.get('foo'), 'bar');
+
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      strictEqual(await store.add('foo', 'baz'), true);
+      strictEqual(await store.get('foo'), 'baz');
+    });
+
+    it('should create the entry only once when it is called concurrently.', async () => {
+      const results = await Promise.all([ store.add('foo', 1), store.add('foo', 2) ]);
+
+      deepStrictEqual(results, [ true, false ]);
+      strictEqual(await store.get('foo'), 1);
+    });
+
+  });
+
+  describe('has a "delete" method that', () => {
+
+    it('should delete the entry.', async () => {
+      await store.set('foo', 'bar');
+      await store.set('foo2', 'bar2');
+
+      await store.delete('foo');
+      await store.delete('foo3');
+
+      strictEqual(await store.get('foo'), undefined);
+      strictEqual(await store.get('foo2'), 'bar2');
+    });
+
+  });
+
+  describe('has an "invalidateTag" method that', () => {
+
+    it('should delete the entries with the given tag.', async () => {
+      await store.set('a', 1, { tags: [ 'products' ] });
+      await store.set('b', 2, { tags: [ 'products', 'users' ] });
+      await store.set('c', 3, { tags: [ 'users' ] });
+      await store.set('d', 4);
+
+      await store.invalidateTag('products');
+
+      strictEqual(await store.get('a'), undefined);
+      strictEqual(await store.get('b'), undefined);
+      strictEqual(await store.get('c'), 3);
+      strictEqual(await store.get('d'), 4);
+    });
+
+  });
+
+  describe('has a "clear" method that', () => {
+
+    it('should delete all the entries.', async () => {
+      await store.set('a', 1, { tags: [ 'products' ] });
+      await store.set('b', 2);
+
+      await store.clear();
+
+      strictEqual(await store.get('a'), undefined);
+      strictEqual(await store.get('b'), undefined);
+    });
+
+  });
+
+});
@@ -0,0 +1,120 @@
+// FoalTS
+import { Config } from '../../core';
+import { CacheEntryOptions, CacheStore } from './cache-store';
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number|undefined;
+  tags: string[];
+}
+
+/**
+ * In-memory cache store. This is the default cache store of the framework.
+ *
+ * The entries are lost when the process exits and are not shared between processes.
+ *
+ * The maximum number of entries can be specified with the configuration key
+ * "settings.cache.memoryStore.maxEntries" (default: 1000). When the limit is reached,
+ * the least recently used entries are deleted.
+ *
+ * @export
+ * @class MemoryCacheStore
+ * @extends {CacheStore}
+ */
+export class MemoryCacheStore extends CacheStore {
+
+  // Map objects iterate in insertion order: the first entry is the least recently used.
+  private entries = new Map<string, CacheEntry>();
+  private tags = new Map<string, Set<string>>();
+
+  async get<T = unknown>(key: string): Promise<T|undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.deleteEntry(key);
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return structuredClone(entry.value) as T;
+  }
+
+  async set(key: string, value: unknown, options: CacheEntryOptions = {}): Promise<void> {
+    this.deleteEntry(key);
+
+    const tags = options.tags || [];
+    this.entries.set(key, {
+      expiresAt: options.ttl === undefined ? undefined : Date.now() + options.ttl * 1000,
+      tags,
+      value: structuredClone(value),
+    });
+    for (const tag of tags) {
+      const keys = this.tags.get(tag) || new Set<string>();
+      keys.add(key);
+      this.tags.set(tag, keys);
+    }
+
+    this.deleteLeastRecentlyUsedEntries();
+  }
+
+  async add(key: string, value: unknown, options: CacheEntryOptions = {}): Promise<boolean> {
+    // The entry is checked and created synchronously so that concurrent calls cannot interleave.
+    const entry = this.entries.get(key);
+    if (entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now())) {
+      return false;
+    }
+    await this.set(key, value, options);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.deleteEntry(key);
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    const keys = this.tags.get(tag);
+    if (!keys) {
+      return;
+    }
+    for (const key of keys) {
+      this.deleteEntry(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.tags.clear();
+  }
+
+  private deleteEntry(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tags.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tags.delete(tag);
+      }
+    }
+  }
+
+  private deleteLeastRecentlyUsedEntries(): void {
+    const maxEntries = Config.get('settings.cache.memoryStore.maxEntries', 'number', 1000);
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) {
+        return;
+      }
+      this.deleteEntry(key);
+    }
+  }
+
+}
+
+export { MemoryCacheStore as ConcreteCacheStore };
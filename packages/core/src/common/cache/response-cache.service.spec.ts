@@ -0,0 +1,77 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { Readable } from 'stream';
+
+// FoalTS
+import { HttpResponseCreated, HttpResponseOK, ServiceManager } from '../../core';
+import { CacheStore } from './cache-store';
+import { ResponseCache } from './response-cache.service';
+
+describe('ResponseCache', () => {
+
+  let responseCache: ResponseCache;
+
+  beforeEach(() => responseCache = new ServiceManager().get(ResponseCache));
+
+  it('should save the body and the headers of the responses.', async () => {
+    const response = new HttpResponseOK({ foo: 'bar' })
+      .setHeader('Content-Type', 'application/json')
+      .setCookie('foo', 'bar');
+
+    strictEqual(await responseCache.set('key', response), true);
+
+    const cachedResponse = await responseCache.get('key');
+    if (!cachedResponse) {
+      throw new Error('The response should be cached.');
+    }
+    deepStrictEqual(cachedResponse.body, { foo: 'bar' });
+    deepStrictEqual(cachedResponse.getHeaders(), { 'Content-Type': 'application/json' });
+    deepStrictEqual(cachedResponse.getCookies(), {});
+    strictEqual(await responseCache.store.get('response:key') !== undefined, true);
+  });
+
+  it('should not save the CORS headers of the responses.', async () => {
+    const response = new HttpResponseOK()
+      .setHeader('Access-Control-Allow-Origin', 'https://example.com')
+      .setHeader('Access-Control-Allow-Credentials', 'true')
+      .setHeader('Access-Control-Expose-Headers', 'X-Total-Count')
+      .setHeader('Vary', 'Origin');
+
+    await responseCache.set('key', response);
+
+    deepStrictEqual((await responseCache.get('key'))?.getHeaders(), { Vary: 'Origin' });
+    // The response itself is not modified.
+    strictEqual(response.getHeader('Access-Control-Allow-Origin'), 'https://example.com');
+  });
+
+  it('should support buffer bodies.', async () => {
+    await responseCache.set('key', new HttpResponseOK(Buffer.from('hello')));
+
+    const cachedResponse = await responseCache.get('key');
+
+    deepStrictEqual(cachedResponse?.body, Buffer.from('hello'));
+  });
+
+  it('should not cache streamed responses or responses whose status is not 200.', async () => {
+    strictEqual(await responseCache.set('key', new HttpResponseOK(Readable.from([ 'a' ]), { stream: true })), false);
+    strictEqual(await responseCache.set('key2', new HttpResponseCreated()), false);
+
+    strictEqual(await responseCache.get('key'), undefined);
+    strictEqual(await responseCache.get('key2'), undefined);
+  });
+
+  it('should delete cached responses by key or by tag.', async () => {
+    await responseCache.set('a', new HttpResponseOK('a'), { tags: [ 'products' ] });
+    await responseCache.set('b', new HttpResponseOK('b'), { tags: [ 'users' ] });
+    await responseCache.set('c', new HttpResponseOK('c'));
+
+    await responseCache.invalidateTag('products');
+    await responseCache.delete('c');
+
+    strictEqual(await responseCache.get('a'), undefined);
+    strictEqual((await responseCache.get('b'))?.body, 'b');
+    strictEqual(await responseCache.get('c'), undefined);
+    strictEqual(responseCache.store instanceof CacheStore, true);
+  });
+
+});
@@ -0,0 +1,116 @@
+// FoalTS
+import { dependency, HttpResponse, HttpResponseOK, isHttpResponseOK } from '../../core';
+import { CacheEntryOptions, CacheStore } from './cache-store';
+
+/**
+ * Serialized response stored by the `ResponseCache` service.
+ *
+ * @export
+ * @interface CachedResponse
+ */
+export interface CachedResponse {
+  headers: { [key: string]: string };
+  body: any;
+  /**
+   * Specified when the body is a buffer.
+   */
+  bodyEncoding?: 'base64';
+}
+
+// Headers computed from the request (and added again by createApp to the cached responses).
+const perRequestHeaders = [
+  'Access-Control-Allow-Origin',
+  'Access-Control-Allow-Credentials',
+  'Access-Control-Expose-Headers',
+];
+
+/**
+ * Service storing the responses cached by the `@Cache` hook.
+ *
+ * The responses are saved in the `CacheStore` of the application. Only the successful responses
+ * (status 200) with a non-streamed body are cached. Their cookies and their CORS headers, which depend
+ * on the origin of the request, are not saved.
+ *
+ * @export
+ * @class ResponseCache
+ */
+export class ResponseCache {
+
+  @dependency
+  store: CacheStore;
+
+  /**
+   * Reads a cached response.
+   *
+   * @param {string} key - The cache key.
+   * @returns {(Promise<HttpResponseOK|undefined>)} A new response or undefined if none is cached.
+   * @memberof ResponseCache
+   */
+  async get(key: string): Promise<HttpResponseOK|undefined> {
+    const cachedResponse = await this.store.get<CachedResponse>(this.getStoreKey(key));
+    if (!cachedResponse) {
+      return;
+    }
+
+    const body = cachedResponse.bodyEncoding === 'base64'
+      ? Buffer.from(cachedResponse.body, 'base64')
+      : cachedResponse.body;
+    const response = new HttpResponseOK(body);
+    for (const header in cachedResponse.headers) {
+      response.setHeader(header, cachedResponse.headers[header]);
+    }
+    return response;
+  }
+
+  /**
+   * Caches a response.
+   *
+   * @param {string} key - The cache key.
+   * @param {HttpResponse} response - The response.
+   * @param {CacheEntryOptions} [options={}] - The lifetime (in seconds) and the tags of the entry.
+   * @returns {Promise<boolean>} False if the response cannot be cached.
+   * @memberof ResponseCache
+   */
+  async set(key: string, response: HttpResponse, options: CacheEntryOptions = {}): Promise<boolean> {
+    if (!isHttpResponseOK(response) || response.stream) {
+      return false;
+    }
+
+    const headers = response.getHeaders();
+    for (const name of perRequestHeaders) {
+      delete headers[name];
+    }
+    const cachedResponse: CachedResponse = Buffer.isBuffer(response.body)
+      ? { body: response.body.toString('base64'), bodyEncoding: 'base64', headers }
+      : { body: response.body, headers };
+    await this.store.set(this.getStoreKey(key), cachedResponse, options);
+    return true;
+  }
+
+  /**
+   * Deletes a cached response.
+   *
+   * @param {string} key - The cache key.
+   * @returns {Promise<void>}
+   * @memberof ResponseCache
+   */
+  async delete(key: string): Promise<void> {
+    await this.store.delete(this.getStoreKey(key));
+  }
+
+  /**
+   * Deletes all the cached responses (and other cache entries) with the given tag.
+   *
+   * @param {string} tag - The tag.
+   * @returns {Promise<void>}
+   * @memberof ResponseCache
+   */
+  async invalidateTag(tag: string): Promise<void> {
+    await this.store.invalidateTag(tag);
+  }
+
+  private getStoreKey(key: string): string {
+    return `response:${key}`;
+  }
+
+}
@@ -0,0 +1,163 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { Readable } from 'stream';
+import { brotliCompressSync, brotliDecompressSync, constants as zlibConstants, gunzipSync, inflateSync } from 'zlib';
+
+// FoalTS
+import { Config } from '../../core';
+import { streamToBuffer } from '../utils';
+import {
+  compressBody,
+  createCompressionStream,
+  getCompressionConfig,
+  getResponseEncoding,
+  isCompressible,
+  negotiateEncoding
+} from './compression.utils';
+
+describe('getCompressionConfig', () => {
+
+  afterEach(() => {
+    Config.remove('settings.compression.enabled');
+    Config.remove('settings.compression.threshold');
+    Config.remove('settings.compression.types');
+    Config.remove('settings.compression.encodings');
+    Config.remove('settings.compression.brotliQuality');
+  });
+
+  it('should return undefined if the compression is not enabled.', () => {
+    strictEqual(getCompressionConfig(), undefined);
+  });
+
+  it('should return the default options if the compression is enabled.', () => {
+    Config.set('settings.compression.enabled', true);
+
+    deepStrictEqual(getCompressionConfig(), {
+      brotliQuality: 4,
+      encodings: [ 'br', 'gzip', 'deflate' ],
+      threshold: 1024,
+      types: [ 'text/*', 'application/json', 'application/javascript', 'application/xml', 'image/svg+xml' ],
+    });
+  });
+
+  it('should return the options defined in the configuration.', () => {
+    Config.set('settings.compression.enabled', true);
+    Config.set('settings.compression.threshold', 100);
+    Config.set('settings.compression.types', 'application/json, text/csv');
+    Config.set('settings.compression.encodings', 'gzip');
+    Config.set('settings.compression.brotliQuality', 6);
+
+    deepStrictEqual(getCompressionConfig(), {
+      brotliQuality: 6,
+      encodings: [ 'gzip' ],
+      threshold: 100,
+      types: [ 'application/json', 'text/csv' ],
+    });
+  });
+
+});
+
+describe('negotiateEncoding', () => {
+
+  const encodings: ('br'|'gzip'|'deflate')[] = [ 'br', 'gzip', 'deflate' ];
+
+  it('should return the preferred encoding accepted by the client.', () => {
+    strictEqual(negotiateEncoding('gzip, deflate, br', encodings), 'br');
+    strictEqual(negotiateEncoding('deflate, gzip', encodings), 'gzip');
+    strictEqual(negotiateEncoding('*', encodings), 'br');
+  });
+
+  it('should take the quality values into account.', () => {
+    strictEqual(negotiateEncoding('br;q=0.5, gzip', encodings), 'gzip');
+    strictEqual(negotiateEncoding('gzip;q=0.8, deflate;q=0.9', encodings), 'deflate');
+    strictEqual(negotiateEncoding('*, br;q=0', encodings), 'gzip');
+  });
+
+  it('should return undefined if no encoding is accepted.', () => {
+    strictEqual(negotiateEncoding(undefined, encodings), undefined);
+    strictEqual(negotiateEncoding('identity', encodings), undefined);
+    strictEqual(negotiateEncoding('gzip;q=0', encodings), undefined);
+  });
+
+});
+
+describe('isCompressible', () => {
+
+  it('should check the content type against the list of types.', () => {
+    const types = [ 'text/*', 'application/json' ];
+
+    strictEqual(isCompressible('application/json; charset=utf-8', types), true);
+    strictEqual(isCompressible('text/html', types), true);
+    strictEqual(isCompressible('image/png', types), false);
+    strictEqual(isCompressible(undefined, types), false);
+  });
+
+});
+
+describe('getResponseEncoding', () => {
+
+  const options = { encodings: [ 'gzip' as const ], threshold: 100, types: [ 'application/json' ] };
+
+  it('should return the encoding of the body.', () => {
+    strictEqual(getResponseEncoding(options, {
+      acceptEncoding: 'gzip',
+      contentType: 'application/json',
+      length: 100,
+    }), 'gzip');
+    // Streamed body
+    strictEqual(getResponseEncoding(options, {
+      acceptEncoding: 'gzip',
+      contentType: 'application/json',
+    }), 'gzip');
+  });
+
+  it('should return undefined if the body must not be compressed.', () => {
+    strictEqual(getResponseEncoding(options, {
+      acceptEncoding: 'gzip',
+      contentType: 'application/json',
+      length: 99,
+    }), undefined);
+    strictEqual(getResponseEncoding(options, {
+      acceptEncoding: 'gzip',
+      contentType: 'text/html',
+      length: 100,
+    }), undefined);
+    strictEqual(getResponseEncoding(options, {
+      acceptEncoding: 'gzip',
+      contentEncoding: 'gzip',
+      contentType: 'application/json',
+      length: 100,
+    }), undefined);
+  });
+
+});
+
+describe('compressBody', () => {
+
+  it('should compress the body with the given encoding.', async () => {
+    strictEqual(brotliDecompressSync(await compressBody('hello', 'br')).toString(), 'hello');
+    strictEqual(gunzipSync(await compressBody('hello', 'gzip')).toString(), 'hello');
+    strictEqual(inflateSync(await compressBody(Buffer.from('hello'), 'deflate')).toString(), 'hello');
+  });
+
+  it('should use the given Brotli quality (4 by default).', async () => {
+    const body = JSON.stringify(Array.from({ length: 200 }, (_, id) => ({ id, name: `User ${id}` })));
+    const compress = (quality: number) => brotliCompressSync(body, {
+      params: { [zlibConstants.BROTLI_PARAM_QUALITY]: quality }
+    });
+
+    deepStrictEqual(await compressBody(body, 'br'), compress(4));
+    deepStrictEqual(await compressBody(body, 'br', 11), compress(11));
+  });
+
+});
+
+describe('createCompressionStream', () => {
+
+  it('should return a stream compressing the data with the given encoding.', async () => {
+    const stream = Readable.from([ 'hello ', 'world' ]).pipe(createCompressionStream('gzip'));
+
+    strictEqual(gunzipSync(await streamToBuffer(stream)).toString(), 'hello world');
+  });
+
+});
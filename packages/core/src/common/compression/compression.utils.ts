@@ -0,0 +1,196 @@
+// std
+import { Transform } from 'stream';
+import { promisify } from 'util';
+import {
+  brotliCompress,
+  constants as zlibConstants,
+  createBrotliCompress,
+  createDeflate,
+  createGzip,
+  deflate,
+  gzip
+} from 'zlib';
+
+// FoalTS
+import { Config } from '../../core';
+
+export type CompressionEncoding = 'br'|'gzip'|'deflate';
+
+export interface CompressionOptions {
+  /**
+   * Minimum size in bytes of the bodies to compress. Streamed bodies are always compressed.
+   */
+  threshold: number;
+  /**
+   * Content types to compress. A type can end with a wildcard (ex: `text/*`).
+   */
+  types: string[];
+  /**
+   * Supported encodings ordered by preference.
+   */
+  encodings: CompressionEncoding[];
+  /**
+   * Quality of the Brotli compression, from 0 to 11. Default: 4 (Node's default, 11, is too slow
+   * to compress responses on the fly).
+   */
+  brotliQuality?: number;
+}
+
+const brotliCompressAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+const deflateAsync = promisify(deflate);
+
+const defaultTypes = [
+  'text/*',
+  'application/json',
+  'application/javascript',
+  'application/xml',
+  'image/svg+xml',
+];
+
+function toList(value: string|string[]): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(item => item !== '');
+  }
+  return value;
+}
+
+/**
+ * Read the compression options from the `settings.compression` configuration.
+ *
+ * @export
+ * @returns {(CompressionOptions|undefined)} The options or undefined if the compression is disabled.
+ */
+export function getCompressionConfig(): CompressionOptions|undefined {
+  if (!Config.get('settings.compression.enabled', 'boolean', false)) {
+    return;
+  }
+  return {
+    brotliQuality: Config.get('settings.compression.brotliQuality', 'number', 4),
+    encodings: toList(Config.get('settings.compression.encodings', 'any', [ 'br', 'gzip', 'deflate' ])),
+    threshold: Config.get('settings.compression.threshold', 'number', 1024),
+    types: toList(Config.get('settings.compression.types', 'any', defaultTypes)),
+  } as CompressionOptions;
+}
+
+/**
+ * Choose the encoding of a response from the Accept-Encoding header of the request.
+ *
+ * @export
+ * @param {(string|undefined)} acceptEncoding - The value of the Accept-Encoding header.
+ * @param {CompressionEncoding[]} encodings - The supported encodings ordered by preference.
+ * @returns {(CompressionEncoding|undefined)} The encoding or undefined if none is accepted.
+ */
+export function negotiateEncoding(
+  acceptEncoding: string|undefined, encodings: CompressionEncoding[]
+): CompressionEncoding|undefined {
+  if (!acceptEncoding) {
+    return;
+  }
+
+  const qualities = new Map<string, number>();
+  for (const item of acceptEncoding.split(',')) {
+    const [ name, ...params ] = item.trim().split(';');
+    const qParam = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    const quality = qParam ? parseFloat(qParam.substring(2)) : 1;
+    qualities.set(name.trim().toLowerCase(), isNaN(quality) ? 0 : quality);
+  }
+
+  let bestEncoding: CompressionEncoding|undefined;
+  let bestQuality = 0;
+  for (const encoding of encodings) {
+    const quality = qualities.get(encoding) ?? qualities.get('*') ?? 0;
+    if (quality > bestQuality) {
+      bestEncoding = encoding;
+      bestQuality = quality;
+    }
+  }
+  return bestEncoding;
+}
+
+/**
+ * Check if a content type is part of the content types to compress.
+ *
+ * @export
+ * @param {(string|undefined)} contentType - The value of the Content-Type header.
+ * @param {string[]} types - The content types to compress.
+ * @returns {boolean} True if the content type is compressible.
+ */
+export function isCompressible(contentType: string|undefined, types: string[]): boolean {
+  if (!contentType) {
+    return false;
+  }
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  return types.some(type => type.endsWith('/*') ?
+    mimeType.startsWith(type.substring(0, type.length - 1)) :
+    mimeType === type
+  );
+}
+
+/**
+ * Compress a body. The compression runs in the thread pool of Node.js so that it
+ * does not block the event loop.
+ *
+ * @export
+ * @param {(string|Buffer)} body - The body.
+ * @param {CompressionEncoding} encoding - The encoding.
+ * @param {number} [brotliQuality=4] - The quality of the Brotli compression.
+ * @returns {Promise<Buffer>} The compressed body.
+ */
+export async function compressBody(
+  body: string|Buffer, encoding: CompressionEncoding, brotliQuality = 4
+): Promise<Buffer> {
+  switch (encoding) {
+    case 'br':
+      return brotliCompressAsync(body, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: brotliQuality } });
+    case 'gzip':
+      return gzipAsync(body);
+    case 'deflate':
+      return deflateAsync(body);
+  }
+}
+
+/**
+ * Create a stream compressing the data written to it.
+ *
+ * @export
+ * @param {CompressionEncoding} encoding - The encoding.
+ * @param {number} [brotliQuality=4] - The quality of the Brotli compression.
+ * @returns {Transform} The stream.
+ */
+export function createCompressionStream(encoding: CompressionEncoding, brotliQuality = 4): Transform {
+  switch (encoding) {
+    case 'br':
+      return createBrotliCompress({ params: { [zlibConstants.BROTLI_PARAM_QUALITY]: brotliQuality } });
+    case 'gzip':
+      return createGzip();
+    case 'deflate':
+      return createDeflate();
+  }
+}
+
+/**
+ * Choose the encoding of a response body.
+ *
+ * @export
+ * @param {CompressionOptions} options - The compression options.
+ * @param {{ acceptEncoding?: string, contentType?: string, contentEncoding?: string, length?: number }} params
+ * - The Accept-Encoding header of the request, the Content-Type and Content-Encoding headers of the response
+ * and the size of the body (undefined if the body is streamed).
+ * @returns {(CompressionEncoding|undefined)} The encoding or undefined if the body must not be compressed.
+ */
+export function getResponseEncoding(
+  options: CompressionOptions,
+  params: { acceptEncoding?: string, contentType?: string, contentEncoding?: string, length?: number },
+): CompressionEncoding|undefined {
+  if (params.contentEncoding !== undefined) {
+    return;
+  }
+  if (params.length !== undefined && (params.length === 0 || params.length < options.threshold)) {
+    return;
+  }
+  if (!isCompressible(params.contentType, options.types)) {
+    return;
+  }
+  return negotiateEncoding(params.acceptEncoding, options.encodings);
+}
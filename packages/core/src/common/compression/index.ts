@@ -0,0 +1,10 @@
+export {
+  compressBody,
+  CompressionEncoding,
+  CompressionOptions,
+  createCompressionStream,
+  getCompressionConfig,
+  getResponseEncoding,
+  isCompressible,
+  negotiateEncoding,
+} from './compression.utils';
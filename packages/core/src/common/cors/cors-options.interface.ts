@@ -0,0 +1,46 @@
+/**
+ * Origin(s) allowed to make cross-origin requests.
+ *
+ * - `'*'` or `true`: all origins are allowed.
+ * - `false`: no origin is allowed.
+ * - A string or a regular expression: the origin must match it.
+ * - An array: the origin must match one of its items.
+ * - A function: the origin is allowed if the function returns `true`.
+ */
+export type CorsOrigin = boolean | string | RegExp | (string|RegExp)[] | ((origin: string) => boolean);
+
+/**
+ * Options of the `@Cors` hook and of the `settings.cors` configuration.
+ *
+ * @export
+ * @interface CorsOptions
+ */
+export interface CorsOptions {
+  /**
+   * Allowed origins. Default: `'*'`.
+   */
+  origin?: CorsOrigin;
+  /**
+   * Methods returned in the `Access-Control-Allow-Methods` header of preflight requests.
+   * Default: the methods of the routes registered for the requested path.
+   */
+  methods?: string[];
+  /**
+   * Headers returned in the `Access-Control-Allow-Headers` header of preflight requests.
+   * Default: the headers listed in the `Access-Control-Request-Headers` header of the request.
+   */
+  allowedHeaders?: string[];
+  /**
+   * Headers returned in the `Access-Control-Expose-Headers` header.
+   */
+  exposedHeaders?: string[];
+  /**
+   * Specify if cookies and credentials can be sent in cross-origin requests. The allowed origins
+   * must then be explicitly listed: `createApp` throws a CorsConfigError if the origin is `'*'` or `true`.
+   */
+  credentials?: boolean;
+  /**
+   * Number of seconds during which the result of a preflight request can be cached.
+   */
+  maxAge?: number;
+}
@@ -0,0 +1,108 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import {
+  Config,
+  Context,
+  getHookFunction,
+  getMetadata,
+  HttpResponseOK,
+  ServiceManager
+} from '../../core';
+import { Cors } from './cors.hook';
+
+describe('Cors', () => {
+
+  function createContext(headers: { [key: string]: string }): Context {
+    return new Context({
+      get(key: string) { return headers[key]; },
+    });
+  }
+
+  afterEach(() => {
+    Config.remove('settings.cors.origin');
+    Config.remove('settings.cors.credentials');
+  });
+
+  it('should add the CORS headers to the response.', async () => {
+    const hook = getHookFunction(Cors({ exposedHeaders: [ 'X-Total-Count' ], origin: /example\.com$/ }));
+    const ctx = createContext({ Origin: 'https://example.com' });
+
+    const postHookFunction = await hook(ctx, new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK();
+    await postHookFunction(response);
+
+    deepStrictEqual(response.getHeaders(), {
+      'Access-Control-Allow-Origin': 'https://example.com',
+      'Access-Control-Expose-Headers': 'X-Total-Count',
+      'Vary': 'Origin',
+    });
+  });
+
+  it('should merge the options with the configuration.', async () => {
+    Config.set('settings.cors.origin', 'https://example.com');
+    Config.set('settings.cors.credentials', true);
+
+    const hook = getHookFunction(Cors({ credentials: false }));
+    const ctx = createContext({ Origin: 'https://example.com' });
+
+    const postHookFunction = await hook(ctx, new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK();
+    await postHookFunction(response);
+
+    deepStrictEqual(response.getHeaders(), {
+      'Access-Control-Allow-Origin': 'https://example.com',
+      'Vary': 'Origin',
+    });
+  });
+
+  it('should not override the headers set by a more specific Cors hook.', async () => {
+    const ctx = createContext({ Origin: 'https://example.com' });
+    const response = new HttpResponseOK();
+
+    for (const options of [ { credentials: true, origin: 'https://example.com' }, {} ]) {
+      const postHookFunction = await getHookFunction(Cors(options))(ctx, new ServiceManager());
+      if (typeof postHookFunction !== 'function') {
+        throw new Error('The hook should return a post hook function.');
+      }
+      await postHookFunction(response);
+    }
+
+    strictEqual(response.getHeader('Access-Control-Allow-Origin'), 'https://example.com');
+  });
+
+  it('should store the CORS options in the metadata.', () => {
+    @Cors({ origin: 'https://example.com' })
+    class Foobar {
+      @Cors({ maxAge: 600, openapi: false })
+      foo() {}
+    }
+
+    deepStrictEqual(getMetadata('cors', Foobar), { origin: 'https://example.com' });
+    deepStrictEqual(getMetadata('cors', Foobar, 'foo'), { maxAge: 600 });
+  });
+
+  it('should mark the route so that its CORS headers are documented in OpenAPI.', () => {
+    @Cors()
+    class Foobar {}
+
+    strictEqual(getMetadata('cors:openapi', Foobar), true);
+  });
+
+  it('should not mark the route so that its CORS headers are documented in OpenAPI if options.openapi is false.', () => {
+    @Cors({ openapi: false })
+    class Foobar {}
+
+    strictEqual(getMetadata('cors:openapi', Foobar), undefined);
+  });
+
+});
@@ -0,0 +1,50 @@
+// 3p
+import 'reflect-metadata';
+
+// FoalTS
+import { Context, Hook, HookDecorator, HttpResponse } from '../../core';
+import { CorsOptions } from './cors-options.interface';
+import { getCorsConfig, getCorsHeaders, hasCorsHeaders, setCorsHeaders } from './cors.utils';
+
+/**
+ * Hook adding the CORS headers to the responses of a controller or a controller method.
+ *
+ * The given options override those of the `settings.cors` configuration. Preflight requests
+ * (OPTIONS) are answered automatically by `createApp` using the same options.
+ *
+ * In OpenAPI, the CORS headers are added to the responses of the operations.
+ *
+ * @export
+ * @param {CorsOptions} [options={}] - The CORS options.
+ * @param {boolean} [options.openapi] - Add OpenAPI metadata.
+ * @returns {HookDecorator} The hook.
+ */
+export function Cors(options: CorsOptions & { openapi?: boolean } = {}): HookDecorator {
+  const { openapi, ...corsOptions } = options;
+
+  function cors(ctx: Context) {
+    const mergedOptions: CorsOptions = { ...getCorsConfig(), ...corsOptions };
+
+    return (response: HttpResponse) => {
+      // The headers may have already been set by a more specific @Cors hook.
+      if (hasCorsHeaders(response)) {
+        return;
+      }
+      setCorsHeaders(response, getCorsHeaders(mergedOptions, ctx.request.get('Origin')));
+    };
+  }
+
+  // Read by createApp to add the CORS headers to the OpenAPI responses
+  // (the headers depend on the configuration and on the route).
+  const documentCorsHeaders = (target: any, propertyKey?: string) => {
+    Reflect.defineMetadata('cors:openapi', true, target, propertyKey as string);
+  };
+
+  const hook = Hook(cors, [ documentCorsHeaders ], { openapi });
+
+  return (target: any, propertyKey?: string) => {
+    hook(target, propertyKey);
+    // Read by createApp to answer preflight requests.
+    Reflect.defineMetadata('cors', corsOptions, target, propertyKey as string);
+  };
+}
@@ -0,0 +1,332 @@
+// std
+import { deepStrictEqual, strictEqual, throws } from 'assert';
+
+// FoalTS
+import { ApiResponse, Config, HttpResponseOK, IApiOperation, IApiResponse } from '../../core';
+import { Cors } from './cors.hook';
+import {
+  addCorsOpenApiHeaders,
+  CorsConfigError,
+  getCorsConfig,
+  getCorsHeaders,
+  getCorsOpenApiHeaders,
+  getCorsPreflightHeaders,
+  getRouteCorsOptions,
+  hasCorsHeaders,
+  setCorsHeaders,
+  validateCorsOptions,
+} from './cors.utils';
+
+describe('getCorsConfig', () => {
+
+  afterEach(() => {
+    Config.remove('settings.cors.origin');
+    Config.remove('settings.cors.methods');
+    Config.remove('settings.cors.allowedHeaders');
+    Config.remove('settings.cors.exposedHeaders');
+    Config.remove('settings.cors.credentials');
+    Config.remove('settings.cors.maxAge');
+  });
+
+  it('should return undefined if no CORS option is defined in the configuration.', () => {
+    strictEqual(getCorsConfig(), undefined);
+  });
+
+  it('should return the CORS options defined in the configuration.', () => {
+    Config.set('settings.cors.origin', 'https://example.com');
+    Config.set('settings.cors.methods', 'GET, POST');
+    Config.set('settings.cors.allowedHeaders', 'Content-Type,Authorization');
+    Config.set('settings.cors.exposedHeaders', 'X-Total-Count');
+    Config.set('settings.cors.credentials', true);
+    Config.set('settings.cors.maxAge', 600);
+
+    deepStrictEqual(getCorsConfig(), {
+      allowedHeaders: [ 'Content-Type', 'Authorization' ],
+      credentials: true,
+      exposedHeaders: [ 'X-Total-Count' ],
+      maxAge: 600,
+      methods: [ 'GET', 'POST' ],
+      origin: 'https://example.com',
+    });
+  });
+
+  it('should split the origin if it is a comma-separated list.', () => {
+    Config.set('settings.cors.origin', 'https://example.com, https://foalts.org');
+
+    deepStrictEqual(getCorsConfig(), {
+      origin: [ 'https://example.com', 'https://foalts.org' ],
+    });
+  });
+
+});
+
+describe('validateCorsOptions', () => {
+
+  it('should throw a CorsConfigError if credentials are allowed for all origins.', () => {
+    for (const options of [ { credentials: true }, { credentials: true, origin: '*' }, { credentials: true, origin: true } ]) {
+      throws(() => validateCorsOptions(options), (error: any) => {
+        strictEqual(error instanceof CorsConfigError, true);
+        strictEqual(
+          error.message,
+          '[CORS] Credentials cannot be allowed for all origins. The "origin" option must be '
+          + 'a string, a regular expression, an array or a function.'
+        );
+        return true;
+      });
+    }
+  });
+
+  it('should not throw if the allowed origins are explicit or if credentials are not allowed.', () => {
+    validateCorsOptions({});
+    validateCorsOptions({ origin: '*' });
+    validateCorsOptions({ credentials: true, origin: 'https://example.com' });
+    validateCorsOptions({ credentials: true, origin: [ /example/ ] });
+    validateCorsOptions({ credentials: true, origin: () => true });
+  });
+
+});
+
+describe('getCorsHeaders', () => {
+
+  it('should allow all origins by default.', () => {
+    deepStrictEqual(getCorsHeaders({}, 'https://example.com'), {
+      'Access-Control-Allow-Origin': '*',
+    });
+    deepStrictEqual(getCorsHeaders({ origin: true }, undefined), {
+      'Access-Control-Allow-Origin': '*',
+    });
+  });
+
+  it('should not allow any origin if credentials are allowed for all origins.', () => {
+    deepStrictEqual(getCorsHeaders({ credentials: true }, 'https://example.com'), { Vary: 'Origin' });
+    deepStrictEqual(getCorsHeaders({ credentials: true, origin: true }, 'https://example.com'), { Vary: 'Origin' });
+  });
+
+  it('should return the request origin and allow credentials if the origin is allowed.', () => {
+    deepStrictEqual(getCorsHeaders({ credentials: true, origin: /example/ }, 'https://example.com'), {
+      'Access-Control-Allow-Credentials': 'true',
+      'Access-Control-Allow-Origin': 'https://example.com',
+      'Vary': 'Origin',
+    });
+  });
+
+  it('should check the origin against a string, a regular expression, an array or a function.', () => {
+    const allowed = { 'Access-Control-Allow-Origin': 'https://example.com', 'Vary': 'Origin' };
+    const rejected = { Vary: 'Origin' };
+
+    deepStrictEqual(getCorsHeaders({ origin: 'https://example.com' }, 'https://example.com'), allowed);
+    deepStrictEqual(getCorsHeaders({ origin: 'https://example.com' }, 'https://foalts.org'), rejected);
+
+    deepStrictEqual(getCorsHeaders({ origin: /\.com$/ }, 'https://example.com'), allowed);
+    deepStrictEqual(getCorsHeaders({ origin: /\.com$/ }, 'https://foalts.org'), rejected);
+
+    deepStrictEqual(getCorsHeaders({ origin: [ 'https://foo.com', /example/ ] }, 'https://example.com'), allowed);
+    deepStrictEqual(getCorsHeaders({ origin: [ 'https://foo.com', /example/ ] }, 'https://foalts.org'), rejected);
+
+    const origin = (value: string) => value.startsWith('https://example');
+    deepStrictEqual(getCorsHeaders({ origin }, 'https://example.com'), allowed);
+    deepStrictEqual(getCorsHeaders({ origin }, 'https://foalts.org'), rejected);
+
+    deepStrictEqual(getCorsHeaders({ origin: 'https://example.com' }, undefined), rejected);
+    deepStrictEqual(getCorsHeaders({ origin: false }, 'https://example.com'), rejected);
+  });
+
+  it('should return the exposed headers.', () => {
+    deepStrictEqual(getCorsHeaders({ exposedHeaders: [ 'X-Total-Count', 'X-Page' ] }, 'https://example.com'), {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Expose-Headers': 'X-Total-Count, X-Page',
+    });
+  });
+
+});
+
+describe('getCorsOpenApiHeaders', () => {
+
+  it('should return the OpenAPI definitions of the CORS headers.', () => {
+    deepStrictEqual(Object.keys(getCorsOpenApiHeaders({})), [ 'Access-Control-Allow-Origin' ]);
+    deepStrictEqual(Object.keys(getCorsOpenApiHeaders({ credentials: true, exposedHeaders: [ 'X-Total-Count' ] })), [
+      'Access-Control-Allow-Origin',
+      'Access-Control-Allow-Credentials',
+      'Access-Control-Expose-Headers',
+    ]);
+  });
+
+  it('should return no headers if the origin option is false.', () => {
+    deepStrictEqual(getCorsOpenApiHeaders({ origin: false }), {});
+  });
+
+});
+
+describe('getRouteCorsOptions', () => {
+
+  it('should return the options of the closest @Cors hook of the route.', () => {
+    @Cors({ origin: 'https://example.com' })
+    class AppController {}
+
+    @Cors({ origin: 'https://foalts.org' })
+    class ApiController {
+      foo() {}
+
+      @Cors({ credentials: true, origin: 'https://foalts.org' })
+      bar() {}
+    }
+
+    class UserController {
+      foo() {}
+    }
+
+    strictEqual(getRouteCorsOptions([ AppController, ApiController ], 'foo')?.origin, 'https://foalts.org');
+    strictEqual(getRouteCorsOptions([ AppController, ApiController ], 'bar')?.credentials, true);
+    strictEqual(getRouteCorsOptions([ AppController, UserController ], 'foo')?.origin, 'https://example.com');
+    strictEqual(getRouteCorsOptions([ UserController ], 'foo'), undefined);
+  });
+
+});
+
+describe('addCorsOpenApiHeaders', () => {
+
+  const allowOrigin = {
+    description: 'Origin allowed to read the response.',
+    schema: { type: 'string' },
+  };
+
+  afterEach(() => {
+    Config.remove('settings.cors.origin');
+    Config.remove('settings.cors.exposedHeaders');
+  });
+
+  it('should add the headers of the settings.cors configuration to the responses.', () => {
+    Config.set('settings.cors.origin', 'https://example.com');
+    class ApiController {}
+
+    const operation: IApiOperation = {
+      responses: {
+        200: { description: 'Success' },
+        404: { $ref: '#/components/responses/NotFound' },
+      }
+    };
+
+    deepStrictEqual(addCorsOpenApiHeaders(operation, [ ApiController ], 'foo').responses, {
+      200: { description: 'Success', headers: { 'Access-Control-Allow-Origin': allowOrigin } },
+      404: { $ref: '#/components/responses/NotFound' },
+    });
+    // The operation must not be modified.
+    deepStrictEqual(operation.responses[200], { description: 'Success' });
+  });
+
+  it('should not add headers if there is no @Cors hook and no configuration.', () => {
+    class ApiController {}
+    const operation: IApiOperation = { responses: { 200: { description: 'Success' } } };
+
+    strictEqual(addCorsOpenApiHeaders(operation, [ ApiController ], 'foo'), operation);
+  });
+
+  it('should add the headers of the closest @Cors hook merged with the configuration.', () => {
+    Config.set('settings.cors.exposedHeaders', 'X-Total-Count');
+
+    @Cors({ origin: 'https://example.com' })
+    class ApiController {
+      @ApiResponse(200, { description: 'Success' })
+      foo() {}
+
+      @Cors({ credentials: true, openapi: true, origin: 'https://example.com' })
+      bar() {}
+    }
+
+    const operation: IApiOperation = { responses: { 200: { description: 'Success' } } };
+
+    deepStrictEqual(Object.keys((addCorsOpenApiHeaders(operation, [ ApiController ], 'foo').responses[200] as IApiResponse).headers || {}), [
+      'Access-Control-Allow-Origin',
+      'Access-Control-Expose-Headers',
+    ]);
+    deepStrictEqual(Object.keys((addCorsOpenApiHeaders(operation, [ ApiController ], 'bar').responses[200] as IApiResponse).headers || {}), [
+      'Access-Control-Allow-Origin',
+      'Access-Control-Allow-Credentials',
+      'Access-Control-Expose-Headers',
+    ]);
+  });
+
+  it('should not add headers if the closest @Cors hook has the option openapi set to false.', () => {
+    Config.set('settings.cors.origin', 'https://example.com');
+
+    class ApiController {
+      @Cors({ openapi: false })
+      foo() {}
+    }
+
+    const operation: IApiOperation = { responses: { 200: { description: 'Success' } } };
+
+    strictEqual(addCorsOpenApiHeaders(operation, [ ApiController ], 'foo'), operation);
+  });
+
+});
+
+describe('getCorsPreflightHeaders', () => {
+
+  it('should return the allowed methods and reflect the requested headers by default.', () => {
+    deepStrictEqual(getCorsPreflightHeaders({}, 'https://example.com', 'Content-Type', [ 'GET', 'POST' ]), {
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST',
+      'Access-Control-Allow-Origin': '*',
+      'Vary': 'Access-Control-Request-Headers',
+    });
+  });
+
+  it('should return the methods, headers and max age given in the options.', () => {
+    const options = {
+      allowedHeaders: [ 'Content-Type', 'Authorization' ],
+      exposedHeaders: [ 'X-Total-Count' ],
+      maxAge: 600,
+      methods: [ 'GET', 'PUT' ],
+      origin: 'https://example.com',
+    };
+    deepStrictEqual(getCorsPreflightHeaders(options, 'https://example.com', 'X-Foo', [ 'GET' ]), {
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, PUT',
+      'Access-Control-Allow-Origin': 'https://example.com',
+      'Access-Control-Max-Age': '600',
+      'Vary': 'Origin',
+    });
+  });
+
+  it('should only return the Vary header if the origin is not allowed.', () => {
+    deepStrictEqual(
+      getCorsPreflightHeaders({ origin: 'https://example.com' }, 'https://foalts.org', 'X-Foo', [ 'GET' ]),
+      { Vary: 'Origin' }
+    );
+  });
+
+});
+
+describe('setCorsHeaders', () => {
+
+  it('should add the headers to the response and append the values of the Vary header.', () => {
+    const response = new HttpResponseOK()
+      .setHeader('Vary', 'Accept-Encoding');
+
+    setCorsHeaders(response, { 'Access-Control-Allow-Origin': 'https://example.com', 'Vary': 'Origin' });
+
+    deepStrictEqual(response.getHeaders(), {
+      'Access-Control-Allow-Origin': 'https://example.com',
+      'Vary': 'Accept-Encoding, Origin',
+    });
+  });
+
+  it('should not append the values already listed in the Vary header.', () => {
+    const response = new HttpResponseOK()
+      .setHeader('Vary', 'Origin, Accept-Encoding');
+
+    setCorsHeaders(response, { Vary: 'origin, Access-Control-Request-Headers' });
+
+    strictEqual(response.getHeader('Vary'), 'Origin, Accept-Encoding, Access-Control-Request-Headers');
+  });
+
+  it('should mark the response as having its CORS headers.', () => {
+    const response = new HttpResponseOK();
+    strictEqual(hasCorsHeaders(response), false);
+
+    setCorsHeaders(response, {});
+    strictEqual(hasCorsHeaders(response), true);
+  });
+
+});
@@ -0,0 +1,296 @@
+// FoalTS
+import { Class, Config, getMetadata, HttpResponse, IApiHeader, IApiOperation } from '../../core';
+import { CorsOptions } from './cors-options.interface';
+
+// Responses whose CORS headers have already been set (by a @Cors hook or by createApp).
+const responsesWithCorsHeaders = new WeakSet<HttpResponse>();
+
+function toList(value: string|string[]|undefined): string[]|undefined {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(item => item !== '');
+  }
+  return value;
+}
+
+function getAllowedOrigin(options: CorsOptions, origin: string|undefined): string|undefined {
+  const allowedOrigin = options.origin ?? '*';
+
+  if (allowedOrigin === false) {
+    return;
+  }
+  if (allowedOrigin === '*' || allowedOrigin === true) {
+    // Credentials are never allowed for all origins (see validateCorsOptions).
+    return options.credentials ? undefined : '*';
+  }
+  if (origin === undefined) {
+    return;
+  }
+
+  if (typeof allowedOrigin === 'function') {
+    return allowedOrigin(origin) ? origin : undefined;
+  }
+  const allowedOrigins = Array.isArray(allowedOrigin) ? allowedOrigin : [ allowedOrigin ];
+  const isAllowed = allowedOrigins.some(item => typeof item === 'string' ? item === origin : item.test(origin));
+  return isAllowed ? origin : undefined;
+}
+
+/**
+ * Error thrown if CORS options are unsafe or inconsistent.
+ *
+ * @export
+ * @class CorsConfigError
+ * @extends {Error}
+ */
+export class CorsConfigError extends Error {
+  readonly name = 'CorsConfigError';
+}
+
+/**
+ * Check that the CORS options do not allow credentials for all origins. Otherwise, any website
+ * could make authenticated requests and read their responses.
+ *
+ * @export
+ * @param {CorsOptions} options - The CORS options.
+ * @throws {CorsConfigError} If credentials are allowed and the origin is `'*'`, `true` or undefined.
+ */
+export function validateCorsOptions(options: CorsOptions): void {
+  const origin = options.origin ?? '*';
+  if (options.credentials && (origin === '*' || origin === true)) {
+    throw new CorsConfigError(
+      '[CORS] Credentials cannot be allowed for all origins. The "origin" option must be '
+      + 'a string, a regular expression, an array or a function.'
+    );
+  }
+}
+
+/**
+ * Read the CORS options from the `settings.cors` configuration.
+ *
+ * The origin, methods and headers can be given as arrays or as comma-separated strings.
+ *
+ * @export
+ * @returns {(CorsOptions|undefined)} The options or undefined if no `settings.cors.*` option is defined.
+ */
+export function getCorsConfig(): CorsOptions|undefined {
+  const origin = Config.get('settings.cors.origin', 'any');
+  const options: CorsOptions = {
+    allowedHeaders: toList(Config.get('settings.cors.allowedHeaders', 'any')),
+    credentials: Config.get('settings.cors.credentials', 'boolean'),
+    exposedHeaders: toList(Config.get('settings.cors.exposedHeaders', 'any')),
+    maxAge: Config.get('settings.cors.maxAge', 'number'),
+    methods: toList(Config.get('settings.cors.methods', 'any')),
+    origin: typeof origin === 'string' && origin.includes(',') ? toList(origin) : origin,
+  };
+
+  let key: keyof CorsOptions;
+  for (key in options) {
+    if (options[key] === undefined) {
+      delete options[key];
+    }
+  }
+
+  return Object.keys(options).length === 0 ? undefined : options;
+}
+
+/**
+ * Compute the CORS headers of a (non-preflight) response.
+ *
+ * @export
+ * @param {CorsOptions} options - The CORS options.
+ * @param {(string|undefined)} origin - The value of the `Origin` header of the request.
+ * @returns {Record<string, string>} The headers.
+ */
+export function getCorsHeaders(options: CorsOptions, origin: string|undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  const allowedOrigin = getAllowedOrigin(options, origin);
+  if (allowedOrigin !== '*') {
+    // The response depends on the origin of the request.
+    headers.Vary = 'Origin';
+  }
+  if (allowedOrigin === undefined) {
+    return headers;
+  }
+
+  headers['Access-Control-Allow-Origin'] = allowedOrigin;
+  if (options.credentials) {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  if (options.exposedHeaders && options.exposedHeaders.length > 0) {
+    headers['Access-Control-Expose-Headers'] = options.exposedHeaders.join(', ');
+  }
+
+  return headers;
+}
+
+/**
+ * Compute the OpenAPI definitions of the CORS headers of a (non-preflight) response.
+ *
+ * @export
+ * @param {CorsOptions} options - The CORS options.
+ * @returns {Record<string, IApiHeader>} The header definitions.
+ */
+export function getCorsOpenApiHeaders(options: CorsOptions): Record<string, IApiHeader> {
+  const headers: Record<string, IApiHeader> = {};
+  if (options.origin === false) {
+    return headers;
+  }
+
+  headers['Access-Control-Allow-Origin'] = {
+    description: 'Origin allowed to read the response.',
+    schema: { type: 'string' },
+  };
+  if (options.credentials) {
+    headers['Access-Control-Allow-Credentials'] = {
+      description: 'Indicates that the response can be read when the request is made with credentials.',
+      schema: { type: 'string', enum: [ 'true' ] },
+    };
+  }
+  if (options.exposedHeaders && options.exposedHeaders.length > 0) {
+    headers['Access-Control-Expose-Headers'] = {
+      description: 'Headers that can be read by the client.',
+      schema: { type: 'string', example: options.exposedHeaders.join(', ') },
+    };
+  }
+
+  return headers;
+}
+
+/**
+ * Return the options of the closest `@Cors` hook of a route (on the method, then on its controllers
+ * from the closest to the farthest) and whether its headers are documented in OpenAPI.
+ */
+function getClosestCorsMetadata(
+  controllerClasses: Class[], propertyKey: string
+): { options: CorsOptions, openapi: boolean }|undefined {
+  const targets: [ Class, string|undefined ][] = [
+    [ controllerClasses[controllerClasses.length - 1], propertyKey ],
+    ...controllerClasses.slice().reverse().map(controllerClass => [ controllerClass, undefined ] as [ Class, undefined ]),
+  ];
+  for (const [ target, key ] of targets) {
+    const options: CorsOptions|undefined = getMetadata('cors', target, key);
+    if (options) {
+      return { options, openapi: !!getMetadata('cors:openapi', target, key) };
+    }
+  }
+}
+
+/**
+ * Return the options of the closest `@Cors` hook of a route, if any.
+ *
+ * @export
+ * @param {Class[]} controllerClasses - The classes of the controllers of the route, from the root
+ * controller to the one defining the method.
+ * @param {string} propertyKey - The name of the controller method.
+ * @returns {(CorsOptions|undefined)} The options given to the hook (not merged with the configuration).
+ */
+export function getRouteCorsOptions(controllerClasses: Class[], propertyKey: string): CorsOptions|undefined {
+  return getClosestCorsMetadata(controllerClasses, propertyKey)?.options;
+}
+
+/**
+ * Add the CORS headers to the responses of an OpenAPI operation (except the references).
+ *
+ * The headers are those of the closest `@Cors` hook merged with the `settings.cors` configuration.
+ * If the route has no `@Cors` hook, they are added only if the configuration is defined.
+ *
+ * This function is registered as an operation hook of the `OpenApi` service by `createApp`.
+ *
+ * @export
+ * @param {IApiOperation} operation - The operation.
+ * @param {Class[]} controllerClasses - The classes of the controllers of the route.
+ * @param {string} propertyKey - The name of the controller method.
+ * @returns {IApiOperation} A copy of the operation with the headers.
+ */
+export function addCorsOpenApiHeaders(
+  operation: IApiOperation, controllerClasses: Class[], propertyKey: string
+): IApiOperation {
+  const cors = getClosestCorsMetadata(controllerClasses, propertyKey);
+  const corsConfig = getCorsConfig();
+  if (cors ? !cors.openapi : !corsConfig) {
+    return operation;
+  }
+
+  const headers = getCorsOpenApiHeaders({ ...corsConfig, ...cors?.options });
+  if (Object.keys(headers).length === 0) {
+    return operation;
+  }
+  // The responses are copied so that the objects of the metadata are not modified.
+  const responses: IApiOperation['responses'] = {};
+  for (const key in operation.responses) {
+    const response = operation.responses[key];
+    responses[key] = '$ref' in response ? response : { ...response, headers: { ...headers, ...response.headers } };
+  }
+  return { ...operation, responses };
+}
+
+/**
+ * Compute the headers of a response to a preflight request.
+ *
+ * @export
+ * @param {CorsOptions} options - The CORS options.
+ * @param {(string|undefined)} origin - The value of the `Origin` header of the request.
+ * @param {(string|undefined)} requestHeaders - The value of the `Access-Control-Request-Headers`
+ * header of the request.
+ * @param {string[]} methods - The methods of the routes registered for the requested path.
+ * @returns {Record<string, string>} The headers.
+ */
+export function getCorsPreflightHeaders(
+  options: CorsOptions, origin: string|undefined, requestHeaders: string|undefined, methods: string[]
+): Record<string, string> {
+  const headers = getCorsHeaders({ ...options, exposedHeaders: undefined }, origin);
+  if (!headers['Access-Control-Allow-Origin']) {
+    return headers;
+  }
+
+  headers['Access-Control-Allow-Methods'] = (options.methods || methods).join(', ');
+
+  if (options.allowedHeaders) {
+    headers['Access-Control-Allow-Headers'] = options.allowedHeaders.join(', ');
+  } else if (requestHeaders) {
+    headers['Access-Control-Allow-Headers'] = requestHeaders;
+    headers.Vary = headers.Vary ? `${headers.Vary}, Access-Control-Request-Headers` : 'Access-Control-Request-Headers';
+  }
+
+  if (options.maxAge !== undefined) {
+    headers['Access-Control-Max-Age'] = options.maxAge.toString();
+  }
+
+  return headers;
+}
+
+/**
+ * Add headers to a response. The values of the `Vary` header are appended to the existing ones
+ * (if they are not already listed).
+ *
+ * @export
+ * @param {HttpResponse} response - The HTTP response.
+ * @param {Record<string, string>} headers - The headers to add.
+ */
+export function setCorsHeaders(response: HttpResponse, headers: Record<string, string>): void {
+  responsesWithCorsHeaders.add(response);
+  for (const name in headers) {
+    const previousValue = response.getHeader(name);
+    if (name === 'Vary' && previousValue) {
+      const previousValues = previousValue.split(',').map(value => value.trim().toLowerCase());
+      const newValues = headers[name].split(',').map(value => value.trim())
+        .filter(value => !previousValues.includes(value.toLowerCase()));
+      if (newValues.length > 0) {
+        response.setHeader(name, [ previousValue, ...newValues ].join(', '));
+      }
+      continue;
+    }
+    response.setHeader(name, headers[name]);
+  }
+}
+
+/**
+ * Check if the CORS headers of a response have already been set with `setCorsHeaders`.
+ *
+ * @export
+ * @param {HttpResponse} response - The HTTP response.
+ * @returns {boolean} True if the headers have been set.
+ */
+export function hasCorsHeaders(response: HttpResponse): boolean {
+  return responsesWithCorsHeaders.has(response);
+}
@@ -0,0 +1,14 @@
+export { CorsOptions, CorsOrigin } from './cors-options.interface';
+export { Cors } from './cors.hook';
+export {
+  addCorsOpenApiHeaders,
+  CorsConfigError,
+  getCorsConfig,
+  getCorsHeaders,
+  getCorsOpenApiHeaders,
+  getCorsPreflightHeaders,
+  getRouteCorsOptions,
+  hasCorsHeaders,
+  setCorsHeaders,
+  validateCorsOptions,
+} from './cors.utils';
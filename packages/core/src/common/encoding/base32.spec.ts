@@ -0,0 +1,44 @@
+// std
+import { strictEqual, throws } from 'assert';
+
+// FoalTS
+import { decodeBase32, encodeBase32 } from './base32';
+
+// Test vectors from RFC 4648.
+const vectors: [ string, string ][] = [
+  [ '', '' ],
+  [ 'f', 'MY' ],
+  [ 'fo', 'MZXQ' ],
+  [ 'foo', 'MZXW6' ],
+  [ 'foob', 'MZXW6YQ' ],
+  [ 'fooba', 'MZXW6YTB' ],
+  [ 'foobar', 'MZXW6YTBOI' ],
+];
+
+describe('encodeBase32', () => {
+
+  it('should encode the buffer in base32 without padding.', () => {
+    for (const [ decoded, encoded ] of vectors) {
+      strictEqual(encodeBase32(Buffer.from(decoded)), encoded);
+    }
+  });
+
+});
+
+describe('decodeBase32', () => {
+
+  it('should decode the base32 string.', () => {
+    for (const [ decoded, encoded ] of vectors) {
+      strictEqual(decodeBase32(encoded).toString(), decoded);
+    }
+  });
+
+  it('should ignore the case, the padding, the spaces and the dashes.', () => {
+    strictEqual(decodeBase32('mzxw 6ytb-oi======').toString(), 'foobar');
+  });
+
+  it('should throw an error if the string contains an invalid character.', () => {
+    throws(() => decodeBase32('MZ1'), new Error('Invalid base32 character: "1".'));
+  });
+
+});
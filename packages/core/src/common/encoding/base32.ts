@@ -0,0 +1,60 @@
+// Base32 encoding works on groups of 5 bits.
+// tslint:disable:no-bitwise
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode a buffer in base32 (RFC 4648) without padding.
+ *
+ * @export
+ * @param {Buffer} buffer - The buffer to encode.
+ * @returns {string} The base32-encoded string.
+ */
+export function encodeBase32(buffer: Buffer): string {
+  let result = '';
+  let bits = 0;
+  let value = 0;
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      result += ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    result += ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return result;
+}
+
+/**
+ * Decode a base32 (RFC 4648) string. The decoding is case-insensitive and ignores
+ * padding, spaces and dashes.
+ *
+ * @export
+ * @param {string} str - The base32-encoded string.
+ * @returns {Buffer} The decoded buffer.
+ */
+export function decodeBase32(str: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of str.toUpperCase().replace(/[=\s-]/g, '')) {
+    const index = ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: "${char}".`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
@@ -1,2 +1,3 @@
+export { decodeBase32, encodeBase32 } from './base32';
 export { convertBase64ToBase64url } from './convert-base64-to-base64-url';
 export { convertBase64urlToBase64 } from './convert-base64-url-to-base64';
\ No newline at end of file
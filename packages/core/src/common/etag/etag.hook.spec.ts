@@ -0,0 +1,37 @@
+// std
+import { strictEqual } from 'assert';
+
+// FoalTS
+import { Context, getHookFunction, HttpResponseOK, ServiceManager } from '../../core';
+import { ETag } from './etag.hook';
+import { generateETag } from './etag.utils';
+
+describe('ETag', () => {
+
+  it('should add an ETag header to the response.', async () => {
+    const hook = getHookFunction(ETag());
+    const postHookFunction = await hook(new Context({}), new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK('<h1>Hello</h1>');
+    await postHookFunction(response);
+
+    strictEqual(response.getHeader('ETag'), generateETag('<h1>Hello</h1>'));
+  });
+
+  it('should generate strong entity tags if options.weak is false.', async () => {
+    const hook = getHookFunction(ETag({ weak: false }));
+    const postHookFunction = await hook(new Context({}), new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK({ foo: 'bar' });
+    await postHookFunction(response);
+
+    strictEqual(response.getHeader('ETag'), generateETag('{"foo":"bar"}', false));
+  });
+
+});
@@ -0,0 +1,18 @@
+// FoalTS
+import { Hook, HookDecorator, HttpResponse } from '../../core';
+import { setETag } from './etag.utils';
+
+/**
+ * Hook adding an ETag header to the successful responses of a controller or a controller method.
+ *
+ * Contrary to the `settings.etag` configuration, which only applies to JSON responses, the hook
+ * handles all non-streamed bodies. When the If-None-Match header of a GET or HEAD request matches
+ * the ETag header, an HttpResponseNotModified is returned instead of the response.
+ *
+ * @export
+ * @param {{ weak?: boolean }} [options={}] - Generate weak entity tags (default: true).
+ * @returns {HookDecorator} The hook.
+ */
+export function ETag(options: { weak?: boolean } = {}): HookDecorator {
+  return Hook(() => (response: HttpResponse) => setETag(response, { weak: options.weak }));
+}
@@ -0,0 +1,107 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { HttpResponseCreated, HttpResponseOK, isHttpResponseNotModified } from '../../core';
+import { generateETag, getConditionalResponse, matchesETag, setETag } from './etag.utils';
+
+describe('generateETag', () => {
+
+  it('should generate a weak entity tag from the body.', () => {
+    const etag = generateETag('hello');
+    strictEqual(etag, 'W/"5-qvTGHdzF6KLavt4PO0gs2a6pQ00"');
+    strictEqual(generateETag(Buffer.from('hello')), etag);
+    strictEqual(generateETag('hello!') === etag, false);
+  });
+
+  it('should generate a strong entity tag if requested.', () => {
+    strictEqual(generateETag('hello', false), '"5-qvTGHdzF6KLavt4PO0gs2a6pQ00"');
+  });
+
+});
+
+describe('matchesETag', () => {
+
+  it('should compare the entity tags with the weak comparison.', () => {
+    strictEqual(matchesETag('W/"abc"', 'W/"abc"'), true);
+    strictEqual(matchesETag('"abc"', 'W/"abc"'), true);
+    strictEqual(matchesETag('"xyz", W/"abc"', '"abc"'), true);
+    strictEqual(matchesETag('*', '"abc"'), true);
+
+    strictEqual(matchesETag('"xyz"', '"abc"'), false);
+    strictEqual(matchesETag(undefined, '"abc"'), false);
+  });
+
+});
+
+describe('setETag', () => {
+
+  it('should add an ETag header to the response.', () => {
+    const response = new HttpResponseOK({ foo: 'bar' });
+    setETag(response);
+    strictEqual(response.getHeader('ETag'), generateETag(JSON.stringify({ foo: 'bar' })));
+
+    const response2 = new HttpResponseOK('foo');
+    setETag(response2, { weak: false });
+    strictEqual(response2.getHeader('ETag'), generateETag('foo', false));
+  });
+
+  it('should only add the header to JSON bodies if options.jsonOnly is true.', () => {
+    const response = new HttpResponseOK('foo');
+    setETag(response, { jsonOnly: true });
+    strictEqual(response.getHeader('ETag'), undefined);
+
+    const response2 = new HttpResponseOK([ 1, 2 ]);
+    setETag(response2, { jsonOnly: true });
+    strictEqual(response2.getHeader('ETag'), generateETag('[1,2]'));
+  });
+
+  it('should not add the header if the response is not a 200 or is streamed or already has an ETag.', () => {
+    const response = new HttpResponseCreated({ foo: 'bar' });
+    setETag(response);
+    strictEqual(response.getHeader('ETag'), undefined);
+
+    const response2 = new HttpResponseOK({}, { stream: true });
+    setETag(response2);
+    strictEqual(response2.getHeader('ETag'), undefined);
+
+    const response3 = new HttpResponseOK({}).setHeader('ETag', '"custom"');
+    setETag(response3);
+    strictEqual(response3.getHeader('ETag'), '"custom"');
+  });
+
+});
+
+describe('getConditionalResponse', () => {
+
+  function createRequest(method: string, ifNoneMatch?: string): any {
+    return { method, get: (name: string) => name === 'If-None-Match' ? ifNoneMatch : undefined };
+  }
+
+  it('should return an HttpResponseNotModified if the If-None-Match header matches the ETag.', () => {
+    const response = new HttpResponseOK({ foo: 'bar' })
+      .setHeader('ETag', '"abc"')
+      .setHeader('Cache-Control', 'no-cache')
+      .setHeader('Content-Type', 'application/json')
+      .setCookie('foo', 'bar');
+
+    const actual = getConditionalResponse(createRequest('GET', 'W/"abc"'), response);
+
+    if (!isHttpResponseNotModified(actual)) {
+      throw new Error('An HttpResponseNotModified should have been returned.');
+    }
+    deepStrictEqual(actual.getHeaders(), { 'Cache-Control': 'no-cache', 'ETag': '"abc"' });
+    deepStrictEqual(actual.getCookie('foo'), { value: 'bar', options: {} });
+  });
+
+  it('should return the response otherwise.', () => {
+    const response = new HttpResponseOK().setHeader('ETag', '"abc"');
+
+    strictEqual(getConditionalResponse(createRequest('GET', '"xyz"'), response), response);
+    strictEqual(getConditionalResponse(createRequest('POST', '"abc"'), response), response);
+    strictEqual(getConditionalResponse(createRequest('GET'), response), response);
+    const responseWithoutETag = new HttpResponseOK();
+    strictEqual(getConditionalResponse(createRequest('GET', '"abc"'), responseWithoutETag), responseWithoutETag);
+  });
+
+});
@@ -0,0 +1,117 @@
+// std
+import { createHash } from 'crypto';
+
+// FoalTS
+import { HttpResponse, HttpResponseNotModified, Request } from '../../core';
+
+/**
+ * Generate an entity tag from a response body.
+ *
+ * @export
+ * @param {(string|Buffer)} body - The body.
+ * @param {boolean} [weak=true] - Generate a weak entity tag (`W/"..."`).
+ * @returns {string} The entity tag.
+ */
+export function generateETag(body: string|Buffer, weak = true): string {
+  const length = Buffer.byteLength(body);
+  const hash = createHash('sha1').update(body).digest('base64').substring(0, 27);
+  const tag = `"${length.toString(16)}-${hash}"`;
+  return weak ? `W/${tag}` : tag;
+}
+
+/**
+ * Check if an If-None-Match header matches an entity tag (weak comparison).
+ *
+ * @export
+ * @param {(string|undefined)} ifNoneMatch - The value of the If-None-Match header.
+ * @param {string} etag - The entity tag of the response.
+ * @returns {boolean} True if the entity tag matches.
+ */
+export function matchesETag(ifNoneMatch: string|undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  if (ifNoneMatch.trim() === '*') {
+    return true;
+  }
+  const opaqueTag = etag.replace(/^W\//, '');
+  return ifNoneMatch
+    .split(',')
+    .some(tag => tag.trim().replace(/^W\//, '') === opaqueTag);
+}
+
+/**
+ * Serialize the body of a response to compute its entity tag.
+ *
+ * @param {HttpResponse} response - The response.
+ * @returns {(string|Buffer|undefined)} The serialized body or undefined if the body is streamed or empty.
+ */
+function getBodyForETag(response: HttpResponse): string|Buffer|undefined {
+  if (response.stream || response.body === undefined) {
+    return;
+  }
+  if (typeof response.body === 'string' || Buffer.isBuffer(response.body)) {
+    return response.body;
+  }
+  return JSON.stringify(response.body);
+}
+
+/**
+ * Add an ETag header to a successful response if it does not have one yet.
+ *
+ * @export
+ * @param {HttpResponse} response - The response.
+ * @param {{ jsonOnly?: boolean, weak?: boolean }} [options={}] - Only add the header to JSON bodies
+ * and generate weak entity tags (default: true).
+ */
+export function setETag(response: HttpResponse, options: { jsonOnly?: boolean, weak?: boolean } = {}): void {
+  if (response.statusCode !== 200 || response.getHeader('ETag') !== undefined) {
+    return;
+  }
+  const isJSON = typeof response.body !== 'string' && !Buffer.isBuffer(response.body);
+  if (options.jsonOnly && !isJSON) {
+    return;
+  }
+  const body = getBodyForETag(response);
+  if (body === undefined) {
+    return;
+  }
+  response.setHeader('ETag', generateETag(body, options.weak ?? true));
+}
+
+/**
+ * Return an HttpResponseNotModified if the request is a conditional GET or HEAD request
+ * whose If-None-Match header matches the ETag header of the response. Otherwise, return
+ * the response itself.
+ *
+ * The headers of the response, except the Content-* ones, and its cookies are kept.
+ *
+ * @export
+ * @param {Request} request - The request.
+ * @param {HttpResponse} response - The response.
+ * @returns {HttpResponse} The response to send.
+ */
+export function getConditionalResponse(request: Request, response: HttpResponse): HttpResponse {
+  const etag = response.getHeader('ETag');
+  if (
+    etag === undefined ||
+    response.statusCode < 200 || response.statusCode >= 300 ||
+    (request.method !== 'GET' && request.method !== 'HEAD') ||
+    !matchesETag(request.get('If-None-Match'), etag)
+  ) {
+    return response;
+  }
+
+  const notModified = new HttpResponseNotModified();
+  const headers = response.getHeaders();
+  for (const name in headers) {
+    if (!name.toLowerCase().startsWith('content-') || name.toLowerCase() === 'content-location') {
+      notModified.setHeader(name, headers[name]);
+    }
+  }
+  const cookies = response.getCookies();
+  for (const name in cookies) {
+    notModified.setCookie(name, cookies[name].value as string, cookies[name].options);
+  }
+  return notModified;
+}
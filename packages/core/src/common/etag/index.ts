@@ -0,0 +1,2 @@
+export { ETag } from './etag.hook';
+export { generateETag, getConditionalResponse, matchesETag, setETag } from './etag.utils';
@@ -1,7 +1,13 @@
 export * from './async';
 export * from './auth';
+export * from './cache';
+export * from './compression';
+export * from './cors';
 export * from './encoding';
+export * from './etag';
 export * from './file';
+export * from './rate-limit';
+export * from './security-headers';
 export * from './tokens';
 export * from './utils';
 export * from './validation';
@@ -0,0 +1,3 @@
+export { MemoryRateLimitStore } from './memory-rate-limit-store';
+export { RateLimit, RateLimitOptions } from './rate-limit.hook';
+export { RateLimitStore } from './rate-limit-store';
@@ -0,0 +1,61 @@
+// std
+import { strictEqual } from 'assert';
+
+// FoalTS
+import { MemoryRateLimitStore } from './memory-rate-limit-store';
+
+describe('MemoryRateLimitStore', () => {
+
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => store = new MemoryRateLimitStore());
+
+  describe('has an "increment" method that', () => {
+
+    it('should create the counter if it does not exist and increment it otherwise.', async () => {
+      strictEqual(await store.increment('foo', 10), 1);
+      strictEqual(await store.increment('foo', 10), 2);
+      strictEqual(await store.increment('bar', 10), 1);
+
+      strictEqual(await store.get('foo'), 2);
+    });
+
+    it('should create a new counter if the previous one has expired.', async () => {
+      strictEqual(await store.increment('foo', 0.1), 1);
+      strictEqual(await store.increment('foo', 10), 2);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      strictEqual(await store.increment('foo', 10), 1);
+    });
+
+  });
+
+  describe('has a "get" method that', () => {
+
+    it('should return 0 if the counter does not exist or has expired.', async () => {
+      strictEqual(await store.get('foo'), 0);
+
+      await store.increment('foo', 0.1);
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      strictEqual(await store.get('foo'), 0);
+    });
+
+  });
+
+  describe('has a "clear" method that', () => {
+
+    it('should delete all the counters.', async () => {
+      await store.increment('foo', 10);
+      await store.increment('bar', 10);
+
+      await store.clear();
+
+      strictEqual(await store.get('foo'), 0);
+      strictEqual(await store.get('bar'), 0);
+    });
+
+  });
+
+});
@@ -0,0 +1,70 @@
+// FoalTS
+import { RateLimitStore } from './rate-limit-store';
+
+/**
+ * In-memory rate limit store. This is the default store of the `@RateLimit` hook.
+ *
+ * The counters are lost when the process exits and are not shared between processes.
+ * Use a shared store (such as the one of `@foal/redis`) when the application runs on
+ * several instances.
+ *
+ * @export
+ * @class MemoryRateLimitStore
+ * @extends {RateLimitStore}
+ */
+export class MemoryRateLimitStore extends RateLimitStore {
+
+  private counters = new Map<string, { value: number, expiresAt: number }>();
+  private lastCleanUp = Date.now();
+
+  async increment(key: string, lifetime: number): Promise<number> {
+    this.cleanUpExpiredCounters();
+
+    const counter = this.getCounter(key);
+    if (counter) {
+      counter.value++;
+      return counter.value;
+    }
+
+    this.counters.set(key, { value: 1, expiresAt: Date.now() + lifetime * 1000 });
+    return 1;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.getCounter(key);
+    return counter ? counter.value : 0;
+  }
+
+  async clear(): Promise<void> {
+    this.counters.clear();
+  }
+
+  private getCounter(key: string): { value: number, expiresAt: number }|undefined {
+    const counter = this.counters.get(key);
+    if (!counter) {
+      return;
+    }
+    if (counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return;
+    }
+    return counter;
+  }
+
+  private cleanUpExpiredCounters(): void {
+    const now = Date.now();
+    // Expired counters that are never read again are removed at most once a minute.
+    if (now - this.lastCleanUp < 60000) {
+      return;
+    }
+    this.lastCleanUp = now;
+    for (const [ key, counter ] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+
+}
+
+export { MemoryRateLimitStore as ConcreteRateLimitStore };
@@ -0,0 +1,59 @@
+// std
+import { join } from 'path';
+
+/**
+ * Store of the counters used by the `@RateLimit` hook.
+ *
+ * All rate limit stores must inherit this abstract class.
+ *
+ * When this class is used with the `@dependency` decorator,
+ * it returns the `ConcreteRateLimitStore` class from the file or the package specified
+ * with the configuration key "settings.rateLimit.store". If no value is provided, the
+ * built-in `MemoryRateLimitStore` is used.
+ *
+ * @export
+ * @abstract
+ * @class RateLimitStore
+ */
+export abstract class RateLimitStore {
+
+  static readonly concreteClassConfigPath = 'settings.rateLimit.store';
+  static readonly concreteClassName = 'ConcreteRateLimitStore';
+  static readonly defaultConcreteClassPath = join(__dirname, './memory-rate-limit-store');
+  static readonly concreteClassAliases: Record<string, string> = {
+    memory: join(__dirname, './memory-rate-limit-store'),
+  };
+
+  /**
+   * Increments a counter.
+   *
+   * If the counter does not exist, it MUST be created with the value 1 and expire after the given
+   * lifetime. Incrementing an existing counter MUST NOT extend its lifetime.
+   *
+   * @abstract
+   * @param {string} key - The key of the counter.
+   * @param {number} lifetime - The lifetime of the counter in seconds.
+   * @returns {Promise<number>} The value of the counter after the increment.
+   * @memberof RateLimitStore
+   */
+  abstract increment(key: string, lifetime: number): Promise<number>;
+  /**
+   * Reads a counter.
+   *
+   * If the counter does not exist or has expired, the value 0 MUST be returned.
+   *
+   * @abstract
+   * @param {string} key - The key of the counter.
+   * @returns {Promise<number>} The value of the counter.
+   * @memberof RateLimitStore
+   */
+  abstract get(key: string): Promise<number>;
+  /**
+   * Deletes all the counters.
+   *
+   * @abstract
+   * @returns {Promise<void>}
+   * @memberof RateLimitStore
+   */
+  abstract clear(): Promise<void>;
+}
@@ -0,0 +1,141 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { mock } from 'node:test';
+
+// FoalTS
+import {
+  Context,
+  getApiResponses,
+  getHookFunction,
+  HttpResponseOK,
+  isHttpResponseTooManyRequests,
+  ServiceManager
+} from '../../core';
+import { MemoryRateLimitStore } from './memory-rate-limit-store';
+import { RateLimit } from './rate-limit.hook';
+import { RateLimitStore } from './rate-limit-store';
+
+describe('RateLimit', () => {
+
+  let services: ServiceManager;
+  let now: number;
+
+  function createContext(ip: string, user?: any): Context {
+    const ctx = new Context({ ip }, 'AuthController', 'login');
+    ctx.user = user;
+    return ctx;
+  }
+
+  beforeEach(() => {
+    services = new ServiceManager();
+    // Beginning of a 60-second window.
+    now = 60000 * 1000;
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it('should use the store specified in the configuration (MemoryRateLimitStore by default).', async () => {
+    const hook = getHookFunction(RateLimit({ points: 1, duration: 60 }));
+
+    await hook(createContext('1.1.1.1'), services);
+
+    strictEqual(services.get(RateLimitStore) instanceof MemoryRateLimitStore, true);
+    strictEqual(await services.get(RateLimitStore).get('AuthController.login:1.1.1.1:1000'), 1);
+  });
+
+  it('should add the RateLimit headers to the response.', async () => {
+    const hook = getHookFunction(RateLimit({ points: 2, duration: 60 }));
+    now += 15000;
+
+    const postHookFunction = await hook(createContext('1.1.1.1'), services);
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK();
+    await postHookFunction(response);
+
+    deepStrictEqual(response.getHeaders(), {
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1',
+      'RateLimit-Reset': '45',
+    });
+  });
+
+  it('should return an HttpResponseTooManyRequests if the limit is exceeded.', async () => {
+    const hook = getHookFunction(RateLimit({ points: 2, duration: 60 }));
+
+    await hook(createContext('1.1.1.1'), services);
+    await hook(createContext('1.1.1.1'), services);
+
+    // Other clients are not limited.
+    strictEqual(typeof await hook(createContext('2.2.2.2'), services), 'function');
+
+    now += 20000;
+    const response = await hook(createContext('1.1.1.1'), services);
+    if (!isHttpResponseTooManyRequests(response)) {
+      throw new Error('The hook should have returned an HttpResponseTooManyRequests instance.');
+    }
+    deepStrictEqual(response.getHeaders(), {
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '40',
+      'Retry-After': '40',
+    });
+
+    // The counter is reset in the next window.
+    now += 40000;
+    strictEqual(typeof await hook(createContext('1.1.1.1'), services), 'function');
+  });
+
+  it('should count the requests of the previous window with the sliding algorithm.', async () => {
+    const hook = getHookFunction(RateLimit({ algorithm: 'sliding', points: 4, duration: 60 }));
+
+    for (let i = 0; i < 4; i++) {
+      await hook(createContext('1.1.1.1'), services);
+    }
+
+    // 75% of the previous window overlaps the last 60 seconds: 3 + 1 requests.
+    now += 60000 + 15000;
+    strictEqual(typeof await hook(createContext('1.1.1.1'), services), 'function');
+    strictEqual(isHttpResponseTooManyRequests(await hook(createContext('1.1.1.1'), services)), true);
+
+    // 25% of the previous window overlaps the last 60 seconds: 1 + 3 requests.
+    now += 30000;
+    strictEqual(typeof await hook(createContext('1.1.1.1'), services), 'function');
+  });
+
+  it('should use the key and the name given in the options.', async () => {
+    const hook = getHookFunction(RateLimit({
+      duration: 60,
+      key: ctx => ctx.user?.id,
+      name: 'login',
+      points: 1,
+    }));
+
+    await hook(createContext('1.1.1.1', { id: 3 }), services);
+
+    strictEqual(isHttpResponseTooManyRequests(await hook(createContext('2.2.2.2', { id: 3 }), services)), true);
+    strictEqual(await services.get(RateLimitStore).get('login:3:1000'), 2);
+  });
+
+  it('should use the store given in the options.', async () => {
+    class CustomStore extends MemoryRateLimitStore {}
+
+    const hook = getHookFunction(RateLimit({ points: 1, duration: 60, store: CustomStore }));
+    await hook(createContext('1.1.1.1'), services);
+
+    strictEqual(await services.get(CustomStore).get('AuthController.login:1.1.1.1:1000'), 1);
+  });
+
+  it('should add the 429 response to the OpenAPI document.', () => {
+    @RateLimit({ points: 1, duration: 60 })
+    class Foobar {}
+
+    deepStrictEqual(getApiResponses(Foobar), {
+      429: { description: 'Too many requests.' }
+    });
+  });
+
+});
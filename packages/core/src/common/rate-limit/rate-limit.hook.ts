@@ -0,0 +1,111 @@
+// FoalTS
+import {
+  ApiResponse,
+  Class,
+  Context,
+  Hook,
+  HookDecorator,
+  HttpResponse,
+  HttpResponseTooManyRequests,
+  ServiceManager
+} from '../../core';
+import { RateLimitStore } from './rate-limit-store';
+
+export interface RateLimitOptions {
+  /**
+   * Maximum number of requests allowed during a window.
+   */
+  points: number;
+  /**
+   * Duration of a window in seconds.
+   */
+  duration: number;
+  /**
+   * Function returning the identifier of the client (for example `ctx.user.id`).
+   * Default: the IP address of the request.
+   */
+  key?: (ctx: Context) => string|number|Promise<string|number>;
+  /**
+   * Name of the limiter. Hooks with the same name share their counters.
+   * Default: the name of the route (`ControllerName.methodName`).
+   */
+  name?: string;
+  /**
+   * Algorithm used to count the requests:
+   * - `fixed`: the requests are counted in fixed windows (the counter is reset at the end of each window),
+   * - `sliding`: the requests of the previous window are also counted, weighted by the overlap
+   * between this window and the last `duration` seconds. This prevents bursts at the window boundaries.
+   *
+   * Default: `fixed`.
+   */
+  algorithm?: 'fixed'|'sliding';
+  /**
+   * Store of the counters. Default: the store specified with the configuration key
+   * "settings.rateLimit.store" (`MemoryRateLimitStore` if none is provided).
+   */
+  store?: Class<RateLimitStore>;
+  /**
+   * Add OpenAPI metadata.
+   */
+  openapi?: boolean;
+}
+
+/**
+ * Hook limiting the number of requests that a client can make during a period of time.
+ *
+ * The `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` headers are added to the response.
+ * If the limit is exceeded, an HttpResponseTooManyRequests with a `Retry-After` header is returned.
+ *
+ * @export
+ * @param {RateLimitOptions} options - The hook options.
+ * @returns {HookDecorator} The hook.
+ */
+export function RateLimit(options: RateLimitOptions): HookDecorator {
+  const algorithm = options.algorithm || 'fixed';
+
+  async function rateLimit(ctx: Context, services: ServiceManager) {
+    const store = services.get(options.store || RateLimitStore);
+
+    const name = options.name || `${ctx.controllerName}.${ctx.controllerMethodName}`;
+    const clientKey = options.key ? await options.key(ctx) : ctx.request.ip;
+    const key = `${name}:${clientKey}`;
+
+    const now = Date.now();
+    const durationInMs = options.duration * 1000;
+    const window = Math.floor(now / durationInMs);
+    const resetAt = (window + 1) * durationInMs;
+
+    // With the sliding algorithm, the counter must outlive its window to be read during the next one.
+    const lifetime = algorithm === 'sliding' ? 2 * options.duration : options.duration;
+    let count = await store.increment(`${key}:${window}`, lifetime);
+    if (algorithm === 'sliding') {
+      const previousCount = await store.get(`${key}:${window - 1}`);
+      count += Math.floor(previousCount * (resetAt - now) / durationInMs);
+    }
+
+    const headers = {
+      'RateLimit-Limit': options.points.toString(),
+      'RateLimit-Remaining': Math.max(options.points - count, 0).toString(),
+      'RateLimit-Reset': Math.ceil((resetAt - now) / 1000).toString(),
+    };
+
+    function setHeaders(response: HttpResponse) {
+      for (const header in headers) {
+        response.setHeader(header, headers[header as keyof typeof headers]);
+      }
+    }
+
+    if (count > options.points) {
+      const response = new HttpResponseTooManyRequests();
+      setHeaders(response);
+      response.setHeader('Retry-After', headers['RateLimit-Reset']);
+      return response;
+    }
+
+    return setHeaders;
+  }
+
+  return Hook(rateLimit, [
+    ApiResponse(429, { description: 'Too many requests.' }),
+  ], { openapi: options.openapi });
+}
@@ -0,0 +1,9 @@
+export { SecurityHeadersOptions } from './security-headers-options.interface';
+export { SecurityHeaders } from './security-headers.hook';
+export {
+  createSecurityHeadersSetter,
+  generateCspNonce,
+  getSecurityHeaders,
+  getSecurityHeadersConfig,
+  requiresCspNonce,
+} from './security-headers.utils';
@@ -0,0 +1,51 @@
+/**
+ * Options of the `@SecurityHeaders` hook and of the `settings.security.headers` configuration.
+ *
+ * The value `false` disables a header.
+ *
+ * @export
+ * @interface SecurityHeadersOptions
+ */
+export interface SecurityHeadersOptions {
+  /**
+   * Content-Security-Policy header. Either the policy itself or an object mapping each directive
+   * to its sources. The source `'nonce'` is replaced by a nonce generated for each request
+   * (`'nonce-<value>'`). The nonce is available in `ctx.state.cspNonce`.
+   *
+   * Default: not sent.
+   */
+  contentSecurityPolicy?: false | string | Record<string, string|string[]>;
+  /**
+   * Send the policy in the Content-Security-Policy-Report-Only header instead. Default: false.
+   */
+  contentSecurityPolicyReportOnly?: boolean;
+  /**
+   * X-Content-Type-Options: nosniff. Default: true.
+   */
+  contentTypeOptions?: boolean;
+  /**
+   * Cross-Origin-Embedder-Policy header (ex: `require-corp`). Default: not sent.
+   */
+  crossOriginEmbedderPolicy?: false | string;
+  /**
+   * Cross-Origin-Opener-Policy header (ex: `same-origin`). Default: not sent.
+   */
+  crossOriginOpenerPolicy?: false | string;
+  /**
+   * X-Frame-Options header. Default: `SAMEORIGIN`.
+   */
+  frameOptions?: false | string;
+  /**
+   * Permissions-Policy header. Either the policy itself or an object mapping each feature
+   * to its allowlist (ex: `{ camera: [], geolocation: [ 'self' ] }`). Default: not sent.
+   */
+  permissionsPolicy?: false | string | Record<string, string[]>;
+  /**
+   * Referrer-Policy header (ex: `no-referrer`). Default: not sent.
+   */
+  referrerPolicy?: false | string;
+  /**
+   * Strict-Transport-Security header. Default: `max-age=31536000; includeSubDomains`.
+   */
+  strictTransportSecurity?: false | { maxAge?: number, includeSubDomains?: boolean, preload?: boolean };
+}
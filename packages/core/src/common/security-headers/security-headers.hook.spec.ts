@@ -0,0 +1,83 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { Config, Context, getHookFunction, HttpResponseOK, ServiceManager } from '../../core';
+import { SecurityHeaders } from './security-headers.hook';
+
+describe('SecurityHeaders', () => {
+
+  afterEach(() => Config.remove('settings.security.headers.referrerPolicy'));
+
+  it('should add the security headers to the response, overriding the configuration.', async () => {
+    Config.set('settings.security.headers.referrerPolicy', 'no-referrer');
+
+    const hook = getHookFunction(SecurityHeaders({ frameOptions: 'DENY' }));
+    const postHookFunction = await hook(new Context({}), new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK();
+    await postHookFunction(response);
+
+    deepStrictEqual(response.getHeaders(), {
+      'Referrer-Policy': 'no-referrer',
+      'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+      'X-Content-Type-Options': 'nosniff',
+      'X-Frame-Options': 'DENY',
+    });
+  });
+
+  it('should remove the headers of the configuration that are disabled with false.', async () => {
+    Config.set('settings.security.headers.referrerPolicy', 'no-referrer');
+
+    const hook = getHookFunction(SecurityHeaders({ frameOptions: false, referrerPolicy: false }));
+    const postHookFunction = await hook(new Context({}), new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK();
+    await postHookFunction(response);
+
+    strictEqual(response.getHeader('X-Frame-Options'), undefined);
+    strictEqual(response.getHeader('Referrer-Policy'), undefined);
+    deepStrictEqual(response.getRemovedHeaders().sort(), [ 'referrer-policy', 'x-frame-options' ]);
+  });
+
+  it('should generate a nonce and store it in ctx.state.cspNonce if the policy requires it.', async () => {
+    const hook = getHookFunction(SecurityHeaders({ contentSecurityPolicy: `script-src 'nonce'` }));
+    const ctx = new Context<any, { cspNonce?: string }>({});
+
+    const postHookFunction = await hook(ctx, new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    strictEqual(typeof ctx.state.cspNonce, 'string');
+
+    const response = new HttpResponseOK();
+    await postHookFunction(response);
+
+    strictEqual(response.getHeader('Content-Security-Policy'), `script-src 'nonce-${ctx.state.cspNonce}'`);
+  });
+
+  it('should reuse the nonce of the request if it already exists.', async () => {
+    const hook = getHookFunction(SecurityHeaders({ contentSecurityPolicy: `script-src 'nonce'` }));
+    const ctx = new Context<any, { cspNonce?: string }>({});
+    ctx.state.cspNonce = 'abc';
+
+    const postHookFunction = await hook(ctx, new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+
+    const response = new HttpResponseOK();
+    await postHookFunction(response);
+
+    strictEqual(ctx.state.cspNonce, 'abc');
+    strictEqual(response.getHeader('Content-Security-Policy'), `script-src 'nonce-abc'`);
+  });
+
+});
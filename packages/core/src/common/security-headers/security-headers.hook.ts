@@ -0,0 +1,48 @@
+// FoalTS
+import { Context, Hook, HookDecorator, HttpResponse } from '../../core';
+import { SecurityHeadersOptions } from './security-headers-options.interface';
+import {
+  generateCspNonce,
+  getSecurityHeaders,
+  getSecurityHeadersConfig,
+  requiresCspNonce
+} from './security-headers.utils';
+
+/**
+ * Hook overriding the security headers of the `settings.security.headers` configuration
+ * for a controller or a controller method.
+ *
+ * If the Content-Security-Policy contains the `'nonce'` source, the nonce of the request is
+ * stored in `ctx.state.cspNonce` so that it can be passed to the templates.
+ *
+ * Disabling a header with this hook (value `false`) removes the header added by the HTTP
+ * adapter from the configuration.
+ *
+ * @export
+ * @param {SecurityHeadersOptions} [options={}] - The header options.
+ * @returns {HookDecorator} The hook.
+ */
+export function SecurityHeaders(options: SecurityHeadersOptions = {}): HookDecorator {
+  function securityHeaders(ctx: Context<any, { cspNonce?: string }>) {
+    const mergedOptions: SecurityHeadersOptions = { ...getSecurityHeadersConfig(), ...options };
+
+    if (requiresCspNonce(mergedOptions) && !ctx.state.cspNonce) {
+      ctx.state.cspNonce = generateCspNonce();
+    }
+
+    return (response: HttpResponse) => {
+      const headers = getSecurityHeaders(mergedOptions, ctx.state.cspNonce);
+      for (const name in headers) {
+        response.setHeader(name, headers[name]);
+      }
+      // Remove the headers of the configuration that are disabled for this route.
+      for (const name in getSecurityHeaders(getSecurityHeadersConfig())) {
+        if (!(name in headers)) {
+          response.removeHeader(name);
+        }
+      }
+    };
+  }
+
+  return Hook(securityHeaders);
+}
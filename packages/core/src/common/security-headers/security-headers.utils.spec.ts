@@ -0,0 +1,165 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { Config } from '../../core';
+import {
+  createSecurityHeadersSetter,
+  generateCspNonce,
+  getSecurityHeaders,
+  getSecurityHeadersConfig,
+  requiresCspNonce
+} from './security-headers.utils';
+
+describe('getSecurityHeadersConfig', () => {
+
+  afterEach(() => {
+    Config.remove('settings.security.headers.contentSecurityPolicy');
+    Config.remove('settings.security.headers.frameOptions');
+    Config.remove('settings.security.headers.referrerPolicy');
+    Config.remove('settings.security.headers.strictTransportSecurity');
+    Config.remove('settings.security.headers.strictTransportSecurity.preload');
+  });
+
+  it('should return an empty object if no option is defined in the configuration.', () => {
+    deepStrictEqual(getSecurityHeadersConfig(), {});
+  });
+
+  it('should return the options defined in the configuration.', () => {
+    Config.set('settings.security.headers.contentSecurityPolicy', `default-src 'self'`);
+    Config.set('settings.security.headers.frameOptions', false);
+    Config.set('settings.security.headers.referrerPolicy', 'no-referrer');
+    Config.set('settings.security.headers.strictTransportSecurity.preload', true);
+
+    deepStrictEqual(getSecurityHeadersConfig(), {
+      contentSecurityPolicy: `default-src 'self'`,
+      frameOptions: false,
+      referrerPolicy: 'no-referrer',
+      strictTransportSecurity: { includeSubDomains: undefined, maxAge: undefined, preload: true },
+    });
+  });
+
+  it('should support disabling the Strict-Transport-Security header.', () => {
+    Config.set('settings.security.headers.strictTransportSecurity', false);
+
+    deepStrictEqual(getSecurityHeadersConfig(), { strictTransportSecurity: false });
+  });
+
+});
+
+describe('getSecurityHeaders', () => {
+
+  it('should return the default headers if no option is provided.', () => {
+    deepStrictEqual(getSecurityHeaders({}), {
+      'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+      'X-Content-Type-Options': 'nosniff',
+      'X-Frame-Options': 'SAMEORIGIN',
+    });
+  });
+
+  it('should not return the disabled headers.', () => {
+    deepStrictEqual(getSecurityHeaders({
+      contentTypeOptions: false,
+      frameOptions: false,
+      strictTransportSecurity: false,
+    }), {});
+  });
+
+  it('should return the headers given in the options.', () => {
+    deepStrictEqual(getSecurityHeaders({
+      contentSecurityPolicy: {
+        'default-src': `'self'`,
+        'img-src': [ `'self'`, 'https://images.example.com' ],
+        'upgrade-insecure-requests': [],
+      },
+      crossOriginEmbedderPolicy: 'require-corp',
+      crossOriginOpenerPolicy: 'same-origin',
+      frameOptions: 'DENY',
+      permissionsPolicy: { camera: [], geolocation: [ 'self', 'https://maps.example.com' ] },
+      referrerPolicy: 'strict-origin-when-cross-origin',
+      strictTransportSecurity: { maxAge: 63072000, preload: true },
+    }), {
+      'Content-Security-Policy': `default-src 'self'; img-src 'self' https://images.example.com; upgrade-insecure-requests`,
+      'Cross-Origin-Embedder-Policy': 'require-corp',
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Permissions-Policy': 'camera=(), geolocation=(self "https://maps.example.com")',
+      'Referrer-Policy': 'strict-origin-when-cross-origin',
+      'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+      'X-Content-Type-Options': 'nosniff',
+      'X-Frame-Options': 'DENY',
+    });
+  });
+
+  it('should replace the nonce sources of the Content-Security-Policy.', () => {
+    const headers = getSecurityHeaders({
+      contentSecurityPolicy: `script-src 'self' 'nonce'; style-src 'nonce'`,
+      contentSecurityPolicyReportOnly: true,
+    }, 'abc');
+
+    strictEqual(headers['Content-Security-Policy'], undefined);
+    strictEqual(headers['Content-Security-Policy-Report-Only'], `script-src 'self' 'nonce-abc'; style-src 'nonce-abc'`);
+  });
+
+});
+
+describe('requiresCspNonce', () => {
+
+  it('should return true if the Content-Security-Policy contains a nonce source.', () => {
+    strictEqual(requiresCspNonce({}), false);
+    strictEqual(requiresCspNonce({ contentSecurityPolicy: `script-src 'self'` }), false);
+    strictEqual(requiresCspNonce({ contentSecurityPolicy: `script-src 'self' 'nonce'` }), true);
+    strictEqual(requiresCspNonce({ contentSecurityPolicy: { 'script-src': [ `'nonce'` ] } }), true);
+  });
+
+});
+
+describe('generateCspNonce', () => {
+
+  it('should generate a random base64 nonce.', () => {
+    const nonce = generateCspNonce();
+    strictEqual(Buffer.from(nonce, 'base64').length, 16);
+    strictEqual(nonce === generateCspNonce(), false);
+  });
+
+});
+
+describe('createSecurityHeadersSetter', () => {
+
+  function createResponse() {
+    const headers: Record<string, string> = {};
+    return { headers, setHeader: (name: string, value: string) => headers[name] = value };
+  }
+
+  it('should return a function that adds the headers to the response.', () => {
+    const req: any = {};
+    const res = createResponse();
+
+    createSecurityHeadersSetter({ referrerPolicy: 'no-referrer' })(req, res as any);
+
+    strictEqual(req.cspNonce, undefined);
+    deepStrictEqual(res.headers, {
+      'Referrer-Policy': 'no-referrer',
+      'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+      'X-Content-Type-Options': 'nosniff',
+      'X-Frame-Options': 'SAMEORIGIN',
+    });
+  });
+
+  it('should return a function that generates a nonce for each request if it is required.', () => {
+    const setSecurityHeaders = createSecurityHeadersSetter({ contentSecurityPolicy: `script-src 'nonce'` });
+
+    const req1: any = {};
+    const res1 = createResponse();
+    setSecurityHeaders(req1, res1 as any);
+
+    const req2: any = {};
+    const res2 = createResponse();
+    setSecurityHeaders(req2, res2 as any);
+
+    strictEqual(typeof req1.cspNonce, 'string');
+    strictEqual(req1.cspNonce === req2.cspNonce, false);
+    strictEqual(res1.headers['Content-Security-Policy'], `script-src 'nonce-${req1.cspNonce}'`);
+    strictEqual(res2.headers['Content-Security-Policy'], `script-src 'nonce-${req2.cspNonce}'`);
+  });
+
+});
@@ -0,0 +1,167 @@
+// std
+import { randomBytes } from 'crypto';
+import { ServerResponse } from 'http';
+
+// FoalTS
+import { Config } from '../../core';
+import { SecurityHeadersOptions } from './security-headers-options.interface';
+
+const configPath = 'settings.security.headers';
+
+function getContentSecurityPolicy(policy: string | Record<string, string|string[]>, nonce?: string): string {
+  if (typeof policy !== 'string') {
+    const directives = policy;
+    policy = Object.keys(directives)
+      .map(directive => [ directive ].concat(directives[directive]).join(' ').trim())
+      .join('; ');
+  }
+  return nonce ? policy.replace(/'nonce'/g, `'nonce-${nonce}'`) : policy;
+}
+
+function getPermissionsPolicy(policy: string | Record<string, string[]>): string {
+  if (typeof policy === 'string') {
+    return policy;
+  }
+  return Object.keys(policy)
+    .map(feature => `${feature}=(${policy[feature].map(origin => origin === 'self' ? origin : `"${origin}"`).join(' ')})`)
+    .join(', ');
+}
+
+/**
+ * Read the security header options from the `settings.security.headers` configuration.
+ *
+ * @export
+ * @returns {SecurityHeadersOptions} The options.
+ */
+export function getSecurityHeadersConfig(): SecurityHeadersOptions {
+  const options: SecurityHeadersOptions = {
+    contentSecurityPolicy: Config.get(`${configPath}.contentSecurityPolicy`, 'any'),
+    contentSecurityPolicyReportOnly: Config.get(`${configPath}.contentSecurityPolicyReportOnly`, 'boolean'),
+    contentTypeOptions: Config.get(`${configPath}.contentTypeOptions`, 'boolean'),
+    crossOriginEmbedderPolicy: Config.get(`${configPath}.crossOriginEmbedderPolicy`, 'boolean|string'),
+    crossOriginOpenerPolicy: Config.get(`${configPath}.crossOriginOpenerPolicy`, 'boolean|string'),
+    frameOptions: Config.get(`${configPath}.frameOptions`, 'boolean|string'),
+    permissionsPolicy: Config.get(`${configPath}.permissionsPolicy`, 'any'),
+    referrerPolicy: Config.get(`${configPath}.referrerPolicy`, 'boolean|string'),
+  } as SecurityHeadersOptions;
+
+  if (Config.get(`${configPath}.strictTransportSecurity`, 'any') === false) {
+    options.strictTransportSecurity = false;
+  } else {
+    const maxAge = Config.get(`${configPath}.strictTransportSecurity.maxAge`, 'number');
+    const includeSubDomains = Config.get(`${configPath}.strictTransportSecurity.includeSubDomains`, 'boolean');
+    const preload = Config.get(`${configPath}.strictTransportSecurity.preload`, 'boolean');
+    if (maxAge !== undefined || includeSubDomains !== undefined || preload !== undefined) {
+      options.strictTransportSecurity = { includeSubDomains, maxAge, preload };
+    }
+  }
+
+  let key: keyof SecurityHeadersOptions;
+  for (key in options) {
+    if (options[key] === undefined) {
+      delete options[key];
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Check if the Content-Security-Policy of the options contains the `'nonce'` source.
+ *
+ * @export
+ * @param {SecurityHeadersOptions} options - The options.
+ * @returns {boolean} True if a nonce must be generated for each request.
+ */
+export function requiresCspNonce(options: SecurityHeadersOptions): boolean {
+  return !!options.contentSecurityPolicy && getContentSecurityPolicy(options.contentSecurityPolicy).includes(`'nonce'`);
+}
+
+/**
+ * Generate a random nonce for the Content-Security-Policy header.
+ *
+ * @export
+ * @returns {string} The nonce encoded in base64.
+ */
+export function generateCspNonce(): string {
+  return randomBytes(16).toString('base64');
+}
+
+/**
+ * Compute the security headers.
+ *
+ * @export
+ * @param {SecurityHeadersOptions} options - The options.
+ * @param {string} [nonce] - The nonce replacing the `'nonce'` sources of the Content-Security-Policy.
+ * @returns {Record<string, string>} The headers.
+ */
+export function getSecurityHeaders(options: SecurityHeadersOptions, nonce?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (options.contentTypeOptions ?? true) {
+    headers['X-Content-Type-Options'] = 'nosniff';
+  }
+
+  if (options.frameOptions !== false) {
+    headers['X-Frame-Options'] = typeof options.frameOptions === 'string' ? options.frameOptions : 'SAMEORIGIN';
+  }
+
+  const hsts = options.strictTransportSecurity ?? {};
+  if (hsts !== false) {
+    let value = `max-age=${hsts.maxAge ?? 31536000}`;
+    if (hsts.includeSubDomains ?? true) {
+      value += '; includeSubDomains';
+    }
+    if (hsts.preload) {
+      value += '; preload';
+    }
+    headers['Strict-Transport-Security'] = value;
+  }
+
+  if (options.contentSecurityPolicy) {
+    const name = options.contentSecurityPolicyReportOnly ?
+      'Content-Security-Policy-Report-Only' :
+      'Content-Security-Policy';
+    headers[name] = getContentSecurityPolicy(options.contentSecurityPolicy, nonce);
+  }
+  if (typeof options.referrerPolicy === 'string') {
+    headers['Referrer-Policy'] = options.referrerPolicy;
+  }
+  if (options.permissionsPolicy) {
+    headers['Permissions-Policy'] = getPermissionsPolicy(options.permissionsPolicy);
+  }
+  if (typeof options.crossOriginOpenerPolicy === 'string') {
+    headers['Cross-Origin-Opener-Policy'] = options.crossOriginOpenerPolicy;
+  }
+  if (typeof options.crossOriginEmbedderPolicy === 'string') {
+    headers['Cross-Origin-Embedder-Policy'] = options.crossOriginEmbedderPolicy;
+  }
+
+  return headers;
+}
+
+/**
+ * Create the function used by the HTTP adapters to add the security headers to all responses.
+ *
+ * If the Content-Security-Policy requires a nonce, a new one is generated for each request
+ * and stored in `req.cspNonce`.
+ *
+ * @export
+ * @param {SecurityHeadersOptions} options - The options.
+ * @returns {(req: any, res: ServerResponse) => void} The function.
+ */
+export function createSecurityHeadersSetter(options: SecurityHeadersOptions): (req: any, res: ServerResponse) => void {
+  const requiresNonce = requiresCspNonce(options);
+  const staticHeaders = getSecurityHeaders(options);
+
+  return (req: any, res: ServerResponse) => {
+    let headers = staticHeaders;
+    if (requiresNonce) {
+      req.cspNonce = generateCspNonce();
+      headers = getSecurityHeaders(options, req.cspNonce);
+    }
+    for (const name in headers) {
+      res.setHeader(name, headers[name]);
+    }
+  };
+}
@@ -0,0 +1,64 @@
+// std
+import { strictEqual } from 'assert';
+import { EventEmitter } from 'events';
+
+// FoalTS
+import { Logger, ServiceManager } from '../../core';
+import { disposeScopeOnFinish } from './dispose-scope-on-finish.util';
+
+describe('disposeScopeOnFinish', () => {
+
+  function createScope(): { scope: ServiceManager, getDisposeCount: () => number } {
+    let disposeCount = 0;
+    const scope = new ServiceManager().createScope();
+    scope.dispose = async () => { disposeCount++; };
+    return { scope, getDisposeCount: () => disposeCount };
+  }
+
+  it('should dispose the scope once the response is finished.', () => {
+    const { scope, getDisposeCount } = createScope();
+    const res = new EventEmitter();
+
+    disposeScopeOnFinish(scope, res as any, new Logger());
+    strictEqual(getDisposeCount(), 0);
+
+    res.emit('finish');
+    strictEqual(getDisposeCount(), 1);
+  });
+
+  it('should dispose the scope if the connection is closed before the response is finished.', () => {
+    const { scope, getDisposeCount } = createScope();
+    const res = new EventEmitter();
+
+    disposeScopeOnFinish(scope, res as any, new Logger());
+    res.emit('close');
+
+    strictEqual(getDisposeCount(), 1);
+  });
+
+  it('should dispose the scope only once.', () => {
+    const { scope, getDisposeCount } = createScope();
+    const res = new EventEmitter();
+
+    disposeScopeOnFinish(scope, res as any, new Logger());
+    res.emit('finish');
+    res.emit('close');
+
+    strictEqual(getDisposeCount(), 1);
+  });
+
+  it('should log the errors thrown when disposing the scope.', async () => {
+    const scope = new ServiceManager().createScope();
+    scope.dispose = async () => { throw new Error('dispose failed'); };
+    const res = new EventEmitter();
+    let loggedMessage: string|undefined;
+    const logger = { error: (message: string) => loggedMessage = message } as unknown as Logger;
+
+    disposeScopeOnFinish(scope, res as any, logger);
+    res.emit('finish');
+    await new Promise(resolve => setImmediate(resolve));
+
+    strictEqual(loggedMessage, 'dispose failed');
+  });
+
+});
@@ -0,0 +1,31 @@
+// std
+import { ServerResponse } from 'http';
+
+// FoalTS
+import { Logger, ServiceManager } from '../../core';
+
+/**
+ * Dispose a request scope once the response has been written or the connection closed.
+ *
+ * HTTP adapters use this function so that the request-scoped services remain available
+ * while a streamed body is being sent. Errors are logged and the scope is disposed only once.
+ *
+ * @export
+ * @param {ServiceManager} scope - The request scope created with `services.createScope()`.
+ * @param {ServerResponse} res - The Node.js response.
+ * @param {Logger} logger - The logger used to report dispose errors.
+ */
+export function disposeScopeOnFinish(scope: ServiceManager, res: ServerResponse, logger: Logger): void {
+  let disposed = false;
+  const dispose = () => {
+    if (disposed) {
+      return;
+    }
+    disposed = true;
+    res.off('finish', dispose);
+    res.off('close', dispose);
+    scope.dispose().catch(error => logger.error(error.message, { error }));
+  };
+  res.once('finish', dispose);
+  res.once('close', dispose);
+}
@@ -0,0 +1,128 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { createServer, get, Server } from 'http';
+import { AddressInfo } from 'net';
+
+// FoalTS
+import { Logger, ServiceManager } from '../../core';
+import { enableGracefulShutdown } from './graceful-shutdown.util';
+
+describe('enableGracefulShutdown', () => {
+
+  let server: Server;
+  let services: ServiceManager;
+  let listenersBefore: NodeJS.SignalsListener[];
+
+  function listen(server: Server): Promise<number> {
+    return new Promise(resolve => server.listen(0, () => resolve((server.address() as AddressInfo).port)));
+  }
+
+  beforeEach(() => {
+    services = new ServiceManager();
+    services.set(Logger, { info() {}, warn() {}, error() {} });
+    listenersBefore = process.listeners('SIGTERM');
+  });
+
+  afterEach(() => {
+    if (server && server.listening) {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  it('should register listeners for SIGTERM and SIGINT and remove them on shutdown.', async () => {
+    server = createServer();
+    const sigintListenersBefore = process.listeners('SIGINT');
+
+    const shutdown = enableGracefulShutdown(server, services);
+
+    strictEqual(process.listeners('SIGTERM').length, listenersBefore.length + 1);
+    strictEqual(process.listeners('SIGINT').length, sigintListenersBefore.length + 1);
+
+    await shutdown();
+
+    deepStrictEqual(process.listeners('SIGTERM'), listenersBefore);
+    deepStrictEqual(process.listeners('SIGINT'), sigintListenersBefore);
+  });
+
+  it('should wait for the in-flight requests to complete, then dispose the services.', async () => {
+    const events: string[] = [];
+
+    class Database {
+      dispose() {
+        events.push('dispose');
+      }
+    }
+    services.get(Database);
+
+    server = createServer((req, res) => {
+      setTimeout(() => {
+        events.push('response');
+        res.end('done');
+      }, 50);
+    });
+    const port = await listen(server);
+
+    const shutdown = enableGracefulShutdown(server, services);
+
+    const responseBody = new Promise<string>((resolve, reject) => {
+      get(`http://localhost:${port}`, res => {
+        let body = '';
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => resolve(body));
+      }).on('error', reject);
+    });
+    // Wait for the request to be received.
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await shutdown();
+
+    strictEqual(await responseBody, 'done');
+    strictEqual(server.listening, false);
+    deepStrictEqual(events, [ 'response', 'dispose' ]);
+  });
+
+  it('should close the remaining connections after the timeout.', async () => {
+    const events: string[] = [];
+
+    class Database {
+      dispose() {
+        events.push('dispose');
+      }
+    }
+    services.get(Database);
+
+    // This request never completes.
+    server = createServer(() => events.push('request'));
+    const port = await listen(server);
+
+    const shutdown = enableGracefulShutdown(server, services, { timeout: 50 });
+
+    const requestError = new Promise(resolve => get(`http://localhost:${port}`).on('error', resolve));
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await shutdown();
+    await requestError;
+
+    deepStrictEqual(events, [ 'request', 'dispose' ]);
+  });
+
+  it('should only shut down the application once.', async () => {
+    let disposeCount = 0;
+
+    class Database {
+      dispose() {
+        disposeCount++;
+      }
+    }
+    services.get(Database);
+
+    server = createServer();
+    const shutdown = enableGracefulShutdown(server, services, { signals: [ 'SIGUSR2' ] });
+
+    await Promise.all([ shutdown(), shutdown() ]);
+
+    strictEqual(disposeCount, 1);
+  });
+
+});
@@ -0,0 +1,114 @@
+// std
+import { Server, ServerResponse } from 'http';
+
+// FoalTS
+import { Config, Logger, ServiceManager } from '../../core';
+
+export interface GracefulShutdownOptions {
+  /**
+   * Signals triggering the shutdown. Default: SIGTERM and SIGINT.
+   */
+  signals?: NodeJS.Signals[];
+  /**
+   * Maximum time (in milliseconds) given to the in-flight requests to complete. After this delay,
+   * the remaining connections are closed. Default: the value of `settings.gracefulShutdown.timeout`
+   * or 10000.
+   */
+  timeout?: number;
+}
+
+function closeServer(
+  server: Server, pendingResponses: Set<ServerResponse>, timeout: number, logger: Logger
+): Promise<void> {
+  return new Promise<void>(resolve => {
+    const timer = setTimeout(() => {
+      logger.warn(`Connections still open after ${timeout} ms. Closing them.`);
+      server.closeAllConnections();
+    }, timeout);
+
+    // Stop accepting new connections and wait for the in-flight requests to complete.
+    server.close(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+
+    // Do not keep alive the connections of the in-flight requests.
+    for (const res of pendingResponses) {
+      if (!res.headersSent) {
+        res.setHeader('Connection', 'close');
+      }
+    }
+    server.closeIdleConnections();
+  });
+}
+
+/**
+ * Shut down the application gracefully when the process receives a termination signal:
+ * - stop accepting new connections,
+ * - wait for the in-flight requests to complete (with a timeout),
+ * - dispose the services (see `ServiceManager.dispose`),
+ * - and exit the process.
+ *
+ * A second signal received during the shutdown terminates the process immediately.
+ *
+ * @export
+ * @param {Server} server - The HTTP(S) server returned by `http.createServer` or `app.listen`.
+ * @param {ServiceManager} services - The service manager of the application.
+ * @param {GracefulShutdownOptions} [options={}] - The shutdown options.
+ * @returns {() => Promise<void>} A function to trigger the shutdown manually (without exiting the process).
+ */
+export function enableGracefulShutdown(
+  server: Server, services: ServiceManager, options: GracefulShutdownOptions = {}
+): () => Promise<void> {
+  const signals = options.signals || [ 'SIGTERM', 'SIGINT' ];
+  const timeout = options.timeout ?? Config.get('settings.gracefulShutdown.timeout', 'number', 10000);
+  const logger = services.get(Logger);
+
+  let shutdownPromise: Promise<void>|undefined;
+
+  const pendingResponses = new Set<ServerResponse>();
+  server.on('request', (req, res: ServerResponse) => {
+    pendingResponses.add(res);
+    res.on('close', () => {
+      pendingResponses.delete(res);
+      if (shutdownPromise) {
+        // The connection may be idle now.
+        setImmediate(() => server.closeIdleConnections());
+      }
+    });
+  });
+
+  function shutdown(): Promise<void> {
+    if (!shutdownPromise) {
+      shutdownPromise = (async () => {
+        for (const signal of signals) {
+          process.removeListener(signal, onSignal);
+        }
+
+        logger.info('Shutting down...');
+        if (server.listening) {
+          await closeServer(server, pendingResponses, timeout, logger);
+        }
+        await services.dispose();
+        logger.info('Shutdown complete.');
+      })();
+    }
+    return shutdownPromise;
+  }
+
+  function onSignal(signal: NodeJS.Signals): void {
+    logger.info(`${signal} received.`);
+    shutdown()
+      .then(() => process.exit(0))
+      .catch(error => {
+        logger.error(error.message, { error });
+        process.exit(1);
+      });
+  }
+
+  for (const signal of signals) {
+    process.on(signal, onSignal);
+  }
+
+  return shutdown;
+}
@@ -1,4 +1,6 @@
 export { controller } from './controller.util';
+export { disposeScopeOnFinish } from './dispose-scope-on-finish.util';
 export { displayServerURL } from './display-server-url.util';
+export { enableGracefulShutdown, GracefulShutdownOptions } from './graceful-shutdown.util';
 export { isInFile } from './is-in-file.util';
 export { streamToBuffer } from './stream-to-buffer';
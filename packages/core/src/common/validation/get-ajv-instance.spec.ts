@@ -1,9 +1,11 @@
 import { deepStrictEqual, doesNotThrow, strictEqual } from 'assert';
 import { Config, ConfigTypeError } from '../../core';
-import { _instanceWrapper, getAjvInstance } from './get-ajv-instance';
+import { _instanceWrapper, getAjvInstance, getCoercingAjvInstance } from './get-ajv-instance';
 
 function clearCache() {
   delete _instanceWrapper.instance;
+  delete _instanceWrapper.coercingInstance;
+  delete _instanceWrapper.responseInstance;
 }
 
 describe('getAjvInstance', () => {
@@ -142,6 +144,37 @@ describe('getAjvInstance', () => {
     strictEqual(getAjvInstance().validate(schema, data), true);
   });
 
+  describe('has a getCoercingAjvInstance variant that', () => {
+
+    it('should coerce types and convert single values into arrays.', () => {
+      const schema = {
+        properties: {
+          ids: { type: 'array', items: { type: 'integer' } },
+          page: { type: 'integer' },
+        },
+        type: 'object',
+      };
+      const data = { ids: '3', page: '2' };
+
+      strictEqual(getCoercingAjvInstance().validate(schema, data), true);
+      deepStrictEqual(data, { ids: [ 3 ], page: 2 });
+    });
+
+    it('should coerce types even if "settings.ajv.coerceTypes" is false.', () => {
+      clearCache();
+      Config.set('settings.ajv.coerceTypes', false);
+      try {
+        const data = { page: '2' };
+        getCoercingAjvInstance().validate({ properties: { page: { type: 'integer' } }, type: 'object' }, data);
+        strictEqual(data.page, 2);
+      } finally {
+        Config.remove('settings.ajv.coerceTypes');
+        clearCache();
+      }
+    });
+
+  });
+
   describe('', () => {
 
     beforeEach(() => {
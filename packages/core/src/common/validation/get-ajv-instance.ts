@@ -1,14 +1,34 @@
 // 3p
-import Ajv from 'ajv';
+import Ajv, { Options } from 'ajv';
 import { Config } from '../../core';
 import addFormats from 'ajv-formats';
 
 // This is a little hack to test the customized configuration of `getAjvInstance`.
 // tslint:disable-next-line:variable-name
-export const _instanceWrapper: { instance: undefined|Ajv } = {
+export const _instanceWrapper: {
+  instance: undefined|Ajv,
+  coercingInstance?: undefined|Ajv,
+  responseInstance?: undefined|Ajv,
+} = {
   instance: undefined
 };
 
+function createAjvInstance(options: Options): Ajv {
+  const ajv = new Ajv({
+    $data: Config.get('settings.ajv.$data', 'boolean'),
+    allErrors: Config.get('settings.ajv.allErrors', 'boolean'),
+    coerceTypes: Config.get('settings.ajv.coerceTypes', 'boolean|string', true) as boolean|'array'|undefined,
+    removeAdditional: Config.get('settings.ajv.removeAdditional', 'boolean|string', true) as boolean|'all'|'failing',
+    useDefaults: Config.get('settings.ajv.useDefaults', 'boolean|string', true) as boolean|'empty',
+    strict: Config.get('settings.ajv.strict', 'boolean|string') as boolean|'log'|undefined,
+    ...options,
+  });
+  ajv.addKeyword({ keyword: 'components' });
+  ajv.addKeyword({ keyword: 'example' });
+  addFormats(ajv);
+  return ajv;
+}
+
 /**
  * Return the Ajv instance used internally by FoalTS validation hooks.
  *
@@ -23,17 +43,48 @@ export const _instanceWrapper: { instance: undefined|Ajv } = {
  */
 export function getAjvInstance(): Ajv {
   if (!_instanceWrapper.instance) {
-    _instanceWrapper.instance = new Ajv({
-      $data: Config.get('settings.ajv.$data', 'boolean'),
-      allErrors: Config.get('settings.ajv.allErrors', 'boolean'),
-      coerceTypes: Config.get('settings.ajv.coerceTypes', 'boolean|string', true) as boolean|'array'|undefined,
-      removeAdditional: Config.get('settings.ajv.removeAdditional', 'boolean|string', true) as boolean|'all'|'failing',
-      useDefaults: Config.get('settings.ajv.useDefaults', 'boolean|string', true) as boolean|'empty',
-      strict: Config.get('settings.ajv.strict', 'boolean|string') as boolean|'log'|undefined,
-    });
-    _instanceWrapper.instance.addKeyword({ keyword: 'components' });
-    _instanceWrapper.instance.addKeyword({ keyword: 'example' });
-    addFormats(_instanceWrapper.instance);
+    _instanceWrapper.instance = createAjvInstance({});
   }
   return _instanceWrapper.instance;
 }
+
+/**
+ * Return the Ajv instance used internally to validate query strings and URL-encoded form bodies.
+ *
+ * Their values are always strings, so this instance has the same configuration as `getAjvInstance`
+ * except that types are always coerced and single values are converted into arrays
+ * when the schema expects an array (coerceTypes: "array").
+ *
+ * @export
+ * @returns {Ajv} The AJV instance
+ */
+export function getCoercingAjvInstance(): Ajv {
+  if (!_instanceWrapper.coercingInstance) {
+    _instanceWrapper.coercingInstance = createAjvInstance({ coerceTypes: 'array' });
+  }
+  return _instanceWrapper.coercingInstance;
+}
+
+/**
+ * Return the Ajv instance used internally to validate the response bodies.
+ *
+ * It has the same configuration as `getAjvInstance` except that:
+ *  - allErrors: true
+ *  - coerceTypes: false
+ *  - removeAdditional: false
+ *  - useDefaults: false
+ *
+ * @export
+ * @returns {Ajv} The AJV instance
+ */
+export function getResponseAjvInstance(): Ajv {
+  if (!_instanceWrapper.responseInstance) {
+    _instanceWrapper.responseInstance = createAjvInstance({
+      allErrors: true,
+      coerceTypes: false,
+      removeAdditional: false,
+      useDefaults: false,
+    });
+  }
+  return _instanceWrapper.responseInstance;
+}
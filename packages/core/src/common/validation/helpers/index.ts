@@ -1 +1,2 @@
-export { isFunction } from './is-function.util';
\ No newline at end of file
+export { isFunction } from './is-function.util';
+export { parseBracketNotation } from './parse-bracket-notation.util';
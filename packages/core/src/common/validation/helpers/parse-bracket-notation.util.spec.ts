@@ -0,0 +1,35 @@
+// std
+import { deepStrictEqual } from 'assert';
+
+// FoalTS
+import { parseBracketNotation } from './parse-bracket-notation.util';
+
+describe('parseBracketNotation', () => {
+
+  it('should convert the keys in bracket notation into objects and arrays.', () => {
+    deepStrictEqual(parseBracketNotation({
+      'filter[status]': [ 'a', 'b' ],
+      'filter[user][name]': 'John',
+      'ids[]': '1',
+      'page': '2',
+      'sort': { by: 'date' },
+    }), {
+      filter: { status: [ 'a', 'b' ], user: { name: 'John' } },
+      ids: [ '1' ],
+      page: '2',
+      sort: { by: 'date' },
+    });
+  });
+
+  it('should keep the keys that are not in bracket notation.', () => {
+    deepStrictEqual(parseBracketNotation({ 'a[': '1', '[b]': '2' }), { 'a[': '1', '[b]': '2' });
+  });
+
+  it('should ignore the keys that could pollute the object prototypes.', () => {
+    const query = parseBracketNotation({ '__proto__[polluted]': 'yes', 'constructor[prototype][a]': 'b' });
+
+    deepStrictEqual(query, {});
+    deepStrictEqual(({} as any).polluted, undefined);
+  });
+
+});
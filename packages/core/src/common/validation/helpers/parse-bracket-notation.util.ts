@@ -0,0 +1,39 @@
+const forbiddenKeys = [ '__proto__', 'constructor', 'prototype' ];
+
+/**
+ * Convert the keys of a query object written in bracket notation into nested objects and arrays.
+ *
+ * Ex: `{ 'filter[status]': [ 'a', 'b' ], 'ids[]': '1' }` becomes
+ * `{ filter: { status: [ 'a', 'b' ] }, ids: [ '1' ] }`.
+ *
+ * The keys already parsed by the adapter (for example with the "extended" query parser of Express)
+ * are left as is.
+ */
+export function parseBracketNotation(query: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const key of Object.keys(query)) {
+    let value = query[key];
+
+    const match = /^([^\[\]]+)((?:\[[^\[\]]*\])+)$/.exec(key);
+    let path = match ? [ match[1], ...match[2].slice(1, -1).split('][') ] : [ key ];
+    if (path.some(segment => forbiddenKeys.includes(segment))) {
+      continue;
+    }
+    if (path.length > 1 && path[path.length - 1] === '') {
+      path = path.slice(0, -1);
+      value = ([] as any[]).concat(value);
+    }
+
+    let target = result;
+    for (const segment of path.slice(0, -1)) {
+      if (typeof target[segment] !== 'object' || target[segment] === null || Array.isArray(target[segment])) {
+        target[segment] = {};
+      }
+      target = target[segment];
+    }
+    target[path[path.length - 1]] = value;
+  }
+
+  return result;
+}
@@ -1,6 +1,14 @@
 export { getAjvInstance } from './get-ajv-instance';
+export {
+  createResponseValidator,
+  getDefaultResponseValidationMode,
+  ResponseValidationError,
+  ResponseValidationMode,
+} from './response-validator';
 export { ValidateBody } from './validate-body.hook';
 export { ValidateCookie } from './validate-cookie.hook';
 export { ValidateHeader } from './validate-header.hook';
 export { ValidatePathParam } from './validate-path-param.hook';
-export { ValidateQueryParam } from './validate-query-param.hook';
\ No newline at end of file
+export { ValidateQuery } from './validate-query.hook';
+export { ValidateQueryParam } from './validate-query-param.hook';
+export { ValidateResponse } from './validate-response.hook';
@@ -0,0 +1,97 @@
+// std
+import { deepStrictEqual } from 'assert';
+
+// FoalTS
+import { IApiComponents, IApiSchema } from '../../core';
+import { getResponseAjvInstance } from './get-ajv-instance';
+import { createResponseSerializer } from './response-serializer';
+
+describe('createResponseSerializer', () => {
+
+  function serialize(schema: IApiSchema, value: any, components: IApiComponents = {}): any {
+    return createResponseSerializer(schema, components, getResponseAjvInstance())(value);
+  }
+
+  it('should return a JSON copy of the primitive values, of the arrays and of the dates.', () => {
+    deepStrictEqual(serialize({ type: 'string' }, new Date(0)), '1970-01-01T00:00:00.000Z');
+    deepStrictEqual(serialize({ type: 'number' }, 1), 1);
+    deepStrictEqual(serialize({ type: 'string' }, undefined), undefined);
+    deepStrictEqual(serialize({ type: 'array' }, [ 1, undefined, { a: 1 } ]), [ 1, null, { a: 1 } ]);
+    deepStrictEqual(serialize({}, { a: 1 }), { a: 1 });
+  });
+
+  it('should keep the additional and pattern properties when the schema explicitly allows them.', () => {
+    const schema: IApiSchema = {
+      additionalProperties: { properties: { id: { type: 'integer' } }, type: 'object' },
+      patternProperties: { '^x-': { type: 'string' } },
+      properties: { name: { type: 'string' } },
+      type: 'object',
+    } as IApiSchema;
+
+    deepStrictEqual(
+      serialize(schema, { 'name': 'John', 'owner': { id: 1, password: 'secret' }, 'x-id': 'a' }),
+      { 'name': 'John', 'owner': { id: 1 }, 'x-id': 'a' }
+    );
+    deepStrictEqual(
+      serialize({ additionalProperties: true, type: 'object' }, { owner: { id: 1, password: 'secret' } }),
+      { owner: { id: 1, password: 'secret' } }
+    );
+  });
+
+  it('should support the recursive schemas.', () => {
+    const components: IApiComponents = {
+      schemas: {
+        node: {
+          properties: {
+            children: { items: { $ref: '#/components/schemas/node' }, type: 'array' },
+            name: { type: 'string' },
+          },
+          type: 'object',
+        }
+      }
+    };
+
+    deepStrictEqual(
+      serialize({ $ref: '#/components/schemas/node' } as IApiSchema, {
+        children: [ { children: [], name: 'b', secret: 'b' } ],
+        name: 'a',
+        secret: 'a',
+      }, components),
+      { children: [ { children: [], name: 'b' } ], name: 'a' }
+    );
+  });
+
+  it('should use the then or else schema depending on the if schema.', () => {
+    const schema: IApiSchema = {
+      else: { properties: { name: { type: 'string' } } },
+      if: { properties: { type: { const: 'admin' } } },
+      properties: { type: { type: 'string' } },
+      then: { properties: { permissions: { type: 'array' } } },
+      type: 'object',
+    } as IApiSchema;
+
+    deepStrictEqual(
+      serialize(schema, { name: 'John', permissions: [], type: 'admin' }),
+      { permissions: [], type: 'admin' }
+    );
+    deepStrictEqual(
+      serialize(schema, { name: 'John', permissions: [], type: 'user' }),
+      { name: 'John', type: 'user' }
+    );
+  });
+
+  it('should use all the oneOf and anyOf branches if none of them matches.', () => {
+    const schema: IApiSchema = {
+      oneOf: [
+        { properties: { id: { type: 'integer' } }, required: [ 'id' ], type: 'object' },
+        { properties: { name: { type: 'string' } }, required: [ 'name' ], type: 'object' },
+      ]
+    };
+
+    deepStrictEqual(
+      serialize(schema, { id: 'a', name: 1, password: 'secret' }),
+      { id: 'a', name: 1 }
+    );
+  });
+
+});
@@ -0,0 +1,271 @@
+// 3p
+import Ajv, { ValidateFunction } from 'ajv';
+
+// FoalTS
+import { IApiComponents, IApiReference, IApiSchema } from '../../core';
+
+/**
+ * Function returning a JSON copy of a value from which the properties not listed
+ * in a schema are removed.
+ */
+export type ResponseSerializer = (value: any) => any;
+
+type Schema = IApiSchema|IApiReference|boolean;
+
+interface Shape {
+  describesObject: boolean;
+  properties: Map<string, ResponseSerializer>;
+  patternProperties: [ RegExp, ResponseSerializer ][];
+  additionalProperties?: ResponseSerializer;
+  items?: ResponseSerializer|ResponseSerializer[];
+}
+
+function copy(value: any): any {
+  const json = JSON.stringify(value);
+  return json === undefined ? undefined : JSON.parse(json);
+}
+
+function toJSON(value: any): any {
+  return typeof value?.toJSON === 'function' ? value.toJSON() : value;
+}
+
+function serializeObject(shape: Shape, value: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    if (key === '__proto__') {
+      continue;
+    }
+    const serialize = shape.properties.get(key)
+      || shape.patternProperties.find(([ pattern ]) => pattern.test(key))?.[1]
+      || shape.additionalProperties;
+    const item = serialize && serialize(value[key]);
+    if (item !== undefined) {
+      result[key] = item;
+    }
+  }
+  return result;
+}
+
+function serializeArray(shape: Shape, value: any[]): any[] {
+  return value.map((item, index) => {
+    const serialize = (Array.isArray(shape.items) ? shape.items[index] : shape.items) || copy;
+    const result = serialize(item);
+    // JSON.stringify converts the undefined items into null.
+    return result === undefined ? null : result;
+  });
+}
+
+/**
+ * Compile the serializers of the schemas of a response. The schemas are compiled once and the
+ * object schemas combined with `allOf` are merged. The branches of the `anyOf`, `oneOf` and
+ * `if/then/else` keywords are chosen when the value is serialized by validating it with Ajv.
+ */
+class ResponseSerializerCompiler {
+  private readonly serializers = new WeakMap<object, ResponseSerializer>();
+  private readonly validateFunctions = new WeakMap<object, ValidateFunction>();
+  private readonly shapes = new Map<string, Shape>();
+  private readonly schemaIds = new WeakMap<object, number>();
+  private readonly mergedSchemas = new Map<string, IApiSchema>();
+  private nextSchemaId = 0;
+
+  constructor(private readonly components: IApiComponents, private readonly ajv: Ajv) {}
+
+  compile(schema: Schema): ResponseSerializer {
+    if (typeof schema !== 'object' || schema === null) {
+      return copy;
+    }
+
+    const existingSerializer = this.serializers.get(schema);
+    if (existingSerializer) {
+      return existingSerializer;
+    }
+
+    // Register the serializer before compiling the sub-schemas to support recursive schemas.
+    let serialize: ResponseSerializer = copy;
+    const serializer: ResponseSerializer = value => serialize(value);
+    this.serializers.set(schema, serializer);
+
+    const staticShape = this.hasBranches(schema, new Set()) ? undefined : this.getShape(this.getParts(schema, () => {}));
+
+    serialize = value => {
+      value = toJSON(value);
+      if (typeof value !== 'object' || value === null) {
+        return copy(value);
+      }
+
+      let data: any;
+      const getData = () => data === undefined ? (data = copy(value)) : data;
+      const shape = staticShape || this.getShape(this.getParts(schema, getData));
+
+      if (Array.isArray(value)) {
+        return serializeArray(shape, value);
+      }
+      return shape.describesObject ? serializeObject(shape, value) : copy(value);
+    };
+
+    return serializer;
+  }
+
+  private resolve(schema: Schema): Exclude<Schema, IApiReference>|undefined {
+    const visited = new Set<object>();
+    while (typeof schema === 'object' && schema !== null && '$ref' in schema) {
+      if (visited.has(schema)) {
+        return;
+      }
+      visited.add(schema);
+      const prefix = '#/components/schemas/';
+      schema = schema.$ref.startsWith(prefix)
+        ? this.components.schemas?.[schema.$ref.slice(prefix.length)] as Schema
+        : true;
+    }
+    return schema;
+  }
+
+  private hasBranches(schema: Schema, visited: Set<object>): boolean {
+    const resolvedSchema = this.resolve(schema);
+    if (typeof resolvedSchema !== 'object' || visited.has(resolvedSchema)) {
+      return false;
+    }
+    visited.add(resolvedSchema);
+    return !!(resolvedSchema.anyOf || resolvedSchema.oneOf || (resolvedSchema as any).if)
+      || (resolvedSchema.allOf || []).some(subSchema => this.hasBranches(subSchema, visited));
+  }
+
+  private matches(schema: Schema, data: any): boolean {
+    if (typeof schema !== 'object' || schema === null) {
+      return schema !== false;
+    }
+    let validate = this.validateFunctions.get(schema);
+    if (!validate) {
+      validate = this.ajv.compile({ ...schema, components: this.components });
+      this.validateFunctions.set(schema, validate);
+    }
+    return validate(data);
+  }
+
+  /**
+   * Return the schemas describing the value: the schema itself, its `allOf` schemas and
+   * the branches matching the value. If no branch matches, all of them are used.
+   */
+  private getParts(schema: Schema, getData: () => any, parts: any[] = []): any[] {
+    const resolvedSchema: any = this.resolve(schema);
+    if (typeof resolvedSchema !== 'object' || parts.includes(resolvedSchema)) {
+      return parts;
+    }
+    parts.push(resolvedSchema);
+
+    const branches: Schema[] = [ ...(resolvedSchema.allOf || []) ];
+    if (resolvedSchema.oneOf) {
+      const matchingBranch = resolvedSchema.oneOf.find((branch: Schema) => this.matches(branch, getData()));
+      branches.push(...(matchingBranch ? [ matchingBranch ] : resolvedSchema.oneOf));
+    }
+    if (resolvedSchema.anyOf) {
+      const matchingBranches = resolvedSchema.anyOf.filter((branch: Schema) => this.matches(branch, getData()));
+      branches.push(...(matchingBranches.length ? matchingBranches : resolvedSchema.anyOf));
+    }
+    if (resolvedSchema.if !== undefined) {
+      const branch = this.matches(resolvedSchema.if, getData()) ? resolvedSchema.then : resolvedSchema.else;
+      if (branch !== undefined) {
+        branches.push(branch);
+      }
+    }
+
+    for (const branch of branches) {
+      this.getParts(branch, getData, parts);
+    }
+    return parts;
+  }
+
+  private getKey(schemas: object[]): string {
+    return schemas.map(schema => {
+      let id = this.schemaIds.get(schema);
+      if (id === undefined) {
+        id = this.nextSchemaId++;
+        this.schemaIds.set(schema, id);
+      }
+      return id;
+    }).join(',');
+  }
+
+  private getShape(parts: any[]): Shape {
+    const key = this.getKey(parts);
+    let shape = this.shapes.get(key);
+    if (!shape) {
+      shape = this.createShape(parts);
+      this.shapes.set(key, shape);
+    }
+    return shape;
+  }
+
+  private compileAll(schemas: Schema[]): ResponseSerializer|undefined {
+    if (schemas.length === 0) {
+      return;
+    }
+    if (schemas.length === 1) {
+      return this.compile(schemas[0]);
+    }
+    // Reuse the same schema for the same list so that the recursive schemas are compiled once.
+    const key = this.getKey(schemas.filter((schema): schema is IApiSchema|IApiReference => typeof schema === 'object'));
+    let schema = this.mergedSchemas.get(key);
+    if (!schema) {
+      schema = { allOf: schemas } as IApiSchema;
+      this.mergedSchemas.set(key, schema);
+    }
+    return this.compile(schema);
+  }
+
+  private createShape(parts: any[]): Shape {
+    const properties = new Map<string, Schema[]>();
+    const patternProperties: [ RegExp, ResponseSerializer ][] = [];
+    const additionalProperties: Schema[] = [];
+    const items: any[] = [];
+    let describesObject = false;
+
+    for (const part of parts) {
+      describesObject = describesObject || part.type === 'object'
+        || [ 'properties', 'additionalProperties', 'patternProperties' ].some(keyword => keyword in part);
+      for (const name in part.properties) {
+        properties.set(name, [ ...(properties.get(name) || []), part.properties[name] ]);
+      }
+      for (const pattern in part.patternProperties) {
+        patternProperties.push([ new RegExp(pattern, 'u'), this.compile(part.patternProperties[pattern]) ]);
+      }
+      // The properties not listed are removed unless the schema explicitly allows them.
+      if (part.additionalProperties !== undefined && part.additionalProperties !== false) {
+        additionalProperties.push(part.additionalProperties);
+      }
+      if (part.items !== undefined) {
+        items.push(part.items);
+      }
+    }
+
+    const tupleItems = items.find(Array.isArray);
+    return {
+      additionalProperties: this.compileAll(additionalProperties),
+      describesObject,
+      items: tupleItems ? tupleItems.map((item: Schema) => this.compile(item)) : this.compileAll(items),
+      patternProperties,
+      properties: new Map(Array.from(properties, ([ name, schemas ]) => [ name, this.compileAll(schemas) || copy ])),
+    };
+  }
+}
+
+/**
+ * Create a function returning a JSON copy of a response body where the properties not listed in
+ * the schema are removed.
+ *
+ * The serializer is compiled once from the schema. The object schemas of `allOf` are merged and
+ * the branches of `anyOf`, `oneOf` and `if/then/else` are the ones that match the body (all of
+ * them if none matches).
+ *
+ * @export
+ * @param {(IApiSchema|IApiReference)} schema - The response schema.
+ * @param {IApiComponents} components - The components used to resolve the references.
+ * @param {Ajv} ajv - The Ajv instance used to find the matching branches.
+ * @returns {ResponseSerializer} The serializer.
+ */
+export function createResponseSerializer(
+  schema: IApiSchema|IApiReference, components: IApiComponents, ajv: Ajv
+): ResponseSerializer {
+  return new ResponseSerializerCompiler(components, ajv).compile(schema);
+}
@@ -0,0 +1,166 @@
+// 3p
+import { ErrorObject, ValidateFunction } from 'ajv';
+
+// FoalTS
+import {
+  Env,
+  getApiComponents,
+  getApiResponses,
+  HttpResponse,
+  IApiComponents,
+  IApiReference,
+  IApiResponse,
+  IApiSchema,
+  OpenApi,
+  ServiceManager
+} from '../../core';
+import { getResponseAjvInstance } from './get-ajv-instance';
+import { createResponseSerializer, ResponseSerializer } from './response-serializer';
+
+/**
+ * Response validation mode:
+ * - `strict`: an error is thrown if the response body does not match its schema,
+ * - `strip`: the response bodies are not validated.
+ *
+ * In both modes, the properties not listed in the schema are removed from the response body.
+ */
+export type ResponseValidationMode = 'strict'|'strip';
+
+/**
+ * Error thrown when a response body does not match the schema of its status code.
+ *
+ * @export
+ * @class ResponseValidationError
+ * @extends {Error}
+ */
+export class ResponseValidationError extends Error {
+  readonly name = 'ResponseValidationError';
+
+  constructor(readonly statusCode: number, readonly errors: ErrorObject[]) {
+    super();
+    const count = `${errors.length} error${errors.length > 1 ? 's' : ''}`;
+    this.message = [
+      `The body of the response (status ${statusCode}) does not match its schema (${count}):`,
+      ...errors.map(({ instancePath, message }) => `  - "body${instancePath}" ${message}`),
+    ].join('\n');
+  }
+}
+
+/**
+ * Return the default response validation mode: `strip` in production and `strict` otherwise.
+ *
+ * @export
+ * @returns {ResponseValidationMode} The validation mode.
+ */
+export function getDefaultResponseValidationMode(): ResponseValidationMode {
+  return Env.getEnvironmentName() === 'production' ? 'strip' : 'strict';
+}
+
+function mergeComponents(...componentsList: IApiComponents[]): IApiComponents {
+  const result: Record<string, any> = {};
+  for (const components of componentsList) {
+    for (const key in components) {
+      result[key] = { ...result[key], ...components[key as keyof IApiComponents] };
+    }
+  }
+  return result;
+}
+
+interface ResponseSchema {
+  schema: IApiSchema|IApiReference;
+  components: IApiComponents;
+  serialize: ResponseSerializer;
+  // Compiled in strict mode only.
+  validate?: ValidateFunction;
+}
+
+function isReference(obj: IApiResponse|IApiReference): obj is IApiReference {
+  return '$ref' in obj;
+}
+
+/**
+ * Create a function validating the responses of a controller method against the JSON schemas
+ * declared with `@ApiResponse` (on the controller class or on the method). The references are resolved
+ * with the components of the OpenAPI document and of the controller.
+ *
+ * The schema of a response is the one of its status code, then of its status class (ex: `2XX`)
+ * and finally the `default` one. Only the `application/json` and `+json` media types are used.
+ * Streamed and buffer bodies are not validated.
+ *
+ * The body of the response is replaced with a JSON copy from which the properties not listed in the schema
+ * are removed. This copy is made by a serializer compiled once from the schema (see `createResponseSerializer`).
+ * In `strip` mode, the body is not validated.
+ *
+ * @export
+ * @param {*} controller - The controller instance.
+ * @param {string} propertyKey - The name of the controller method.
+ * @param {ServiceManager} services - The service manager (used to retrieve the OpenAPI components).
+ * @returns {(response: HttpResponse, mode: ResponseValidationMode) => void} The validation function.
+ */
+export function createResponseValidator(
+  controller: any, propertyKey: string, services: ServiceManager
+): (response: HttpResponse, mode: ResponseValidationMode) => void {
+  const schemas = new Map<number, ResponseSchema|undefined>();
+
+  function getSchema(statusCode: number): ResponseSchema|undefined {
+    if (schemas.has(statusCode)) {
+      return schemas.get(statusCode);
+    }
+
+    const responses: Record<string, any> = {
+      ...getApiResponses(controller.constructor),
+      ...getApiResponses(controller.constructor, propertyKey),
+    };
+    const components = mergeComponents(
+      services.get(OpenApi).getComponents(controller),
+      getApiComponents(controller.constructor, controller),
+      getApiComponents(controller.constructor, controller, propertyKey),
+    );
+
+    let schema: IApiSchema|IApiReference|undefined;
+    const key = [ statusCode.toString(), `${statusCode.toString()[0]}XX`, 'default' ].find(k => k in responses);
+    if (key) {
+      let response: IApiResponse|IApiReference|undefined = typeof responses[key] === 'function'
+        ? responses[key](controller)
+        : responses[key];
+      if (response && isReference(response)) {
+        response = components.responses?.[response.$ref.replace('#/components/responses/', '')] as IApiResponse;
+      }
+      const content = response?.content || {};
+      const mediaType = Object.keys(content).find(type => type === 'application/json' || type.endsWith('+json'));
+      schema = mediaType ? content[mediaType].schema : undefined;
+    }
+
+    const result = schema && {
+      components,
+      schema,
+      serialize: createResponseSerializer(schema, components, getResponseAjvInstance()),
+    };
+    schemas.set(statusCode, result);
+    return result;
+  }
+
+  return (response, mode) => {
+    if (response.stream || Buffer.isBuffer(response.body)) {
+      return;
+    }
+
+    const responseSchema = getSchema(response.statusCode);
+    if (!responseSchema) {
+      return;
+    }
+
+    const body = responseSchema.serialize(response.body);
+    if (mode === 'strict') {
+      if (!responseSchema.validate) {
+        responseSchema.validate = getResponseAjvInstance().compile({
+          ...responseSchema.schema, components: responseSchema.components
+        });
+      }
+      if (!responseSchema.validate(body)) {
+        throw new ResponseValidationError(response.statusCode, responseSchema.validate.errors || []);
+      }
+    }
+    response.body = body;
+  };
+}
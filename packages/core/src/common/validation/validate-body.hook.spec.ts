@@ -4,10 +4,12 @@ import { deepStrictEqual, notStrictEqual, ok, strictEqual } from 'assert';
 // FoalTS
 import {
   Context,
+  getApiCompleteOperation,
   getApiRequestBody,
   getApiResponses,
   getHookFunction,
   HttpResponseBadRequest,
+  HttpResponseUnsupportedMediaType,
   IApiSchema,
   OpenApi,
   ServiceManager
@@ -16,6 +18,10 @@ import { ValidateBody } from './validate-body.hook';
 
 describe('ValidateBody', () => {
 
+  function createContext(request: object): Context {
+    return new Context({ get: () => undefined, ...request });
+  }
+
   const schema = {
     properties: {
       foo: { type: 'integer' }
@@ -30,7 +36,7 @@ describe('ValidateBody', () => {
       it('should not return an HttpResponseBadRequest if ctx.request.body is validated '
           + ' by ajv for the given schema.', () => {
         const hook = getHookFunction(ValidateBody(schema));
-        const ctx = new Context({});
+        const ctx = createContext({});
         ctx.request.body = {
           foo: 3
         };
@@ -44,7 +50,7 @@ describe('ValidateBody', () => {
         const hook = getHookFunction(ValidateBody(schema));
 
         function context(body: any) {
-          const ctx = new Context({});
+          const ctx = createContext({});
           ctx.request.body = body;
           return ctx;
         }
@@ -60,7 +66,7 @@ describe('ValidateBody', () => {
       it('should return an HttpResponseBadRequest with a defined `body` property if '
           + 'ctx.request.body is not validated by ajv.', () => {
         const hook = getHookFunction(ValidateBody(schema));
-        const ctx = new Context({});
+        const ctx = createContext({});
 
         const actual = hook(ctx, new ServiceManager());
         if (!(actual instanceof HttpResponseBadRequest)) {
@@ -103,7 +109,7 @@ describe('ValidateBody', () => {
         const hook = getHookFunction(ValidateBody({
           $ref: '#/components/schemas/user'
         })).bind(controller);
-        const ctx = new Context({
+        const ctx = createContext({
           body: {
             foo: 'hello'
           }
@@ -133,7 +139,7 @@ describe('ValidateBody', () => {
       it('should not return an HttpResponseBadRequest if ctx.request.body is validated '
           + ' by ajv for the given schema.', () => {
         const hook = getHookFunction(ValidateBody(controller => controller.schema)).bind({ schema });
-        const ctx = new Context({});
+        const ctx = createContext({});
         ctx.request.body = {
           foo: 3
         };
@@ -147,7 +153,7 @@ describe('ValidateBody', () => {
         const hook = getHookFunction(ValidateBody(controller => controller.schema)).bind({ schema });
 
         function context(body: any) {
-          const ctx = new Context({});
+          const ctx = createContext({});
           ctx.request.body = body;
           return ctx;
         }
@@ -163,7 +169,7 @@ describe('ValidateBody', () => {
       it('should return an HttpResponseBadRequest with a defined `body` property if '
           + 'ctx.request.body is not validated by ajv.', () => {
         const hook = getHookFunction(ValidateBody(controller => controller.schema)).bind({ schema });
-        const ctx = new Context({});
+        const ctx = createContext({});
 
         const actual = hook(ctx, new ServiceManager());
         ok(actual instanceof HttpResponseBadRequest);
@@ -196,7 +202,7 @@ describe('ValidateBody', () => {
         }, [ controller ]);
 
         const hook = getHookFunction(ValidateBody(controller => controller.schema)).bind(controller);
-        const ctx = new Context({
+        const ctx = createContext({
           body: {
             foo: 'hello'
           }
@@ -223,6 +229,106 @@ describe('ValidateBody', () => {
 
   });
 
+  describe('given the request body is URL-encoded', () => {
+
+    it('should coerce its values to the types of the schema (including arrays).', () => {
+      const hook = getHookFunction(ValidateBody({
+        properties: {
+          foo: { type: 'integer' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        type: 'object',
+      }));
+      const ctx = createContext({
+        body: { foo: '3', tags: 'a' },
+        get(name: string) { return name === 'Content-Type' ? 'application/x-www-form-urlencoded' : undefined; },
+      });
+
+      strictEqual(hook(ctx, new ServiceManager()), undefined);
+      deepStrictEqual(ctx.request.body, { foo: 3, tags: [ 'a' ] });
+    });
+
+  });
+
+  describe('given schema is a map of schemas by content type', () => {
+
+    const jsonSchema = {
+      properties: { foo: { type: 'integer' } },
+      required: [ 'foo' ],
+      type: 'object',
+    };
+    const formSchema = {
+      properties: { tags: { type: 'array', items: { type: 'string' } } },
+      required: [ 'tags' ],
+      type: 'object',
+    };
+
+    function context(contentType: string|undefined, body: any): Context {
+      return createContext({
+        body,
+        get(name: string) { return name === 'Content-Type' ? contentType : undefined; },
+      });
+    }
+
+    it('should validate the request body against the schema of the request content type.', () => {
+      const hook = getHookFunction(ValidateBody({
+        'application/json': jsonSchema,
+        'application/x-www-form-urlencoded': formSchema,
+      }));
+      const services = new ServiceManager();
+
+      strictEqual(hook(context('application/json; charset=utf-8', { foo: 3 }), services), undefined);
+      ok(hook(context('application/json', { tags: [ 'a' ] }), services) instanceof HttpResponseBadRequest);
+
+      strictEqual(hook(context('application/x-www-form-urlencoded', { tags: [ 'a' ] }), services), undefined);
+      ok(hook(context('application/x-www-form-urlencoded', { foo: '3' }), services) instanceof HttpResponseBadRequest);
+    });
+
+    it('should coerce the values of URL-encoded form bodies (including arrays).', () => {
+      const hook = getHookFunction(ValidateBody({
+        'application/x-www-form-urlencoded': formSchema,
+      }));
+      const ctx = context('application/x-www-form-urlencoded', { tags: 'a' });
+
+      strictEqual(hook(ctx, new ServiceManager()), undefined);
+      deepStrictEqual(ctx.request.body, { tags: [ 'a' ] });
+    });
+
+    it('should return an HttpResponseUnsupportedMediaType if the content type has no schema.', () => {
+      const hook = getHookFunction(ValidateBody({
+        'application/json': jsonSchema,
+      }));
+      const services = new ServiceManager();
+
+      ok(hook(context('text/plain', 'foo'), services) instanceof HttpResponseUnsupportedMediaType);
+      ok(hook(context(undefined, undefined), services) instanceof HttpResponseUnsupportedMediaType);
+    });
+
+    it('should support wildcards.', () => {
+      const hook = getHookFunction(ValidateBody({
+        'text/*': { type: 'string' },
+      }));
+      const services = new ServiceManager();
+
+      strictEqual(hook(context('text/plain', 'foo'), services), undefined);
+      ok(hook(context('application/json', {}), services) instanceof HttpResponseUnsupportedMediaType);
+    });
+
+    it('should support functions.', () => {
+      class Foobar {
+        schema = jsonSchema;
+      }
+      const hook = getHookFunction(ValidateBody((controller: Foobar) => ({
+        'application/json': controller.schema,
+      }))).bind(new Foobar());
+      const services = new ServiceManager();
+
+      strictEqual(hook(context('application/json', { foo: 3 }), services), undefined);
+      ok(hook(context('application/json', { foo: 'a' }), services) instanceof HttpResponseBadRequest);
+    });
+
+  });
+
   describe('should define an API specification', () => {
 
     it('unless options.openapi is false.', () => {
@@ -269,6 +375,34 @@ describe('ValidateBody', () => {
       });
     });
 
+    it('with the proper request body (map of schemas by content type).', () => {
+      const formSchema = { type: 'object' };
+      @ValidateBody({
+        'application/json': schema,
+        'application/x-www-form-urlencoded': (controller: Foobar) => controller.formSchema,
+      })
+      class Foobar {
+        formSchema = formSchema;
+      }
+
+      const actual = getApiRequestBody(Foobar);
+      if (typeof actual !== 'function') {
+        throw new Error('The ApiRequestBody metadata should be a function.');
+      }
+
+      deepStrictEqual(actual(new Foobar()), {
+        content: {
+          'application/json': { schema: schema as object },
+          'application/x-www-form-urlencoded': { schema: formSchema },
+        },
+        required: true
+      });
+      deepStrictEqual(getApiResponses(Foobar), {
+        400: { description: 'Bad request.' },
+        415: { description: 'Unsupported media type.' },
+      });
+    });
+
     it('with the proper API responses.', () => {
       @ValidateBody(schema)
       class Foobar {}
@@ -278,6 +412,27 @@ describe('ValidateBody', () => {
       });
     });
 
+    it('with the proper API responses (function).', () => {
+      class Foobar {
+        @ValidateBody((controller: Foobar) => controller.schemas)
+        foo() {}
+
+        @ValidateBody((controller: Foobar) => controller.schemas['application/json'])
+        bar() {}
+
+        schemas = { 'application/json': schema };
+      }
+
+      const controller = new Foobar();
+      deepStrictEqual(getApiCompleteOperation(Foobar, controller, 'foo').responses, {
+        400: { description: 'Bad request.' },
+        415: { description: 'Unsupported media type.' },
+      });
+      deepStrictEqual(getApiCompleteOperation(Foobar, controller, 'bar').responses, {
+        400: { description: 'Bad request.' },
+      });
+    });
+
   });
 
 });
@@ -9,52 +9,129 @@ import {
   Hook,
   HookDecorator,
   HttpResponseBadRequest,
+  HttpResponseUnsupportedMediaType,
+  IApiMediaType,
   OpenApi,
   ServiceManager
 } from '../../core';
-import { getAjvInstance } from './get-ajv-instance';
+import { getAjvInstance, getCoercingAjvInstance } from './get-ajv-instance';
 import { isFunction } from './helpers';
 
+type Schema = object | ((controller: any) => object);
+
+function isContentTypeMap(schema: object): schema is Record<string, Schema> {
+  const keys = Object.keys(schema);
+  return keys.length > 0 && keys.every(key => key.includes('/'));
+}
+
+function getMediaType(ctx: Context): string {
+  return (ctx.request.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+}
+
 /**
  * Hook factory validating the body of the request against a AJV schema.
  *
+ * The schema can also be a map of schemas by content type (ex: `{ 'application/json': schema1,
+ * 'application/x-www-form-urlencoded': schema2 }`). In this case, the body is validated against the
+ * schema of the request Content-Type and an HttpResponseUnsupportedMediaType is returned if there is none.
+ * The keys can be wildcards such as `text/*`.
+ *
+ * Since URL-encoded form values are always strings, the bodies sent with the
+ * `application/x-www-form-urlencoded` Content-Type are coerced to the types of the schema
+ * (including arrays) whatever the value of "settings.ajv.coerceTypes".
+ *
  * @export
- * @param {(object | ((controller: any) => object))} schema - Schema used to validate the request body.
+ * @param {(object | ((controller: any) => object))} schema - Schema used to validate the request body or
+ * map of schemas by content type.
  * @param {{ openapi?: boolean }} [options] - Options to add openapi metadata
  * @returns {HookDecorator} - The hook.
  */
 export function ValidateBody(
-  schema: object | ((controller: any) => object), options?: { openapi?: boolean }
+  schema: Schema, options?: { openapi?: boolean }
 ): HookDecorator {
   let validateSchema: ValidateFunction|undefined;
+  let validateFormSchema: ValidateFunction|undefined;
+  let validateSchemasByMediaType: Map<string, ValidateFunction>|undefined;
 
-  function validate(this: any, ctx: Context, services: ServiceManager) {
-    if (!validateSchema) {
-      const ajvSchema = isFunction(schema) ? schema(this) : schema;
-      const components = services.get(OpenApi).getComponents(this);
+  function compile(controller: any, services: ServiceManager) {
+    const ajvSchema = isFunction(schema) ? schema(controller) : schema;
+    const components = services.get(OpenApi).getComponents(controller);
 
+    if (!isContentTypeMap(ajvSchema)) {
       validateSchema = getAjvInstance().compile({
         ...ajvSchema,
         components
       });
+      validateFormSchema = getCoercingAjvInstance().compile({
+        ...ajvSchema,
+        components
+      });
+      return;
+    }
+
+    validateSchemasByMediaType = new Map();
+    for (const mediaType in ajvSchema) {
+      const mediaTypeSchema = ajvSchema[mediaType];
+      const ajv = mediaType === 'application/x-www-form-urlencoded' ? getCoercingAjvInstance() : getAjvInstance();
+      validateSchemasByMediaType.set(mediaType.toLowerCase(), ajv.compile({
+        ...(isFunction(mediaTypeSchema) ? mediaTypeSchema(controller) : mediaTypeSchema),
+        components
+      }));
+    }
+  }
+
+  function validateBody(this: any, ctx: Context, services: ServiceManager) {
+    if (!validateSchema && !validateSchemasByMediaType) {
+      compile(this, services);
+    }
+
+    const mediaType = getMediaType(ctx);
+    let validate = (mediaType === 'application/x-www-form-urlencoded' ? validateFormSchema : validateSchema) as ValidateFunction;
+    if (validateSchemasByMediaType) {
+      const validateMediaType = validateSchemasByMediaType.get(mediaType)
+        || validateSchemasByMediaType.get(`${mediaType.split('/')[0]}/*`)
+        || validateSchemasByMediaType.get('*/*');
+      if (!validateMediaType) {
+        return new HttpResponseUnsupportedMediaType();
+      }
+      validate = validateMediaType;
     }
 
-    if (!validateSchema(ctx.request.body)) {
-      return new HttpResponseBadRequest({ body: validateSchema.errors });
+    if (!validate(ctx.request.body)) {
+      return new HttpResponseBadRequest({ body: validate.errors });
     }
   }
 
+  function getContent(controller: any): { [mediaType: string]: IApiMediaType } {
+    const ajvSchema = isFunction(schema) ? schema(controller) : schema;
+    if (!isContentTypeMap(ajvSchema)) {
+      return { 'application/json': { schema: ajvSchema } };
+    }
+
+    const content: { [mediaType: string]: IApiMediaType } = {};
+    for (const mediaType in ajvSchema) {
+      const mediaTypeSchema = ajvSchema[mediaType];
+      content[mediaType] = { schema: isFunction(mediaTypeSchema) ? mediaTypeSchema(controller) : mediaTypeSchema };
+    }
+    return content;
+  }
+
   const openapi = [
     ApiRequestBody((c: any) => ({
-      content: {
-        'application/json': {
-          schema: isFunction(schema) ? schema(c) : schema
-        }
-      },
+      content: getContent(c),
       required: true
     })),
     ApiResponse(400, { description: 'Bad request.' })
   ];
+  if (isFunction(schema)) {
+    // The schema is only known once the controller is instantiated.
+    openapi.push(ApiResponse(415, (c: any) => isContentTypeMap(schema(c))
+      ? { description: 'Unsupported media type.' }
+      : undefined
+    ));
+  } else if (isContentTypeMap(schema)) {
+    openapi.push(ApiResponse(415, { description: 'Unsupported media type.' }));
+  }
 
-  return Hook(validate, openapi, options);
+  return Hook(validateBody, openapi, options);
 }
@@ -37,7 +37,7 @@ export function ValidateHeader(
 
   let validateSchema: ValidateFunction|undefined;
 
-  function validate(this: any, ctx: Context, services: ServiceManager) {
+  function validateHeader(this: any, ctx: Context, services: ServiceManager) {
     if (!validateSchema) {
       const ajvSchema = isFunction(schema) ? schema(this) : schema;
       const components = services.get(OpenApi).getComponents(this);
@@ -69,5 +69,5 @@ export function ValidateHeader(
     ApiResponse(400, { description: 'Bad request.' })
   ];
 
-  return Hook(validate, openapi, options);
+  return Hook(validateHeader, openapi, options);
 }
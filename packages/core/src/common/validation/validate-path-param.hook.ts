@@ -33,7 +33,7 @@ export function ValidatePathParam(
 ): HookDecorator {
   let validateSchema: ValidateFunction|undefined;
 
-  function validate(this: any, ctx: Context, services: ServiceManager) {
+  function validatePathParam(this: any, ctx: Context, services: ServiceManager) {
     if (!validateSchema) {
       const ajvSchema = isFunction(schema) ? schema(this) : schema;
       const components = services.get(OpenApi).getComponents(this);
@@ -63,5 +63,5 @@ export function ValidatePathParam(
     ApiResponse(400, { description: 'Bad request.' })
   ];
 
-  return Hook(validate, openapi, options);
+  return Hook(validatePathParam, openapi, options);
 }
@@ -38,7 +38,7 @@ export function ValidateQueryParam(
 
   let validateSchema: ValidateFunction|undefined;
 
-  function validate(this: any, ctx: Context, services: ServiceManager) {
+  function validateQueryParam(this: any, ctx: Context, services: ServiceManager) {
     if (!validateSchema) {
       const ajvSchema = isFunction(schema) ? schema(this) : schema;
       const components = services.get(OpenApi).getComponents(this);
@@ -71,5 +71,5 @@ export function ValidateQueryParam(
     ApiResponse(400, { description: 'Bad request.' })
   ];
 
-  return Hook(validate, openapi, options);
+  return Hook(validateQueryParam, openapi, options);
 }
@@ -0,0 +1,147 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import {
+  Context,
+  getApiParameters,
+  getApiResponses,
+  getHookFunction,
+  HttpResponseBadRequest,
+  ServiceManager
+} from '../../core';
+import { ValidateQuery } from './validate-query.hook';
+
+describe('ValidateQuery', () => {
+
+  const services = new ServiceManager();
+
+  const schema = {
+    additionalProperties: false,
+    properties: {
+      filter: {
+        properties: {
+          status: { type: 'array', items: { type: 'string' } },
+        },
+        type: 'object',
+      },
+      ids: { type: 'array', items: { type: 'integer' } },
+      page: { type: 'integer' },
+    },
+    required: [ 'page' ],
+    type: 'object',
+  };
+
+  describe('should validate the query object and', () => {
+
+    it('should return an HttpResponseBadRequest object if the query is not validated.', () => {
+      const hook = getHookFunction(ValidateQuery(schema));
+      const ctx = new Context({ query: { page: 'a' } });
+
+      const response = hook(ctx, services);
+      if (!(response instanceof HttpResponseBadRequest)) {
+        throw new Error('The hook should have returned an HttpResponseBadRequest object.');
+      }
+
+      deepStrictEqual(response.body, {
+        query: [
+          {
+            instancePath: '/page',
+            keyword: 'type',
+            message: 'must be integer',
+            params: { type: 'integer' },
+            schemaPath: '#/properties/page/type',
+          }
+        ]
+      });
+    });
+
+    it('should parse the bracket notation and coerce the values.', () => {
+      const hook = getHookFunction(ValidateQuery(schema));
+      const ctx = new Context({
+        query: {
+          'filter[status]': [ 'a', 'b' ],
+          'ids[]': '1',
+          'page': '2',
+        }
+      });
+
+      strictEqual(hook(ctx, services), undefined);
+      deepStrictEqual(ctx.request.query, {
+        filter: { status: [ 'a', 'b' ] },
+        ids: [ 1 ],
+        page: 2,
+      });
+    });
+
+    it('should support query objects already parsed by the adapter.', () => {
+      const hook = getHookFunction(ValidateQuery(schema));
+      const ctx = new Context({
+        query: {
+          filter: { status: 'a' },
+          page: '2',
+        }
+      });
+
+      strictEqual(hook(ctx, services), undefined);
+      deepStrictEqual(ctx.request.query, {
+        filter: { status: [ 'a' ] },
+        page: 2,
+      });
+    });
+
+    it('should support functions.', () => {
+      class Foobar {
+        schema = schema;
+      }
+      const hook = getHookFunction(ValidateQuery((controller: Foobar) => controller.schema)).bind(new Foobar());
+
+      strictEqual(hook(new Context({ query: { page: '1' } }), services), undefined);
+      strictEqual(hook(new Context({ query: {} }), services) instanceof HttpResponseBadRequest, true);
+    });
+
+  });
+
+  describe('should define an API specification', () => {
+
+    it('unless options.openapi is false.', () => {
+      @ValidateQuery(schema, { openapi: false })
+      class Foobar {}
+
+      strictEqual(getApiParameters(Foobar), undefined);
+      strictEqual(getApiResponses(Foobar), undefined);
+    });
+
+    it('with the proper parameters.', () => {
+      @ValidateQuery(schema)
+      class Foobar {}
+
+      const parameters = getApiParameters(Foobar) || [];
+      deepStrictEqual(
+        parameters.slice().sort((a: any, b: any) => a.name.localeCompare(b.name)),
+        [
+          {
+            explode: true,
+            in: 'query',
+            name: 'filter',
+            schema: schema.properties.filter,
+            style: 'deepObject',
+          },
+          { in: 'query', name: 'ids', schema: schema.properties.ids },
+          { in: 'query', name: 'page', required: true, schema: schema.properties.page },
+        ]
+      );
+    });
+
+    it('with the proper API responses.', () => {
+      @ValidateQuery(schema)
+      class Foobar {}
+
+      deepStrictEqual(getApiResponses(Foobar), {
+        400: { description: 'Bad request.' }
+      });
+    });
+
+  });
+
+});
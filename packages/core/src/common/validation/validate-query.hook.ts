@@ -0,0 +1,79 @@
+// std
+import { ValidateFunction } from 'ajv';
+
+// FoalTS
+import {
+  ApiParameter,
+  ApiResponse,
+  Context,
+  Hook,
+  HookDecorator,
+  HttpResponseBadRequest,
+  IApiQueryParameter,
+  OpenApi,
+  ServiceManager
+} from '../../core';
+import { getCoercingAjvInstance } from './get-ajv-instance';
+import { isFunction, parseBracketNotation } from './helpers';
+
+/**
+ * Hook - Validate the query object of the request against an AJV schema.
+ *
+ * Before being validated, the query keys written in bracket notation are converted into objects
+ * and arrays (ex: `?filter[status]=a&filter[status]=b&ids[]=1` gives
+ * `{ filter: { status: [ 'a', 'b' ] }, ids: [ '1' ] }`). The values are then coerced to the types
+ * of the schema (single values are converted into arrays if needed) and the result replaces `ctx.request.query`.
+ *
+ * If the schema is an object, the OpenAPI parameters are generated from its properties.
+ *
+ * @export
+ * @param {(object | ((controller: any) => object))} schema - Schema used to validate the query object.
+ * @param {{ openapi?: boolean }} [options={}] - Options.
+ * @param {boolean} [options.openapi] - Add OpenApi metadata.
+ * @returns {HookDecorator} The hook.
+ */
+export function ValidateQuery(
+  schema: object | ((controller: any) => object),
+  options: { openapi?: boolean } = {}
+): HookDecorator {
+  let validateSchema: ValidateFunction|undefined;
+
+  function validateQuery(this: any, ctx: Context, services: ServiceManager) {
+    if (!validateSchema) {
+      const ajvSchema = isFunction(schema) ? schema(this) : schema;
+      const components = services.get(OpenApi).getComponents(this);
+
+      validateSchema = getCoercingAjvInstance().compile({
+        ...ajvSchema,
+        components,
+      });
+    }
+
+    const query = parseBracketNotation(ctx.request.query || {});
+    if (!validateSchema(query)) {
+      return new HttpResponseBadRequest({ query: validateSchema.errors });
+    }
+    ctx.request.query = query;
+  }
+
+  const openapi = [
+    ApiResponse(400, { description: 'Bad request.' })
+  ];
+
+  if (!isFunction(schema)) {
+    const { properties = {}, required = [] } = schema as { properties?: Record<string, any>, required?: string[] };
+    for (const name in properties) {
+      const param: IApiQueryParameter = { in: 'query', name, schema: properties[name] };
+      if (required.includes(name)) {
+        param.required = true;
+      }
+      if (properties[name].type === 'object') {
+        param.style = 'deepObject';
+        param.explode = true;
+      }
+      openapi.push(ApiParameter(param));
+    }
+  }
+
+  return Hook(validateQuery, openapi, options);
+}
@@ -0,0 +1,269 @@
+// std
+import { deepStrictEqual, rejects, strictEqual } from 'assert';
+import { Readable } from 'stream';
+
+// FoalTS
+import {
+  ApiDefineSchema,
+  ApiResponse,
+  Context,
+  getHookFunction,
+  HttpResponse,
+  HttpResponseCreated,
+  HttpResponseOK,
+  IApiSchema,
+  ServiceManager
+} from '../../core';
+import { getDefaultResponseValidationMode, ResponseValidationError } from './response-validator';
+import { ValidateResponse } from './validate-response.hook';
+
+describe('ValidateResponse', () => {
+
+  const userSchema: IApiSchema = {
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+    },
+    required: [ 'id', 'name' ],
+    type: 'object',
+  };
+
+  async function execute(
+    controller: any, propertyKey: string, response: HttpResponse, mode?: 'strict'|'strip'
+  ): Promise<HttpResponse> {
+    const hook = getHookFunction(ValidateResponse({ mode })).bind(controller);
+    const postHookFunction = await hook(new Context({}, controller.constructor.name, propertyKey), new ServiceManager());
+    if (typeof postHookFunction !== 'function') {
+      throw new Error('The hook should return a post hook function.');
+    }
+    await postHookFunction(response);
+    return response;
+  }
+
+  class UserController {
+    @ApiResponse(200, { description: 'OK', content: { 'application/json': { schema: userSchema } } })
+    getUser() {}
+
+    @ApiResponse('2XX', { description: 'OK', content: { 'application/json': { schema: { type: 'array' } } } })
+    @ApiResponse('default', { description: 'Error', content: { 'application/json': { schema: { type: 'string' } } } })
+    getUsers() {}
+
+    @ApiResponse(200, { description: 'OK' })
+    getAvatar() {}
+  }
+
+  it('should remove the properties not listed in the schema.', async () => {
+    const user = { id: 1, name: 'John', password: 'secret' };
+
+    const response = await execute(new UserController(), 'getUser', new HttpResponseOK(user));
+
+    deepStrictEqual(response.body, { id: 1, name: 'John' });
+    // The original object is not modified.
+    strictEqual(user.password, 'secret');
+  });
+
+  it('should remove the properties not listed in the nested and referenced schemas.', async () => {
+    @ApiDefineSchema('user', userSchema)
+    @ApiResponse(200, {
+      content: {
+        'application/json': {
+          schema: {
+            properties: {
+              users: { items: { $ref: '#/components/schemas/user' }, type: 'array' },
+            },
+            type: 'object',
+          }
+        }
+      },
+      description: 'OK',
+    })
+    class Controller {
+      foo() {}
+    }
+
+    const response = await execute(new Controller(), 'foo', new HttpResponseOK({
+      count: 1,
+      users: [ { id: 1, name: 'John', password: 'secret' } ],
+    }));
+
+    deepStrictEqual(response.body, { users: [ { id: 1, name: 'John' } ] });
+  });
+
+  it('should not remove the properties of the oneOf and anyOf branches.', async () => {
+    const adminSchema: IApiSchema = {
+      properties: {
+        id: { type: 'integer' },
+        permissions: { items: { type: 'string' }, type: 'array' },
+      },
+      required: [ 'id', 'permissions' ],
+      type: 'object',
+    };
+
+    @ApiDefineSchema('user', userSchema)
+    @ApiResponse(200, {
+      content: {
+        'application/json': { schema: { oneOf: [ { $ref: '#/components/schemas/user' }, adminSchema ] } }
+      },
+      description: 'OK',
+    })
+    @ApiResponse(201, {
+      content: { 'application/json': { schema: { anyOf: [ userSchema, adminSchema ] } } },
+      description: 'OK',
+    })
+    class Controller {
+      foo() {}
+    }
+
+    const admin = { id: 1, permissions: [ 'admin' ] };
+    const response = await execute(new Controller(), 'foo', new HttpResponseOK(admin), 'strict');
+    deepStrictEqual(response.body, admin);
+
+    const user = { id: 2, name: 'John' };
+    const response2 = await execute(new Controller(), 'foo', new HttpResponseOK(user), 'strict');
+    deepStrictEqual(response2.body, user);
+
+    const response3 = await execute(new Controller(), 'foo', new HttpResponseCreated(admin), 'strict');
+    deepStrictEqual(response3.body, admin);
+  });
+
+  it('should remove the properties not listed in the allOf schemas.', async () => {
+    @ApiDefineSchema('user', userSchema)
+    @ApiResponse(200, {
+      content: {
+        'application/json': {
+          schema: {
+            allOf: [
+              { $ref: '#/components/schemas/user' },
+              { properties: { email: { type: 'string' } }, type: 'object' },
+            ]
+          }
+        }
+      },
+      description: 'OK',
+    })
+    class Controller {
+      foo() {}
+    }
+
+    const response = await execute(
+      new Controller(), 'foo', new HttpResponseOK({ email: 'john@foalts.org', id: 1, name: 'John', password: 'secret' }), 'strict'
+    );
+
+    deepStrictEqual(response.body, { email: 'john@foalts.org', id: 1, name: 'John' });
+  });
+
+  it('should remove the properties not listed in the matching oneOf and anyOf branches.', async () => {
+    const adminSchema: IApiSchema = {
+      properties: {
+        id: { type: 'integer' },
+        permissions: { items: { type: 'string' }, type: 'array' },
+      },
+      required: [ 'id', 'permissions' ],
+      type: 'object',
+    };
+
+    @ApiResponse(200, {
+      content: { 'application/json': { schema: { oneOf: [ userSchema, adminSchema ] } } },
+      description: 'OK',
+    })
+    @ApiResponse(201, {
+      content: { 'application/json': { schema: { anyOf: [ userSchema, adminSchema ] } } },
+      description: 'OK',
+    })
+    class Controller {
+      foo() {}
+    }
+
+    const admin = { id: 1, name: 'John', password: 'secret', permissions: [ 'admin' ] };
+
+    const response = await execute(new Controller(), 'foo', new HttpResponseOK({ id: 2, name: 'Mary', password: 'secret' }));
+    deepStrictEqual(response.body, { id: 2, name: 'Mary' });
+
+    // Both branches match.
+    const response2 = await execute(new Controller(), 'foo', new HttpResponseCreated(admin));
+    deepStrictEqual(response2.body, { id: 1, name: 'John', permissions: [ 'admin' ] });
+  });
+
+  it('should serialize the body in JSON.', async () => {
+    @ApiResponse(200, {
+      content: { 'application/json': { schema: { properties: { date: { type: 'string' } }, type: 'object' } } },
+      description: 'OK',
+    })
+    class Controller {
+      foo() {}
+    }
+
+    const response = await execute(new Controller(), 'foo', new HttpResponseOK({ date: new Date(0) }));
+
+    deepStrictEqual(response.body, { date: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('should throw a ResponseValidationError in strict mode if the body does not match the schema.', async () => {
+    await rejects(
+      () => execute(new UserController(), 'getUser', new HttpResponseOK({ id: 'a' }), 'strict'),
+      (error: any) => {
+        strictEqual(error instanceof ResponseValidationError, true);
+        strictEqual(error.statusCode, 200);
+        strictEqual(error.message, [
+          'The body of the response (status 200) does not match its schema (2 errors):',
+          '  - "body" must have required property \'name\'',
+          '  - "body/id" must be integer',
+        ].join('\n'));
+        return true;
+      }
+    );
+  });
+
+  it('should return the invalid bodies in strip mode.', async () => {
+    const response = await execute(
+      new UserController(), 'getUser', new HttpResponseOK({ id: 'a', password: 'secret' }), 'strip'
+    );
+
+    deepStrictEqual(response.body, { id: 'a' });
+  });
+
+  it('should use the schema of the status class or the default one if the status code has none.', async () => {
+    await execute(new UserController(), 'getUsers', new HttpResponseCreated([]), 'strict');
+    await rejects(() => execute(new UserController(), 'getUsers', new HttpResponseCreated({}), 'strict'));
+    await rejects(() => execute(new UserController(), 'getUsers', new HttpResponseOK({}), 'strict'));
+  });
+
+  it('should not validate the responses without a JSON schema, the streams and the buffers.', async () => {
+    await execute(new UserController(), 'getAvatar', new HttpResponseOK({}), 'strict');
+    await execute(new UserController(), 'getUser', new HttpResponseCreated({}), 'strict');
+    await execute(new UserController(), 'getUser', new HttpResponseOK(Buffer.from('a')), 'strict');
+    await execute(new UserController(), 'getUser', new HttpResponseOK(Readable.from([ 'a' ]), { stream: true }), 'strict');
+  });
+
+  it('should support the schemas declared on the controller class and the OpenAPI components.', async () => {
+    @ApiDefineSchema('user', userSchema)
+    @ApiResponse(200, {
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/user' } } },
+      description: 'OK',
+    })
+    class Controller {
+      foo() {}
+    }
+
+    const response = await execute(new Controller(), 'foo', new HttpResponseOK({ id: 1, name: 'John', password: 'secret' }));
+
+    deepStrictEqual(response.body, { id: 1, name: 'John' });
+  });
+
+  it('should use the "strip" mode in production and the "strict" mode otherwise by default.', () => {
+    const foalEnv = process.env.FOAL_ENV;
+    try {
+      process.env.FOAL_ENV = 'production';
+      strictEqual(getDefaultResponseValidationMode(), 'strip');
+      process.env.FOAL_ENV = 'test';
+      strictEqual(getDefaultResponseValidationMode(), 'strict');
+    } finally {
+      if (foalEnv === undefined) {
+        delete process.env.FOAL_ENV;
+      } else {
+        process.env.FOAL_ENV = foalEnv;
+      }
+    }
+  });
+
+});
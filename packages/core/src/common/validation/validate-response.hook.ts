@@ -0,0 +1,48 @@
+// FoalTS
+import { Context, Hook, HookDecorator, HttpResponse, ServiceManager } from '../../core';
+import {
+  createResponseValidator,
+  getDefaultResponseValidationMode,
+  ResponseValidationMode
+} from './response-validator';
+
+/**
+ * Hook - Validate the response bodies against the schemas declared with `@ApiResponse`.
+ *
+ * In `strict` mode (the default outside production), a ResponseValidationError is thrown
+ * (and an HttpResponseInternalServerError is returned) if a response body does not match its schema.
+ * In `strip` mode (the default in production), the bodies are not validated.
+ *
+ * In both modes, the properties not listed in the schemas are removed from the response bodies
+ * so that fields such as `password` are never sent to the client. The `allOf` schemas are merged
+ * and only the `anyOf` and `oneOf` branches matching the body are kept.
+ *
+ * The hook can be applied to all routes with the configuration key "settings.openapi.validateResponses".
+ *
+ * @export
+ * @param {{ mode?: ResponseValidationMode }} [options={}] - The validation mode.
+ * @returns {HookDecorator} The hook.
+ */
+export function ValidateResponse(options: { mode?: ResponseValidationMode } = {}): HookDecorator {
+  const validators = new WeakMap<object, Map<string, ReturnType<typeof createResponseValidator>>>();
+
+  function getValidator(controller: any, propertyKey: string, services: ServiceManager) {
+    const controllerValidators = validators.get(controller) || new Map();
+    validators.set(controller, controllerValidators);
+
+    let validator = controllerValidators.get(propertyKey);
+    if (!validator) {
+      validator = createResponseValidator(controller, propertyKey, services);
+      controllerValidators.set(propertyKey, validator);
+    }
+    return validator;
+  }
+
+  function validateResponse(this: any, ctx: Context, services: ServiceManager) {
+    const validator = getValidator(this, ctx.controllerMethodName, services);
+    const mode = options.mode || getDefaultResponseValidationMode();
+    return (response: HttpResponse) => validator(response, mode);
+  }
+
+  return Hook(validateResponse);
+}
@@ -0,0 +1,29 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { ConfigValidationError } from './config-validation.error';
+
+describe('ConfigValidationError', () => {
+
+  it('should set the property "issues" from the constructor.', () => {
+    const issues = [ { key: 'settings.port', message: 'must be number' } ];
+    const err = new ConfigValidationError(issues);
+    deepStrictEqual(err.issues, issues);
+  });
+
+  it('should have the proper message.', () => {
+    const err = new ConfigValidationError([
+      { key: 'settings.port', message: 'must be number' },
+      { key: 'settings.sesion', message: 'is not allowed' },
+    ]);
+
+    const expected = 'The configuration is invalid (2 errors):\n'
+      + '  - "settings.port" must be number\n'
+      + '  - "settings.sesion" is not allowed';
+    const actual = err.message;
+
+    strictEqual(actual, expected);
+  });
+
+});
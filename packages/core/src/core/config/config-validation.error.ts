@@ -0,0 +1,16 @@
+export interface ConfigValidationIssue {
+  key: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  readonly name = 'ConfigValidationError';
+
+  constructor(readonly issues: ConfigValidationIssue[]) {
+    super();
+    this.message = [
+      `The configuration is invalid (${issues.length} error${issues.length > 1 ? 's' : ''}):`,
+      ...issues.map(({ key, message }) => `  - "${key}" ${message}`),
+    ].join('\n');
+  }
+}
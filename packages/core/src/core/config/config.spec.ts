@@ -1,5 +1,5 @@
 // std
-import { strictEqual, throws } from 'assert';
+import { deepStrictEqual, strictEqual, throws } from 'assert';
 import { existsSync, mkdirSync, rmdirSync, unlinkSync, writeFileSync } from 'fs';
 
 // FoalTS
@@ -7,6 +7,9 @@ import { join } from 'path';
 import { Config } from './config';
 import { ConfigNotFoundError } from './config-not-found.error';
 import { ConfigTypeError } from './config-type.error';
+import { ConfigValidationError } from './config-validation.error';
+import { Env } from './env';
+import { SecretProvider } from './secret-providers';
 
 function removeFile(path: string) {
   if (existsSync(path)) {
@@ -390,4 +393,329 @@ describe('Config', () => {
 
   });
 
+  describe('when the static method "validate" is called', () => {
+
+    const schema = {
+      additionalProperties: false,
+      properties: {
+        settings: {
+          additionalProperties: false,
+          properties: {
+            debug: { type: 'boolean' },
+            port: { type: 'number' },
+            secret: { type: 'string' },
+          },
+          required: [ 'port', 'secret' ],
+          type: 'object',
+        },
+      },
+      type: 'object',
+    };
+
+    afterEach(() => Config.setSchema(undefined));
+
+    it('should not throw if no schema is registered.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ settings: { port: 'abc' } }), 'utf8');
+      Config.validate();
+    });
+
+    it('should not resolve the secret placeholders if no schema is registered.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ settings: { secret: 'vault(foo)' } }), 'utf8');
+      let calls = 0;
+      Config.setSecretProvider('vault', { get: () => { calls++; return 'bar'; } });
+
+      try {
+        Config.validate();
+      } finally {
+        Config.setSecretProvider('vault', undefined);
+      }
+
+      strictEqual(calls, 0);
+    });
+
+    it('should not throw if the configuration matches the schema.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ settings: { port: 3000, secret: 'xxx' } }), 'utf8');
+      Config.setSchema(schema);
+      Config.validate();
+    });
+
+    it('should throw a ConfigValidationError reporting all the violations at once.', () => {
+      writeFileSync('config/default.json', JSON.stringify({
+        settings: { debug: 'yes', port: 3000, secret: 'env(FOO_BAR)', sesion: {} },
+        typo: true,
+      }), 'utf8');
+      Config.setSchema(schema);
+
+      throws(
+        () => Config.validate(),
+        new ConfigValidationError([
+          { key: 'typo', message: 'is not allowed' },
+          { key: 'settings.secret', message: 'is required' },
+          { key: 'settings.sesion', message: 'is not allowed' },
+          { key: 'settings.debug', message: 'must be boolean' },
+        ])
+      );
+    });
+
+    it('should validate the values of the config files, the environment and the "set" method.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ settings: { port: 3000, secret: 'env(FOO_BAR)' } }), 'utf8');
+      writeFileSync('config/test.json', JSON.stringify({ settings: { port: 'abc' } }), 'utf8');
+      process.env.FOAL_ENV = 'test';
+      process.env.FOO_BAR = 'xxx';
+      Config.setSchema(schema);
+
+      throws(
+        () => Config.validate(),
+        new ConfigValidationError([ { key: 'settings.port', message: 'must be number' } ])
+      );
+
+      Config.set('settings.port', '3001');
+      Config.validate();
+    });
+
+  });
+
+  describe('when the static method "typed" is called', () => {
+
+    afterEach(() => Config.setSchema(undefined));
+
+    it('should return a copy of the whole configuration with the env(*) values resolved.', () => {
+      writeFileSync('config/default.json', json, 'utf8');
+      process.env.FOO_BAR = 'hello world';
+      Config.set('a.e', 3);
+
+      const config = Config.typed<{ a: { b: { c: number, d: string }, e: number } }>();
+
+      strictEqual(config.a.b.c, 1);
+      strictEqual(config.a.b.d, 'hello world');
+      strictEqual(config.a.e, 3);
+
+      config.a.b.c = 2;
+      strictEqual(Config.get('a.b.c'), 1);
+    });
+
+    it('should convert the values and apply the defaults of the schema if one is registered.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ settings: { port: '3000' } }), 'utf8');
+      Config.setSchema({
+        properties: {
+          settings: {
+            properties: {
+              debug: { type: 'boolean', default: false },
+              port: { type: 'number' },
+            },
+            type: 'object',
+          },
+        },
+        type: 'object',
+      });
+
+      deepStrictEqual(Config.typed(), { settings: { debug: false, port: 3000 } });
+    });
+
+    it('should throw a ConfigValidationError if the configuration does not match the schema.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ settings: { port: 'abc' } }), 'utf8');
+      Config.setSchema({
+        properties: { settings: { properties: { port: { type: 'number' } }, type: 'object' } },
+        type: 'object',
+      });
+
+      throws(
+        () => Config.typed(),
+        new ConfigValidationError([ { key: 'settings.port', message: 'must be number' } ])
+      );
+    });
+
+  });
+
+  describe('when a secret provider is registered', () => {
+
+    class MockProvider implements SecretProvider {
+      calls = 0;
+      secrets: Record<string, string> = { dbPassword: 'my-password' };
+
+      get(name: string): string|undefined {
+        this.calls++;
+        return this.secrets[name];
+      }
+    }
+
+    let provider: MockProvider;
+
+    beforeEach(() => {
+      provider = new MockProvider();
+      writeFileSync('config/default.json', JSON.stringify({
+        settings: { password: 'secret(dbPassword)', unknown: 'secret(unknown)', value: 'vault(dbPassword)' }
+      }), 'utf8');
+    });
+
+    afterEach(() => Config.setSecretProvider('secret', undefined));
+
+    it('should resolve the placeholders of the provider.', () => {
+      Config.setSecretProvider('secret', provider);
+
+      strictEqual(Config.get('settings.password'), 'my-password');
+      strictEqual(Config.get('settings.unknown'), undefined);
+      strictEqual(Config.typed().settings.password, 'my-password');
+    });
+
+    it('should not resolve the placeholders of unregistered providers.', () => {
+      Config.setSecretProvider('secret', provider);
+
+      strictEqual(Config.get('settings.value'), 'vault(dbPassword)');
+    });
+
+    it('should cache the secrets until the cache is cleared.', () => {
+      Config.setSecretProvider('secret', provider);
+
+      strictEqual(Config.get('settings.password'), 'my-password');
+      provider.secrets.dbPassword = 'new-password';
+      strictEqual(Config.get('settings.password'), 'my-password');
+      strictEqual(provider.calls, 1);
+
+      Config.clearCache();
+      strictEqual(Config.get('settings.password'), 'new-password');
+    });
+
+    it('should refresh the secrets after the TTL.', async () => {
+      Config.setSecretProvider('secret', provider, { ttl: 10 });
+
+      strictEqual(Config.get('settings.password'), 'my-password');
+      provider.secrets.dbPassword = 'new-password';
+      strictEqual(Config.get('settings.password'), 'my-password');
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      strictEqual(Config.get('settings.password'), 'new-password');
+    });
+
+    it('should not allow to override the "env" placeholder.', () => {
+      throws(
+        () => Config.setSecretProvider('env', provider),
+        new Error('[CONFIG] The "env" placeholder is reserved for environment variables.')
+      );
+    });
+
+  });
+
+  describe('when the static method "reload" is called', () => {
+
+    beforeEach(() => Env.clearCache());
+
+    afterEach(() => {
+      Config.setSchema(undefined);
+      removeFile('.env');
+    });
+
+    it('should reload the configuration files and the .env files.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ a: 1, b: 'env(FOO_BAR_RELOAD)' }), 'utf8');
+      writeFileSync('.env', 'FOO_BAR_RELOAD=x', 'utf8');
+      strictEqual(Config.get('a'), 1);
+      strictEqual(Config.get('b'), 'x');
+
+      writeFileSync('config/default.json', JSON.stringify({ a: 2, b: 'env(FOO_BAR_RELOAD)' }), 'utf8');
+      writeFileSync('.env', 'FOO_BAR_RELOAD=y', 'utf8');
+      Config.reload();
+
+      strictEqual(Config.get('a'), 2);
+      strictEqual(Config.get('b'), 'y');
+    });
+
+    it('should keep the current configuration if the new one is invalid.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ a: 1, b: 'env(FOO_BAR_RELOAD)' }), 'utf8');
+      writeFileSync('.env', 'FOO_BAR_RELOAD=x', 'utf8');
+      Config.setSchema({
+        properties: { a: { type: 'number' }, b: { type: 'string' } },
+        type: 'object',
+      });
+      strictEqual(Config.get('a'), 1);
+      strictEqual(Config.get('b'), 'x');
+
+      writeFileSync('config/default.json', JSON.stringify({ a: 'abc', b: 'env(FOO_BAR_RELOAD)' }), 'utf8');
+      writeFileSync('.env', 'FOO_BAR_RELOAD=y', 'utf8');
+      throws(
+        () => Config.reload(),
+        new ConfigValidationError([ { key: 'a', message: 'must be number' } ])
+      );
+
+      strictEqual(Config.get('a'), 1);
+      strictEqual(Config.get('b'), 'x');
+    });
+
+    it('should call the handlers registered with "onChange" if the values changed.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ settings: { a: 1, b: 1 } }), 'utf8');
+      strictEqual(Config.get('settings.a'), 1);
+
+      const calls: any[] = [];
+      const unsubscribeA = Config.onChange('settings.a', (value, previousValue) => calls.push([ 'a', value, previousValue ]));
+      const unsubscribeB = Config.onChange('settings.b', (value, previousValue) => calls.push([ 'b', value, previousValue ]));
+
+      writeFileSync('config/default.json', JSON.stringify({ settings: { a: 2, b: 1 } }), 'utf8');
+      Config.reload();
+
+      deepStrictEqual(calls, [ [ 'a', 2, 1 ] ]);
+
+      unsubscribeA();
+      unsubscribeB();
+
+      writeFileSync('config/default.json', JSON.stringify({ settings: { a: 3, b: 3 } }), 'utf8');
+      Config.reload();
+
+      strictEqual(calls.length, 1);
+    });
+
+    it('should call all the handlers even if some of them throw.', () => {
+      writeFileSync('config/default.json', JSON.stringify({ a: 1 }), 'utf8');
+      strictEqual(Config.get('a'), 1);
+
+      let called = false;
+      const unsubscribe1 = Config.onChange('a', () => { throw new Error('foo'); });
+      const unsubscribe2 = Config.onChange('a', () => called = true);
+
+      writeFileSync('config/default.json', JSON.stringify({ a: 2 }), 'utf8');
+      try {
+        throws(() => Config.reload(), new Error('foo'));
+        strictEqual(called, true);
+      } finally {
+        unsubscribe1();
+        unsubscribe2();
+      }
+    });
+
+  });
+
+  describe('when the static method "watch" is called', () => {
+
+    let stopWatching: () => void;
+
+    afterEach(() => stopWatching());
+
+    it('should reload the configuration when a configuration file changes.', async () => {
+      writeFileSync('config/default.json', JSON.stringify({ a: 1 }), 'utf8');
+      strictEqual(Config.get('a'), 1);
+
+      stopWatching = Config.watch({ delay: 10 });
+      writeFileSync('config/default.json', JSON.stringify({ a: 2 }), 'utf8');
+
+      for (let i = 0; i < 50 && Config.get('a') !== 2; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      strictEqual(Config.get('a'), 2);
+    });
+
+    it('should report the reload errors with the onError option.', async () => {
+      writeFileSync('config/default.json', JSON.stringify({ a: 1 }), 'utf8');
+      strictEqual(Config.get('a'), 1);
+
+      const errors: Error[] = [];
+      stopWatching = Config.watch({ delay: 10, onError: error => errors.push(error) });
+      writeFileSync('config/default.json', '{ invalid json', 'utf8');
+
+      for (let i = 0; i < 50 && errors.length === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      strictEqual(errors[0] instanceof SyntaxError, true);
+      strictEqual(Config.get('a'), 1);
+    });
+
+  });
+
 });
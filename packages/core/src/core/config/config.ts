@@ -1,11 +1,17 @@
+// std
+import { existsSync, FSWatcher, readFileSync, watch } from 'fs';
+import { extname, join } from 'path';
+
 // 3p
-import { existsSync, readFileSync } from 'fs';
-import { join } from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
 
 // FoalTS
 import { ConfigNotFoundError } from './config-not-found.error';
 import { ConfigTypeError } from './config-type.error';
+import { ConfigValidationError, ConfigValidationIssue } from './config-validation.error';
 import { Env } from './env';
+import { SecretProvider } from './secret-providers';
 
 type ValueStringType = 'string'|'number'|'boolean'|'boolean|string'|'number|string'|'any';
 
@@ -17,6 +23,25 @@ type ValueType<T extends ValueStringType> =
   T extends 'number|string' ? number|string :
   any;
 
+function getValidationIssue(error: ErrorObject): ConfigValidationIssue {
+  const path = error.instancePath
+    .split('/')
+    .slice(1)
+    .map(property => property.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let message = error.message || 'is invalid';
+  if (error.keyword === 'required') {
+    path.push(error.params.missingProperty);
+    message = 'is required';
+  }
+  if (error.keyword === 'additionalProperties') {
+    path.push(error.params.additionalProperty);
+    message = 'is not allowed';
+  }
+
+  return { key: path.join('.') || '(root)', message };
+}
+
 /**
  * Static class to access environment variables and configuration files.
  *
@@ -128,6 +153,218 @@ export class Config {
   static clearCache() {
     this.config = null;
     this.testConfig.clear();
+    this.secretCache.clear();
+  }
+
+  /**
+   * Register a secret provider for the placeholders of the form `<scheme>(<name>)`
+   * (ex: `file(/run/secrets/db_password)` or `secret(dbPassword)`).
+   *
+   * The secrets are cached. The cache can be cleared with `Config.clearCache` or expire
+   * after a TTL if the secrets are rotated.
+   *
+   * @static
+   * @param {string} scheme - The name of the placeholder function (ex: `file`).
+   * @param {(SecretProvider|undefined)} provider - The provider or `undefined` to unregister it.
+   * @param {{ ttl?: number }} [options={}] - The time-to-live of the cached secrets in milliseconds.
+   * By default, the secrets are cached until the cache is cleared.
+   * @memberof Config
+   */
+  static setSecretProvider(scheme: string, provider: SecretProvider|undefined, options: { ttl?: number } = {}): void {
+    if (scheme === 'env') {
+      throw new Error('[CONFIG] The "env" placeholder is reserved for environment variables.');
+    }
+
+    for (const key of this.secretCache.keys()) {
+      if (key.startsWith(`${scheme}(`)) {
+        this.secretCache.delete(key);
+      }
+    }
+
+    if (provider) {
+      this.secretProviders.set(scheme, { provider, ttl: options.ttl });
+    } else {
+      this.secretProviders.delete(scheme);
+    }
+  }
+
+  /**
+   * Register the JSON Schema describing the whole configuration (the root object
+   * containing `settings`, `database`, etc).
+   *
+   * The schema is used by `Config.validate` and `Config.typed`. It is also registered
+   * by `createApp` from its `configSchema` option. Each call to `createApp` replaces the
+   * registered schema (or unregisters it if the option is not provided).
+   *
+   * @static
+   * @param {(object|undefined)} schema - The JSON Schema or `undefined` to unregister it.
+   * @memberof Config
+   */
+  static setSchema(schema: object|undefined): void {
+    this.schema = schema;
+    this.validateFunction = undefined;
+  }
+
+  /**
+   * Validate the merged configuration (files, `env(*)` and secret placeholders, values provided
+   * with `Config.set`) against the schema registered with `Config.setSchema`.
+   *
+   * All the violations are reported at once. Does nothing if no schema is registered: in this
+   * case, the placeholders are not resolved.
+   *
+   * @static
+   * @throws {ConfigValidationError} If the configuration does not match the schema.
+   * @memberof Config
+   */
+  static validate(): void {
+    if (!this.schema) {
+      return;
+    }
+    this.getValidatedConfig();
+  }
+
+  /**
+   * Return the whole configuration as a typed object.
+   *
+   * If a schema is registered, the configuration is validated first, the values are
+   * converted to the types of the schema (ex: `"8080"` to `8080`) and the defaults
+   * of the schema are applied.
+   *
+   * The template type is not checked at runtime: `T` is a type assertion and should
+   * describe the registered schema.
+   *
+   * @static
+   * @template T
+   * @returns {T} A copy of the configuration.
+   * @throws {ConfigValidationError} If the configuration does not match the schema.
+   * @memberof Config
+   */
+  static typed<T = { [key: string]: any }>(): T {
+    return this.getValidatedConfig() as T;
+  }
+
+  /**
+   * Reload the configuration files and the .env files.
+   *
+   * The new configuration is validated against the registered schema (if any) before
+   * replacing the current one. If it is invalid, the current configuration is kept and
+   * a ConfigValidationError is thrown.
+   *
+   * The handlers registered with `Config.onChange` are then called for the keys whose
+   * value changed.
+   *
+   * @static
+   * @memberof Config
+   */
+  static reload(): void {
+    const handlers = Array.from(this.changeHandlers);
+    const previousValues = handlers.map(({ key }) => this.readConfigValue(key));
+
+    const previousConfig = this.config;
+    const restoreEnv = Env.reload();
+    this.config = null;
+    delete require.cache[join(process.cwd(), 'config/default.js')];
+    delete require.cache[join(process.cwd(), `config/${Env.getEnvironmentName()}.js`)];
+
+    try {
+      this.loadConfig();
+      this.validate();
+    } catch (error: any) {
+      this.config = previousConfig;
+      restoreEnv();
+      throw error;
+    }
+
+    const errors: Error[] = [];
+    handlers.forEach(({ key, handler }, index) => {
+      const value = this.readConfigValue(key);
+      if (JSON.stringify(value) === JSON.stringify(previousValues[index])) {
+        return;
+      }
+      try {
+        handler(value, previousValues[index]);
+      } catch (error: any) {
+        errors.push(error);
+      }
+    });
+
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+    if (errors.length > 1) {
+      throw new AggregateError(errors, `${errors.length} configuration change handlers failed.`);
+    }
+  }
+
+  /**
+   * Register a handler called when the value associated with the given key changes
+   * after a reload (see `Config.reload` and `Config.watch`).
+   *
+   * @static
+   * @param {string} key - The configuration key (ex: `settings.logger.logLevel`).
+   * @param {(value: any, previousValue: any) => void} handler - The handler.
+   * @returns {() => void} A function to unregister the handler.
+   * @memberof Config
+   */
+  static onChange(key: string, handler: (value: any, previousValue: any) => void): () => void {
+    const changeHandler = { handler, key };
+    this.changeHandlers.add(changeHandler);
+    return () => {
+      this.changeHandlers.delete(changeHandler);
+    };
+  }
+
+  /**
+   * Watch the configuration files (`config/*.json|yml|js`) and the .env files and reload
+   * the configuration when they change.
+   *
+   * @static
+   * @param {{ delay?: number, onError?: (error: Error) => void }} [options={}] - The delay (in
+   * milliseconds) to wait for other changes before reloading (default: 100) and the function
+   * called when the reload fails (default: the error is printed with `console.error`).
+   * @returns {() => void} A function to stop watching the files.
+   * @memberof Config
+   */
+  static watch(options: { delay?: number, onError?: (error: Error) => void } = {}): () => void {
+    const delay = options.delay ?? 100;
+    const onError = options.onError || ((error: Error) => console.error(error));
+
+    let timer: NodeJS.Timeout|undefined;
+    const scheduleReload = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = undefined;
+        try {
+          this.reload();
+        } catch (error: any) {
+          onError(error);
+        }
+      }, delay);
+    };
+
+    const watchers: FSWatcher[] = [
+      watch('.', (eventType, filename) => {
+        if (filename && filename.startsWith('.env')) {
+          scheduleReload();
+        }
+      }),
+    ];
+    if (existsSync('config')) {
+      watchers.push(watch('config', (eventType, filename) => {
+        if (filename && [ '.js', '.json', '.yml' ].includes(extname(filename))) {
+          scheduleReload();
+        }
+      }));
+    }
+
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watchers.forEach(watcher => watcher.close());
+    };
   }
 
   static set(key: string, value: string|number|boolean): void {
@@ -141,6 +378,110 @@ export class Config {
   private static yaml: any;
   private static config: { [key: string ]: any } | null = null;
   private static testConfig: Map<string, string|number|boolean> = new Map();
+  private static schema: object|undefined;
+  private static changeHandlers: Set<{ key: string, handler: (value: any, previousValue: any) => void }> = new Set();
+  private static secretProviders: Map<string, { provider: SecretProvider, ttl?: number }> = new Map();
+  private static secretCache: Map<string, { value: string|undefined, expiresAt: number }> = new Map();
+  private static validateFunction: ValidateFunction<{ [key: string]: any }>|undefined;
+
+  private static getValidatedConfig(): { [key: string]: any } {
+    const config = this.resolvePlaceholders(this.loadConfig());
+
+    for (const [ key, value ] of this.testConfig) {
+      const properties = key.split('.');
+      const lastProperty = properties.pop() as string;
+      let target = config;
+      for (const property of properties) {
+        if (typeof target[property] !== 'object' || target[property] === null) {
+          target[property] = {};
+        }
+        target = target[property];
+      }
+      target[lastProperty] = value;
+    }
+
+    if (!this.schema) {
+      return config;
+    }
+
+    if (!this.validateFunction) {
+      const ajv = new Ajv({ allErrors: true, coerceTypes: true, strict: false, useDefaults: true });
+      addFormats(ajv);
+      this.validateFunction = ajv.compile<{ [key: string]: any }>(this.schema);
+    }
+
+    if (!this.validateFunction(config)) {
+      throw new ConfigValidationError((this.validateFunction.errors || []).map(getValidationIssue));
+    }
+
+    return config;
+  }
+
+  private static resolvePlaceholders(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolvePlaceholders(item));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const result: { [key: string]: any } = {};
+      for (const key in value) {
+        const resolvedValue = this.resolvePlaceholders(value[key]);
+        if (resolvedValue !== undefined) {
+          result[key] = resolvedValue;
+        }
+      }
+      return result;
+    }
+
+    return this.resolvePlaceholder(value);
+  }
+
+  private static resolvePlaceholder(value: any): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    const match = /^([a-zA-Z]+)\((.*)\)$/.exec(value);
+    if (!match) {
+      return value;
+    }
+    const [ , scheme, name ] = match;
+
+    if (scheme === 'env') {
+      return Env.get(name);
+    }
+
+    const secretProvider = this.secretProviders.get(scheme);
+    if (!secretProvider) {
+      return value;
+    }
+
+    const cachedSecret = this.secretCache.get(value);
+    if (cachedSecret && cachedSecret.expiresAt > Date.now()) {
+      return cachedSecret.value;
+    }
+
+    const secret = secretProvider.provider.get(name);
+    this.secretCache.set(value, {
+      expiresAt: secretProvider.ttl === undefined ? Infinity : Date.now() + secretProvider.ttl,
+      value: secret,
+    });
+    return secret;
+  }
+
+  private static loadConfig(): { [key: string ]: any } {
+    if (this.config === null) {
+      this.config = [
+        this.readJS('config/default.js'),
+        this.readYAML('config/default.yml'),
+        this.readJSON('config/default.json'),
+        this.readJS(`config/${Env.getEnvironmentName()}.js`),
+        this.readYAML(`config/${Env.getEnvironmentName()}.yml`),
+        this.readJSON(`config/${Env.getEnvironmentName()}.json`),
+      ].reduce((config1, config2) => this.mergeDeep(config1, config2));
+    }
+    return this.config;
+  }
 
   private static readJSON(path: string): { [key: string ]: any } {
     if (!existsSync(path)) {
@@ -179,19 +520,8 @@ export class Config {
       return this.testConfig.get(key);
     }
 
-    if (this.config === null) {
-      this.config = [
-        this.readJS('config/default.js'),
-        this.readYAML('config/default.yml'),
-        this.readJSON('config/default.json'),
-        this.readJS(`config/${Env.getEnvironmentName()}.js`),
-        this.readYAML(`config/${Env.getEnvironmentName()}.yml`),
-        this.readJSON(`config/${Env.getEnvironmentName()}.json`),
-      ].reduce((config1, config2) => this.mergeDeep(config1, config2));
-    }
-
     const properties = key.split('.');
-    let result: any = this.config;
+    let result: any = this.loadConfig();
     for (const property of properties) {
       result = result[property];
       if (result === undefined) {
@@ -199,12 +529,7 @@ export class Config {
       }
     }
 
-    if (typeof result === 'string' && result.startsWith('env(') && result.endsWith(')')) {
-      const envVarName = result.substr(4, result.length - 5);
-      return Env.get(envVarName);
-    }
-
-    return result;
+    return this.resolvePlaceholder(result);
   }
 
   private static mergeDeep(target: { [key: string]: any }, source: { [key: string]: any } ): { [key: string]: any } {
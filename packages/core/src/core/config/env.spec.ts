@@ -226,4 +226,27 @@ describe('Env', () => {
 
   });
 
+  describe('has a static "reload" method that', () => {
+
+    beforeEach(() => Env.clearCache());
+
+    afterEach(() => {
+      Env.clearCache();
+      removeFile('.env');
+    });
+
+    it('should reload the .env files and return a function to restore the previous values.', () => {
+      writeFileSync('.env', 'FOO_BAR_RELOAD=x');
+      strictEqual(Env.get('FOO_BAR_RELOAD'), 'x');
+
+      writeFileSync('.env', 'FOO_BAR_RELOAD=y');
+      const restore = Env.reload();
+      strictEqual(Env.get('FOO_BAR_RELOAD'), 'y');
+
+      restore();
+      strictEqual(Env.get('FOO_BAR_RELOAD'), 'x');
+    });
+
+  });
+
 });
@@ -11,6 +11,23 @@ export class Env {
     this.dotEnv = null;
   }
 
+  /**
+   * Clear the cache of the loaded .env files and return a function to restore it.
+   *
+   * Used by `Config.reload` to roll back the environment if the new configuration is invalid.
+   *
+   * @static
+   * @returns {() => void} The function restoring the previous cache.
+   * @memberof Env
+   */
+  static reload(): () => void {
+    const previousDotEnv = this.dotEnv;
+    this.dotEnv = null;
+    return () => {
+      this.dotEnv = previousDotEnv;
+    };
+  }
+
   static getEnvironmentName(): string {
     return process.env.FOAL_ENV || process.env.NODE_ENV || 'development';
   }
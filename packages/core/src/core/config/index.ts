@@ -1,4 +1,6 @@
 export { ConfigNotFoundError } from './config-not-found.error';
 export { ConfigTypeError } from './config-type.error';
+export { ConfigValidationError, ConfigValidationIssue } from './config-validation.error';
 export { Config } from './config';
 export { Env } from './env';
+export { FileSecretProvider, SecretProvider, VaultSecretProvider } from './secret-providers';
@@ -0,0 +1,32 @@
+// std
+import { strictEqual } from 'assert';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+
+// FoalTS
+import { FileSecretProvider } from './file-secret-provider';
+
+describe('FileSecretProvider', () => {
+
+  beforeEach(() => {
+    mkdirSync('secrets');
+    writeFileSync('secrets/db_password', 'my-password\n', 'utf8');
+  });
+
+  afterEach(() => rmSync('secrets', { recursive: true, force: true }));
+
+  it('should return the content of the file without the trailing line break.', () => {
+    const provider = new FileSecretProvider();
+    strictEqual(provider.get('secrets/db_password'), 'my-password');
+  });
+
+  it('should resolve the paths from the given directory.', () => {
+    const provider = new FileSecretProvider('secrets');
+    strictEqual(provider.get('db_password'), 'my-password');
+  });
+
+  it('should return undefined if the file does not exist.', () => {
+    const provider = new FileSecretProvider('secrets');
+    strictEqual(provider.get('unknown'), undefined);
+  });
+
+});
@@ -0,0 +1,36 @@
+// std
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+// FoalTS
+import { SecretProvider } from './secret-provider.interface';
+
+/**
+ * Secret provider reading the secrets from files, such as Docker or Kubernetes secret mounts.
+ *
+ * The trailing line break of the file, if any, is removed.
+ *
+ * @export
+ * @class FileSecretProvider
+ * @implements {SecretProvider}
+ */
+export class FileSecretProvider implements SecretProvider {
+
+  /**
+   * Create an instance of FileSecretProvider.
+   *
+   * @param {string} [directory] - Directory from which relative paths are resolved. Default: the
+   * current working directory.
+   * @memberof FileSecretProvider
+   */
+  constructor(private readonly directory?: string) {}
+
+  get(name: string): string|undefined {
+    const path = this.directory ? join(this.directory, name) : name;
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    return readFileSync(path, 'utf8').replace(/\r?\n$/, '');
+  }
+
+}
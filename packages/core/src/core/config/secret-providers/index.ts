@@ -0,0 +1,3 @@
+export { FileSecretProvider } from './file-secret-provider';
+export { SecretProvider } from './secret-provider.interface';
+export { VaultSecretProvider } from './vault-secret-provider';
@@ -0,0 +1,18 @@
+/**
+ * Source of secrets used by `Config` to resolve placeholders such as `file(/run/secrets/db_password)`
+ * or `secret(dbPassword)` in the configuration files.
+ *
+ * Providers are registered with `Config.setSecretProvider`.
+ *
+ * @export
+ * @interface SecretProvider
+ */
+export interface SecretProvider {
+  /**
+   * Return the secret associated with the given name or `undefined` if it does not exist.
+   *
+   * @param {string} name - The content of the placeholder (ex: `/run/secrets/db_password`).
+   * @returns {(string|undefined)} The secret.
+   */
+  get(name: string): string|undefined;
+}
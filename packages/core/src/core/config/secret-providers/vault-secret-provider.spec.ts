@@ -0,0 +1,51 @@
+// std
+import { notStrictEqual, strictEqual, throws } from 'assert';
+import { unlinkSync, writeFileSync } from 'fs';
+
+// FoalTS
+import { VaultSecretProvider } from './vault-secret-provider';
+
+describe('VaultSecretProvider', () => {
+
+  const path = 'test-vault.json';
+
+  beforeEach(() => {
+    writeFileSync(path, VaultSecretProvider.encrypt({ dbPassword: 'my-password' }, 'master-key'), 'utf8');
+  });
+
+  afterEach(() => unlinkSync(path));
+
+  it('should encrypt the secrets.', () => {
+    const content = VaultSecretProvider.encrypt({ dbPassword: 'my-password' }, 'master-key');
+    strictEqual(content.includes('my-password'), false);
+    notStrictEqual(content, VaultSecretProvider.encrypt({ dbPassword: 'my-password' }, 'master-key'));
+  });
+
+  it('should return the decrypted secret.', () => {
+    const provider = new VaultSecretProvider(path, 'master-key');
+    strictEqual(provider.get('dbPassword'), 'my-password');
+  });
+
+  it('should return undefined if the secret does not exist.', () => {
+    const provider = new VaultSecretProvider(path, 'master-key');
+    strictEqual(provider.get('unknown'), undefined);
+    strictEqual(provider.get('toString'), undefined);
+  });
+
+  it('should throw an error if the master key is wrong.', () => {
+    const provider = new VaultSecretProvider(path, 'wrong-key');
+    throws(
+      () => provider.get('dbPassword'),
+      new Error(`[CONFIG] Impossible to decrypt the vault file "${path}". The master key may be wrong.`)
+    );
+  });
+
+  it('should throw an error if the vault file does not exist.', () => {
+    const provider = new VaultSecretProvider('unknown.json', 'master-key');
+    throws(
+      () => provider.get('dbPassword'),
+      new Error('[CONFIG] The vault file "unknown.json" does not exist.')
+    );
+  });
+
+});
@@ -0,0 +1,96 @@
+// std
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+
+// FoalTS
+import { SecretProvider } from './secret-provider.interface';
+
+interface VaultFile {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(masterKey: string, salt: Buffer): Buffer {
+  return scryptSync(masterKey, salt, 32);
+}
+
+/**
+ * Secret provider reading the secrets from a local vault file encrypted with a master key
+ * (AES-256-GCM with a key derived with scrypt).
+ *
+ * Vault files are created with `VaultSecretProvider.encrypt`.
+ *
+ * @export
+ * @class VaultSecretProvider
+ * @implements {SecretProvider}
+ */
+export class VaultSecretProvider implements SecretProvider {
+
+  /**
+   * Encrypt the given secrets and return the content of the vault file.
+   *
+   * @static
+   * @param {Record<string, string>} secrets - The secrets by name.
+   * @param {string} masterKey - The master key.
+   * @returns {string} The content of the vault file.
+   * @memberof VaultSecretProvider
+   */
+  static encrypt(secrets: Record<string, string>, masterKey: string): string {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(masterKey, salt), iv);
+    const data = Buffer.concat([ cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final() ]);
+
+    const vault: VaultFile = {
+      data: data.toString('base64'),
+      iv: iv.toString('base64'),
+      salt: salt.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      version: 1,
+    };
+    return JSON.stringify(vault, null, 2);
+  }
+
+  /**
+   * Create an instance of VaultSecretProvider.
+   *
+   * @param {string} path - The path of the vault file.
+   * @param {string} masterKey - The master key used to encrypt the vault.
+   * @memberof VaultSecretProvider
+   */
+  constructor(private readonly path: string, private readonly masterKey: string) {}
+
+  get(name: string): string|undefined {
+    const secrets = this.decrypt();
+    return Object.prototype.hasOwnProperty.call(secrets, name) ? secrets[name] : undefined;
+  }
+
+  private decrypt(): Record<string, string> {
+    if (!existsSync(this.path)) {
+      throw new Error(`[CONFIG] The vault file "${this.path}" does not exist.`);
+    }
+
+    const vault: VaultFile = JSON.parse(readFileSync(this.path, 'utf8'));
+    if (vault.version !== 1) {
+      throw new Error(`[CONFIG] Unsupported version of the vault file "${this.path}".`);
+    }
+
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(this.masterKey, Buffer.from(vault.salt, 'base64')),
+      Buffer.from(vault.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+
+    try {
+      const data = Buffer.concat([ decipher.update(Buffer.from(vault.data, 'base64')), decipher.final() ]);
+      return JSON.parse(data.toString('utf8'));
+    } catch {
+      throw new Error(`[CONFIG] Impossible to decrypt the vault file "${this.path}". The master key may be wrong.`);
+    }
+  }
+
+}
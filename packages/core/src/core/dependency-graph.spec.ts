@@ -0,0 +1,85 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { DependencyGraph } from './dependency-graph';
+
+describe('DependencyGraph', () => {
+
+  const nodes = [
+    { id: 'AppController', name: 'AppController', scope: 'singleton' as const },
+    { id: 'ApiController', name: 'ApiController', scope: 'singleton' as const },
+    { id: 'UserService', name: 'UserService', scope: 'request' as const },
+    { id: 'Database', name: 'Database', scope: 'singleton' as const },
+  ];
+
+  it('should find the cycles of eager dependencies.', () => {
+    const graph = new DependencyGraph(nodes, [
+      { from: 'AppController', propertyKey: 'subControllers', to: 'ApiController', type: 'subController' },
+      { from: 'ApiController', propertyKey: 'userService', to: 'UserService', type: 'dependency' },
+      { from: 'UserService', propertyKey: 'database', to: 'Database', type: 'dependency' },
+      { from: 'Database', propertyKey: 'userService', to: 'UserService', type: 'dependency' },
+      { from: 'Database', propertyKey: 'apiController', to: 'ApiController', type: 'lazy' },
+    ]);
+
+    deepStrictEqual(graph.cycles, [
+      [ 'UserService', 'Database', 'UserService' ],
+    ]);
+  });
+
+  it('should find self-dependencies.', () => {
+    const graph = new DependencyGraph(nodes, [
+      { from: 'Database', propertyKey: 'database', to: 'Database', type: 'dependency' },
+    ]);
+
+    deepStrictEqual(graph.cycles, [ [ 'Database', 'Database' ] ]);
+  });
+
+  it('should export the graph in the DOT language.', () => {
+    const graph = new DependencyGraph(nodes, [
+      { from: 'AppController', propertyKey: 'subControllers', to: 'ApiController', type: 'subController' },
+      { from: 'ApiController', propertyKey: 'userService', to: 'UserService', type: 'dependency' },
+      { from: 'UserService', propertyKey: 'database', to: 'Database', type: 'dependency' },
+      { from: 'Database', propertyKey: 'userService', to: 'UserService', type: 'dependency' },
+      { from: 'Database', propertyKey: 'apiController', to: 'ApiController', type: 'lazy' },
+    ]);
+
+    strictEqual(graph.toDot(), [
+      'digraph dependencies {',
+      '  "AppController" [label="AppController"];',
+      '  "ApiController" [label="ApiController"];',
+      '  "UserService" [label="UserService (request)"];',
+      '  "Database" [label="Database"];',
+      '  "AppController" -> "ApiController" [label="subControllers", style=dotted];',
+      '  "ApiController" -> "UserService" [label="userService"];',
+      '  "UserService" -> "Database" [label="database", color=red];',
+      '  "Database" -> "UserService" [label="userService", color=red];',
+      '  "Database" -> "ApiController" [label="apiController", style=dashed];',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should export the graph as a Mermaid flowchart.', () => {
+    const graph = new DependencyGraph(nodes, [
+      { from: 'AppController', propertyKey: 'subControllers', to: 'ApiController', type: 'subController' },
+      { from: 'ApiController', propertyKey: 'userService', to: 'UserService', type: 'dependency' },
+      { from: 'UserService', propertyKey: 'database', to: 'Database', type: 'dependency' },
+      { from: 'Database', propertyKey: 'userService', to: 'UserService', type: 'dependency' },
+      { from: 'Database', propertyKey: 'apiController', to: 'ApiController', type: 'lazy' },
+    ]);
+
+    strictEqual(graph.toMermaid(), [
+      'graph LR',
+      '  n0["AppController"]',
+      '  n1["ApiController"]',
+      '  n2["UserService (request)"]',
+      '  n3["Database"]',
+      '  n0 -.->|subControllers| n1',
+      '  n1 -->|userService| n2',
+      '  n2 ==>|database| n3',
+      '  n3 ==>|userService| n2',
+      '  n3 -.->|apiController| n1',
+    ].join('\n'));
+  });
+
+});
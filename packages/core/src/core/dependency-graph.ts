@@ -0,0 +1,181 @@
+/**
+ * Service or controller of the dependency graph.
+ *
+ * @export
+ * @interface DependencyGraphNode
+ */
+export interface DependencyGraphNode {
+  id: string;
+  name: string;
+  scope: 'singleton'|'request'|'transient';
+}
+
+/**
+ * Relation between two nodes of the dependency graph.
+ *
+ * - `dependency`: the property is decorated with `@dependency` or `@Dependency`.
+ * - `lazy`: the property is decorated with `@lazy`. Lazy dependencies do not create cycles.
+ * - `subController`: the target is a sub-controller of the source.
+ *
+ * @export
+ * @interface DependencyGraphEdge
+ */
+export interface DependencyGraphEdge {
+  from: string;
+  to: string;
+  propertyKey: string;
+  type: 'dependency'|'lazy'|'subController';
+}
+
+/**
+ * Dependency whose type could not be resolved (the metadata is `undefined`). This usually
+ * happens with circular imports between modules.
+ *
+ * @export
+ * @interface UnresolvedDependency
+ */
+export interface UnresolvedDependency {
+  from: string;
+  propertyKey: string;
+}
+
+function quote(str: string): string {
+  return `"${str.replace(/"/g, '\\"')}"`;
+}
+
+function getCycleKey(cycle: string[]): string {
+  // A cycle [A, B, C, A] is the same as [B, C, A, B].
+  const ids = cycle.slice(0, -1);
+  const start = ids.indexOf(ids.slice().sort()[0]);
+  return ids.slice(start).concat(ids.slice(0, start)).join(' -> ');
+}
+
+/**
+ * Dependency graph of an application returned by `ServiceManager.getDependencyGraph`.
+ *
+ * @export
+ * @class DependencyGraph
+ */
+export class DependencyGraph {
+
+  /**
+   * Cycles of eager dependencies. Each cycle is a list of node IDs starting and ending
+   * with the same node (ex: `['A', 'B', 'A']`).
+   */
+  readonly cycles: string[][];
+
+  constructor(
+    readonly nodes: DependencyGraphNode[],
+    readonly edges: DependencyGraphEdge[],
+    readonly unresolved: UnresolvedDependency[] = [],
+  ) {
+    this.cycles = this.findCycles();
+  }
+
+  /**
+   * Export the graph in the DOT language (Graphviz).
+   *
+   * Lazy dependencies are dashed, sub-controllers are dotted and cycles are red.
+   *
+   * @returns {string} The DOT graph.
+   * @memberof DependencyGraph
+   */
+  toDot(): string {
+    const cycleEdges = this.getCycleEdges();
+    const lines = [ 'digraph dependencies {' ];
+
+    for (const node of this.nodes) {
+      const label = node.scope === 'singleton' ? node.name : `${node.name} (${node.scope})`;
+      lines.push(`  ${quote(node.id)} [label=${quote(label)}];`);
+    }
+    for (const edge of this.edges) {
+      const attributes = [ `label=${quote(edge.propertyKey)}` ];
+      if (edge.type === 'lazy') {
+        attributes.push('style=dashed');
+      }
+      if (edge.type === 'subController') {
+        attributes.push('style=dotted');
+      }
+      if (cycleEdges.has(edge)) {
+        attributes.push('color=red');
+      }
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes.join(', ')}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Export the graph as a Mermaid flowchart.
+   *
+   * Lazy dependencies and sub-controllers are dotted, cycles are thick.
+   *
+   * @returns {string} The Mermaid graph.
+   * @memberof DependencyGraph
+   */
+  toMermaid(): string {
+    const cycleEdges = this.getCycleEdges();
+    const ids = new Map(this.nodes.map((node, index) => [ node.id, `n${index}` ]));
+    const lines = [ 'graph LR' ];
+
+    for (const node of this.nodes) {
+      const label = node.scope === 'singleton' ? node.name : `${node.name} (${node.scope})`;
+      lines.push(`  ${ids.get(node.id)}[${quote(label.replace(/"/g, '#quot;'))}]`);
+    }
+    for (const edge of this.edges) {
+      const arrow = cycleEdges.has(edge) ? '==>' : edge.type === 'dependency' ? '-->' : '-.->';
+      lines.push(`  ${ids.get(edge.from)} ${arrow}|${edge.propertyKey}| ${ids.get(edge.to)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private findCycles(): string[][] {
+    const cycles = new Map<string, string[]>();
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (id: string) => {
+      stack.push(id);
+      for (const edge of this.edges) {
+        if (edge.from !== id || edge.type !== 'dependency') {
+          continue;
+        }
+        const index = stack.indexOf(edge.to);
+        if (index !== -1) {
+          const cycle = [ ...stack.slice(index), edge.to ];
+          cycles.set(getCycleKey(cycle), cycle);
+        } else if (!visited.has(edge.to)) {
+          visit(edge.to);
+        }
+      }
+      stack.pop();
+      visited.add(id);
+    };
+
+    for (const node of this.nodes) {
+      if (!visited.has(node.id)) {
+        visit(node.id);
+      }
+    }
+
+    return Array.from(cycles.values());
+  }
+
+  private getCycleEdges(): Set<DependencyGraphEdge> {
+    const cycleEdges = new Set<DependencyGraphEdge>();
+    for (const cycle of this.cycles) {
+      for (let i = 0; i < cycle.length - 1; i++) {
+        const edge = this.edges.find(
+          e => e.from === cycle[i] && e.to === cycle[i + 1] && e.type === 'dependency'
+        );
+        if (edge) {
+          cycleEdges.add(edge);
+        }
+      }
+    }
+    return cycleEdges;
+  }
+
+}
@@ -0,0 +1,51 @@
+import { HttpMethod, HttpResponse } from './http';
+import { Logger } from './logging';
+import { Router } from './routes';
+import { ServiceManager } from './service-manager';
+
+/**
+ * Route handed to an HTTP adapter. The handler runs the hooks and the controller
+ * method and resolves with the Foal response to write.
+ *
+ * The adapter creates the request scope (`services.createScope()`) and disposes it once
+ * the response has been written or the connection closed (see `disposeScopeOnFinish`).
+ *
+ * @export
+ * @interface HttpAdapterRoute
+ */
+export interface HttpAdapterRoute {
+  httpMethod: HttpMethod;
+  path: string;
+  handler: (request: any, scope: ServiceManager) => Promise<HttpResponse>;
+}
+
+/**
+ * Everything an HTTP adapter needs to build the application.
+ *
+ * The adapter dispatches each request with `router.lookup`. If the path matches a route but not
+ * the method, it must respond with a 405 status and an `Allow` header.
+ *
+ * @export
+ * @interface HttpAdapterOptions
+ */
+export interface HttpAdapterOptions {
+  router: Router<HttpAdapterRoute>;
+  services: ServiceManager;
+  logger: Logger;
+  getHttpLogParams: (tokens: any, req: any, res: any) => Record<string, any>;
+}
+
+/**
+ * Interface of the HTTP layer used by `createApp`.
+ *
+ * An adapter normalizes the incoming requests into `Context.request` objects (body, cookies,
+ * query and path parameters), serves static files, writes the Foal responses and returns
+ * the application object (usually a request listener that can be passed to `http.createServer`).
+ *
+ * @export
+ * @interface HttpAdapter
+ * @template App
+ */
+export interface HttpAdapter<App = any> {
+  createApplication(options: HttpAdapterOptions): App;
+}
@@ -1,5 +1,6 @@
 import { FileList } from '../../common/file';
 import { Session } from '../../sessions';
+import { ServiceManager } from '../service-manager';
 
 interface Readable {
   [name: string]: any;
@@ -109,6 +110,7 @@ export interface Request extends IncomingMessage {
  * - the session object if available,
  * - a file list object,
  * - the name of the controller and the name of the method,
+ * - the request scope of the service manager if available,
  * - and a `state` object that can be used to pass data across several hooks.
  *
  * @export
@@ -126,6 +128,12 @@ export class Context<User = { [key: string]: any } | null, ContextState extends
   readonly controllerName: string;
   readonly controllerMethodName: string;
 
+  /**
+   * Service manager scope created for the request. Request-scoped services must be
+   * retrieved from it.
+   */
+  services: ServiceManager | null;
+
   /**
    * Creates an instance of Context.
    * @param {*} request - Either the express request object or a mock (for testing).
@@ -143,5 +151,7 @@ export class Context<User = { [key: string]: any } | null, ContextState extends
 
     this.controllerName = controllerName;
     this.controllerMethodName = controllerMethodName;
+
+    this.services = null;
   }
 }
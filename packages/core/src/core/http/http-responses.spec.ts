@@ -17,12 +17,14 @@ import {
   HttpResponseNotFound,
   HttpResponseNotImplemented,
   HttpResponseOK,
+  HttpResponseNotModified,
   HttpResponseRedirect,
   HttpResponseRedirection,
   HttpResponseServerError,
   HttpResponseSuccess,
   HttpResponseTooManyRequests,
   HttpResponseUnauthorized,
+  HttpResponseUnsupportedMediaType,
   isHttpResponse,
   isHttpResponseBadRequest,
   isHttpResponseClientError,
@@ -36,12 +38,14 @@ import {
   isHttpResponseNotFound,
   isHttpResponseNotImplemented,
   isHttpResponseOK,
+  isHttpResponseNotModified,
   isHttpResponseRedirect,
   isHttpResponseRedirection,
   isHttpResponseServerError,
   isHttpResponseSuccess,
   isHttpResponseTooManyRequests,
-  isHttpResponseUnauthorized
+  isHttpResponseUnauthorized,
+  isHttpResponseUnsupportedMediaType
 } from './http-responses';
 
 describe('HttpResponse', () => {
@@ -76,6 +80,17 @@ describe('HttpResponse', () => {
     notStrictEqual(actual1, actual2);
   });
 
+  it('when removeHeader is called should remove the header and record its name.', () => {
+    response.setHeader('My-Header', 'header_value');
+
+    strictEqual(response.removeHeader('my-header'), response);
+    strictEqual(response.getHeader('My-Header'), undefined);
+    deepStrictEqual(response.getRemovedHeaders(), [ 'my-header' ]);
+
+    response.setHeader('My-Header', 'header_value2');
+    deepStrictEqual(response.getRemovedHeaders(), []);
+  });
+
   it('when setCookie is called should return the HttpResponse instance.', () => {
     strictEqual(response.setCookie('my_header', 'header_value'), response);
   });
@@ -466,6 +481,49 @@ describe('isHttpResponseRedirect', () => {
 
 });
 
+describe('HttpResponseNotModified', () => {
+
+  it('should inherit from HttpResponseRedirection and HttpResponse', () => {
+    const httpResponse = new HttpResponseNotModified();
+    ok(httpResponse instanceof HttpResponse);
+    ok(httpResponse instanceof HttpResponseRedirection);
+  });
+
+  it('should have the correct status.', () => {
+    const httpResponse = new HttpResponseNotModified();
+    strictEqual(httpResponse.statusCode, 304);
+    strictEqual(httpResponse.statusMessage, 'NOT MODIFIED');
+  });
+
+  it('should have no body.', () => {
+    const httpResponse = new HttpResponseNotModified();
+    strictEqual(httpResponse.body, undefined);
+  });
+
+});
+
+describe('isHttpResponseNotModified', () => {
+
+  it('should return true if the given object is an instance of HttpResponseNotModified.', () => {
+    const response = new HttpResponseNotModified();
+    strictEqual(isHttpResponseNotModified(response), true);
+  });
+
+  it('should return true if the given object has an isHttpResponseNotModified property equal to true.', () => {
+    const response = { isHttpResponseNotModified: true };
+    strictEqual(isHttpResponseNotModified(response), true);
+  });
+
+  it('should return false if the given object is not an instance of HttpResponseNotModified and if it '
+      + 'has no property isHttpResponseNotModified.', () => {
+    const response = {};
+    strictEqual(isHttpResponseNotModified(response), false);
+    strictEqual(isHttpResponseNotModified(undefined), false);
+    strictEqual(isHttpResponseNotModified(null), false);
+  });
+
+});
+
 describe('isHttpResponseClientError', () => {
 
   it('should return true if the given object is an instance of HttpResponseClientError.', () => {
@@ -860,6 +918,68 @@ describe('isHttpResponseConflict', () => {
 
 });
 
+describe('HttpResponseUnsupportedMediaType', () => {
+
+  it('should inherit from HttpResponseClientError and HttpResponse', () => {
+    const httpResponse = new HttpResponseUnsupportedMediaType();
+    ok(httpResponse instanceof HttpResponse);
+    ok(httpResponse instanceof HttpResponseClientError);
+  });
+
+  it('should have the correct status.', () => {
+    const httpResponse = new HttpResponseUnsupportedMediaType();
+    strictEqual(httpResponse.statusCode, 415);
+    strictEqual(httpResponse.statusMessage, 'UNSUPPORTED MEDIA TYPE');
+  });
+
+  it('should accept an optional body.', () => {
+    let httpResponse = new HttpResponseUnsupportedMediaType();
+    strictEqual(httpResponse.body, undefined);
+
+    const body = { foo: 'bar' };
+    httpResponse = new HttpResponseUnsupportedMediaType(body);
+    strictEqual(httpResponse.body, body);
+  });
+
+  it('should accept optional options.', () => {
+    let httpResponse = new HttpResponseUnsupportedMediaType();
+    strictEqual(httpResponse.stream, false);
+
+    httpResponse = new HttpResponseUnsupportedMediaType({}, { stream: true });
+    strictEqual(httpResponse.stream, true);
+  });
+
+  it('should allow specifying the required type for the body', () => {
+    type NumberResponse = HttpResponseUnsupportedMediaType<number>
+    type BodyOnlyAcceptsNumbers = NumberResponse['body'] extends number ? true : never
+    const isTrue: BodyOnlyAcceptsNumbers = true
+    strictEqual(isTrue, true)
+  });
+
+});
+
+describe('isHttpResponseUnsupportedMediaType', () => {
+
+  it('should return true if the given object is an instance of HttpResponseUnsupportedMediaType.', () => {
+    const response = new HttpResponseUnsupportedMediaType();
+    strictEqual(isHttpResponseUnsupportedMediaType(response), true);
+  });
+
+  it('should return true if the given object has an isHttpResponseUnsupportedMediaType property equal to true.', () => {
+    const response = { isHttpResponseUnsupportedMediaType: true };
+    strictEqual(isHttpResponseUnsupportedMediaType(response), true);
+  });
+
+  it('should return false if the given object is not an instance of HttpResponseUnsupportedMediaType and if it '
+      + 'has no property isHttpResponseUnsupportedMediaType.', () => {
+    const response = {};
+    strictEqual(isHttpResponseUnsupportedMediaType(response), false);
+    strictEqual(isHttpResponseUnsupportedMediaType(undefined), false);
+    strictEqual(isHttpResponseUnsupportedMediaType(null), false);
+  });
+
+});
+
 describe('HttpResponseTooManyRequests', () => {
 
   it('should inherit from HttpResponseClientError and HttpResponse', () => {
@@ -65,6 +65,7 @@ export abstract class HttpResponse<T = any> {
 
   private cookies: { [key: string]: { value: string|undefined, options: CookieOptions } } = {};
   private headers: { [key: string]: string } = {};
+  private removedHeaders: Set<string> = new Set();
 
   /**
    * Create an instance of HttpResponse.
@@ -88,9 +89,38 @@ export abstract class HttpResponse<T = any> {
    */
   setHeader(name: string, value: string): this {
     this.headers[name] = value;
+    this.removedHeaders.delete(name.toLowerCase());
     return this;
   }
 
+  /**
+   * Remove a header from the response. The header is also removed if it was added
+   * by the HTTP adapter (for example, the security headers of the configuration).
+   *
+   * @param {string} name - The header name (case-insensitive).
+   * @returns {this}
+   * @memberof HttpResponse
+   */
+  removeHeader(name: string): this {
+    for (const key in this.headers) {
+      if (key.toLowerCase() === name.toLowerCase()) {
+        delete this.headers[key];
+      }
+    }
+    this.removedHeaders.add(name.toLowerCase());
+    return this;
+  }
+
+  /**
+   * Read the names (in lower case) of the headers removed with removeHeader.
+   *
+   * @returns {string[]} - The header names.
+   * @memberof HttpResponse
+   */
+  getRemovedHeaders(): string[] {
+    return Array.from(this.removedHeaders);
+  }
+
   /**
    * Read the value of a header added with setHeader.
    *
@@ -497,6 +527,51 @@ export function isHttpResponseRedirect(obj: any): obj is HttpResponseRedirect {
     (typeof obj === 'object' && obj !== null && obj.isHttpResponseRedirect === true);
 }
 
+/**
+ * Represent an HTTP response with the status 304 - NOT MODIFIED.
+ *
+ * @export
+ * @class HttpResponseNotModified
+ * @extends {HttpResponseRedirection}
+ */
+export class HttpResponseNotModified extends HttpResponseRedirection {
+  /**
+   * Property used internally by isHttpResponseNotModified.
+   *
+   * @memberof HttpResponseNotModified
+   */
+  readonly isHttpResponseNotModified = true;
+  readonly statusCode = 304;
+  readonly statusMessage = 'NOT MODIFIED';
+
+  /**
+   * Create an instance of HttpResponseNotModified.
+   * @memberof HttpResponseNotModified
+   */
+  constructor() {
+    super();
+  }
+}
+
+/**
+ * Check if an object is an instance of HttpResponseNotModified.
+ *
+ * This function is a help when you have several packages using @foal/core.
+ * Npm can install the package several times, which leads to duplicate class
+ * definitions. If this is the case, the keyword `instanceof` may return false
+ * while the object is an instance of the class. This function fixes this
+ * problem.
+ *
+ * @export
+ * @param {*} obj - The object to check.
+ * @returns {obj is HttpResponseNotModified} - True if the error is an instance of HttpResponseNotModified.
+ * False otherwise.
+ */
+export function isHttpResponseNotModified(obj: any): obj is HttpResponseNotModified {
+  return obj instanceof HttpResponseNotModified ||
+    (typeof obj === 'object' && obj !== null && obj.isHttpResponseNotModified === true);
+}
+
 /* 4xx Client Error */
 
 /**
@@ -818,6 +893,52 @@ export function isHttpResponseConflict(obj: any): obj is HttpResponseConflict {
     (typeof obj === 'object' && obj !== null && obj.isHttpResponseConflict === true);
 }
 
+/**
+ * Represent an HTTP response with the status 415 - UNSUPPORTED MEDIA TYPE.
+ *
+ * @export
+ * @class HttpResponseUnsupportedMediaType
+ * @extends {HttpResponseClientError}
+ */
+export class HttpResponseUnsupportedMediaType<T = any> extends HttpResponseClientError<T> {
+  /**
+   * Property used internally by isHttpResponseUnsupportedMediaType.
+   *
+   * @memberof HttpResponseUnsupportedMediaType
+   */
+  readonly isHttpResponseUnsupportedMediaType = true;
+  readonly statusCode = 415;
+  readonly statusMessage = 'UNSUPPORTED MEDIA TYPE';
+
+  /**
+   * Create an instance of HttpResponseUnsupportedMediaType.
+   * @param {*} [body] - Optional body of the response.
+   * @memberof HttpResponseUnsupportedMediaType
+   */
+  constructor(body?: T, options: { stream?: boolean } = {}) {
+    super(body, options);
+  }
+}
+
+/**
+ * Check if an object is an instance of HttpResponseUnsupportedMediaType.
+ *
+ * This function is a help when you have several packages using @foal/core.
+ * Npm can install the package several times, which leads to duplicate class
+ * definitions. If this is the case, the keyword `instanceof` may return false
+ * while the object is an instance of the class. This function fixes this
+ * problem.
+ *
+ * @export
+ * @param {*} obj - The object to check.
+ * @returns {obj is HttpResponseUnsupportedMediaType} - True if the error is an instance of
+ * HttpResponseUnsupportedMediaType. False otherwise.
+ */
+export function isHttpResponseUnsupportedMediaType(obj: any): obj is HttpResponseUnsupportedMediaType {
+  return obj instanceof HttpResponseUnsupportedMediaType ||
+    (typeof obj === 'object' && obj !== null && obj.isHttpResponseUnsupportedMediaType === true);
+}
+
 /**
  * Represent an HTTP response with the status 429 - TOO MANY REQUESTS.
  *
@@ -1,6 +1,8 @@
 export * from './app.controller.interface';
 export * from './class.interface';
+export * from './http-adapter.interface';
 export { createController } from './controllers';
+export * from './dependency-graph';
 export * from './http';
 export * from './logging';
 export * from './openapi';
@@ -12,9 +14,12 @@ export {
   createService,
   dependency,
   Dependency,
+  getServiceScope,
+  Injectable,
   lazy,
   ServiceManager,
   ServiceFactory,
   LazyService,
-  ServiceManagerOptions
+  ServiceManagerOptions,
+  ServiceScope
 } from './service-manager';
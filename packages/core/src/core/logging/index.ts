@@ -1,2 +1,2 @@
-export { Logger } from './logger';
-export { httpRequestMessagePrefix } from './logger.utils';
\ No newline at end of file
+export { LogFormatter, Logger, LogRecord, LogTransport } from './logger';
+export { httpRequestMessagePrefix } from './logger.utils';
@@ -1,5 +1,5 @@
 // std
-import { notStrictEqual, strictEqual } from 'assert';
+import { deepStrictEqual, notStrictEqual, strictEqual } from 'assert';
 import { mock } from 'node:test';
 
 // FoalTS
@@ -12,6 +12,8 @@ describe('Logger', () => {
     mock.reset();
     Config.remove('settings.logger.format');
     Config.remove('settings.logger.logLevel');
+    Config.remove('settings.logger.redact');
+    Config.remove('settings.logger.debugSampleRate');
   })
 
   describe('has a "log" method that', () => {
@@ -274,7 +276,117 @@ describe('Logger', () => {
         strictEqual(transport2.mock.calls[0].arguments[0], 'error');
         strictEqual(transport2.mock.calls[0].arguments[1].includes('Hello world'), true);
       });
-    })
+
+      it('should send them the structured records.', () => {
+        mock.method(console, 'log', () => {});
+        const transport = mock.fn((level, log, record) => {});
+
+        const logger = new Logger();
+        logger.addTransport(transport);
+        logger.initLogContext(() => {
+          logger.addLogContext({ requestId: 'xxx' });
+          logger.log('info', 'Hello world', { foo: 'bar' });
+        });
+
+        strictEqual(transport.mock.callCount(), 1);
+        const record = transport.mock.calls[0].arguments[2];
+        strictEqual(record.level, 'info');
+        strictEqual(record.message, 'Hello world');
+        deepStrictEqual(record.params, { foo: 'bar', requestId: 'xxx' });
+        strictEqual(record.timestamp instanceof Date, true);
+      });
+    });
+
+    context('given formatters have been registered', () => {
+      it('should use the formatter selected in the configuration.', () => {
+        const consoleMock = mock.method(console, 'log', () => {}).mock;
+        Config.set('settings.logger.format', 'custom');
+
+        const logger = new Logger();
+        logger.addFormatter('custom', record => `${record.level} - ${record.message} - ${record.params.foo}`);
+        logger.log('info', 'Hello world', { foo: 'bar' });
+
+        strictEqual(consoleMock.callCount(), 1);
+        strictEqual(consoleMock.calls[0].arguments[0], 'info - Hello world - bar');
+      });
+    });
+
+    context('given redaction rules are provided in the configuration', () => {
+      it('should redact the params matching the rules.', () => {
+        mock.method(console, 'log', () => {});
+        const transport = mock.fn((level, log, record) => {});
+        Config.set('settings.logger.format', 'json');
+        Config.set('settings.logger.redact', 'password, headers.authorization');
+
+        const logger = new Logger();
+        logger.addTransport(transport);
+        const params = {
+          headers: { authorization: 'Bearer xxx', host: 'example.com' },
+          user: { name: 'John', password: 'secret' },
+        };
+        logger.log('info', 'Hello world', params);
+
+        const expectedParams = {
+          headers: { authorization: '[REDACTED]', host: 'example.com' },
+          user: { name: 'John', password: '[REDACTED]' },
+        };
+        deepStrictEqual(transport.mock.calls[0].arguments[2].params, expectedParams);
+
+        const log = JSON.parse(transport.mock.calls[0].arguments[1]);
+        deepStrictEqual(log.headers, expectedParams.headers);
+        deepStrictEqual(log.user, expectedParams.user);
+
+        strictEqual(params.user.password, 'secret');
+      });
+    });
+
+    context('given a debug sample rate is provided in the configuration', () => {
+      it('should only log the sampled debug messages.', () => {
+        const consoleMock = mock.method(console, 'log', () => {}).mock;
+        const randomMock = mock.method(Math, 'random', () => 0.5);
+        Config.set('settings.logger.logLevel', 'debug');
+        Config.set('settings.logger.debugSampleRate', 0.25);
+
+        const logger = new Logger();
+        logger.log('debug', 'Not sampled');
+        logger.log('info', 'Info messages are not sampled');
+
+        randomMock.mock.mockImplementation(() => 0.1);
+        logger.log('debug', 'Sampled');
+
+        strictEqual(consoleMock.callCount(), 2);
+        strictEqual(consoleMock.calls[0].arguments[0].includes('Info messages are not sampled'), true);
+        strictEqual(consoleMock.calls[1].arguments[0].includes('Sampled'), true);
+      });
+    });
+  });
+
+  describe('has a "child" method that', () => {
+    it('should return a logger adding the bindings to the params.', () => {
+      mock.method(console, 'log', () => {});
+      const transport = mock.fn((level, log, record) => {});
+
+      const logger = new Logger();
+      logger.addTransport(transport);
+      const child = logger.child({ component: 'billing', foo: 'bar' });
+      const grandChild = child.child({ foo: 'bar2' });
+
+      logger.initLogContext(() => {
+        logger.addLogContext({ requestId: 'xxx' });
+        child.info('Hello world', { hello: 'world' });
+        grandChild.info('Hello world');
+      });
+
+      strictEqual(transport.mock.callCount(), 2);
+      deepStrictEqual(
+        transport.mock.calls[0].arguments[2].params,
+        { component: 'billing', foo: 'bar', hello: 'world', requestId: 'xxx' }
+      );
+      deepStrictEqual(
+        transport.mock.calls[1].arguments[2].params,
+        { component: 'billing', foo: 'bar2', requestId: 'xxx' }
+      );
+    });
   });
 
   it('has a debug(...args) method which is an alias for log("debug", ...args)', () => {
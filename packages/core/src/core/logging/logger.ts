@@ -3,20 +3,78 @@ import { AsyncLocalStorage } from 'node:async_hooks';
 
 // FoalTS
 import { Config } from '../config';
-import { Level, formatMessage, shouldLog } from './logger.utils';
+import { Level, formatMessage, redactParams, shouldLog } from './logger.utils';
+
+/**
+ * Structured log passed to the formatters and the transports.
+ *
+ * The params include the bindings of the logger, the log context and the error context.
+ * They are already redacted.
+ *
+ * @export
+ * @interface LogRecord
+ */
+export interface LogRecord {
+  level: Level;
+  message: string;
+  params: { error?: Error, [name: string]: any };
+  timestamp: Date;
+}
+
+export type LogFormatter = (record: LogRecord) => string;
+
+export type LogTransport = (level: Level, log: string, record: LogRecord) => void;
 
 export class Logger {
   private contextStorage = new AsyncLocalStorage<Record<string, any>>();
   private errorContextStorage = new AsyncLocalStorage<Record<string, any>>();
+  private bindings: Record<string, any> = {};
+  private formatters = new Map<string, LogFormatter>();
 
-  private transports: ((level: Level, log: string) => void)[] = [
+  private transports: LogTransport[] = [
     (level, log) => console.log(log),
   ];
 
-  addTransport(transport: (level: Level, log: string) => void): void {
+  /**
+   * Add a transport. Transports receive the formatted log and the structured record.
+   *
+   * @param {LogTransport} transport - The transport.
+   * @memberof Logger
+   */
+  addTransport(transport: LogTransport): void {
     this.transports.push(transport);
   }
 
+  /**
+   * Add a formatter which can then be selected with the configuration key `settings.logger.format`.
+   *
+   * @param {string} name - The name of the format.
+   * @param {LogFormatter} formatter - The function converting the log records to strings.
+   * @memberof Logger
+   */
+  addFormatter(name: string, formatter: LogFormatter): void {
+    this.formatters.set(name, formatter);
+  }
+
+  /**
+   * Create a child logger adding the given bindings to the params of every log.
+   *
+   * The child logger shares the transports, the formatters and the log context of its parent.
+   *
+   * @param {Record<string, any>} bindings - The params to add to the logs.
+   * @returns {Logger} The child logger.
+   * @memberof Logger
+   */
+  child(bindings: Record<string, any>): Logger {
+    const child = new Logger();
+    child.contextStorage = this.contextStorage;
+    child.errorContextStorage = this.errorContextStorage;
+    child.formatters = this.formatters;
+    child.transports = this.transports;
+    child.bindings = { ...this.bindings, ...bindings };
+    return child;
+  }
+
   initLogContext(callback: () => void): void {
     this.contextStorage.run({}, () => {
       this.errorContextStorage.run({}, callback);
@@ -56,23 +114,38 @@ export class Logger {
       return;
     };
 
+    if (level === 'debug') {
+      const sampleRate = Config.get('settings.logger.debugSampleRate', 'number', 1);
+      if (sampleRate < 1 && Math.random() >= sampleRate) {
+        return;
+      }
+    }
+
     const now = new Date();
     const contextParams = this.contextStorage.getStore();
     const errorContextParams = level === 'error' ? this.errorContextStorage.getStore() : {};
-    const formattedMessage = formatMessage(
+    const record: LogRecord = {
       level,
       message,
-      {
-        ...contextParams,
-        ...errorContextParams,
-        ...params,
-      },
-      format,
-      now,
-    );
+      params: redactParams(
+        {
+          ...this.bindings,
+          ...contextParams,
+          ...errorContextParams,
+          ...params,
+        },
+        this.getRedactionRules(),
+      ),
+      timestamp: now,
+    };
+
+    const formatter = this.formatters.get(format);
+    const formattedMessage = formatter ?
+      formatter(record) :
+      formatMessage(level, message, record.params, format, now);
 
     for (const transport of this.transports) {
-      transport(level, formattedMessage);
+      transport(level, formattedMessage, record);
     }
   }
 
@@ -91,4 +164,12 @@ export class Logger {
   error(message: string, params: { error?: Error, [name: string]: any } = {}): void {
     this.log('error', message, params);
   }
-}
\ No newline at end of file
+
+  private getRedactionRules(): string[] {
+    const rules: string|string[] = Config.get('settings.logger.redact', 'any', []);
+    if (typeof rules === 'string') {
+      return rules.split(',').map(rule => rule.trim()).filter(rule => rule !== '');
+    }
+    return rules;
+  }
+}
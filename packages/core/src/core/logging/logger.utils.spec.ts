@@ -1,5 +1,5 @@
 import { deepStrictEqual, strictEqual, throws } from 'assert';
-import { formatMessage, shouldLog } from './logger.utils';
+import { formatMessage, redactParams, shouldLog } from './logger.utils';
 
 const testStack = `Error: aaa
     at createTestParams (/somewhere/logger.spec.ts:6:11)
@@ -332,4 +332,45 @@ describe('shouldLog', () => {
       );
     });
   });
-});
\ No newline at end of file
+});
+
+describe('redactParams', () => {
+
+  it('should return the params if there are no rules.', () => {
+    const params = { password: 'xxx' };
+    strictEqual(redactParams(params, []), params);
+  });
+
+  it('should redact the keys matching the rules at any depth (case-insensitive).', () => {
+    const error = new Error('foo');
+    const params = {
+      error,
+      items: [ { token: 'aaa' } ],
+      password: 'xxx',
+      req: { headers: { Authorization: 'Bearer yyy', Cookie: 'zzz', host: 'example.com' } },
+      res: { authorization: 'bar' },
+    };
+
+    deepStrictEqual(redactParams(params, [ 'password', 'headers.authorization', 'req.*.cookie', 'token' ]), {
+      error,
+      items: [ { token: '[REDACTED]' } ],
+      password: '[REDACTED]',
+      req: { headers: { Authorization: '[REDACTED]', Cookie: '[REDACTED]', host: 'example.com' } },
+      res: { authorization: 'bar' },
+    });
+    strictEqual(params.password, 'xxx');
+  });
+
+  it('should replace the circular references with "[Circular]".', () => {
+    const shared = { id: 1 };
+    const params: any = { items: [ shared, shared ], req: { password: 'xxx' } };
+    params.req.params = params;
+    params.items.push(params.items);
+
+    deepStrictEqual(redactParams(params, [ 'password' ]), {
+      items: [ { id: 1 }, { id: 1 }, '[Circular]' ],
+      req: { params: '[Circular]', password: '[REDACTED]' },
+    });
+  });
+
+});
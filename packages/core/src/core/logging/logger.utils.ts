@@ -144,6 +144,74 @@ export function formatMessage(
   }
 }
 
+export const redactedValue = '[REDACTED]';
+const circularValue = '[Circular]';
+
+function isPlainObject(value: any): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function matchesRedactionRule(path: string[], rule: string[]): boolean {
+  if (rule.length > path.length) {
+    return false;
+  }
+  const offset = path.length - rule.length;
+  return rule.every((segment, index) => segment === '*' || segment === path[offset + index]);
+}
+
+function redactValue(value: any, path: string[], rules: string[][], ancestors: WeakSet<object>): any {
+  if (!Array.isArray(value) && !isPlainObject(value)) {
+    return value;
+  }
+
+  // The objects referencing one of their ancestors would be copied endlessly.
+  if (ancestors.has(value)) {
+    return circularValue;
+  }
+  ancestors.add(value);
+
+  let result: any;
+  if (Array.isArray(value)) {
+    result = value.map(item => redactValue(item, path, rules, ancestors));
+  } else {
+    result = {};
+    for (const key in value) {
+      const keyPath = [ ...path, key.toLowerCase() ];
+      result[key] = rules.some(rule => matchesRedactionRule(keyPath, rule))
+        ? redactedValue
+        : redactValue(value[key], keyPath, rules, ancestors);
+    }
+  }
+
+  ancestors.delete(value);
+  return result;
+}
+
+/**
+ * Replace the values of the params matching the redaction rules with "[REDACTED]".
+ *
+ * A rule is a dot-separated path (ex: "req.headers.authorization") matched against the end
+ * of the param paths and case-insensitively. So the rule "password" redacts the "password" keys
+ * at any depth. The segment "*" matches any key.
+ *
+ * The given params are not modified. The circular references are replaced with "[Circular]".
+ *
+ * @export
+ * @param {Record<string, any>} params - The log params.
+ * @param {string[]} rules - The redaction rules.
+ * @returns {Record<string, any>} The redacted params.
+ */
+export function redactParams(params: Record<string, any>, rules: string[]): Record<string, any> {
+  if (rules.length === 0) {
+    return params;
+  }
+  return redactValue(params, [], rules.map(rule => rule.toLowerCase().split('.')), new WeakSet());
+}
+
 export function shouldLog(level: Level, configLogLevel: string): boolean {
   const levels: string[] = ['debug', 'info', 'warn', 'error'];
 
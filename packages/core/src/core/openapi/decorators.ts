@@ -86,9 +86,13 @@ export function ApiRequestBody(
   return Reflect.metadata('api:operation:requestBody', requestBody);
 }
 
+/**
+ * Add a response to the OpenAPI operation. If a function is given and returns `undefined`,
+ * the response is not documented.
+ */
 export function ApiResponse(
   key: 'default'|'1XX'|'2XX'|'3XX'|'4XX'|'5XX'|number,
-  response: IApiResponse | IApiReference | ((controller: any) => IApiResponse | IApiReference)
+  response: IApiResponse | IApiReference | ((controller: any) => IApiResponse | IApiReference | undefined)
 ): OpenApiDecorator {
   return AddMetadataProperty('api:operation:responses', key.toString(), response);
 }
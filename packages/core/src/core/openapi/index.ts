@@ -3,4 +3,4 @@ export * from './decorators';
 export * from './interfaces';
 export * from './metadata-getters';
 export * from './utils';
-export { OpenApi } from './openapi.service';
+export { OpenApi, OpenApiOperationHook } from './openapi.service';
@@ -462,6 +462,17 @@ describe('getApiCompleteOperation', () => {
       });
     });
 
+    it('a class (dynamic responses returning undefined).', () => {
+      @ApiResponse(200, { description: 'response1' })
+      @ApiResponse(415, () => undefined)
+      class Controller {}
+
+      const operation = getApiCompleteOperation(Controller, new Controller());
+      deepStrictEqual(operation.responses, {
+        200: { description: 'response1' },
+      });
+    });
+
     it('a class method.', () => {
       class Controller {
         foo() {}
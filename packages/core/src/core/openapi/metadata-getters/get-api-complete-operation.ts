@@ -62,7 +62,11 @@ export function getApiCompleteOperation<T>(
     completeOperation.responses = {};
     for (const key in responses) {
       const response = responses[key];
-      completeOperation.responses[key] = typeof response === 'function' ? response(controller) : response;
+      const value = typeof response === 'function' ? response(controller) : response;
+      // Dynamic responses returning undefined are not documented.
+      if (value !== undefined) {
+        completeOperation.responses[key] = value;
+      }
     }
   }
 
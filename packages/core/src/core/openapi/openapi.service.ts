@@ -1,10 +1,18 @@
 import { Class } from '../class.interface';
-import { IApiComponents, IOpenAPI } from './interfaces';
+import { IApiComponents, IApiOperation, IOpenAPI } from './interfaces';
+
+/**
+ * Function completing the operations added to the OpenAPI documents. It receives the classes
+ * of the controllers of the route (from the one with the @ApiInfo decorator to the one defining
+ * the method) and the name of the controller method.
+ */
+export type OpenApiOperationHook = (operation: IApiOperation, controllerClasses: Class[], propertyKey: string) => IApiOperation;
 
 export class OpenApi {
 
   private documentMap: Map<Class, IOpenAPI> = new Map();
   private componentMap: Map<object, IApiComponents|undefined> = new Map();
+  private operationHooks: OpenApiOperationHook[] = [];
 
   addDocument(controllerClass: Class, document: IOpenAPI, controllers: object[] = []): void {
     this.documentMap.set(controllerClass, document);
@@ -28,4 +36,18 @@ export class OpenApi {
     return this.componentMap.get(controller) || {};
   }
 
+  /**
+   * Register a function to be called on each operation when the documents are built.
+   * It must be registered before the routes are created.
+   */
+  addOperationHook(hook: OpenApiOperationHook): void {
+    if (!this.operationHooks.includes(hook)) {
+      this.operationHooks.push(hook);
+    }
+  }
+
+  getOperationHooks(): OpenApiOperationHook[] {
+    return this.operationHooks;
+  }
+
 }
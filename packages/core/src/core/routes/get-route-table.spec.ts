@@ -0,0 +1,195 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { controller } from '../../common/utils/controller.util';
+import { Hook } from '../hooks';
+import { Get, HttpResponseOK, Post, Put } from '../http';
+import { ApiInfo, ApiOperationId } from '../openapi';
+import { dependency, ServiceManager } from '../service-manager';
+import { getRouteTable } from './get-route-table';
+
+describe('getRouteTable', () => {
+
+  function checkUser() {}
+
+  it('should return the routes of the controller and its subcontrollers in their registration order.', () => {
+    class UserController {
+      @Get('/:id')
+      getUser() {}
+
+      @Post()
+      createUser() {}
+    }
+
+    class AppController {
+      subControllers = [
+        controller('/users', UserController),
+      ];
+
+      @Get('/')
+      index() {}
+    }
+
+    deepStrictEqual(getRouteTable(AppController), [
+      {
+        controllerName: 'UserController',
+        duplicate: false,
+        hooks: [],
+        httpMethod: 'GET',
+        path: '/users/:id',
+        propertyKey: 'getUser',
+      },
+      {
+        controllerName: 'UserController',
+        duplicate: false,
+        hooks: [],
+        httpMethod: 'POST',
+        path: '/users',
+        propertyKey: 'createUser',
+      },
+      {
+        controllerName: 'AppController',
+        duplicate: false,
+        hooks: [],
+        httpMethod: 'GET',
+        path: '/',
+        propertyKey: 'index',
+      },
+    ]);
+  });
+
+  it('should return the names of the hooks of each route (controller hooks first).', () => {
+    @Hook(function checkApiKey() {})
+    class AppController {
+      @Get('/foo')
+      @Hook(checkUser)
+      @Hook(() => {})
+      foo() {}
+    }
+
+    deepStrictEqual(getRouteTable(AppController)[0].hooks, [ 'checkApiKey', 'checkUser', '<anonymous>' ]);
+  });
+
+  it('should return the OpenAPI operationIds of the routes.', () => {
+    @ApiInfo({ title: 'My API', version: '1.0.0' })
+    class ApiController {
+      @Get('/foo')
+      @ApiOperationId('getFoo')
+      foo() {}
+
+      @Get('/bar')
+      bar() {}
+    }
+
+    const table = getRouteTable(ApiController);
+    strictEqual(table[0].operationId, 'getFoo');
+    strictEqual(table[1].hasOwnProperty('operationId'), false);
+  });
+
+  it('should use the given service manager to instantiate the controllers.', () => {
+    class Service {}
+
+    class AppController {
+      @dependency
+      service: Service;
+
+      @Get('/')
+      index() {
+        return new HttpResponseOK();
+      }
+    }
+
+    const services = new ServiceManager();
+    getRouteTable(AppController, services);
+
+    strictEqual(services.get(AppController).service, services.get(Service));
+  });
+
+  it('should flag the routes registered several times with the same method and path.', () => {
+    class UserController {
+      @Get('/users')
+      getUsers() {}
+    }
+
+    class AppController {
+      subControllers = [ UserController ];
+
+      @Get('/users')
+      getUsers() {}
+
+      @Put('/users')
+      putUsers() {}
+    }
+
+    const table = getRouteTable(AppController);
+    deepStrictEqual(
+      table.map(({ controllerName, duplicate }) => ({ controllerName, duplicate })),
+      [
+        { controllerName: 'UserController', duplicate: false },
+        { controllerName: 'AppController', duplicate: true },
+        { controllerName: 'AppController', duplicate: false },
+      ]
+    );
+    strictEqual(table[1].shadowedBy, undefined);
+  });
+
+  it('should flag the routes shadowed by an equivalent route registered before them.', () => {
+    class AppController {
+      @Get('/users/:id')
+      getUser() {}
+
+      @Get('/users/:userId')
+      getUser2() {}
+
+      @Post('/users/:userId')
+      updateUser() {}
+
+      @Get('/Users/:id(\\d+)')
+      getUserById() {}
+
+      @Get('/users/:id(\\d+)')
+      getUserById2() {}
+
+      @Get('/files/*')
+      getFile() {}
+
+      @Get('/files/*path')
+      getFile2() {}
+
+      @Get('/products')
+      getProducts() {}
+
+      @Get('/products/:id?')
+      getProduct() {}
+
+      @Get('/products/:productId')
+      getProduct2() {}
+    }
+
+    const table = getRouteTable(AppController);
+
+    deepStrictEqual(
+      table.map(({ propertyKey, shadowedBy }) => ({ propertyKey, shadowedBy: shadowedBy?.propertyKey })),
+      [
+        { propertyKey: 'getUser', shadowedBy: undefined },
+        { propertyKey: 'getUser2', shadowedBy: 'getUser' },
+        { propertyKey: 'updateUser', shadowedBy: undefined },
+        { propertyKey: 'getUserById', shadowedBy: undefined },
+        { propertyKey: 'getUserById2', shadowedBy: 'getUserById' },
+        { propertyKey: 'getFile', shadowedBy: undefined },
+        { propertyKey: 'getFile2', shadowedBy: 'getFile' },
+        { propertyKey: 'getProducts', shadowedBy: undefined },
+        { propertyKey: 'getProduct', shadowedBy: undefined },
+        { propertyKey: 'getProduct2', shadowedBy: 'getProduct' },
+      ]
+    );
+    deepStrictEqual(table[1].shadowedBy, {
+      controllerName: 'AppController',
+      httpMethod: 'GET',
+      path: '/users/:id',
+      propertyKey: 'getUser',
+    });
+  });
+
+});
@@ -0,0 +1,118 @@
+// FoalTS
+import { Class } from '../class.interface';
+import { HookFunction } from '../hooks';
+import { HttpMethod } from '../http';
+import { ServiceManager } from '../service-manager';
+import { makeControllerRoutes } from './make-controller-routes';
+
+/**
+ * Route of the application as listed by `getRouteTable`.
+ *
+ * @export
+ * @interface RouteTableEntry
+ */
+export interface RouteTableEntry {
+  httpMethod: HttpMethod;
+  path: string;
+  controllerName: string;
+  propertyKey: string;
+  hooks: string[];
+  operationId?: string;
+  /**
+   * Another route with the same method and the same path was registered before this one.
+   * Only the first one is reachable.
+   */
+  duplicate: boolean;
+  /**
+   * Route registered before this one that matches exactly the same requests (for example,
+   * `GET /users/:id` and `GET /users/:userId`). This route is unreachable.
+   */
+  shadowedBy?: { httpMethod: HttpMethod, path: string, controllerName: string, propertyKey: string };
+}
+
+/**
+ * Convert a path into the keys of the request paths it matches, whatever the names
+ * of its parameters and wildcards. A path ending with an optional parameter has two keys.
+ */
+function getPathKeys(path: string): string[] {
+  const segments = path.replace(/^\/+/, '').replace(/\/$/, '').split('/')
+    .filter(segment => segment !== '')
+    .map(segment => {
+      if (segment.startsWith('*')) {
+        return '*';
+      }
+      const result = /^:\w+(\(.+\))?(\?)?$/.exec(segment);
+      if (result) {
+        return `:${result[1] || ''}${result[2] || ''}`;
+      }
+      return segment.toLowerCase();
+    });
+
+  const last = segments[segments.length - 1];
+  if (last && last.startsWith(':') && last.endsWith('?')) {
+    return [
+      '/' + segments.slice(0, -1).join('/'),
+      '/' + [ ...segments.slice(0, -1), last.slice(0, -1) ].join('/'),
+    ];
+  }
+
+  return [ '/' + segments.join('/') ];
+}
+
+function getHookName(hook: HookFunction): string {
+  return hook.name.replace(/^bound /, '') || '<anonymous>';
+}
+
+/**
+ * List the routes of an application, in their registration order, without starting it.
+ *
+ * Duplicate routes (same method and same path) and routes shadowed by an equivalent route
+ * registered before them are flagged.
+ *
+ * @export
+ * @param {Class} AppController - The root controller, usually called `AppController`.
+ * @param {ServiceManager} [services=new ServiceManager()] - The service manager used to instantiate the controllers.
+ * @returns {RouteTableEntry[]} The routes.
+ */
+export function getRouteTable(AppController: Class, services: ServiceManager = new ServiceManager()): RouteTableEntry[] {
+  const entries: RouteTableEntry[] = [];
+  const paths = new Map<string, RouteTableEntry>();
+  const keys = new Map<string, RouteTableEntry>();
+
+  for (const { route, operation } of makeControllerRoutes(AppController, services)) {
+    const entry: RouteTableEntry = {
+      controllerName: route.controller.constructor.name,
+      duplicate: false,
+      hooks: route.hooks.map(getHookName),
+      httpMethod: route.httpMethod,
+      path: route.path,
+      propertyKey: route.propertyKey,
+    };
+    if (operation.operationId) {
+      entry.operationId = operation.operationId;
+    }
+
+    const methodAndPath = `${route.httpMethod} ${route.path}`;
+    if (paths.has(methodAndPath)) {
+      entry.duplicate = true;
+    } else {
+      paths.set(methodAndPath, entry);
+
+      const pathKeys = getPathKeys(route.path).map(key => `${route.httpMethod} ${key}`);
+      const shadowingEntries = pathKeys.map(key => keys.get(key));
+      if (shadowingEntries.every(e => e !== undefined)) {
+        const { httpMethod, path, controllerName, propertyKey } = shadowingEntries[0] as RouteTableEntry;
+        entry.shadowedBy = { controllerName, httpMethod, path, propertyKey };
+      }
+      for (const key of pathKeys) {
+        if (!keys.has(key)) {
+          keys.set(key, entry);
+        }
+      }
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
@@ -1,3 +1,5 @@
 export * from './get-response';
+export { getRouteTable, RouteTableEntry } from './get-route-table';
 export { makeControllerRoutes } from './make-controller-routes';
 export { getPath, getHttpMethod, getMetadata } from './utils';
+export { Router, RouterLookupResult, RouterOptions, RouterTableEntry } from './router';
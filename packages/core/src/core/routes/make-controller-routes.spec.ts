@@ -297,6 +297,28 @@ describe('makeControllerRoutes', () => {
     ok(routes[1].controller instanceof AppController);
   });
 
+  it('should return the classes of the controllers of each route.', () => {
+    class SubController {
+      @Get('/bar')
+      bar() {}
+    }
+
+    class AppController {
+      subControllers = [ SubController ];
+
+      @Get('/foo')
+      foo() {}
+    }
+
+    const controllerClasses = Array.from(makeControllerRoutes(AppController, new ServiceManager()))
+      .map(({ controllerClasses }) => controllerClasses);
+
+    deepStrictEqual(controllerClasses, [
+      [ AppController, SubController ],
+      [ AppController ],
+    ]);
+  });
+
   it('should bind the controller instance to the controller and method hooks.', () => {
     let firstThis: FoobarController|undefined;
     // tslint:disable-next-line:prefer-const
@@ -746,6 +768,38 @@ describe('makeControllerRoutes', () => {
       });
     });
 
+    it('while removing the regex constraints and the optional marks of the path parameters.', () => {
+      const operation1: IApiOperation = {
+        responses: {},
+        summary: 'Operation 1',
+      };
+      const operation2: IApiOperation = {
+        responses: {},
+        summary: 'Operation 2',
+      };
+
+      @ApiInfo(infoMetadata)
+      class ApiController {
+        @Get('/users/:userId(\\d+)')
+        @ApiOperation(operation1)
+        foo() {}
+
+        @Get('/products/:productId?')
+        @ApiOperation(operation2)
+        bar() {}
+      }
+
+      Array.from(makeControllerRoutes(ApiController, services));
+      deepStrictEqual(openApi.getDocument(ApiController).paths, {
+        '/products/{productId}': {
+          get: operation2
+        },
+        '/users/{userId}': {
+          get: operation1
+        },
+      });
+    });
+
     it('while gathering several operations (POST, GET, etc) under the same path.', () => {
       const operation1: IApiOperation = {
         responses: {},
@@ -1291,6 +1345,38 @@ describe('makeControllerRoutes', () => {
       deepStrictEqual(openApi.getComponents(appController), {});
     });
 
+    it('with the operations completed by the operation hooks of the OpenApi service.', () => {
+      class UserController {
+        @Get('/users')
+        @ApiResponse(200, { description: 'Success' })
+        getUsers() {}
+      }
+
+      @ApiInfo(infoMetadata)
+      class ApiController {
+        subControllers = [
+          controller('/api', UserController)
+        ];
+      }
+
+      const calls: [ IApiOperation, string[], string ][] = [];
+      const localServices = new ServiceManager();
+      localServices.get(OpenApi).addOperationHook((operation, controllerClasses, propertyKey) => {
+        calls.push([ operation, controllerClasses.map(c => c.name), propertyKey ]);
+        return { ...operation, summary: 'Added by the hook' };
+      });
+
+      Array.from(makeControllerRoutes(ApiController, localServices));
+
+      deepStrictEqual(calls, [
+        [ { responses: { 200: { description: 'Success' } } }, [ 'ApiController', 'UserController' ], 'getUsers' ]
+      ]);
+      deepStrictEqual(localServices.get(OpenApi).getDocument(ApiController).paths['/api/users'].get, {
+        responses: { 200: { description: 'Success' } },
+        summary: 'Added by the hook',
+      });
+    });
+
   });
 
   it('should not yield the controller tags, components or operation if it is not part of an OpenAPI API.', () => {
@@ -33,7 +33,7 @@ export function getMethods(obj: object|null): string[] {
 
 function normalizePath(path: string): string {
   return (path.startsWith('/') ? path : `/${path}`)
-    .replace(/\:\w*/g, $1 => `{${$1.slice(1)}}`);
+    .replace(/\:(\w*)(\([^/]*\))?\??/g, (_, name: string) => `{${name}}`);
 }
 
 function throwErrorIfDuplicatePaths(paths: IApiPaths): void {
@@ -73,12 +73,13 @@ function getHooks(controllerClass: Class, controller: object, propertyKey?: stri
  * @param {HookFunction[]} parentHooks - First hooks of all the route hooks.
  * @param {Class} controllerClass - The controller class.
  * @param {ServiceManager} services - The application services.
- * @returns {Route[]} The created routes.
+ * @returns {Route[]} The created routes. Each route comes with the classes of its controllers,
+ * from the given controller class to the one defining the route method.
  */
 export function* makeControllerRoutes(
   controllerClass: Class, services: ServiceManager, openapi = false, documentControllers?: object[]
 ): Generator<{
-  route: Route, components: IApiComponents, operation: IApiOperation,  tags?: IApiTag[]
+  route: Route, components: IApiComponents, operation: IApiOperation,  tags?: IApiTag[], controllerClasses: Class[]
 }> {
   // FoalTS stores as well the controllers in the service manager.
   const controller = services.get(controllerClass);
@@ -133,13 +134,22 @@ export function* makeControllerRoutes(
     documentControllers.push(controller);
   }
 
-  function processRoute(route: Route, components: IApiComponents, operation: IApiOperation, tags?: IApiTag[]) {
+  function processRoute(
+    route: Route, components: IApiComponents, operation: IApiOperation, tags: IApiTag[]|undefined,
+    subControllerClasses: Class[]
+  ) {
+    const controllerClasses = [ controllerClass, ...subControllerClasses ];
+
     /* OpenAPI */
     if (document) {
       const normalizedPath = normalizePath(route.path);
+      let documentOperation = mergeOperations(controllerOperation, operation);
+      for (const operationHook of openApi.getOperationHooks()) {
+        documentOperation = operationHook(documentOperation, controllerClasses, route.propertyKey);
+      }
       document.paths[normalizedPath] = {
         ...document.paths[normalizedPath], // Potentially undefined
-        [route.httpMethod.toLowerCase()]: mergeOperations(controllerOperation, operation)
+        [route.httpMethod.toLowerCase()]: documentOperation
       };
       document.tags = Array.from(new Set(mergeTags(document.tags, tags)));
       document.components = mergeComponents(document.components || {}, components);
@@ -148,6 +158,7 @@ export function* makeControllerRoutes(
     return {
       // OpenAPI
       components: openapi ? mergeComponents(controllerComponents, components) : {},
+      controllerClasses,
       // OpenAPI
       operation: openapi ? mergeOperations(controllerOperation, operation) : { responses: {} },
       route: {
@@ -164,10 +175,10 @@ export function* makeControllerRoutes(
 
   for (const controllerClass of controller.subControllers || []) {
     for (
-      const { route, components, operation, tags } of
+      const { route, components, operation, tags, controllerClasses } of
       makeControllerRoutes(controllerClass, services, openapi, documentControllers)
     ) {
-      yield processRoute(route, components, operation, tags);
+      yield processRoute(route, components, operation, tags, controllerClasses);
     }
   }
 
@@ -187,7 +198,7 @@ export function* makeControllerRoutes(
     const operation = openapi ? getApiCompleteOperation(controllerClass, controller, propertyKey) : { responses: {} };
     const tags = openapi ? getApiTags(controllerClass, propertyKey) : undefined;
 
-    yield processRoute(route, components, operation, tags);
+    yield processRoute(route, components, operation, tags, []);
   }
 
   /* OpenAPI */
@@ -0,0 +1,245 @@
+// std
+import { deepStrictEqual, strictEqual, throws } from 'assert';
+
+// FoalTS
+import { Router, RouterLookupResult } from './router';
+
+function getValue(result: RouterLookupResult<string>): string|undefined {
+  return result.status === 'found' ? result.value : undefined;
+}
+
+describe('Router', () => {
+
+  let router: Router<string>;
+
+  beforeEach(() => router = new Router());
+
+  describe('has a "lookup" method that', () => {
+
+    it('should return the value of the route matching the method and the path.', () => {
+      router
+        .add('GET', '/', 'index')
+        .add('GET', '/users', 'list users')
+        .add('POST', '/users', 'create user');
+
+      deepStrictEqual(router.lookup('GET', '/'), { params: {}, path: '/', status: 'found', value: 'index' });
+      strictEqual(getValue(router.lookup('GET', '/users')), 'list users');
+      strictEqual(getValue(router.lookup('post', '/users')), 'create user');
+    });
+
+    it('should ignore trailing slashes and the case of static segments.', () => {
+      router.add('GET', '/users/me', 'me');
+
+      strictEqual(getValue(router.lookup('GET', '/users/me/')), 'me');
+      strictEqual(getValue(router.lookup('GET', '/Users/ME')), 'me');
+    });
+
+    it('should match static segments case-sensitively if the option caseSensitive is true.', () => {
+      router = new Router({ caseSensitive: true });
+      router.add('GET', '/users/me', 'me');
+
+      strictEqual(router.lookup('GET', '/Users/me').status, 'not-found');
+    });
+
+    it('should return the decoded path parameters.', () => {
+      router.add('GET', '/users/:userId/products/:productId', 'product');
+
+      deepStrictEqual(router.lookup('GET', '/users/1/products/foo%20bar'), {
+        params: { productId: 'foo bar', userId: '1' },
+        path: '/users/:userId/products/:productId',
+        status: 'found',
+        value: 'product',
+      });
+    });
+
+    it('should not match an empty parameter.', () => {
+      router.add('GET', '/users//:id', 'user');
+
+      strictEqual(router.lookup('GET', '/users//').status, 'not-found');
+    });
+
+    it('should try static segments before parameters whatever the registration order.', () => {
+      router
+        .add('GET', '/users/:id', 'user')
+        .add('GET', '/users/me', 'me');
+
+      strictEqual(getValue(router.lookup('GET', '/users/me')), 'me');
+      strictEqual(getValue(router.lookup('GET', '/users/1')), 'user');
+    });
+
+    it('should try parameters with a regex constraint before unconstrained parameters.', () => {
+      router
+        .add('GET', '/users/:name', 'by name')
+        .add('GET', '/users/:id(\\d+)', 'by id');
+
+      deepStrictEqual(router.lookup('GET', '/users/42'), {
+        params: { id: '42' },
+        path: '/users/:id(\\d+)',
+        status: 'found',
+        value: 'by id',
+      });
+      strictEqual(getValue(router.lookup('GET', '/users/john')), 'by name');
+    });
+
+    it('should not match a parameter which does not satisfy its regex constraint.', () => {
+      router.add('GET', '/users/:id(\\d+)', 'by id');
+
+      strictEqual(router.lookup('GET', '/users/john').status, 'not-found');
+      strictEqual(router.lookup('GET', '/users/42a').status, 'not-found');
+    });
+
+    it('should backtrack if a branch does not lead to a matching route.', () => {
+      router
+        .add('GET', '/users/me', 'me')
+        .add('GET', '/users/:id/posts', 'posts');
+
+      deepStrictEqual(router.lookup('GET', '/users/me/posts'), {
+        params: { id: 'me' },
+        path: '/users/:id/posts',
+        status: 'found',
+        value: 'posts',
+      });
+    });
+
+    it('should support wildcards (anonymous or named) as last segment.', () => {
+      router
+        .add('GET', '/files/*path', 'file')
+        .add('GET', '/files/public', 'public')
+        .add('GET', '*', 'fallback');
+
+      deepStrictEqual(router.lookup('GET', '/files/images/logo.png'), {
+        params: { path: 'images/logo.png' },
+        path: '/files/*path',
+        status: 'found',
+        value: 'file',
+      });
+      strictEqual(getValue(router.lookup('GET', '/files/public')), 'public');
+      deepStrictEqual(router.lookup('GET', '/foo/bar'), {
+        params: { 0: 'foo/bar' },
+        path: '*',
+        status: 'found',
+        value: 'fallback',
+      });
+    });
+
+    it('should support optional parameters as last segment.', () => {
+      router.add('GET', '/products/:id?', 'products');
+
+      deepStrictEqual(router.lookup('GET', '/products'), {
+        params: {},
+        path: '/products/:id?',
+        status: 'found',
+        value: 'products',
+      });
+      deepStrictEqual(router.lookup('GET', '/products/3'), {
+        params: { id: '3' },
+        path: '/products/:id?',
+        status: 'found',
+        value: 'products',
+      });
+    });
+
+    it('should match HEAD requests with GET routes and all requests with ALL routes.', () => {
+      router
+        .add('GET', '/foo', 'get foo')
+        .add('HEAD', '/bar', 'head bar')
+        .add('GET', '/bar', 'get bar')
+        .add('ALL', '/foobar', 'all foobar')
+        .add('PUT', '/foobar', 'put foobar');
+
+      strictEqual(getValue(router.lookup('HEAD', '/foo')), 'get foo');
+      strictEqual(getValue(router.lookup('HEAD', '/bar')), 'head bar');
+      strictEqual(getValue(router.lookup('DELETE', '/foobar')), 'all foobar');
+      strictEqual(getValue(router.lookup('PUT', '/foobar')), 'put foobar');
+    });
+
+    it('should return "not-found" if no route matches the path.', () => {
+      router.add('GET', '/foo', 'foo');
+
+      deepStrictEqual(router.lookup('GET', '/bar'), { status: 'not-found' });
+      deepStrictEqual(router.lookup('GET', '/foo/bar'), { status: 'not-found' });
+    });
+
+    it('should return "method-not-allowed" with the allowed methods if a route matches the path but not the method.', () => {
+      router
+        .add('POST', '/users/me', 'post me')
+        .add('GET', '/users/:id', 'get user')
+        .add('DELETE', '/users/:id', 'delete user');
+
+      deepStrictEqual(router.lookup('PUT', '/users/me'), {
+        allowedMethods: [ 'DELETE', 'GET', 'HEAD', 'POST' ],
+        status: 'method-not-allowed',
+      });
+    });
+
+    it('should keep the first route registered with the same method and path.', () => {
+      router
+        .add('GET', '/foo', 'first')
+        .add('GET', '/foo', 'second');
+
+      strictEqual(getValue(router.lookup('GET', '/foo')), 'first');
+    });
+
+  });
+
+  describe('has an "add" method that', () => {
+
+    it('should throw an error if a wildcard is not the last segment.', () => {
+      throws(
+        () => router.add('GET', '/files/*/foo', 'foo'),
+        new Error('[Router] Wildcards must be the last segment of a path: "/files/*/foo".')
+      );
+    });
+
+    it('should throw an error if an optional parameter is not the last segment.', () => {
+      throws(
+        () => router.add('GET', '/users/:id?/foo', 'foo'),
+        new Error('[Router] Optional parameters must be the last segment of a path: "/users/:id?/foo".')
+      );
+    });
+
+    it('should throw an error if a parameter is invalid.', () => {
+      throws(
+        () => router.add('GET', '/users/:', 'foo'),
+        new Error('[Router] Invalid parameter ":" in the path "/users/:".')
+      );
+    });
+
+    it('should throw an error if a parameter or a wildcard does not take up a whole segment.', () => {
+      throws(
+        () => router.add('GET', '/files/logo-:size.png', 'foo'),
+        new Error(
+          '[Router] Invalid segment "logo-:size.png" in the path "/files/logo-:size.png". '
+          + 'Parameters and wildcards must take up a whole path segment.'
+        )
+      );
+    });
+
+  });
+
+  describe('has a "getRouteTable" method that', () => {
+
+    it('should return the routes in matching priority order.', () => {
+      router
+        .add('GET', '*', 'fallback')
+        .add('GET', '/users/:id', 'get user')
+        .add('GET', '/users/:id(\\d+)', 'get user by id')
+        .add('GET', '/users/me', 'get me')
+        .add('POST', '/users', 'create user')
+        .add('GET', '/', 'index')
+        .add('GET', '/products/:id?', 'product');
+
+      deepStrictEqual(router.getRouteTable(), [
+        { httpMethod: 'GET', path: '/', value: 'index' },
+        { httpMethod: 'GET', path: '/products/:id?', value: 'product' },
+        { httpMethod: 'POST', path: '/users', value: 'create user' },
+        { httpMethod: 'GET', path: '/users/me', value: 'get me' },
+        { httpMethod: 'GET', path: '/users/:id(\\d+)', value: 'get user by id' },
+        { httpMethod: 'GET', path: '/users/:id', value: 'get user' },
+        { httpMethod: 'GET', path: '*', value: 'fallback' },
+      ]);
+    });
+
+  });
+
+});
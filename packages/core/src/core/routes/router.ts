@@ -0,0 +1,325 @@
+interface RouterHandler<T> {
+  path: string;
+  value: T;
+}
+
+interface RouterNode<T> {
+  handlers: Map<string, RouterHandler<T>>;
+  staticChildren: Map<string, RouterNode<T>>;
+  paramChildren: RouterParamChild<T>[];
+  wildcard?: { name: string, node: RouterNode<T> };
+}
+
+interface RouterParamChild<T> {
+  name: string;
+  pattern?: string;
+  regexp?: RegExp;
+  node: RouterNode<T>;
+}
+
+type RouterSegment =
+  { type: 'static', value: string } |
+  { type: 'param', name: string, pattern?: string } |
+  { type: 'wildcard', name: string };
+
+/**
+ * Result of `Router.lookup`.
+ *
+ * - `found`: a route matches the path and the method.
+ * - `method-not-allowed`: at least one route matches the path, but none matches the method.
+ * The methods accepted on this path are listed in `allowedMethods`.
+ * - `not-found`: no route matches the path.
+ *
+ * @export
+ */
+export type RouterLookupResult<T> =
+  { status: 'found', value: T, path: string, params: Record<string, string> } |
+  { status: 'method-not-allowed', allowedMethods: string[] } |
+  { status: 'not-found' };
+
+/**
+ * Entry of the compiled route table returned by `Router.getRouteTable`.
+ *
+ * @export
+ * @interface RouterTableEntry
+ */
+export interface RouterTableEntry<T> {
+  httpMethod: string;
+  path: string;
+  value: T;
+}
+
+export interface RouterOptions {
+  /**
+   * Match static segments case-sensitively. Default: false (as in Express).
+   */
+  caseSensitive?: boolean;
+}
+
+function createNode<T>(): RouterNode<T> {
+  return { handlers: new Map(), paramChildren: [], staticChildren: new Map() };
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (error: any) {
+    return value;
+  }
+}
+
+function splitPath(path: string): string[] {
+  const trimmed = path.replace(/^\/+/, '').replace(/\/$/, '');
+  return trimmed === '' ? [] : trimmed.split('/');
+}
+
+/**
+ * Router matching the request paths with a trie of path segments.
+ *
+ * Matching is deterministic and does not depend on the order in which the routes are
+ * registered: static segments are tried first, then parameters with a regex constraint
+ * (`:id(\\d+)`), then unconstrained parameters (`:id`) and finally wildcards (`*` or `*name`),
+ * which must be the last segment of a path. If a branch does not lead to a matching route,
+ * the router backtracks and tries the next one.
+ *
+ * @export
+ * @class Router
+ * @template T
+ */
+export class Router<T> {
+
+  private readonly root: RouterNode<T> = createNode();
+  private readonly caseSensitive: boolean;
+
+  constructor(options: RouterOptions = {}) {
+    this.caseSensitive = options.caseSensitive ?? false;
+  }
+
+  /**
+   * Register a route. If a route with the same method and the same path pattern
+   * already exists, the first one is kept.
+   *
+   * @param {string} httpMethod - The HTTP method. `ALL` matches every method.
+   * @param {string} path - The path pattern (ex: `/users/:id(\\d+)/files/*`).
+   * @param {T} value - The value returned by `lookup`.
+   * @returns {this}
+   * @memberof Router
+   */
+  add(httpMethod: string, path: string, value: T): this {
+    const segments = splitPath(path).map((segment, index, array) => this.parseSegment(segment, path, index === array.length - 1));
+
+    const last = segments[segments.length - 1];
+    if (last && last.type === 'param' && last.name.endsWith('?')) {
+      // Optional parameter: register the path with and without it.
+      const name = last.name.slice(0, -1);
+      this.insert(httpMethod, path, value, segments.slice(0, -1));
+      this.insert(httpMethod, path, value, [ ...segments.slice(0, -1), { ...last, name } ]);
+      return this;
+    }
+
+    this.insert(httpMethod, path, value, segments);
+    return this;
+  }
+
+  /**
+   * Find the route matching the given method and path.
+   *
+   * HEAD requests fall back on GET routes and `ALL` routes match every method.
+   *
+   * @param {string} httpMethod - The request method.
+   * @param {string} path - The request path (without the query string).
+   * @returns {RouterLookupResult<T>} The lookup result.
+   * @memberof Router
+   */
+  lookup(httpMethod: string, path: string): RouterLookupResult<T> {
+    const method = httpMethod.toUpperCase();
+    const segments = splitPath(path).map(segment => decode(segment));
+
+    let found: RouterLookupResult<T>|undefined;
+    const allowedMethods = new Set<string>();
+
+    this.match(this.root, segments, 0, {}, (node, params) => {
+      const handler = node.handlers.get(method)
+        || (method === 'HEAD' ? node.handlers.get('GET') : undefined)
+        || node.handlers.get('ALL');
+      if (handler) {
+        found = { params, path: handler.path, status: 'found', value: handler.value };
+        return true;
+      }
+      for (const key of node.handlers.keys()) {
+        allowedMethods.add(key);
+      }
+      return false;
+    });
+
+    if (found) {
+      return found;
+    }
+
+    if (allowedMethods.size === 0) {
+      return { status: 'not-found' };
+    }
+
+    if (allowedMethods.has('GET')) {
+      allowedMethods.add('HEAD');
+    }
+    return { allowedMethods: Array.from(allowedMethods).sort(), status: 'method-not-allowed' };
+  }
+
+  /**
+   * Return the compiled route table, in matching priority order.
+   *
+   * @returns {RouterTableEntry<T>[]} The routes.
+   * @memberof Router
+   */
+  getRouteTable(): RouterTableEntry<T>[] {
+    const entries: RouterTableEntry<T>[] = [];
+    const seen = new Set<string>();
+
+    function visit(node: RouterNode<T>): void {
+      for (const [ httpMethod, { path, value } ] of node.handlers) {
+        const key = `${httpMethod} ${path}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          entries.push({ httpMethod, path, value });
+        }
+      }
+      for (const key of Array.from(node.staticChildren.keys()).sort()) {
+        visit(node.staticChildren.get(key) as RouterNode<T>);
+      }
+      for (const child of node.paramChildren) {
+        visit(child.node);
+      }
+      if (node.wildcard) {
+        visit(node.wildcard.node);
+      }
+    }
+
+    visit(this.root);
+    return entries;
+  }
+
+  private parseSegment(segment: string, path: string, isLast: boolean): RouterSegment {
+    if (segment.startsWith(':')) {
+      const result = /^:(\w+)(?:\((.+)\))?(\?)?$/.exec(segment);
+      if (!result) {
+        throw new Error(`[Router] Invalid parameter "${segment}" in the path "${path}".`);
+      }
+      if (result[3] && !isLast) {
+        throw new Error(`[Router] Optional parameters must be the last segment of a path: "${path}".`);
+      }
+      return { name: result[1] + (result[3] || ''), pattern: result[2], type: 'param' };
+    }
+
+    if (segment.startsWith('*')) {
+      if (!isLast) {
+        throw new Error(`[Router] Wildcards must be the last segment of a path: "${path}".`);
+      }
+      if (!/^\*\w*$/.test(segment)) {
+        throw new Error(`[Router] Invalid wildcard "${segment}" in the path "${path}".`);
+      }
+      return { name: segment.slice(1) || '0', type: 'wildcard' };
+    }
+
+    if (segment.includes(':') || segment.includes('*')) {
+      throw new Error(
+        `[Router] Invalid segment "${segment}" in the path "${path}". `
+        + 'Parameters and wildcards must take up a whole path segment.'
+      );
+    }
+
+    return { type: 'static', value: this.normalizeStaticSegment(decode(segment)) };
+  }
+
+  private insert(httpMethod: string, path: string, value: T, segments: RouterSegment[]): void {
+    let node = this.root;
+
+    for (const segment of segments) {
+      switch (segment.type) {
+        case 'static': {
+          let child = node.staticChildren.get(segment.value);
+          if (!child) {
+            child = createNode();
+            node.staticChildren.set(segment.value, child);
+          }
+          node = child;
+          break;
+        }
+        case 'param': {
+          let child = node.paramChildren.find(c => c.name === segment.name && c.pattern === segment.pattern);
+          if (!child) {
+            child = {
+              name: segment.name,
+              node: createNode(),
+              pattern: segment.pattern,
+              regexp: segment.pattern === undefined ? undefined : new RegExp(`^(?:${segment.pattern})$`),
+            };
+            node.paramChildren.push(child);
+            // Constrained parameters are tried before unconstrained ones.
+            node.paramChildren.sort((a, b) => Number(a.regexp === undefined) - Number(b.regexp === undefined));
+          }
+          node = child.node;
+          break;
+        }
+        case 'wildcard': {
+          if (!node.wildcard) {
+            node.wildcard = { name: segment.name, node: createNode() };
+          }
+          node = node.wildcard.node;
+          break;
+        }
+      }
+    }
+
+    const method = httpMethod.toUpperCase();
+    if (!node.handlers.has(method)) {
+      node.handlers.set(method, { path, value });
+    }
+  }
+
+  private match(
+    node: RouterNode<T>,
+    segments: string[],
+    index: number,
+    params: Record<string, string>,
+    visitor: (node: RouterNode<T>, params: Record<string, string>) => boolean
+  ): boolean {
+    if (index === segments.length) {
+      if (node.handlers.size > 0 && visitor(node, params)) {
+        return true;
+      }
+    } else {
+      const segment = segments[index];
+
+      const staticChild = node.staticChildren.get(this.normalizeStaticSegment(segment));
+      if (staticChild && this.match(staticChild, segments, index + 1, params, visitor)) {
+        return true;
+      }
+
+      if (segment !== '') {
+        for (const child of node.paramChildren) {
+          if (child.regexp && !child.regexp.test(segment)) {
+            continue;
+          }
+          if (this.match(child.node, segments, index + 1, { ...params, [child.name]: segment }, visitor)) {
+            return true;
+          }
+        }
+      }
+    }
+
+    if (node.wildcard) {
+      const wildcardParams = { ...params, [node.wildcard.name]: segments.slice(index).join('/') };
+      if (node.wildcard.node.handlers.size > 0 && visitor(node.wildcard.node, wildcardParams)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private normalizeStaticSegment(segment: string): string {
+    return this.caseSensitive ? segment : segment.toLowerCase();
+  }
+
+}
@@ -1,5 +1,5 @@
 // std
-import { deepStrictEqual, notStrictEqual, ok, strictEqual, throws } from 'assert';
+import { deepStrictEqual, notStrictEqual, ok, rejects, strictEqual, throws } from 'assert';
 
 // 3p
 import { ConcreteSessionStore } from 'mock-module';
@@ -8,7 +8,18 @@ import { ConcreteSessionStore } from 'mock-module';
 import { existsSync, mkdirSync, rmdirSync, unlinkSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { Config, ConfigNotFoundError } from './config';
-import { createService, dependency, Dependency, IDependency, ServiceManager, ServiceFactory, LazyService, lazy } from './service-manager';
+import {
+  createService,
+  dependency,
+  Dependency,
+  getServiceScope,
+  IDependency,
+  Injectable,
+  ServiceManager,
+  ServiceFactory,
+  LazyService,
+  lazy
+} from './service-manager';
 
 describe('dependency', () => {
 
@@ -193,6 +204,29 @@ describe('createService', () => {
 
 });
 
+describe('Injectable', () => {
+
+  it('should define the scope of the service.', () => {
+    @Injectable({ scope: 'request' })
+    class RequestService {}
+
+    @Injectable({ scope: 'transient' })
+    class TransientService {}
+
+    @Injectable()
+    class SingletonService {}
+
+    class Service {}
+
+    strictEqual(getServiceScope(RequestService), 'request');
+    strictEqual(getServiceScope(TransientService), 'transient');
+    strictEqual(getServiceScope(SingletonService), 'singleton');
+    strictEqual(getServiceScope(Service), 'singleton');
+    strictEqual(getServiceScope('foo'), 'singleton');
+  });
+
+});
+
 describe('ServiceManager', () => {
 
   let serviceManager: ServiceManager;
@@ -737,6 +771,40 @@ describe('ServiceManager', () => {
 
         });
 
+        describe('when the concrete class path is an alias defined in Service.concreteClassAliases', () => {
+
+          it('should return the concrete class instance of the aliased package.', () => {
+            Config.set('settings.toto', 'mock');
+
+            abstract class Foobar {
+              static concreteClassConfigPath = 'settings.toto';
+              static concreteClassName = 'ConcreteSessionStore';
+              static concreteClassAliases = { mock: 'mock-module' };
+            }
+
+            const service = serviceManager.get(Foobar);
+            strictEqual(service instanceof ConcreteSessionStore, true);
+          });
+
+          it('should use the alias in the error messages.', () => {
+            Config.set('settings.toto', 'mock');
+
+            abstract class Foobar {
+              static concreteClassConfigPath = 'settings.toto';
+              static concreteClassName = 'Foobar2';
+              static concreteClassAliases = { mock: 'mock-module' };
+            }
+
+            throws(
+              () => serviceManager.get(Foobar),
+              {
+                message: '[CONFIG] mock is not a valid package or file for Foobar: class Foobar2 not found.'
+              } as any
+            );
+          });
+
+        });
+
         describe('when the concrete class path is a relative path (starts with "./")', () => {
 
           const buildDirPath = join(process.cwd(), 'build');
@@ -1351,6 +1419,442 @@ describe('ServiceManager', () => {
 
   });
 
+  describe('when "dispose" is called', () => {
+
+    it('should call the "dispose" or "onShutdown" methods of the instantiated services in reverse dependency order.', async () => {
+      const calls: string[] = [];
+
+      class Database {
+        async dispose() {
+          calls.push('Database');
+        }
+      }
+
+      class Cache {
+        onShutdown() {
+          calls.push('Cache');
+        }
+      }
+
+      class UserService {
+        @dependency
+        database: Database;
+
+        @dependency
+        cache: Cache;
+
+        dispose() {
+          calls.push('UserService');
+        }
+      }
+
+      class NotInstantiatedService {
+        dispose() {
+          calls.push('NotInstantiatedService');
+        }
+      }
+
+      serviceManager.register(NotInstantiatedService);
+      serviceManager.set('mailer', { dispose: () => calls.push('mailer') });
+      serviceManager.get(UserService);
+
+      await serviceManager.dispose();
+
+      deepStrictEqual(calls, [ 'UserService', 'Cache', 'Database', 'mailer' ]);
+    });
+
+    it('should dispose each service only once.', async () => {
+      let count = 0;
+
+      class Database {
+        dispose() {
+          count++;
+        }
+      }
+
+      serviceManager.set('db', serviceManager.get(Database));
+
+      await serviceManager.dispose();
+      await serviceManager.dispose();
+
+      strictEqual(count, 1);
+    });
+
+    it('should dispose all the services and rethrow the errors if some services fail to dispose.', async () => {
+      const calls: string[] = [];
+
+      class Service1 {
+        dispose() {
+          calls.push('Service1');
+        }
+      }
+
+      class Service2 {
+        dispose() {
+          throw new Error('Service2 error');
+        }
+      }
+
+      class Service3 {
+        dispose() {
+          throw new Error('Service3 error');
+        }
+      }
+
+      serviceManager.get(Service1);
+      serviceManager.get(Service2);
+
+      await rejects(() => serviceManager.dispose(), new Error('Service2 error'));
+      deepStrictEqual(calls, [ 'Service1' ]);
+
+      serviceManager.get(Service3);
+      serviceManager.set(Service2, new Service2());
+
+      try {
+        await serviceManager.dispose();
+        throw new Error('An error should have been thrown.');
+      } catch (error: any) {
+        ok(error instanceof AggregateError);
+        strictEqual(error.message, '2 services failed to dispose.');
+        deepStrictEqual(error.errors.map((e: Error) => e.message), [ 'Service2 error', 'Service3 error' ]);
+      }
+    });
+
+  });
+
+  describe('when "getDependencyGraph" is called', () => {
+
+    it('should return the graph of the controllers and services without instantiating them.', () => {
+      let instantiated = false;
+
+      @Injectable({ scope: 'request' })
+      class Database {
+        constructor() {
+          instantiated = true;
+        }
+      }
+
+      class Mailer {}
+
+      class UserService {
+        @dependency
+        database: Database;
+
+        @lazy(Mailer)
+        mailer: Mailer;
+      }
+
+      class ApiController {
+        @dependency
+        userService: UserService;
+
+        @Dependency('config')
+        config: any;
+      }
+
+      class AppController {
+        subControllers = [ ApiController ];
+
+        @dependency
+        services: ServiceManager;
+      }
+
+      const graph = serviceManager.getDependencyGraph(AppController);
+
+      strictEqual(instantiated, false);
+      deepStrictEqual(graph.nodes, [
+        { id: 'AppController', name: 'AppController', scope: 'singleton' },
+        { id: 'ServiceManager', name: 'ServiceManager', scope: 'singleton' },
+        { id: 'ApiController', name: 'ApiController', scope: 'singleton' },
+        { id: 'UserService', name: 'UserService', scope: 'singleton' },
+        { id: 'config', name: 'config', scope: 'singleton' },
+        { id: 'Database', name: 'Database', scope: 'request' },
+        { id: 'Mailer', name: 'Mailer', scope: 'singleton' },
+      ]);
+      deepStrictEqual(graph.edges, [
+        { from: 'AppController', propertyKey: 'services', to: 'ServiceManager', type: 'dependency' },
+        { from: 'AppController', propertyKey: 'subControllers', to: 'ApiController', type: 'subController' },
+        { from: 'ApiController', propertyKey: 'userService', to: 'UserService', type: 'dependency' },
+        { from: 'ApiController', propertyKey: 'config', to: 'config', type: 'dependency' },
+        { from: 'UserService', propertyKey: 'database', to: 'Database', type: 'dependency' },
+        { from: 'UserService', propertyKey: 'mailer', to: 'Mailer', type: 'lazy' },
+      ]);
+      deepStrictEqual(graph.cycles, []);
+      deepStrictEqual(graph.unresolved, []);
+    });
+
+    it('should read the sub-controllers of the controllers already instantiated without calling their constructor again.', () => {
+      class ApiController {}
+
+      let constructorCalls = 0;
+      class AppController {
+        subControllers = [ ApiController ];
+
+        constructor() {
+          constructorCalls++;
+        }
+      }
+
+      serviceManager.get(AppController);
+      constructorCalls = 0;
+
+      const graph = serviceManager.getDependencyGraph(AppController);
+
+      strictEqual(constructorCalls, 0);
+      deepStrictEqual(graph.edges, [
+        { from: 'AppController', propertyKey: 'subControllers', to: 'ApiController', type: 'subController' },
+      ]);
+    });
+
+    it('should use the classes of the services registered or set in the service manager.', () => {
+      class Database {}
+
+      abstract class Logger2 {}
+
+      class ConsoleLogger extends Logger2 {
+        @dependency
+        database: Database;
+      }
+
+      class AppController {
+        @dependency
+        logger: Logger2;
+
+        @Dependency('foo')
+        foo: any;
+      }
+
+      serviceManager.register(Logger2, ConsoleLogger);
+      serviceManager.set('foo', { bar: 'foo' });
+
+      deepStrictEqual(serviceManager.getDependencyGraph(AppController).edges, [
+        { from: 'AppController', propertyKey: 'logger', to: 'Logger2', type: 'dependency' },
+        { from: 'AppController', propertyKey: 'foo', to: 'foo', type: 'dependency' },
+        { from: 'Logger2', propertyKey: 'database', to: 'Database', type: 'dependency' },
+      ]);
+    });
+
+    it('should report the dependency cycles with their full path.', () => {
+      class ServiceA {
+        @dependency
+        serviceB: any;
+      }
+
+      class ServiceB {
+        @dependency
+        serviceC: any;
+      }
+
+      class ServiceC {
+        @dependency
+        serviceA: ServiceA;
+      }
+
+      Reflect.defineMetadata('dependencies', [ { propertyKey: 'serviceB', serviceClassOrID: ServiceB } ], ServiceA.prototype);
+      Reflect.defineMetadata('dependencies', [ { propertyKey: 'serviceC', serviceClassOrID: ServiceC } ], ServiceB.prototype);
+
+      class AppController {
+        @dependency
+        serviceA: ServiceA;
+      }
+
+      deepStrictEqual(serviceManager.getDependencyGraph(AppController).cycles, [
+        [ 'ServiceA', 'ServiceB', 'ServiceC', 'ServiceA' ],
+      ]);
+    });
+
+    it('should report the dependencies whose type is undefined.', () => {
+      class AppController {}
+      Reflect.defineMetadata('dependencies', [ { propertyKey: 'foo', serviceClassOrID: undefined } ], AppController.prototype);
+
+      deepStrictEqual(serviceManager.getDependencyGraph(AppController).unresolved, [
+        { from: 'AppController', propertyKey: 'foo' },
+      ]);
+    });
+
+    it('should give different IDs to different classes with the same name.', () => {
+      const Service1 = class Service {};
+      const Service2 = class Service {};
+
+      class AppController {
+        @Dependency('')
+        service1: any;
+
+        @Dependency('')
+        service2: any;
+      }
+      Reflect.defineMetadata('dependencies', [
+        { propertyKey: 'service1', serviceClassOrID: Service1 },
+        { propertyKey: 'service2', serviceClassOrID: Service2 },
+      ], AppController.prototype);
+
+      deepStrictEqual(
+        serviceManager.getDependencyGraph(AppController).nodes.map(node => node.id),
+        [ 'AppController', 'Service', 'Service#2' ]
+      );
+    });
+
+  });
+
+  describe('scopes', () => {
+
+    @Injectable({ scope: 'request' })
+    class TenantContext {
+      tenantId = 'default';
+    }
+
+    @Injectable({ scope: 'transient' })
+    class QueryBuilder {
+      @dependency
+      tenantContext: TenantContext;
+    }
+
+    class Database {}
+
+    @Injectable({ scope: 'request' })
+    class Transaction {
+      @dependency
+      database: Database;
+
+      @dependency
+      tenantContext: TenantContext;
+
+      @dependency
+      services: ServiceManager;
+    }
+
+    it('should create one instance of a request-scoped service per scope.', () => {
+      const scope1 = serviceManager.createScope();
+      const scope2 = serviceManager.createScope();
+
+      strictEqual(scope1.get(TenantContext), scope1.get(TenantContext));
+      notStrictEqual(scope1.get(TenantContext), scope2.get(TenantContext));
+    });
+
+    it('should create a new instance of a transient service each time it is resolved.', () => {
+      const scope = serviceManager.createScope();
+
+      const queryBuilder1 = scope.get(QueryBuilder);
+      const queryBuilder2 = scope.get(QueryBuilder);
+
+      notStrictEqual(queryBuilder1, queryBuilder2);
+      strictEqual(queryBuilder1.tenantContext, scope.get(TenantContext));
+      strictEqual(queryBuilder2.tenantContext, scope.get(TenantContext));
+    });
+
+    it('should resolve the singletons with the parent service manager.', () => {
+      const scope = serviceManager.createScope();
+
+      strictEqual(scope.get(Database), serviceManager.get(Database));
+      strictEqual(scope.get(Transaction).database, serviceManager.get(Database));
+    });
+
+    it('should inject the dependencies of the request-scoped services from the scope.', () => {
+      const scope = serviceManager.createScope();
+      const transaction = scope.get(Transaction);
+
+      strictEqual(transaction.tenantContext, scope.get(TenantContext));
+      strictEqual(transaction.services, scope);
+    });
+
+    it('should let the services set in a scope override the ones of the parent service manager.', () => {
+      const scope = serviceManager.createScope();
+      const tenantContext = { tenantId: 'acme' };
+      scope.set(TenantContext, tenantContext);
+
+      strictEqual(scope.get(Transaction).tenantContext, tenantContext);
+      strictEqual(scope.get(TenantContext), tenantContext);
+    });
+
+    it('should use the services set in the parent service manager (mocks).', () => {
+      const tenantContext = { tenantId: 'acme' };
+      serviceManager.set(TenantContext, tenantContext);
+
+      strictEqual(serviceManager.createScope().get(TenantContext), tenantContext);
+    });
+
+    it('should throw an error if a request-scoped service is resolved outside of a scope.', () => {
+      throws(
+        () => serviceManager.get(TenantContext),
+        new Error(
+          'The request-scoped service TenantContext cannot be resolved outside of a scope. '
+          + 'Use "services.createScope()" to create one.'
+        )
+      );
+    });
+
+    it('should throw an error if a singleton depends on a request-scoped service.', () => {
+      class UserService {
+        @dependency
+        tenantContext: TenantContext;
+      }
+
+      throws(
+        () => serviceManager.createScope().get(UserService),
+        new Error(
+          'The singleton UserService cannot depend on the request-scoped service TenantContext '
+          + '(property "tenantContext"). Make UserService request-scoped or transient.'
+        )
+      );
+    });
+
+    it('should not throw an error if a singleton depends on a request-scoped service that is mocked.', () => {
+      class UserService {
+        @dependency
+        tenantContext: TenantContext;
+      }
+
+      const tenantContext = { tenantId: 'acme' };
+      const userService = createService(UserService, { tenantContext });
+
+      strictEqual(userService.tenantContext, tenantContext);
+    });
+
+    describe('when "dispose" is called on a scope', () => {
+
+      it('should call the "dispose" methods of the request-scoped services in the reverse order of creation.', async () => {
+        const calls: string[] = [];
+
+        @Injectable({ scope: 'request' })
+        class Service1 {
+          async dispose() {
+            calls.push('Service1');
+          }
+        }
+
+        @Injectable({ scope: 'request' })
+        class Service2 {
+          dispose() {
+            calls.push('Service2');
+          }
+        }
+
+        @Injectable({ scope: 'request' })
+        class Service3 {}
+
+        const scope = serviceManager.createScope();
+        scope.get(Service1);
+        scope.get(Service3);
+        scope.get(Service2);
+
+        await scope.dispose();
+
+        deepStrictEqual(calls, [ 'Service2', 'Service1' ]);
+      });
+
+      it('should release the request-scoped services.', async () => {
+        const scope = serviceManager.createScope();
+        const tenantContext = scope.get(TenantContext);
+
+        await scope.dispose();
+
+        notStrictEqual(scope.get(TenantContext), tenantContext);
+      });
+
+    });
+
+  });
+
   describe('logging', () => {
 
     it('should not log when debug mode is disabled', () => {
@@ -7,6 +7,7 @@ import 'reflect-metadata';
 // FoalTS
 import { Class, ClassOrAbstractClass } from './class.interface';
 import { Config } from './config';
+import { DependencyGraph, DependencyGraphEdge, DependencyGraphNode, UnresolvedDependency } from './dependency-graph';
 import { Logger } from './logging';
 
 export interface IDependency {
@@ -19,6 +20,43 @@ export interface ILazyDependency {
   serviceType?: any;
 }
 
+/**
+ * Lifetime of a service.
+ *
+ * - `singleton`: one instance is shared by the whole application (default).
+ * - `request`: one instance is created per scope (i.e. per request in `createApp`).
+ * - `transient`: a new instance is created each time the service is resolved.
+ *
+ * @export
+ */
+export type ServiceScope = 'singleton'|'request'|'transient';
+
+/**
+ * Decorator specifying the lifetime of a service.
+ *
+ * @export
+ * @param {{ scope?: ServiceScope }} [options={}] - The service options.
+ */
+export function Injectable(options: { scope?: ServiceScope } = {}) {
+  return (target: Class) => {
+    Reflect.defineMetadata('scope', options.scope || 'singleton', target);
+  };
+}
+
+/**
+ * Get the lifetime of a service.
+ *
+ * @export
+ * @param {(string|ClassOrAbstractClass|ServiceFactory<any>)} identifier - The service ID, class or factory.
+ * @returns {ServiceScope} The service scope. Service IDs and factories are always singletons.
+ */
+export function getServiceScope(identifier: string|ClassOrAbstractClass|ServiceFactory<any>): ServiceScope {
+  if (typeof identifier !== 'function') {
+    return 'singleton';
+  }
+  return Reflect.getMetadata('scope', identifier) || 'singleton';
+}
+
 /**
  * Factory class for creating service instances with custom initialization logic.
  *
@@ -208,6 +246,8 @@ export interface ServiceManagerOptions {
 /**
  * Identity Mapper that instantiates and returns service singletons.
  *
+ * Request-scoped services are instantiated in child service managers created with `createScope`.
+ *
  * @export
  * @class ServiceManager
  */
@@ -216,6 +256,12 @@ export class ServiceManager {
   private readonly map: Map<string|ClassOrAbstractClass|ServiceFactory<any>, ServiceEntry>  = new Map();
   private initialized: boolean = false;
 
+  // Scope management
+  private parent?: ServiceManager;
+
+  // Services to dispose, in their creation order.
+  private disposableServices: any[] = [];
+
   // Logging configuration
   private readonly debugMode: boolean;
   private readonly logger: Logger;
@@ -311,6 +357,70 @@ export class ServiceManager {
     }
   }
 
+  /**
+   * Create a child service manager in which request-scoped services are instantiated.
+   *
+   * Singletons are still resolved (and cached) by the parent service manager.
+   * Services added with `set` on the scope are only visible in this scope.
+   *
+   * @returns {ServiceManager} The scope.
+   * @memberof ServiceManager
+   */
+  createScope(): ServiceManager {
+    const scope = new ServiceManager({ debug: this.debugMode });
+    scope.parent = this;
+    this.logDebug('Scope created');
+    return scope;
+  }
+
+  /**
+   * Dispose all services : call the method "dispose" (or "onShutdown") of each instantiated
+   * service if it exists.
+   *
+   * Services are disposed in the reverse order of their creation, so that a service is always
+   * disposed before its dependencies. Transient services are not disposed.
+   *
+   * When called on a scope, only the request-scoped services (and the ones added to the scope)
+   * are disposed.
+   *
+   * If one or more services fail to dispose, the other services are still disposed and the
+   * errors are rethrown at the end.
+   *
+   * @returns {Promise<void>}
+   * @memberof ServiceManager
+   */
+  async dispose(): Promise<void> {
+    const services = Array.from(new Set(this.disposableServices)).reverse();
+    this.disposableServices = [];
+    if (this.parent) {
+      this.map.clear();
+    }
+
+    this.logInfo(`Disposing ${services.length} services...`);
+    const errors: any[] = [];
+    for (const service of services) {
+      const serviceName = service.constructor?.name || 'UnknownService';
+      try {
+        if (typeof service.dispose === 'function') {
+          this.logDebug(`Executing dispose() for ${serviceName}`);
+          await service.dispose();
+        } else if (typeof service.onShutdown === 'function') {
+          this.logDebug(`Executing onShutdown() for ${serviceName}`);
+          await service.onShutdown();
+        }
+      } catch (error: any) {
+        errors.push(error);
+      }
+    }
+
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+    if (errors.length > 1) {
+      throw new AggregateError(errors, `${errors.length} services failed to dispose.`);
+    }
+  }
+
   /**
    * Register a service for lazy initialization.
    *
@@ -425,6 +535,9 @@ export class ServiceManager {
       boot: options.boot,
       service,
     });
+    if (service !== null && typeof service === 'object') {
+      this.disposableServices.push(service);
+    }
     return this;
   }
 
@@ -484,6 +597,7 @@ export class ServiceManager {
           value.service = service;
           this.logDebug(`Injecting dependencies into ${identifierName}`);
           this.injectDependencies(serviceClass, service);
+          this.disposableServices.push(service);
 
           // Boot immediately if initialized and boot is true
           if (this.initialized && value.boot && service.boot) {
@@ -505,6 +619,13 @@ export class ServiceManager {
         return value.service;
       }
 
+      const scope = getServiceScope(identifier);
+
+      // Let the parent service manager resolve the singletons and the services it knows.
+      if (this.parent && (scope === 'singleton' || this.parent.has(identifier))) {
+        return this.parent.get(identifier as any, context);
+      }
+
       // Throw an error if the identifier is a string and no service was found in the map.
       if (typeof identifier === 'string') {
         throw new Error(`No service was found with the identifier "${identifier}".`);
@@ -516,6 +637,28 @@ export class ServiceManager {
         return this.get(concreteClass);
       }
 
+      if (scope === 'transient') {
+        this.logDebug(`Creating ${identifierName} (transient)`);
+        const [serviceClass, service] = this.instantiateService(identifier as Class);
+        this.injectDependencies(serviceClass, service);
+        return service;
+      }
+
+      if (scope === 'request') {
+        if (!this.parent) {
+          throw new Error(
+            `The request-scoped service ${identifierName} cannot be resolved outside of a scope. `
+            + 'Use "services.createScope()" to create one.'
+          );
+        }
+        this.logDebug(`Creating ${identifierName} (request-scoped)`);
+        const [serviceClass, service] = this.instantiateService(identifier as Class);
+        this.map.set(identifier, { boot: false, service });
+        this.injectDependencies(serviceClass, service);
+        this.disposableServices.push(service);
+        return service;
+      }
+
       // If the service has not been instantiated yet then do it.
       this.logInfo(`Creating ${identifierName} (first access)`);
       const [serviceClass, service] = this.instantiateService(identifier as Class|ServiceFactory<any>);
@@ -528,6 +671,7 @@ export class ServiceManager {
         boot: true,
         service,
       });
+      this.disposableServices.push(service);
 
       this.logDebug(`${identifierName} ready and cached`);
       return service;
@@ -537,6 +681,141 @@ export class ServiceManager {
     }
   }
 
+  /**
+   * Build the dependency graph of the application from the root controller, without
+   * instantiating the services.
+   *
+   * The graph is built from the `@dependency`, `@Dependency` and `@lazy` metadata. Sub-controllers
+   * are also included. Eager dependency cycles, which prevent the services from being
+   * instantiated, are listed in the `cycles` property.
+   *
+   * The `subControllers` property is defined in the controller instances. It is read from the
+   * controllers already instantiated by the service manager (for example by `createApp`). Otherwise,
+   * the controller constructor is called, without injecting any dependency nor registering the
+   * instance. Constructors with side effects should therefore not be used with this method before
+   * the application is created.
+   *
+   * @param {Class} rootClass - The root controller (usually `AppController`) or service.
+   * @returns {DependencyGraph} The dependency graph.
+   * @memberof ServiceManager
+   */
+  getDependencyGraph(rootClass: Class): DependencyGraph {
+    const nodes: DependencyGraphNode[] = [];
+    const edges: DependencyGraphEdge[] = [];
+    const unresolved: UnresolvedDependency[] = [];
+    const ids = new Map<string|ClassOrAbstractClass|ServiceFactory<any>, string>();
+
+    const queue: { id: string, target: Class, isController: boolean }[] = [];
+
+    const getId = (identifier: string|ClassOrAbstractClass|ServiceFactory<any>, isController: boolean): string => {
+      const existingId = ids.get(identifier);
+      if (existingId) {
+        return existingId;
+      }
+
+      const name = typeof identifier === 'string' ? identifier : this.getIdentifierName(identifier);
+      let id = name;
+      for (let i = 2; nodes.some(node => node.id === id); i++) {
+        id = `${name}#${i}`;
+      }
+      ids.set(identifier, id);
+
+      const target = this.getGraphTarget(identifier);
+      nodes.push({ id, name, scope: target ? getServiceScope(target) : 'singleton' });
+      if (target) {
+        queue.push({ id, isController, target });
+      }
+
+      return id;
+    };
+
+    getId(rootClass, true);
+
+    // Breadth-first traversal
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      const { id, isController, target } = item;
+
+      const dependencies: IDependency[] = Reflect.getMetadata('dependencies', target.prototype) || [];
+      for (const { propertyKey, serviceClassOrID } of dependencies) {
+        if (serviceClassOrID === undefined || serviceClassOrID === null) {
+          unresolved.push({ from: id, propertyKey });
+          continue;
+        }
+        edges.push({ from: id, propertyKey, to: getId(serviceClassOrID, false), type: 'dependency' });
+      }
+
+      const lazyDependencies: ILazyDependency[] = Reflect.getMetadata('lazyDependencies', target.prototype) || [];
+      for (const { propertyKey, serviceType } of lazyDependencies) {
+        if (serviceType === undefined || serviceType === null || serviceType === Object) {
+          unresolved.push({ from: id, propertyKey });
+          continue;
+        }
+        if (serviceType !== LazyService) {
+          edges.push({ from: id, propertyKey, to: getId(serviceType, false), type: 'lazy' });
+        }
+      }
+
+      if (isController) {
+        for (const subControllerClass of this.getSubControllers(target, id)) {
+          edges.push({
+            from: id,
+            propertyKey: 'subControllers',
+            to: getId(subControllerClass, true),
+            type: 'subController',
+          });
+        }
+      }
+    }
+
+    return new DependencyGraph(nodes, edges, unresolved);
+  }
+
+  private getSubControllers(controllerClass: Class, id: string): Class[] {
+    const value = this.map.get(controllerClass);
+    if (value) {
+      return value.service.subControllers || [];
+    }
+    try {
+      return new controllerClass().subControllers || [];
+    } catch (error: any) {
+      this.logDebug(`Unable to read the sub-controllers of ${id}: ${error.message}`);
+      return [];
+    }
+  }
+
+  private getGraphTarget(identifier: string|ClassOrAbstractClass|ServiceFactory<any>): Class|undefined {
+    if (identifier === ServiceManager) {
+      return undefined;
+    }
+
+    const value = this.map.get(identifier);
+    if (value) {
+      if (value.target) {
+        return value.target instanceof ServiceFactory ? undefined : value.target;
+      }
+      const constructor = value.service?.constructor;
+      return typeof constructor === 'function' && constructor !== Object ? constructor : undefined;
+    }
+
+    if (typeof identifier === 'string' || identifier instanceof ServiceFactory) {
+      return undefined;
+    }
+
+    if (identifier.hasOwnProperty('concreteClassConfigPath')) {
+      try {
+        return this.getConcreteClassFromConfig(identifier);
+      } catch (error: any) {
+        return identifier as Class;
+      }
+    }
+
+    return identifier as Class;
+  }
+
+  private has(identifier: string|ClassOrAbstractClass|ServiceFactory<any>): boolean {
+    return this.map.has(identifier) || (!!this.parent && this.parent.has(identifier));
+  }
+
   private instantiateService(target: Class|ServiceFactory<any>): [Class, any] {
     if (target instanceof ServiceFactory) {
       this.logDebug(`Invoking ServiceFactory.create()`);
@@ -565,6 +844,17 @@ export class ServiceManager {
           `  4. The dependency type is an interface (interfaces don't exist at runtime)`
         );
       }
+      if (
+        getServiceScope(serviceClass) === 'singleton'
+        && getServiceScope(dependency.serviceClassOrID) === 'request'
+        && !this.has(dependency.serviceClassOrID)
+      ) {
+        throw new Error(
+          `The singleton ${serviceClassName} cannot depend on the request-scoped service `
+          + `${this.getIdentifierName(dependency.serviceClassOrID)} (property "${dependency.propertyKey}"). `
+          + `Make ${serviceClassName} request-scoped or transient.`
+        );
+      }
       (service as any)[dependency.propertyKey] = this.get(
         dependency.serviceClassOrID as any,
         { parentClass: serviceClassName, propertyKey: dependency.propertyKey }
@@ -647,6 +937,10 @@ export class ServiceManager {
 
     let prettyConcreteClassPath: string | undefined;
 
+    const concreteClassAliases: Record<string, string> = cls.hasOwnProperty('concreteClassAliases') ?
+      (cls as any).concreteClassAliases :
+      {};
+
     if (concreteClassPath === 'local') {
       concreteClassPath = this.getProperty(
         cls,
@@ -654,6 +948,9 @@ export class ServiceManager {
         'string',
         `[CONFIG] ${cls.name} does not support the "local" option in ${concreteClassConfigPath}.`
       );
+    } else if (concreteClassAliases.hasOwnProperty(concreteClassPath)) {
+      prettyConcreteClassPath = concreteClassPath;
+      concreteClassPath = concreteClassAliases[concreteClassPath];
     } else if (concreteClassPath.startsWith('./')) {
       prettyConcreteClassPath = concreteClassPath;
       concreteClassPath = join(process.cwd(), 'build', concreteClassPath);
@@ -1,6 +1,7 @@
 // std
-import { deepStrictEqual, strictEqual } from 'assert';
+import { deepStrictEqual, rejects, strictEqual } from 'assert';
 import { Buffer } from 'buffer';
+import { Readable } from 'stream';
 
 // 3p
 import * as express from 'express';
@@ -10,14 +11,21 @@ import * as request from 'supertest';
 import { existsSync, mkdirSync, rmdirSync, unlinkSync, writeFileSync } from 'fs';
 import {
   All,
+  ApiInfo,
+  ApiResponse,
   Config,
+  ConfigValidationError,
   Context,
   Delete,
   dependency,
   Get,
   Head,
   Hook,
+  HttpAdapter,
+  HttpAdapterOptions,
   HttpResponseOK,
+  IApiSchema,
+  Injectable,
   OpenApi,
   Options,
   Patch,
@@ -26,104 +34,10 @@ import {
   ServiceManager,
   Logger,
 } from '../core';
-import { createApp, getHttpLogParamsDefault, OPENAPI_SERVICE_ID, calculateRouteSpecificity, sortRoutes } from './create-app';
+import { Cache, controller, Cors, SecurityHeaders } from '../common';
+import { createApp, getHttpLogParamsDefault, OPENAPI_SERVICE_ID } from './create-app';
 import { mock } from 'node:test';
 
-describe('calculateRouteSpecificity', () => {
-  it('should assign higher scores to static routes than dynamic routes.', () => {
-    const staticScore = calculateRouteSpecificity('/api/users');
-    const dynamicScore = calculateRouteSpecificity('/api/:id');
-
-    strictEqual(staticScore > dynamicScore, true);
-  });
-
-  it('should assign higher scores to routes with more static segments.', () => {
-    const threeStaticScore = calculateRouteSpecificity('/api/users/current');
-    const twoStaticScore = calculateRouteSpecificity('/api/users');
-    const oneStaticScore = calculateRouteSpecificity('/api');
-
-    strictEqual(threeStaticScore > twoStaticScore, true);
-    strictEqual(twoStaticScore > oneStaticScore, true);
-  });
-
-  it('should assign higher scores to static-heavy routes over dynamic-heavy routes.', () => {
-    const staticPlusDynamicScore = calculateRouteSpecificity('/api/users/:userId');
-    const twoParamsScore = calculateRouteSpecificity('/api/:resource/:id');
-
-    strictEqual(staticPlusDynamicScore > twoParamsScore, true);
-  });
-
-  it('should handle routes with only dynamic segments.', () => {
-    const oneDynamicScore = calculateRouteSpecificity('/:param');
-    const twoDynamicScore = calculateRouteSpecificity('/:resource/:id');
-
-    strictEqual(twoDynamicScore > oneDynamicScore, true);
-  });
-
-  it('should handle empty path segments correctly.', () => {
-    const score1 = calculateRouteSpecificity('/api/users/');
-    const score2 = calculateRouteSpecificity('/api/users');
-
-    strictEqual(score1, score2);
-  });
-});
-
-describe('sortRoutes', () => {
-  it('should sort routes by specificity with most specific first.', () => {
-    const routes = [
-      { route: { path: '/api/:id' } },
-      { route: { path: '/api/users/current' } },
-      { route: { path: '/api/users/:userId' } },
-      { route: { path: '/api/users' } },
-    ];
-
-    const sorted = sortRoutes([...routes]);
-
-    strictEqual(sorted[0].route.path, '/api/users/current');
-    strictEqual(sorted[1].route.path, '/api/users/:userId');
-    strictEqual(sorted[2].route.path, '/api/users');
-    strictEqual(sorted[3].route.path, '/api/:id');
-  });
-
-  it('should prioritize static routes over dynamic routes at the same depth.', () => {
-    const routes = [
-      { route: { path: '/mypath/:param' } },
-      { route: { path: '/mypath/static' } },
-    ];
-
-    const sorted = sortRoutes([...routes]);
-
-    strictEqual(sorted[0].route.path, '/mypath/static');
-    strictEqual(sorted[1].route.path, '/mypath/:param');
-  });
-
-  it('should handle complex mixed routes.', () => {
-    const routes = [
-      { route: { path: '/:param' } },
-      { route: { path: '/api/:resource/:id' } },
-      { route: { path: '/api/users' } },
-      { route: { path: '/api/users/:userId/posts/:postId' } },
-      { route: { path: '/api/users/:userId' } },
-      { route: { path: '/api/users/current/profile' } },
-    ];
-
-    const sorted = sortRoutes([...routes]);
-
-    // Most specific (4 static) should be first
-    strictEqual(sorted[0].route.path, '/api/users/current/profile');
-    // Then 3 static + 2 dynamic (5 total segments)
-    strictEqual(sorted[1].route.path, '/api/users/:userId/posts/:postId');
-    // Then 2 static + 1 dynamic (3 total segments)
-    strictEqual(sorted[2].route.path, '/api/users/:userId');
-    // Then 2 static (2 total segments)
-    strictEqual(sorted[3].route.path, '/api/users');
-    // Then 1 static + 2 dynamic (3 total segments)
-    strictEqual(sorted[4].route.path, '/api/:resource/:id');
-    // Least specific (1 dynamic) should be last
-    strictEqual(sorted[5].route.path, '/:param');
-  });
-});
-
 describe('getHttpLogParamsDefault', () => {
   context('the request has NOT been aborted', () => {
     it('should return the request and response parameters.', () => {
@@ -202,6 +116,9 @@ describe('createApp', () => {
     Config.remove('settings.logger.logHttpRequests');
     Config.remove('settings.logger.format');
     Config.remove('settings.staticFiles.cacheControl');
+    Config.remove('settings.security.headers.contentSecurityPolicy');
+    Config.remove('settings.security.headers.frameOptions');
+    Config.remove('settings.security.headers.referrerPolicy');
   });
 
   const cookieSecret = 'strong-secret';
@@ -226,6 +143,55 @@ describe('createApp', () => {
       .expect('X-Custom-Header', 'foobar');
   });
 
+  it('should include the security headers of the configuration in HTTP responses.', async () => {
+    Config.set('settings.security.headers.contentSecurityPolicy', `script-src 'self' 'nonce'`);
+    Config.set('settings.security.headers.frameOptions', false);
+    Config.set('settings.security.headers.referrerPolicy', 'no-referrer');
+
+    const nonces: string[] = [];
+
+    class AppController {
+      @Get('/')
+      index(ctx: Context<any, { cspNonce: string }>) {
+        nonces.push(ctx.state.cspNonce);
+        return new HttpResponseOK();
+      }
+    }
+    const app = await createApp(AppController);
+
+    const response = await request(app)
+      .get('/')
+      .expect('X-Content-Type-Options', 'nosniff')
+      .expect('Referrer-Policy', 'no-referrer');
+
+    strictEqual(response.headers['x-frame-options'], undefined);
+    strictEqual(typeof nonces[0], 'string');
+    strictEqual(response.headers['content-security-policy'], `script-src 'self' 'nonce-${nonces[0]}'`);
+
+    await request(app).get('/');
+    strictEqual(nonces[0] === nonces[1], false);
+  });
+
+  it('should not include the security headers disabled by a @SecurityHeaders hook.', async () => {
+    Config.set('settings.security.headers.referrerPolicy', 'no-referrer');
+
+    class AppController {
+      @Get('/')
+      @SecurityHeaders({ frameOptions: false, referrerPolicy: false })
+      index() {
+        return new HttpResponseOK();
+      }
+    }
+    const app = await createApp(AppController);
+
+    const response = await request(app)
+      .get('/')
+      .expect('X-Content-Type-Options', 'nosniff');
+
+    strictEqual(response.headers['x-frame-options'], undefined);
+    strictEqual(response.headers['referrer-policy'], undefined);
+  });
+
   it('should not include the X-Powered-By: Express header in HTTP responses.', async () => {
     class AppController {
       @Get('/')
@@ -710,6 +676,109 @@ describe('createApp', () => {
       .expect('bar');
   });
 
+  context('given options.adapter is defined', () => {
+
+    it('should return the application created by the adapter.', async () => {
+      const application = {};
+      const adapter: HttpAdapter = {
+        createApplication: () => application,
+      };
+
+      const app = await createApp(class {}, { adapter });
+
+      strictEqual(app, application);
+    });
+
+    it('should throw an error if Express options are also given.', async () => {
+      const adapter: HttpAdapter = {
+        createApplication: () => ({}),
+      };
+
+      await rejects(
+        () => createApp(class {}, { adapter, expressInstance: express(), preMiddlewares: [] }),
+        new Error(
+          '[createApp] The options "expressInstance", "preMiddlewares" are specific to Express '
+          + 'and cannot be used with a custom adapter.'
+        )
+      );
+    });
+
+    it('should pass the router, the service manager, the logger and the log params function to the adapter.', async () => {
+      let actualOptions: HttpAdapterOptions|undefined;
+      const adapter: HttpAdapter = {
+        createApplication: options => {
+          actualOptions = options;
+          return {};
+        },
+      };
+
+      class AppController {
+        @Get('/users/:id')
+        getUser() {}
+
+        @Post('/users/me')
+        postMe() {}
+      }
+
+      const serviceManager = new ServiceManager();
+      const getHttpLogParams = () => ({});
+
+      await createApp(AppController, { adapter, getHttpLogParams, serviceManager });
+
+      if (!actualOptions) {
+        throw new Error('The adapter should have been called.');
+      }
+      deepStrictEqual(
+        actualOptions.router.getRouteTable().map(route => `${route.httpMethod} ${route.path}`),
+        [ 'POST /users/me', 'GET /users/:id' ]
+      );
+      strictEqual(actualOptions.services, serviceManager);
+      strictEqual(actualOptions.logger, serviceManager.get(Logger));
+      strictEqual(actualOptions.getHttpLogParams, getHttpLogParams);
+    });
+
+    it('should pass route handlers that run the hooks and the controller method with a new context.', async () => {
+      let actualOptions: HttpAdapterOptions|undefined;
+      const adapter: HttpAdapter = {
+        createApplication: options => {
+          actualOptions = options;
+          return {};
+        },
+      };
+
+      class AppController {
+        @Get('/foo')
+        @Hook((ctx: Context<any, { foo?: string }>) => { ctx.state.foo = 'bar'; })
+        foo(ctx: Context) {
+          return new HttpResponseOK({
+            controllerMethodName: ctx.controllerMethodName,
+            controllerName: ctx.controllerName,
+            request: ctx.request,
+            state: ctx.state,
+          });
+        }
+      }
+
+      await createApp(AppController, { adapter });
+
+      const result = actualOptions?.router.lookup('GET', '/foo');
+      if (result?.status !== 'found') {
+        throw new Error('The route should have been found.');
+      }
+
+      const fakeRequest = { path: '/foo' };
+      const response = await result.value.handler(fakeRequest, new ServiceManager().createScope());
+
+      deepStrictEqual(response?.body, {
+        controllerMethodName: 'foo',
+        controllerName: 'AppController',
+        request: fakeRequest,
+        state: { foo: 'bar' },
+      });
+    });
+
+  });
+
   it('should manually inject the OpenAPI service with a special ID string.', async () => {
     class AppController {}
 
@@ -1277,4 +1346,521 @@ describe('createApp', () => {
       .expect(200)
       .expect({ type: 'dynamic-main', resource: 'posts', action: 'create' });
   });
+
+  it('should return 405 "Method Not Allowed" with an Allow header if the path matches but not the method.', async () => {
+    class AppController {
+      @Get('/users/:id')
+      getUser() {
+        return new HttpResponseOK();
+      }
+
+      @Delete('/users/:id')
+      deleteUser() {
+        return new HttpResponseOK();
+      }
+    }
+
+    const app = await createApp(AppController);
+
+    await request(app)
+      .post('/users/1')
+      .expect(405)
+      .expect('Allow', 'DELETE, GET, HEAD');
+  });
+
+  it('should support parameter constraints and wildcards in the paths.', async () => {
+    class AppController {
+      @Get('/users/:id(\\d+)')
+      getUserById(ctx: Context) {
+        return new HttpResponseOK({ id: ctx.request.params.id });
+      }
+
+      @Get('/users/:name')
+      getUserByName(ctx: Context) {
+        return new HttpResponseOK({ name: ctx.request.params.name });
+      }
+
+      @Get('/files/*path')
+      getFile(ctx: Context) {
+        return new HttpResponseOK({ path: ctx.request.params.path });
+      }
+    }
+
+    const app = await createApp(AppController);
+
+    await request(app).get('/users/42').expect(200, { id: '42' });
+    await request(app).get('/users/john').expect(200, { name: 'john' });
+    await request(app).get('/files/images/logo.png').expect(200, { path: 'images/logo.png' });
+  });
+
+  it('should make the router available from the express instance.', async () => {
+    class AppController {
+      @Get('/foo')
+      foo() {
+        return new HttpResponseOK();
+      }
+    }
+
+    const app = await createApp(AppController);
+
+    deepStrictEqual(
+      app.foal.router.getRouteTable().map((route: any) => `${route.httpMethod} ${route.path}`),
+      [ 'GET /foo' ]
+    );
+  });
+
+  it('should create a service scope per request and dispose it after the response is computed.', async () => {
+    let disposeCount = 0;
+
+    @Injectable({ scope: 'request' })
+    class RequestContext {
+      userAgent: string;
+
+      dispose() {
+        disposeCount++;
+      }
+    }
+
+    class AppController {
+      @Get('/')
+      @Hook((ctx, services) => {
+        services.get(RequestContext).userAgent = ctx.request.get('User-Agent') as string;
+      })
+      index(ctx: Context) {
+        return new HttpResponseOK({
+          sameScope: ctx.services?.get(RequestContext) === ctx.services?.get(RequestContext),
+          userAgent: ctx.services?.get(RequestContext).userAgent,
+        });
+      }
+    }
+
+    const app = await createApp(AppController);
+
+    await request(app).get('/').set('User-Agent', 'foo').expect(200, { sameScope: true, userAgent: 'foo' });
+    await request(app).get('/').set('User-Agent', 'bar').expect(200, { sameScope: true, userAgent: 'bar' });
+    strictEqual(disposeCount, 2);
+  });
+
+  it('should dispose the service scope only once a streamed response has been sent.', async () => {
+    let disposed = false;
+
+    @Injectable({ scope: 'request' })
+    class RequestContext {
+      dispose() {
+        disposed = true;
+      }
+    }
+
+    class AppController {
+      @Get('/')
+      index(ctx: Context) {
+        ctx.services?.get(RequestContext);
+        const stream = new Readable({ read() {} });
+        setTimeout(() => {
+          stream.push(disposed ? 'disposed' : 'not disposed');
+          stream.push(null);
+        }, 10);
+        return new HttpResponseOK(stream, { stream: true });
+      }
+    }
+
+    const app = await createApp(AppController);
+
+    await request(app).get('/').expect(200, 'not disposed');
+    strictEqual(disposed, true);
+  });
+
+  it('should validate the configuration against the configSchema option before creating the application.', async () => {
+    let controllerCreated = false;
+
+    class AppController {
+      constructor() {
+        controllerCreated = true;
+      }
+    }
+
+    Config.set('settings.port', 'abc');
+
+    try {
+      await createApp(AppController, {
+        configSchema: {
+          properties: {
+            settings: {
+              properties: {
+                port: { type: 'number' },
+                secret: { type: 'string' },
+              },
+              required: [ 'secret' ],
+              type: 'object',
+            }
+          },
+          type: 'object',
+        }
+      });
+      throw new Error('An error should have been thrown.');
+    } catch (error: any) {
+      if (!(error instanceof ConfigValidationError)) {
+        throw error;
+      }
+      deepStrictEqual(error.issues, [
+        { key: 'settings.secret', message: 'is required' },
+        { key: 'settings.port', message: 'must be number' },
+      ]);
+    } finally {
+      Config.setSchema(undefined);
+      Config.remove('settings.port');
+    }
+
+    strictEqual(controllerCreated, false);
+  });
+
+  it('should not use the configSchema option of a previously created application.', async () => {
+    try {
+      await createApp(class {}, {
+        configSchema: {
+          properties: {
+            settings: {
+              properties: { port: { type: 'number' } },
+              type: 'object',
+            }
+          },
+          type: 'object',
+        }
+      });
+      Config.set('settings.port', 'abc');
+      await createApp(class {});
+      Config.validate();
+    } finally {
+      Config.setSchema(undefined);
+      Config.remove('settings.port');
+    }
+  });
+
+  context('given CORS is enabled', () => {
+
+    afterEach(() => {
+      Config.remove('settings.cors.origin');
+      Config.remove('settings.cors.maxAge');
+      Config.remove('settings.cors.credentials');
+    });
+
+    it('should answer the preflight requests of the routes with a @Cors hook.', async () => {
+      @Cors({ origin: 'https://example.com' })
+      class ApiController {
+        @Get('/products/:id')
+        getProduct() {
+          return new HttpResponseOK();
+        }
+        @Put('/products/:id')
+        @Cors({ allowedHeaders: [ 'Content-Type' ], maxAge: 600, origin: 'https://example.com' })
+        updateProduct() {
+          return new HttpResponseOK();
+        }
+      }
+
+      class AppController {
+        subControllers = [ ApiController ];
+
+        @Get('/users')
+        getUsers() {
+          return new HttpResponseOK();
+        }
+      }
+
+      const app = await createApp(AppController);
+
+      await request(app)
+        .options('/products/1')
+        .set('Origin', 'https://example.com')
+        .set('Access-Control-Request-Method', 'PUT')
+        .expect(204)
+        .expect('Access-Control-Allow-Origin', 'https://example.com')
+        .expect('Access-Control-Allow-Methods', 'GET, PUT');
+
+      await request(app)
+        .get('/products/1')
+        .set('Origin', 'https://example.com')
+        .expect(200)
+        .expect('Access-Control-Allow-Origin', 'https://example.com')
+        .expect('Vary', 'Origin');
+
+      await request(app)
+        .get('/products/1')
+        .set('Origin', 'https://foalts.org')
+        .expect(200)
+        .then(response => strictEqual(response.headers['access-control-allow-origin'], undefined));
+
+      // Routes without @Cors are not CORS-enabled.
+      await request(app)
+        .options('/users')
+        .set('Origin', 'https://example.com')
+        .expect(405);
+    });
+
+    it('should answer the preflight requests and add the CORS headers of all routes if settings.cors is defined.',
+      async () => {
+        Config.set('settings.cors.origin', '*');
+        Config.set('settings.cors.maxAge', 600);
+
+        class AppController {
+          @Get('/users')
+          getUsers() {
+            return new HttpResponseOK();
+          }
+          @Post('/users')
+          createUser() {
+            return new HttpResponseOK();
+          }
+          @Options('/products')
+          optionsProducts() {
+            return new HttpResponseOK('options');
+          }
+        }
+
+        const app = await createApp(AppController);
+
+        await request(app)
+          .options('/users')
+          .set('Origin', 'https://example.com')
+          .set('Access-Control-Request-Headers', 'Content-Type')
+          .expect(204)
+          .expect('Access-Control-Allow-Origin', '*')
+          .expect('Access-Control-Allow-Methods', 'GET, POST')
+          .expect('Access-Control-Allow-Headers', 'Content-Type')
+          .expect('Access-Control-Max-Age', '600');
+
+        await request(app)
+          .post('/users')
+          .set('Origin', 'https://example.com')
+          .expect(200)
+          .expect('Access-Control-Allow-Origin', '*');
+
+        // Existing OPTIONS routes are not replaced.
+        await request(app)
+          .options('/products')
+          .expect(200)
+          .expect('options');
+      }
+    );
+
+    it('should add the CORS headers of settings.cors to the 404 and 405 responses.', async () => {
+      Config.set('settings.cors.origin', 'https://example.com');
+
+      class AppController {
+        @Get('/users')
+        getUsers() {
+          return new HttpResponseOK();
+        }
+      }
+
+      const app = await createApp(AppController);
+
+      await request(app)
+        .get('/foo')
+        .set('Origin', 'https://example.com')
+        .expect(404)
+        .expect('Access-Control-Allow-Origin', 'https://example.com');
+
+      await request(app)
+        .delete('/users')
+        .set('Origin', 'https://example.com')
+        .expect(405)
+        .expect('Access-Control-Allow-Origin', 'https://example.com');
+    });
+
+    it('should throw a CorsConfigError if credentials are allowed for all origins.', async () => {
+      class AppController {
+        @Get('/users')
+        @Cors({ credentials: true })
+        getUsers() {}
+      }
+
+      await rejects(() => createApp(AppController), (error: any) => {
+        strictEqual(error.name, 'CorsConfigError');
+        return true;
+      });
+
+      Config.set('settings.cors.origin', 'https://example.com');
+      await createApp(AppController);
+
+      Config.set('settings.cors.credentials', true);
+      Config.set('settings.cors.origin', '*');
+      await rejects(() => createApp(class {}), (error: any) => {
+        strictEqual(error.name, 'CorsConfigError');
+        return true;
+      });
+    });
+
+    it('should add the CORS headers of the route to the cached responses.', async () => {
+      @Cache({ ttl: 60 })
+      class AppController {
+        @Get('/products')
+        @Cors({ origin: [ 'https://example.com', 'https://foalts.org' ] })
+        getProducts() {
+          return new HttpResponseOK([]);
+        }
+      }
+
+      const app = await createApp(AppController);
+
+      await request(app)
+        .get('/products')
+        .set('Origin', 'https://example.com')
+        .expect(200)
+        .expect('Access-Control-Allow-Origin', 'https://example.com')
+        .expect('Vary', 'Origin');
+
+      await request(app)
+        .get('/products')
+        .set('Origin', 'https://foalts.org')
+        .expect(200)
+        .expect('Access-Control-Allow-Origin', 'https://foalts.org')
+        .expect('Vary', 'Origin');
+
+      const response = await request(app)
+        .get('/products')
+        .set('Origin', 'https://evil.com')
+        .expect(200);
+      strictEqual(response.headers['access-control-allow-origin'], undefined);
+    });
+
+    it('should document the CORS headers in the OpenAPI documents.', async () => {
+      Config.set('settings.cors.origin', 'https://example.com');
+
+      @ApiInfo({ title: 'My API', version: '1.0.0' })
+      class ApiController {
+        @Get('/users')
+        @ApiResponse(200, { description: 'Success' })
+        getUsers() {}
+      }
+
+      class AppController {
+        subControllers = [
+          controller('/api', ApiController),
+        ];
+      }
+
+      const services = new ServiceManager();
+      await createApp(AppController, { serviceManager: services });
+
+      deepStrictEqual(services.get(OpenApi).getDocument(ApiController).paths['/users'].get?.responses, {
+        200: {
+          description: 'Success',
+          headers: {
+            'Access-Control-Allow-Origin': {
+              description: 'Origin allowed to read the response.',
+              schema: { type: 'string' },
+            },
+          },
+        },
+      });
+    });
+
+  });
+
+  context('given the configuration "settings.etag" is true', () => {
+
+    beforeEach(() => Config.set('settings.etag', true));
+
+    afterEach(() => Config.remove('settings.etag'));
+
+    it('should add ETags to the JSON responses and return 304 responses to matching conditional requests.',
+      async () => {
+        class AppController {
+          @Get('/products')
+          getProducts() {
+            return new HttpResponseOK([ { id: 1 } ]);
+          }
+        }
+
+        const app = await createApp(AppController);
+
+        const response = await request(app)
+          .get('/products')
+          .expect(200);
+        const etag = response.headers.etag;
+        strictEqual(etag.startsWith('W/"'), true);
+
+        await request(app)
+          .get('/products')
+          .set('If-None-Match', etag)
+          .expect(304)
+          .expect('ETag', etag);
+      }
+    );
+
+  });
+
+  context('given the configuration "settings.openapi.validateResponses" is true', () => {
+
+    beforeEach(() => Config.set('settings.openapi.validateResponses', true));
+
+    afterEach(() => Config.remove('settings.openapi.validateResponses'));
+
+    it('should validate the response bodies against the schemas of the @ApiResponse decorators.', async () => {
+      const schema: IApiSchema = { properties: { id: { type: 'integer' } }, type: 'object' };
+
+      class AppController {
+        @Get('/users/1')
+        @ApiResponse(200, { content: { 'application/json': { schema } }, description: 'OK' })
+        getUser() {
+          return new HttpResponseOK({ id: 1, password: 'secret' });
+        }
+
+        @Get('/users/2')
+        @ApiResponse(200, { content: { 'application/json': { schema } }, description: 'OK' })
+        getInvalidUser() {
+          return new HttpResponseOK({ id: 'a' });
+        }
+      }
+
+      const services = new ServiceManager();
+      const errorMock = mock.method(services.get(Logger), 'error', () => {}).mock;
+      const app = await createApp(AppController, { serviceManager: services });
+
+      await request(app)
+        .get('/users/1')
+        .expect(200, { id: 1 });
+      await request(app)
+        .get('/users/2')
+        .expect(500);
+      strictEqual(errorMock.callCount(), 1);
+      strictEqual(errorMock.calls[0].arguments[0]?.startsWith('The body of the response (status 200)'), true);
+    });
+
+  });
+
+  context('given the configuration "settings.compression.enabled" is true', () => {
+
+    beforeEach(() => {
+      Config.set('settings.compression.enabled', true);
+      Config.set('settings.compression.threshold', 10);
+    });
+
+    afterEach(() => {
+      Config.remove('settings.compression.enabled');
+      Config.remove('settings.compression.threshold');
+    });
+
+    it('should compress the responses.', async () => {
+      class AppController {
+        @Get('/products')
+        getProducts() {
+          return new HttpResponseOK([ { id: 1, name: 'foo' } ]);
+        }
+      }
+
+      const app = await createApp(AppController);
+
+      const response = await request(app)
+        .get('/products')
+        .set('Accept-Encoding', 'gzip')
+        .expect(200)
+        .expect('Content-Encoding', 'gzip')
+        .expect('Vary', 'Accept-Encoding');
+
+      deepStrictEqual(response.body, [ { id: 1, name: 'foo' } ]);
+    });
+
+  });
 });
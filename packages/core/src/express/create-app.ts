@@ -1,57 +1,43 @@
-// std
-import { randomUUID } from 'node:crypto';
-
-// 3p
-import * as cookieParser from 'cookie-parser';
-import * as express from 'express';
-import * as morgan from 'morgan';
-
 // FoalTS
+import {
+  addCorsOpenApiHeaders,
+  CorsOptions,
+  getConditionalResponse,
+  getCorsConfig,
+  getCorsHeaders,
+  getCorsPreflightHeaders,
+  getRouteCorsOptions,
+  hasCorsHeaders,
+  setCorsHeaders,
+  setETag,
+  validateCorsOptions,
+  ValidateResponse,
+} from '../common';
 import {
   Class,
   Config,
   Context,
+  getHookFunction,
   getResponse,
+  HttpAdapter,
+  HttpAdapterRoute,
+  HttpResponseNoContent,
   IAppController,
   makeControllerRoutes,
   OpenApi,
+  Router,
   ServiceManager,
-  httpRequestMessagePrefix,
   Logger,
 } from '../core';
-import { sendResponse } from './send-response';
+import { ExpressAdapter, ExpressAdapterOptions } from './express-adapter';
 
 export const OPENAPI_SERVICE_ID = 'OPENAPI_SERVICE_ID_a5NWKbBNBxVVZ';
 
-type Middleware = (req: any, res: any, next: (err?: any) => any) => any;
-type ErrorMiddleware = (err: any, req: any, res: any, next: (err?: any) => any) => any;
-
-export interface CreateAppOptions {
-  expressInstance?: any;
+export interface CreateAppOptions extends ExpressAdapterOptions {
+  adapter?: HttpAdapter;
+  configSchema?: object;
   serviceManager?: ServiceManager;
   getHttpLogParams?: (tokens: any, req: any, res: any) => Record<string, any>;
-  preMiddlewares?: (Middleware|ErrorMiddleware)[];
-  afterPreMiddlewares?: (Middleware|ErrorMiddleware)[];
-  postMiddlewares?: (Middleware|ErrorMiddleware)[];
-}
-
-function handleJsonErrors(err: any, req: any, res: any, next: (err?: any) => any) {
-  if (err.type !== 'entity.parse.failed') {
-    next(err);
-    return;
-  }
-  res.status(err.status).send({
-    body: err.body,
-    message: err.message
-  });
-}
-
-function protectionHeaders(req: any, res: any, next: (err?: any) => any) {
-  res.removeHeader('X-Powered-By');
-  res.setHeader('X-Content-Type-Options', 'nosniff');
-  res.setHeader('X-Frame-Options', 'SAMEORIGIN');
-  res.setHeader('Strict-Transport-Security', 'max-age=31536000; includeSubDomains');
-  next();
 }
 
 export function getHttpLogParamsDefault(tokens: any, req: any, res: any): Record<string, any> {
@@ -68,86 +54,21 @@ export function getHttpLogParamsDefault(tokens: any, req: any, res: any): Record
   };
 }
 
-// Route specificity scoring constants
-const STATIC_SEGMENT_WEIGHT = 100000000000; // 100 billion per static segment (primary factor)
-const PATH_LENGTH_WEIGHT = 100000;           // Weight for total path length (secondary factor)
-const POSITION_BASE = 100;                   // Base for position-weighted scoring (tertiary factor)
-
 /**
- * Calculate the specificity score of a route path.
- * Higher scores indicate more specific routes that should be registered first.
- * Static segments score higher than dynamic parameters.
+ * Create an application from the root controller.
  *
- * @export
- * @param {string} path - The route path
- * @returns {number} The specificity score
- */
-export function calculateRouteSpecificity(path: string): number {
-  const segments = path.split('/').filter(s => s.length > 0);
-  let staticCount = 0;
-  let positionScore = 0;
-
-  // Pre-calculate powers for efficiency
-  const powers = new Array(segments.length + 1);
-  for (let i = 0; i <= segments.length; i++) {
-    powers[i] = Math.pow(POSITION_BASE, i);
-  }
-
-  // Count static segments and calculate position-weighted score
-  for (let i = 0; i < segments.length; i++) {
-    const segment = segments[i];
-
-    if (!segment.startsWith(':')) {
-      staticCount++;
-      // Earlier static segments are weighted more heavily
-      positionScore += powers[segments.length - i];
-    }
-  }
-
-  // Primary sort: number of static segments (more is better)
-  // Use a very large multiplier to ensure static count dominates
-  // Secondary sort: total length (longer is better)
-  // Tertiary sort: position of static segments (earlier is better)
-  const score =
-    staticCount * STATIC_SEGMENT_WEIGHT +
-    segments.length * PATH_LENGTH_WEIGHT +
-    positionScore;
-
-  return score;
-}
-
-// Internal type for route objects with necessary structure for sorting
-interface RouteWithPath {
-  route: {
-    path: string;
-  };
-}
-
-/**
- * Sort routes to ensure static routes are registered before dynamic routes.
- * This prevents dynamic routes from shadowing static routes in Express.
- *
- * @export
- * @param {RouteWithPath[]} routes - Array of route objects
- * @returns {RouteWithPath[]} Sorted array of route objects
- */
-export function sortRoutes<T extends RouteWithPath>(routes: T[]): T[] {
-  return routes.sort((a, b) => {
-    const scoreA = calculateRouteSpecificity(a.route.path);
-    const scoreB = calculateRouteSpecificity(b.route.path);
-
-    // Higher scores (more specific) should come first
-    return scoreB - scoreA;
-  });
-}
-
-/**
- * Create an Express application from the root controller.
+ * By default, the application is an Express application. Another HTTP layer can be used
+ * by passing an adapter (for example `NodeHttpAdapter`).
  *
  * @export
  * @param {Class<IAppController>} AppController - The root controller, usually called `AppController`
  * and located in `src/app`.
  * @param {CreateAppOptions} [options] - Options containaining Express middlewares or other settings.
+ * @param {HttpAdapter} [options.adapter] - HTTP adapter used to build the application. If none is
+ * provided, an ExpressAdapter is created from the Express options below, which cannot be combined with an adapter.
+ * @param {object} [options.configSchema] - JSON Schema of the configuration. If provided, the configuration
+ * is validated at startup and a ConfigValidationError listing all the violations is thrown if it is invalid.
+ * The schema is registered with `Config.setSchema` until another application is created.
  * @param {any} [options.expressInstance] - Express instance to be used as base for the
  * returned application.
  * @param {boolean} [options.methods.handleError] - Specifies if AppController.handleError should be
@@ -158,116 +79,121 @@ export function sortRoutes<T extends RouteWithPath>(routes: T[]): T[] {
  * middlewares to be executed before the controllers and hooks.
  * @param {(RequestHandler | ErrorRequestHandler)[]} [options.postMiddlewares] Express
  * middlewares to be executed after the controllers and hooks, but before the 500 or 404 handler get called.
- * @returns {Promise<any>} The express application.
+ * @throws {CorsConfigError} If the CORS options of the configuration or of a @Cors hook allow credentials
+ * for all origins.
+ * @returns {Promise<any>} The application returned by the adapter.
  */
 export async function createApp(
   AppController: Class<IAppController>,
   options: CreateAppOptions = {},
 ): Promise<any> {
-  const app = options.expressInstance || express();
-
-  // Add optional pre-middlewares.
-  for (const middleware of options.preMiddlewares || []) {
-    app.use(middleware);
+  // Validate the configuration before anything else is created. The schema of a previously
+  // created application is replaced (or removed) so that it does not leak into this one.
+  Config.setSchema(options.configSchema);
+  Config.validate();
+
+  if (options.adapter) {
+    const expressOptions = [ 'expressInstance', 'preMiddlewares', 'afterPreMiddlewares', 'postMiddlewares' ]
+      .filter(key => (options as any)[key] !== undefined);
+    if (expressOptions.length > 0) {
+      throw new Error(
+        `[createApp] The options ${expressOptions.map(key => `"${key}"`).join(', ')} are specific to Express `
+        + 'and cannot be used with a custom adapter.'
+      );
+    }
   }
+  const adapter = options.adapter || new ExpressAdapter(options);
 
   // Create the service and controller manager.
   const services = options.serviceManager || new ServiceManager();
-  app.foal = { services };
 
   // Retrieve the logger.
   const logger = services.get(Logger);
 
-  // Allow to add log context.
-  app.use((req: any, res: any, next: (err?: any) => any) => {
-    logger.initLogContext(next);
-  });
-
-  // Generate a unique ID for each request.
-  app.use((req: any, res: any, next: (err?: any) => any) => {
-    const requestId = req.get('x-request-id') || randomUUID();
-
-    req.id = requestId;
-    logger.addLogContext({ requestId });
-
-    next();
-  });
-
-  // Log requests.
-  const shouldLogHttpRequests = Config.get('settings.logger.logHttpRequests', 'boolean', true);
-  if (shouldLogHttpRequests) {
-    const getHttpLogParams = options.getHttpLogParams || getHttpLogParamsDefault;
-    app.use(morgan(
-      (tokens: any, req: any, res: any) => JSON.stringify(getHttpLogParams(tokens, req, res)),
-      {
-        stream: {
-          write: (message: string) => {
-            const data = JSON.parse(message);
-            logger.info(`${httpRequestMessagePrefix}${data.method} ${data.url}`, data);
-          },
-        },
-      }
-    ))
-  }
-
-  app.use(protectionHeaders);
-
-  // Serve static files.
-  app.use(
-    Config.get('settings.staticPathPrefix', 'string', ''),
-    express.static(Config.get('settings.staticPath', 'string', 'public'), {
-      cacheControl: Config.get('settings.staticFiles.cacheControl', 'boolean')
-    })
-  );
-
-  // Parse request body.
-  const limit = Config.get('settings.bodyParser.limit', 'number|string');
-  app.use(express.json({ limit }));
-  app.use(handleJsonErrors);
-  app.use(express.urlencoded({ extended: false, limit }));
-  app.use(express.text({ type: ['text/*', 'application/graphql', 'application/xml'], limit }));
-
-  // Parse cookies.
-  app.use(cookieParser(Config.get('settings.cookieParser.secret', 'string')));
-
-  // Add optional after pre-middlewares.
-  for (const middleware of options.afterPreMiddlewares || []) {
-    app.use(middleware);
-  }
-
   // Inject the OpenAPI service with an ID string to avoid duplicated singletons
   // across several npm packages.
   services.set(OPENAPI_SERVICE_ID, services.get(OpenApi));
+  services.get(OpenApi).addOperationHook(addCorsOpenApiHeaders);
 
   // Retrieve the AppController instance.
   const appController = services.get<IAppController>(AppController);
 
-  // Resolve the controllers and hooks and add them to the express instance.
-  const routes = Array.from(makeControllerRoutes(AppController, services));
-  const sortedRoutes = sortRoutes(routes);
-
-  for (const { route } of sortedRoutes) {
-    app[route.httpMethod.toLowerCase()](route.path, async (req: any, res: any, next: (err?: any) => any) => {
-      try {
-        const ctx = new Context(req, route.controller.constructor.name, route.propertyKey);
-        // TODO: better test this line.
-        const response = await getResponse(route, ctx, services, appController);
-        sendResponse(response, res, logger);
-      } catch (error: any) {
-        // This try/catch will never be called: the `getResponse` function catches any errors
-        // thrown or rejected in the application and converts it into a response.
-        // However, for more security, this line has been added to avoid crashing the server
-        // in case the function is badly implemented.
-        next(error);
-      }
+  // Resolve the controllers and hooks and register them in the router.
+  const router = new Router<HttpAdapterRoute>();
+  const corsConfig = getCorsConfig();
+  if (corsConfig) {
+    validateCorsOptions(corsConfig);
+  }
+  const etag = Config.get('settings.etag', 'boolean', false);
+  const validateResponses = Config.get('settings.openapi.validateResponses', 'boolean', false);
+  const pathMethods = new Map<string, string[]>();
+  const pathCors = new Map<string, CorsOptions>();
+  for (const { route, controllerClasses } of makeControllerRoutes(AppController, services)) {
+    // The options of the closest @Cors hook are merged with the configuration.
+    const routeCors = getRouteCorsOptions(controllerClasses, route.propertyKey);
+    const cors = routeCors ? { ...corsConfig, ...routeCors } : corsConfig;
+    if (cors) {
+      validateCorsOptions(cors);
+    }
+    if (validateResponses) {
+      // The post function of the first hook is executed last.
+      route.hooks.unshift(getHookFunction(ValidateResponse()).bind(route.controller));
+    }
+    router.add(route.httpMethod, route.path, {
+      handler: async (request: any, scope: ServiceManager) => {
+        const ctx = new Context(request, route.controller.constructor.name, route.propertyKey);
+        ctx.services = scope;
+        if (request.cspNonce) {
+          // Nonce generated by the adapter for the Content-Security-Policy header.
+          Object.assign(ctx.state, { cspNonce: request.cspNonce });
+        }
+        const response = await getResponse(route, ctx, scope, appController);
+        // The headers are usually set by the @Cors hook of the route, if any. They are not
+        // when a response is returned before the hook is executed (ex: a cached response).
+        if (cors && !hasCorsHeaders(response)) {
+          setCorsHeaders(response, getCorsHeaders(cors, request.get('Origin')));
+        }
+        if (etag) {
+          setETag(response, { jsonOnly: true });
+        }
+        return getConditionalResponse(request, response);
+      },
+      httpMethod: route.httpMethod,
+      path: route.path,
     });
+
+    pathMethods.set(route.path, (pathMethods.get(route.path) || []).concat(route.httpMethod));
+    if (cors && !pathCors.has(route.path)) {
+      pathCors.set(route.path, cors);
+    }
   }
 
-  // Add optional post-middlewares.
-  for (const middleware of options.postMiddlewares || []) {
-    app.use(middleware);
+  // Answer the preflight requests of the CORS-enabled paths, unless an OPTIONS route is already defined.
+  for (const [ path, cors ] of pathCors) {
+    const methods = pathMethods.get(path) || [];
+    if (methods.includes('OPTIONS') || methods.includes('ALL')) {
+      continue;
+    }
+    router.add('OPTIONS', path, {
+      handler: async (request: any) => {
+        const response = new HttpResponseNoContent();
+        setCorsHeaders(response, getCorsPreflightHeaders(
+          cors, request.get('Origin'), request.get('Access-Control-Request-Headers'), methods
+        ));
+        return response;
+      },
+      httpMethod: 'OPTIONS',
+      path,
+    });
   }
 
+  const app = adapter.createApplication({
+    getHttpLogParams: options.getHttpLogParams || getHttpLogParamsDefault,
+    logger,
+    router,
+    services,
+  });
+
   await services.boot();
 
   if (appController.init) {
@@ -0,0 +1,198 @@
+// std
+import { randomUUID } from 'node:crypto';
+
+// 3p
+import * as cookieParser from 'cookie-parser';
+import * as express from 'express';
+import * as morgan from 'morgan';
+
+// FoalTS
+import {
+  createSecurityHeadersSetter,
+  disposeScopeOnFinish,
+  getCompressionConfig,
+  getCorsConfig,
+  getCorsHeaders,
+  getSecurityHeadersConfig,
+  setCorsHeaders,
+} from '../common';
+import {
+  Config,
+  HttpAdapter,
+  HttpAdapterOptions,
+  httpRequestMessagePrefix,
+  HttpResponseMethodNotAllowed,
+} from '../core';
+import { sendResponse } from './send-response';
+
+type Middleware = (req: any, res: any, next: (err?: any) => any) => any;
+type ErrorMiddleware = (err: any, req: any, res: any, next: (err?: any) => any) => any;
+
+export interface ExpressAdapterOptions {
+  expressInstance?: any;
+  preMiddlewares?: (Middleware|ErrorMiddleware)[];
+  afterPreMiddlewares?: (Middleware|ErrorMiddleware)[];
+  postMiddlewares?: (Middleware|ErrorMiddleware)[];
+}
+
+function handleJsonErrors(err: any, req: any, res: any, next: (err?: any) => any) {
+  if (err.type !== 'entity.parse.failed') {
+    next(err);
+    return;
+  }
+  res.status(err.status).send({
+    body: err.body,
+    message: err.message
+  });
+}
+
+function protectionHeaders(): Middleware {
+  const setSecurityHeaders = createSecurityHeadersSetter(getSecurityHeadersConfig());
+  return (req: any, res: any, next: (err?: any) => any) => {
+    res.removeHeader('X-Powered-By');
+    setSecurityHeaders(req, res);
+    next();
+  };
+}
+
+/**
+ * HTTP adapter building an Express application. This is the default adapter of `createApp`.
+ *
+ * @export
+ * @class ExpressAdapter
+ * @implements {HttpAdapter}
+ */
+export class ExpressAdapter implements HttpAdapter {
+
+  /**
+   * Create an instance of ExpressAdapter.
+   *
+   * @param {ExpressAdapterOptions} [options={}] - Adapter options.
+   * @param {any} [options.expressInstance] - Express instance to be used as base for the
+   * returned application.
+   * @param {(RequestHandler | ErrorRequestHandler)[]} [options.preMiddlewares] Express
+   * middlewares to be executed before the controllers and hooks.
+   * @param {(RequestHandler | ErrorRequestHandler)[]} [options.afterPreMiddlewares] Express
+   * middlewares to be executed after the Foal middlewares (body and cookie parsing, etc).
+   * @param {(RequestHandler | ErrorRequestHandler)[]} [options.postMiddlewares] Express
+   * middlewares to be executed after the controllers and hooks, but before the 500 or 404 handler get called.
+   * @memberof ExpressAdapter
+   */
+  constructor(private readonly options: ExpressAdapterOptions = {}) {}
+
+  createApplication({ router, services, logger, getHttpLogParams }: HttpAdapterOptions): any {
+    const app = this.options.expressInstance || express();
+
+    // Add optional pre-middlewares.
+    for (const middleware of this.options.preMiddlewares || []) {
+      app.use(middleware);
+    }
+
+    app.foal = { router, services };
+
+    // Allow to add log context.
+    app.use((req: any, res: any, next: (err?: any) => any) => {
+      logger.initLogContext(next);
+    });
+
+    // Generate a unique ID for each request.
+    app.use((req: any, res: any, next: (err?: any) => any) => {
+      const requestId = req.get('x-request-id') || randomUUID();
+
+      req.id = requestId;
+      logger.addLogContext({ requestId });
+
+      next();
+    });
+
+    // Log requests.
+    const shouldLogHttpRequests = Config.get('settings.logger.logHttpRequests', 'boolean', true);
+    if (shouldLogHttpRequests) {
+      app.use(morgan(
+        (tokens: any, req: any, res: any) => JSON.stringify(getHttpLogParams(tokens, req, res)),
+        {
+          stream: {
+            write: (message: string) => {
+              const data = JSON.parse(message);
+              logger.info(`${httpRequestMessagePrefix}${data.method} ${data.url}`, data);
+            },
+          },
+        }
+      ))
+    }
+
+    app.use(protectionHeaders());
+
+    // Serve static files.
+    app.use(
+      Config.get('settings.staticPathPrefix', 'string', ''),
+      express.static(Config.get('settings.staticPath', 'string', 'public'), {
+        cacheControl: Config.get('settings.staticFiles.cacheControl', 'boolean')
+      })
+    );
+
+    // Parse request body.
+    const limit = Config.get('settings.bodyParser.limit', 'number|string');
+    app.use(express.json({ limit }));
+    app.use(handleJsonErrors);
+    app.use(express.urlencoded({ extended: false, limit }));
+    app.use(express.text({ type: ['text/*', 'application/graphql', 'application/xml'], limit }));
+
+    // Parse cookies.
+    app.use(cookieParser(Config.get('settings.cookieParser.secret', 'string')));
+
+    // Add optional after pre-middlewares.
+    for (const middleware of this.options.afterPreMiddlewares || []) {
+      app.use(middleware);
+    }
+
+    // Dispatch the requests to the controllers and hooks.
+    const compression = getCompressionConfig();
+    const corsConfig = getCorsConfig();
+    app.use(async (req: any, res: any, next: (err?: any) => any) => {
+      const result = router.lookup(req.method, req.path);
+
+      if (result.status === 'not-found') {
+        // The CORS headers of the configuration let the browsers read the 404 responses.
+        if (corsConfig) {
+          res.set(getCorsHeaders(corsConfig, req.get('Origin')));
+        }
+        next();
+        return;
+      }
+
+      if (result.status === 'method-not-allowed') {
+        const response = new HttpResponseMethodNotAllowed()
+          .setHeader('Allow', result.allowedMethods.join(', '));
+        if (corsConfig) {
+          setCorsHeaders(response, getCorsHeaders(corsConfig, req.get('Origin')));
+        }
+        await sendResponse(response, res, logger);
+        return;
+      }
+
+      try {
+        req.params = result.params;
+        // Request-scoped services are disposed once the response is sent, streamed bodies included.
+        const scope = services.createScope();
+        disposeScopeOnFinish(scope, res, logger);
+        const response = await result.value.handler(req, scope);
+        await sendResponse(response, res, logger, { compression });
+      } catch (error: any) {
+        // This try/catch will never be called: the `getResponse` function catches any errors
+        // thrown or rejected in the application and converts it into a response.
+        // However, for more security, this line has been added to avoid crashing the server
+        // in case the function is badly implemented.
+        next(error);
+      }
+    });
+
+    // Add optional post-middlewares.
+    for (const middleware of this.options.postMiddlewares || []) {
+      app.use(middleware);
+    }
+
+    return app;
+  }
+
+}
@@ -1 +1,2 @@
-export { createApp, OPENAPI_SERVICE_ID, getHttpLogParamsDefault } from './create-app';
+export { createApp, CreateAppOptions, OPENAPI_SERVICE_ID, getHttpLogParamsDefault } from './create-app';
+export { ExpressAdapter, ExpressAdapterOptions } from './express-adapter';
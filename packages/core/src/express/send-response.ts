@@ -2,7 +2,9 @@
 import { pipeline } from 'stream';
 
 // FoalTS
+import { compressBody, CompressionOptions, createCompressionStream, getResponseEncoding } from '../common';
 import { HttpResponse, isHttpResponseMovedPermanently, isHttpResponseRedirect } from '../core';
+import { serializeResponseBody } from '../node-http/send-response';
 
 /**
  * Convert a FoalTS response to an Express response.
@@ -10,16 +12,22 @@ import { HttpResponse, isHttpResponseMovedPermanently, isHttpResponseRedirect }
  * @export
  * @param {HttpResponse} response - FoalTS response.
  * @param {any} res - Express response used in middlewares.
- * @returns {void}
+ * @param {{ compression?: CompressionOptions }} [options={}] - The compression options (if the
+ * responses must be compressed).
+ * @returns {Promise<void>}
  */
-export function sendResponse(
+export async function sendResponse(
   response: HttpResponse,
   res: any,
   logger: {
     error: (message: string, params: { error: Error }) => void
-  }
-): void {
+  },
+  options: { compression?: CompressionOptions } = {},
+): Promise<void> {
   res.status(response.statusCode);
+  for (const name of response.getRemovedHeaders()) {
+    res.removeHeader(name);
+  }
   res.set(response.getHeaders());
   const cookies = response.getCookies();
   for (const cookieName in cookies) {
@@ -41,13 +49,45 @@ export function sendResponse(
   }
 
   if (response.stream === true) {
-    pipeline(response.body, res, (error: any) => {
+    const onError = (error: any) => {
       if (error) {
         logger.error(error.message, { error });
       }
+    };
+    const streamEncoding = options.compression && getResponseEncoding(options.compression, {
+      acceptEncoding: res.req.get('Accept-Encoding'),
+      contentEncoding: res.get('Content-Encoding'),
+      contentType: res.get('Content-Type'),
     });
+    if (streamEncoding) {
+      res.set('Content-Encoding', streamEncoding);
+      res.vary('Accept-Encoding');
+      res.removeHeader('Content-Length');
+      pipeline(response.body, createCompressionStream(streamEncoding, options.compression?.brotliQuality), res, onError);
+      return;
+    }
+    pipeline(response.body, res, onError);
     return;
   }
 
+  if (options.compression) {
+    const { body, contentType } = serializeResponseBody(response);
+    if (contentType && !res.get('Content-Type')) {
+      res.set('Content-Type', contentType);
+    }
+    const encoding = getResponseEncoding(options.compression, {
+      acceptEncoding: res.req.get('Accept-Encoding'),
+      contentEncoding: res.get('Content-Encoding'),
+      contentType: res.get('Content-Type'),
+      length: Buffer.byteLength(body),
+    });
+    if (encoding) {
+      res.set('Content-Encoding', encoding);
+      res.vary('Accept-Encoding');
+      res.send(await compressBody(body, encoding, options.compression.brotliQuality));
+      return;
+    }
+  }
+
   res.send(response.body);
 }
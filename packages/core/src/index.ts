@@ -15,6 +15,18 @@ try {
 
 export {
   AsyncService,
+  Cache,
+  CacheEntryOptions,
+  CacheOptions,
+  CacheService,
+  CacheStore,
+  CacheWrapOptions,
+  CachedResponse,
+  Cors,
+  CorsConfigError,
+  CorsOptions,
+  CorsOrigin,
+  ETag,
   File,
   FileList,
   UserRequired,
@@ -22,19 +34,63 @@ export {
   ValidateCookie,
   ValidateHeader,
   ValidatePathParam,
+  ValidateQuery,
   ValidateQueryParam,
+  ValidateResponse,
   PermissionRequired,
   IUserWithPermissions,
+  Authorize,
+  AuthorizationService,
+  IPolicy,
+  IUserWithRoles,
+  PolicyLike,
+  allOf,
+  anyOf,
+  hasPermission,
+  hasRole,
+  isOwner,
+  MfaRequired,
+  MfaSessionState,
+  TotpOptions,
+  VerifyTotpOptions,
+  consumeRecoveryCode,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  getTotpUri,
+  hashRecoveryCode,
+  isMfaVerified,
+  markMfaAsVerified,
+  verifyTotp,
   controller,
   displayServerURL,
+  enableGracefulShutdown,
+  GracefulShutdownOptions,
   convertBase64ToBase64url,
   convertBase64urlToBase64,
   generateSignedToken,
   generateToken,
   getAjvInstance,
   hashPassword,
+  BcryptPasswordHasher,
+  PasswordHasher,
+  Pbkdf2PasswordHasher,
+  ScryptPasswordHasher,
+  getPasswordHasher,
+  registerPasswordHasher,
   passwordHashNeedsToBeRefreshed,
   isInFile,
+  MemoryCacheStore,
+  MemoryRateLimitStore,
+  RateLimit,
+  RateLimitOptions,
+  RateLimitStore,
+  ResponseCache,
+  ResponseValidationError,
+  ResponseValidationMode,
+  SecurityHeaders,
+  SecurityHeadersOptions,
   signToken,
   streamToBuffer,
   verifyPassword,
@@ -72,18 +128,27 @@ export {
   Config,
   ConfigNotFoundError,
   ConfigTypeError,
+  ConfigValidationError,
+  ConfigValidationIssue,
   Context,
   Request,
   CookieOptions,
   Delete,
   Dependency,
+  DependencyGraph,
+  DependencyGraphEdge,
+  DependencyGraphNode,
   Env,
+  FileSecretProvider,
   Get,
   Head,
   Hook,
   HookDecorator,
   HookFunction,
   HookPostFunction,
+  HttpAdapter,
+  HttpAdapterOptions,
+  HttpAdapterRoute,
   HttpMethod,
 
   HttpResponse,
@@ -97,6 +162,7 @@ export {
   HttpResponseMovedPermanently,
   HttpResponseNoContent,
   HttpResponseNotFound,
+  HttpResponseNotModified,
   HttpResponseNotImplemented,
   HttpResponseOK,
   HttpResponseRedirect,
@@ -105,6 +171,7 @@ export {
   HttpResponseSuccess,
   HttpResponseTooManyRequests,
   HttpResponseUnauthorized,
+  HttpResponseUnsupportedMediaType,
 
   IApiAbstractParameter,
   IApiAbstractSecurityScheme,
@@ -152,17 +219,24 @@ export {
 
   IAppController,
   IController,
+  Injectable,
 
   IOpenAPI,
   MergeHooks,
   OpenApi,
   OpenApiDecorator,
+  OpenApiOperationHook,
   Options,
   Patch,
   Post,
   Put,
+  RouteTableEntry,
+  SecretProvider,
   ServiceManager,
   ServiceFactory,
+  ServiceScope,
+  UnresolvedDependency,
+  VaultSecretProvider,
   LazyService,
   lazy,
   createController,
@@ -193,6 +267,8 @@ export {
   getHttpMethod,
   getMetadata,
   getPath,
+  getRouteTable,
+  getServiceScope,
 
   isHttpResponse,
   isHttpResponseBadRequest,
@@ -205,6 +281,7 @@ export {
   isHttpResponseMovedPermanently,
   isHttpResponseNoContent,
   isHttpResponseNotFound,
+  isHttpResponseNotModified,
   isHttpResponseNotImplemented,
   isHttpResponseOK,
   isHttpResponseRedirect,
@@ -213,18 +290,29 @@ export {
   isHttpResponseSuccess,
   isHttpResponseTooManyRequests,
   isHttpResponseUnauthorized,
+  isHttpResponseUnsupportedMediaType,
 
+  LogFormatter,
   Logger,
+  LogRecord,
+  LogTransport,
   render,
   renderToString,
   renderError,
 } from './core';
 export {
+  CreateAppOptions,
+  ExpressAdapter,
+  ExpressAdapterOptions,
   OPENAPI_SERVICE_ID,
   createApp,
   getHttpLogParamsDefault,
 } from './express';
 export {
+  NodeHttpAdapter,
+} from './node-http';
+export {
+  MemoryStore,
   Session,
   SessionAlreadyExists,
   SessionState,
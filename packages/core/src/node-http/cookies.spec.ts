@@ -0,0 +1,100 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { parseCookies, serializeCookie, signCookieValue, unsignCookieValue } from './cookies';
+
+describe('signCookieValue', () => {
+
+  it('should sign the value the same way cookie-parser does.', () => {
+    strictEqual(
+      signCookieValue('barfoo', 'strong-secret'),
+      's:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY'
+    );
+  });
+
+});
+
+describe('unsignCookieValue', () => {
+
+  it('should return the value if the signature is valid.', () => {
+    strictEqual(
+      unsignCookieValue('s:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY', 'strong-secret'),
+      'barfoo'
+    );
+  });
+
+  it('should return false if the signature is invalid.', () => {
+    strictEqual(
+      unsignCookieValue('s:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY', 'another-secret'),
+      false
+    );
+    strictEqual(unsignCookieValue('s:barfoo.abc', 'strong-secret'), false);
+    strictEqual(unsignCookieValue('barfoo', 'strong-secret'), false);
+  });
+
+});
+
+describe('parseCookies', () => {
+
+  it('should return empty objects if no header is given.', () => {
+    deepStrictEqual(parseCookies(undefined), { cookies: {}, signedCookies: {} });
+  });
+
+  it('should parse and decode the cookies.', () => {
+    deepStrictEqual(parseCookies('foo=bar; hello=hello%20world; quoted="yes"; foo=ignored'), {
+      cookies: { foo: 'bar', hello: 'hello world', quoted: 'yes' },
+      signedCookies: {},
+    });
+  });
+
+  it('should not unsign the cookies if no secret is given.', () => {
+    deepStrictEqual(parseCookies('foo=s:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY'), {
+      cookies: { foo: 's:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY' },
+      signedCookies: {},
+    });
+  });
+
+  it('should unsign the signed cookies if a secret is given.', () => {
+    deepStrictEqual(
+      parseCookies('foo=s:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY; bar=s:barfoo.abc; a=b', 'strong-secret'),
+      {
+        cookies: { a: 'b' },
+        signedCookies: { foo: 'barfoo', bar: false },
+      }
+    );
+  });
+
+});
+
+describe('serializeCookie', () => {
+
+  it('should serialize the cookie with the default path.', () => {
+    strictEqual(serializeCookie('foo', 'hello world', {}), 'foo=hello%20world; Path=/');
+  });
+
+  it('should serialize the cookie options.', () => {
+    const expires = new Date('2030-01-01T00:00:00.000Z');
+    strictEqual(
+      serializeCookie('foo', 'bar', {
+        domain: 'example.com',
+        expires,
+        httpOnly: true,
+        path: '/api',
+        sameSite: 'lax',
+        secure: true,
+      }),
+      'foo=bar; Expires=Tue, 01 Jan 2030 00:00:00 GMT; Domain=example.com; Path=/api; HttpOnly; Secure; SameSite=Lax'
+    );
+  });
+
+  it('should convert maxAge (in seconds) into the Max-Age and Expires attributes.', () => {
+    const cookie = serializeCookie('foo', 'bar', { maxAge: 3600 });
+    const [ , maxAge, expires ] = cookie.split('; ');
+
+    strictEqual(maxAge, 'Max-Age=3600');
+    const delta = new Date(expires.replace('Expires=', '')).getTime() - Date.now();
+    strictEqual(delta > 3590 * 1000 && delta <= 3600 * 1000, true);
+  });
+
+});
@@ -0,0 +1,148 @@
+// std
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// FoalTS
+import { CookieOptions } from '../core';
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (error: any) {
+    return value;
+  }
+}
+
+/**
+ * Sign a cookie value the same way `cookie-parser` and Express do (`s:<value>.<signature>`).
+ *
+ * @export
+ * @param {string} value - The cookie value.
+ * @param {string} secret - The secret used to sign the cookie.
+ * @returns {string} The signed value.
+ */
+export function signCookieValue(value: string, secret: string): string {
+  const signature = createHmac('sha256', secret)
+    .update(value)
+    .digest('base64')
+    .replace(/\=+$/, '');
+  return `s:${value}.${signature}`;
+}
+
+/**
+ * Verify and unsign a cookie value signed with `signCookieValue`.
+ *
+ * @export
+ * @param {string} signedValue - The signed value (`s:<value>.<signature>`).
+ * @param {string} secret - The secret used to sign the cookie.
+ * @returns {(string|false)} The value or false if the signature is invalid.
+ */
+export function unsignCookieValue(signedValue: string, secret: string): string|false {
+  if (!signedValue.startsWith('s:')) {
+    return false;
+  }
+
+  const value = signedValue.slice(2, signedValue.lastIndexOf('.'));
+  const expected = Buffer.from(signCookieValue(value, secret));
+  const actual = Buffer.from(signedValue);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return false;
+  }
+
+  return value;
+}
+
+/**
+ * Parse the Cookie header of a request.
+ *
+ * Signed cookies are only extracted if a secret is provided. In this case, they are removed
+ * from the `cookies` object, as `cookie-parser` does.
+ *
+ * @export
+ * @param {(string|undefined)} header - The Cookie header.
+ * @param {string} [secret] - The secret used to sign the cookies.
+ * @returns {{ cookies: Record<string, string>, signedCookies: Record<string, string|false> }}
+ */
+export function parseCookies(
+  header: string|undefined, secret?: string
+): { cookies: Record<string, string>, signedCookies: Record<string, string|false> } {
+  const cookies: Record<string, string> = {};
+  const signedCookies: Record<string, string|false> = {};
+
+  if (!header) {
+    return { cookies, signedCookies };
+  }
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    if (!name || cookies.hasOwnProperty(name)) {
+      continue;
+    }
+
+    cookies[name] = decode(value);
+  }
+
+  if (secret) {
+    for (const name in cookies) {
+      if (cookies[name].startsWith('s:')) {
+        signedCookies[name] = unsignCookieValue(cookies[name], secret);
+        delete cookies[name];
+      }
+    }
+  }
+
+  return { cookies, signedCookies };
+}
+
+/**
+ * Serialize a cookie into a Set-Cookie header value.
+ *
+ * The value of maxAge is in seconds.
+ *
+ * @export
+ * @param {string} name - The cookie name.
+ * @param {string} value - The cookie value (already signed if necessary).
+ * @param {CookieOptions} options - The cookie options.
+ * @returns {string} The header value.
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions): string {
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+
+  if (options.maxAge !== undefined) {
+    const maxAge = Math.floor(options.maxAge);
+    cookie += `; Max-Age=${maxAge}`;
+    cookie += `; Expires=${new Date(Date.now() + maxAge * 1000).toUTCString()}`;
+  } else if (options.expires) {
+    cookie += `; Expires=${options.expires.toUTCString()}`;
+  }
+
+  if (options.domain) {
+    cookie += `; Domain=${options.domain}`;
+  }
+
+  cookie += `; Path=${options.path || '/'}`;
+
+  if (options.httpOnly) {
+    cookie += '; HttpOnly';
+  }
+
+  if (options.secure) {
+    cookie += '; Secure';
+  }
+
+  if (options.sameSite) {
+    cookie += `; SameSite=${options.sameSite.charAt(0).toUpperCase()}${options.sameSite.slice(1)}`;
+  }
+
+  return cookie;
+}
@@ -0,0 +1,85 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+
+// FoalTS
+import { createRequest, parseQueryString } from './create-request';
+
+describe('parseQueryString', () => {
+
+  it('should parse the query string and convert repeated keys into arrays.', () => {
+    deepStrictEqual({ ...parseQueryString('foo=bar&a=1&a=2&a=3&empty=') }, {
+      a: [ '1', '2', '3' ],
+      empty: '',
+      foo: 'bar',
+    });
+  });
+
+  it('should treat the keys of Object.prototype as regular keys.', () => {
+    const query = parseQueryString('constructor=x&toString=y&toString=z&__proto__=w');
+
+    strictEqual(Object.getPrototypeOf(query), null);
+    strictEqual(query.constructor, 'x');
+    deepStrictEqual(query.toString, [ 'y', 'z' ]);
+    deepStrictEqual(Object.keys(query), [ 'constructor', 'toString', '__proto__' ]);
+    strictEqual(query.__proto__, 'w');
+  });
+
+});
+
+describe('createRequest', () => {
+
+  function createIncomingMessage(url: string, headers: Record<string, string> = {}): any {
+    return {
+      headers,
+      method: 'GET',
+      socket: { remoteAddress: '127.0.0.1' },
+      url,
+    };
+  }
+
+  it('should return the Node.js request extended with the Express properties.', () => {
+    const req = createIncomingMessage('/foo/bar?a=b', {
+      'cookie': 'foo=bar',
+      'host': 'example.com:3001',
+      'x-requested-with': 'XMLHttpRequest',
+    });
+
+    const request = createRequest(req, { body: { foo: 'bar' } });
+
+    strictEqual(request, req);
+    deepStrictEqual(request.body, { foo: 'bar' });
+    deepStrictEqual(request.cookies, { foo: 'bar' });
+    deepStrictEqual(request.signedCookies, {});
+    strictEqual(request.hostname, 'example.com');
+    strictEqual(request.ip, '127.0.0.1');
+    strictEqual(request.originalUrl, '/foo/bar?a=b');
+    deepStrictEqual(request.params, {});
+    strictEqual(request.path, '/foo/bar');
+    deepStrictEqual({ ...request.query }, { a: 'b' });
+    strictEqual(request.secure, false);
+    strictEqual(request.xhr, true);
+  });
+
+  it('should default the body to an empty object.', () => {
+    deepStrictEqual(createRequest(createIncomingMessage('/'), { body: undefined }).body, {});
+  });
+
+  it('should provide "get" and "header" methods which are case-insensitive.', () => {
+    const request = createRequest(createIncomingMessage('/', { 'x-foo': 'bar', 'referer': 'http://foo' }), { body: {} });
+
+    strictEqual(request.get('X-Foo'), 'bar');
+    strictEqual(request.header('x-foo'), 'bar');
+    strictEqual(request.get('Referrer'), 'http://foo');
+    strictEqual(request.get('x-bar'), undefined);
+  });
+
+  it('should unsign the signed cookies if a secret is given.', () => {
+    const request = createRequest(
+      createIncomingMessage('/', { cookie: 'foo=s:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY' }),
+      { body: {}, cookieSecret: 'strong-secret' }
+    );
+
+    deepStrictEqual(request.signedCookies, { foo: 'barfoo' });
+  });
+
+});
@@ -0,0 +1,78 @@
+// std
+import { IncomingMessage } from 'node:http';
+
+// FoalTS
+import { Request } from '../core';
+import { parseCookies } from './cookies';
+
+/**
+ * Parse a query string into an object. Repeated keys are converted into arrays.
+ *
+ * The object has no prototype so that keys such as "constructor" or "__proto__" are
+ * treated as regular keys.
+ *
+ * @export
+ * @param {string} search - The query string (with or without the leading "?").
+ * @returns {Record<string, string|string[]>} The query object.
+ */
+export function parseQueryString(search: string): Record<string, string|string[]> {
+  const query: Record<string, string|string[]> = Object.create(null);
+  for (const [ key, value ] of new URLSearchParams(search)) {
+    const previous = query[key];
+    if (!Object.prototype.hasOwnProperty.call(query, key)) {
+      query[key] = value;
+    } else {
+      query[key] = ([] as string[]).concat(previous, value);
+    }
+  }
+  return query;
+}
+
+/**
+ * Normalize a Node.js request into the `Request` object exposed in `Context.request`.
+ *
+ * The returned object is the Node.js request itself (so that it can still be piped)
+ * extended with the properties and methods that Express usually adds.
+ *
+ * @export
+ * @param {IncomingMessage} req - The Node.js request.
+ * @param {{ body: any, cookieSecret?: string }} options - The parsed body and the cookie secret.
+ * @returns {Request} The normalized request.
+ */
+export function createRequest(req: IncomingMessage, options: { body: any, cookieSecret?: string }): Request {
+  const request = req as any;
+  const url = req.url || '/';
+  const index = url.indexOf('?');
+  const { cookies, signedCookies } = parseCookies(req.headers.cookie, options.cookieSecret);
+  const encrypted = !!(req.socket as any)?.encrypted;
+  const host = req.headers.host || '';
+
+  function get(field: string): any {
+    const name = field.toLowerCase();
+    if (name === 'referer' || name === 'referrer') {
+      return req.headers.referer || req.headers.referrer;
+    }
+    return req.headers[name];
+  }
+
+  Object.assign(request, {
+    baseUrl: '',
+    body: options.body === undefined ? {} : options.body,
+    cookies,
+    get,
+    header: get,
+    hostname: host.startsWith('[') ? host.slice(0, host.indexOf(']') + 1) : host.split(':')[0],
+    ip: req.socket?.remoteAddress,
+    ips: [],
+    originalUrl: url,
+    params: {},
+    path: index === -1 ? url : url.slice(0, index),
+    protocol: encrypted ? 'https' : 'http',
+    query: parseQueryString(index === -1 ? '' : url.slice(index + 1)),
+    secure: encrypted,
+    signedCookies,
+    xhr: (get('x-requested-with') || '').toLowerCase() === 'xmlhttprequest',
+  });
+
+  return request;
+}
@@ -0,0 +1 @@
+export { NodeHttpAdapter } from './node-http-adapter';
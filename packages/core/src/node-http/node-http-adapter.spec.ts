@@ -0,0 +1,477 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { existsSync, mkdirSync, rmdirSync, unlinkSync, writeFileSync } from 'fs';
+import { Readable } from 'node:stream';
+import { mock } from 'node:test';
+
+// 3p
+import * as request from 'supertest';
+
+// FoalTS
+import {
+  All,
+  Config,
+  Context,
+  Get,
+  Head,
+  HttpResponseOK,
+  Injectable,
+  Logger,
+  Post,
+  ServiceManager,
+} from '../core';
+import { SecurityHeaders } from '../common';
+import { createApp } from '../express';
+import { NodeHttpAdapter } from './node-http-adapter';
+
+describe('NodeHttpAdapter', () => {
+
+  before(() => {
+    if (!existsSync('test-public-node-http')) {
+      mkdirSync('test-public-node-http');
+    }
+    writeFileSync('test-public-node-http/hello-world.html', '<h1>Hello world!</h1>', 'utf8');
+    Config.set('settings.staticPath', 'test-public-node-http');
+    Config.set('settings.logger.logHttpRequests', false);
+  });
+
+  after(() => {
+    Config.remove('settings.staticPath');
+    Config.remove('settings.logger.logHttpRequests');
+    if (existsSync('test-public-node-http/hello-world.html')) {
+      unlinkSync('test-public-node-http/hello-world.html');
+    }
+    if (existsSync('test-public-node-http')) {
+      rmdirSync('test-public-node-http');
+    }
+  });
+
+  afterEach(() => {
+    mock.reset();
+    Config.remove('settings.staticPathPrefix');
+    Config.remove('settings.staticFiles.cacheControl');
+    Config.remove('settings.bodyParser.limit');
+    Config.remove('settings.cookieParser.secret');
+    Config.remove('settings.security.headers.contentSecurityPolicy');
+    Config.remove('settings.security.headers.frameOptions');
+    Config.remove('settings.security.headers.referrerPolicy');
+  });
+
+  function createNodeApp(AppController: any, options: { serviceManager?: ServiceManager } = {}): Promise<any> {
+    return createApp(AppController, { ...options, adapter: new NodeHttpAdapter() });
+  }
+
+  it('should return a request listener with the service manager.', async () => {
+    const serviceManager = new ServiceManager();
+    const app = await createNodeApp(class {}, { serviceManager });
+
+    strictEqual(typeof app, 'function');
+    strictEqual(app.foal.services, serviceManager);
+  });
+
+  it('should include security headers in HTTP responses.', async () => {
+    class AppController {
+      @Get('/')
+      index() {
+        return new HttpResponseOK()
+          .setHeader('X-Custom-Header', 'foobar');
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app)
+      .get('/')
+      .expect('X-Content-Type-Options', 'nosniff')
+      .expect('X-Frame-Options', 'SAMEORIGIN')
+      .expect('Strict-Transport-Security', 'max-age=31536000; includeSubDomains')
+      .expect('X-Custom-Header', 'foobar');
+  });
+
+  it('should include the security headers of the configuration in HTTP responses.', async () => {
+    Config.set('settings.security.headers.contentSecurityPolicy', `script-src 'self' 'nonce'`);
+    Config.set('settings.security.headers.frameOptions', false);
+    Config.set('settings.security.headers.referrerPolicy', 'no-referrer');
+
+    const nonces: string[] = [];
+
+    class AppController {
+      @Get('/')
+      index(ctx: Context<any, { cspNonce: string }>) {
+        nonces.push(ctx.state.cspNonce);
+        return new HttpResponseOK();
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    const response = await request(app)
+      .get('/')
+      .expect('X-Content-Type-Options', 'nosniff')
+      .expect('Referrer-Policy', 'no-referrer');
+
+    strictEqual(response.headers['x-frame-options'], undefined);
+    strictEqual(typeof nonces[0], 'string');
+    strictEqual(response.headers['content-security-policy'], `script-src 'self' 'nonce-${nonces[0]}'`);
+
+    await request(app).get('/');
+    strictEqual(nonces[0] === nonces[1], false);
+  });
+
+  it('should not include the security headers disabled by a @SecurityHeaders hook.', async () => {
+    Config.set('settings.security.headers.referrerPolicy', 'no-referrer');
+
+    class AppController {
+      @Get('/')
+      @SecurityHeaders({ frameOptions: false, referrerPolicy: false })
+      index() {
+        return new HttpResponseOK();
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    const response = await request(app)
+      .get('/')
+      .expect('X-Content-Type-Options', 'nosniff');
+
+    strictEqual(response.headers['x-frame-options'], undefined);
+    strictEqual(response.headers['referrer-policy'], undefined);
+  });
+
+  it('should route the requests to the controller methods with their path parameters.', async () => {
+    let actualContext: Context|undefined;
+
+    class AppController {
+      @Get('/users/me')
+      getMe() {
+        return new HttpResponseOK('me');
+      }
+
+      @Get('/users/:id')
+      getUser(ctx: Context) {
+        actualContext = ctx;
+        return new HttpResponseOK(ctx.request.params);
+      }
+
+      @Post('/users')
+      postUser() {
+        return new HttpResponseOK('post');
+      }
+
+      @All('/all')
+      all() {
+        return new HttpResponseOK('all');
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await Promise.all([
+      request(app).get('/users/me').expect(200, 'me'),
+      request(app).get('/users/foo%20bar').expect(200, { id: 'foo bar' }),
+      request(app).get('/users/3/').expect(200, { id: '3' }),
+      request(app).post('/users').expect(200, 'post'),
+      request(app).put('/all').expect(200, 'all'),
+      request(app).delete('/all').expect(200, 'all'),
+    ]);
+
+    strictEqual(actualContext?.controllerName, 'AppController');
+    strictEqual(actualContext?.controllerMethodName, 'getUser');
+  });
+
+  it('should respond to HEAD requests with the GET handler and without body.', async () => {
+    class AppController {
+      @Get('/foo')
+      getFoo() {
+        return new HttpResponseOK('foo');
+      }
+
+      @Head('/bar')
+      headBar() {
+        return new HttpResponseOK().setHeader('bar', 'foo');
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app).head('/foo').expect(200).expect('Content-Length', '3');
+    await request(app).head('/bar').expect(200).expect('bar', 'foo');
+  });
+
+  it('should return 404 "Not Found" on requests that have no handlers.', async () => {
+    class AppController {
+      @Get('/foo')
+      getFoo() {
+        return new HttpResponseOK('foo');
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app).get('/bar').expect(404, 'Cannot GET /bar');
+  });
+
+  it('should return 405 "Method Not Allowed" with the Allow header on paths that have no handlers for the method.', async () => {
+    class AppController {
+      @Get('/foo')
+      getFoo() {
+        return new HttpResponseOK('foo');
+      }
+
+      @Post('/foo')
+      postFoo() {
+        return new HttpResponseOK('foo');
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app)
+      .delete('/foo')
+      .expect(405)
+      .expect('Allow', 'GET, HEAD, POST');
+  });
+
+  it('should add the CORS headers of settings.cors to the 404 and 405 responses.', async () => {
+    Config.set('settings.cors.origin', 'https://example.com');
+
+    class AppController {
+      @Get('/foo')
+      getFoo() {
+        return new HttpResponseOK('foo');
+      }
+    }
+
+    try {
+      const app = await createNodeApp(AppController);
+
+      await request(app)
+        .get('/bar')
+        .set('Origin', 'https://example.com')
+        .expect(404)
+        .expect('Access-Control-Allow-Origin', 'https://example.com');
+
+      await request(app)
+        .delete('/foo')
+        .set('Origin', 'https://example.com')
+        .expect(405)
+        .expect('Access-Control-Allow-Origin', 'https://example.com');
+    } finally {
+      Config.remove('settings.cors.origin');
+    }
+  });
+
+  it('should dispose the service scope only once a streamed response has been sent.', async () => {
+    let disposed = false;
+
+    @Injectable({ scope: 'request' })
+    class RequestContext {
+      dispose() {
+        disposed = true;
+      }
+    }
+
+    class AppController {
+      @Get('/')
+      index(ctx: Context) {
+        ctx.services?.get(RequestContext);
+        const stream = new Readable({ read() {} });
+        setTimeout(() => {
+          stream.push(disposed ? 'disposed' : 'not disposed');
+          stream.push(null);
+        }, 10);
+        return new HttpResponseOK(stream, { stream: true });
+      }
+    }
+
+    const app = await createNodeApp(AppController);
+
+    await request(app).get('/').expect(200, 'not disposed');
+    strictEqual(disposed, true);
+  });
+
+  it('should parse the query.', async () => {
+    class AppController {
+      @Get('/')
+      index(ctx: Context) {
+        return new HttpResponseOK({ path: ctx.request.path, query: ctx.request.query });
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app)
+      .get('/?foo=bar&items=a&items=b')
+      .expect(200, {
+        path: '/',
+        query: { foo: 'bar', items: [ 'a', 'b' ] },
+      });
+  });
+
+  it('should parse incoming request bodies (json, urlencoded and text).', async () => {
+    class AppController {
+      @Post('/')
+      index(ctx: Context) {
+        return new HttpResponseOK({ body: ctx.request.body });
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await Promise.all([
+      request(app).post('/').send({ foo: 'bar' }).expect(200, { body: { foo: 'bar' } }),
+      request(app).post('/').type('form').send('foo=bar&foo=baz&a=b').expect(200, { body: { foo: [ 'bar', 'baz' ], a: 'b' } }),
+      request(app).post('/').set('Content-Type', 'text/plain').send('Hello').expect(200, { body: 'Hello' }),
+      request(app).post('/').set('Content-Type', 'application/graphql').send('{ me }').expect(200, { body: '{ me }' }),
+      request(app).post('/').expect(200, { body: {} }),
+    ]);
+  });
+
+  it('should send a pretty error if the JSON in the request body is invalid.', async () => {
+    class AppController {
+      @Post('/')
+      index() {
+        return new HttpResponseOK();
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{ "foo": "bar", }')
+      .expect(400)
+      .then(response => {
+        strictEqual(response.body.body, '{ "foo": "bar", }');
+        strictEqual(typeof response.body.message, 'string');
+      });
+  });
+
+  it('should return 413 if the request body exceeds the limit specified in the configuration.', async () => {
+    Config.set('settings.bodyParser.limit', 10);
+
+    class AppController {
+      @Post('/')
+      index() {
+        return new HttpResponseOK();
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app)
+      .post('/')
+      .send({ foo: 'a very long string' })
+      .expect(413);
+  });
+
+  it('should parse the cookies and the signed cookies.', async () => {
+    Config.set('settings.cookieParser.secret', 'strong-secret');
+
+    class AppController {
+      @Get('/')
+      index(ctx: Context) {
+        return new HttpResponseOK({
+          signed: ctx.request.signedCookies,
+          unsigned: ctx.request.cookies,
+        });
+      }
+    }
+    const app = await createNodeApp(AppController);
+
+    await request(app)
+      .get('/')
+      .set('Cookie', [ 'foo=bar;cookie1=s:barfoo.uTsjjvqRPbwnsdLHMg22+9HLBCoeAVFnTDZCyE83AhY' ])
+      .expect(200, {
+        signed: { cookie1: 'barfoo' },
+        unsigned: { foo: 'bar' },
+      });
+  });
+
+  it('should serve static files (with the proper headers).', async () => {
+    const app = await createNodeApp(class {});
+
+    await request(app)
+      .get('/hello-world.html')
+      .expect(200, '<h1>Hello world!</h1>')
+      .expect('Content-Type', 'text/html; charset=UTF-8')
+      .expect('X-Content-Type-Options', 'nosniff')
+      .expect('Cache-Control', 'public, max-age=0');
+  });
+
+  it('should support a custom path prefix and the cacheControl option when serving static files.', async () => {
+    Config.set('settings.staticPathPrefix', '/prefix');
+    Config.set('settings.staticFiles.cacheControl', false);
+
+    const app = await createNodeApp(class {});
+
+    await request(app)
+      .get('/prefix/hello-world.html')
+      .expect(200, '<h1>Hello world!</h1>')
+      .then(response => {
+        strictEqual(response.header['cache-control'], undefined);
+      });
+    await request(app)
+      .get('/hello-world.html')
+      .expect(404);
+  });
+
+  it('should not serve files outside the static directory.', async () => {
+    const app = await createNodeApp(class {});
+
+    await request(app)
+      .get('/../package.json')
+      .expect(404);
+    await request(app)
+      .get('/%2e%2e/package.json')
+      .expect(404);
+  });
+
+  it('should add a request ID to the request object and to the log context.', async () => {
+    const serviceManager = new ServiceManager();
+    const logger = serviceManager.get(Logger);
+    const addLogContext = mock.method(logger, 'addLogContext');
+
+    let requestId: string|undefined;
+    class AppController {
+      @Get('/')
+      index(ctx: Context) {
+        requestId = ctx.request.id;
+        return new HttpResponseOK();
+      }
+    }
+    const app = await createNodeApp(AppController, { serviceManager });
+
+    await request(app).get('/').set('X-Request-ID', 'my-id').expect(200);
+
+    strictEqual(requestId, 'my-id');
+    deepStrictEqual(addLogContext.mock.calls[0].arguments, [ { requestId: 'my-id' } ]);
+
+    await request(app).get('/').expect(200);
+
+    strictEqual(requestId?.length, 36);
+  });
+
+  it('should log the requests if settings.logger.logHttpRequests is true.', async () => {
+    Config.set('settings.logger.logHttpRequests', true);
+
+    try {
+      const serviceManager = new ServiceManager();
+      const logger = serviceManager.get(Logger);
+      const info = mock.method(logger, 'info', () => {});
+
+      class AppController {
+        @Get('/foo')
+        index() {
+          return new HttpResponseOK('bar');
+        }
+      }
+      const app = await createNodeApp(AppController, { serviceManager });
+
+      await request(app).get('/foo?a=b').expect(200);
+
+      strictEqual(info.mock.callCount(), 1);
+      const [ message, params ] = info.mock.calls[0].arguments;
+      strictEqual(message, 'HTTP request - GET /foo');
+      strictEqual(params?.method, 'GET');
+      strictEqual(params?.url, '/foo');
+      strictEqual(params?.statusCode, 200);
+      strictEqual(params?.contentLength, '3');
+      strictEqual(typeof params?.responseTime, 'number');
+    } finally {
+      Config.set('settings.logger.logHttpRequests', false);
+    }
+  });
+
+});
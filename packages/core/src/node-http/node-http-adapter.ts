@@ -0,0 +1,162 @@
+// std
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// FoalTS
+import {
+  createSecurityHeadersSetter,
+  disposeScopeOnFinish,
+  getCompressionConfig,
+  getCorsConfig,
+  getCorsHeaders,
+  getSecurityHeadersConfig,
+  setCorsHeaders,
+} from '../common';
+import {
+  Config,
+  HttpAdapter,
+  HttpAdapterOptions,
+  httpRequestMessagePrefix,
+  HttpResponseMethodNotAllowed,
+} from '../core';
+import { createRequest } from './create-request';
+import { BodyParserError, parseBody, parseBodyLimit } from './parse-body';
+import { sendResponse } from './send-response';
+import { serveStatic } from './serve-static';
+
+function getHttpLogTokens(startAt: bigint) {
+  return {
+    'method': (req: any) => req.method,
+    'res': (req: any, res: ServerResponse, field: string) => {
+      const value = res.getHeader(field);
+      return Array.isArray(value) ? value.join(', ') : value?.toString();
+    },
+    'response-time': () => (Number(process.hrtime.bigint() - startAt) / 1e6).toFixed(3),
+    'status': (req: any, res: ServerResponse) => res.headersSent ? res.statusCode.toString() : undefined,
+    'url': (req: any) => req.originalUrl || req.url,
+  };
+}
+
+/**
+ * HTTP adapter building a request listener for the Node.js `http` and `https` modules.
+ *
+ * It does not depend on Express or any other third-party package. The returned application
+ * can be passed to `http.createServer`.
+ *
+ * @export
+ * @class NodeHttpAdapter
+ * @implements {HttpAdapter}
+ */
+export class NodeHttpAdapter implements HttpAdapter {
+
+  createApplication({ router, services, logger, getHttpLogParams }: HttpAdapterOptions): any {
+    const shouldLogHttpRequests = Config.get('settings.logger.logHttpRequests', 'boolean', true);
+    const staticOptions = {
+      cacheControl: Config.get('settings.staticFiles.cacheControl', 'boolean'),
+      prefix: Config.get('settings.staticPathPrefix', 'string', ''),
+      root: Config.get('settings.staticPath', 'string', 'public'),
+    };
+    const limit = parseBodyLimit(Config.get('settings.bodyParser.limit', 'number|string'));
+    const cookieSecret = Config.get('settings.cookieParser.secret', 'string');
+    const setSecurityHeaders = createSecurityHeadersSetter(getSecurityHeadersConfig());
+    const compression = getCompressionConfig();
+    const corsConfig = getCorsConfig();
+
+    function sendError(res: ServerResponse, status: number, body: string|object): void {
+      const content = typeof body === 'string' ? body : JSON.stringify(body);
+      res.statusCode = status;
+      res.setHeader('Content-Type', typeof body === 'string' ? 'text/html; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Length', Buffer.byteLength(content));
+      res.end(content);
+    }
+
+    async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+      // Generate a unique ID for each request.
+      const requestId = (req.headers['x-request-id'] as string|undefined) || randomUUID();
+      (req as any).id = requestId;
+      logger.addLogContext({ requestId });
+
+      // Log requests.
+      if (shouldLogHttpRequests) {
+        const tokens = getHttpLogTokens(process.hrtime.bigint());
+        res.on('finish', () => {
+          const data = getHttpLogParams(tokens, req, res);
+          logger.info(`${httpRequestMessagePrefix}${data.method} ${data.url}`, data);
+        });
+      }
+
+      setSecurityHeaders(req, res);
+
+      // Serve static files.
+      if (await serveStatic(req, res, staticOptions)) {
+        return;
+      }
+
+      const method = (req.method || 'GET').toUpperCase();
+      const path = (req.url || '/').split('?')[0];
+      const result = router.lookup(method, path);
+      if (result.status === 'not-found') {
+        // The CORS headers of the configuration let the browsers read the 404 responses.
+        if (corsConfig) {
+          const headers = getCorsHeaders(corsConfig, req.headers.origin);
+          for (const name in headers) {
+            res.setHeader(name, headers[name]);
+          }
+        }
+        sendError(res, 404, `Cannot ${method} ${path}`);
+        return;
+      }
+      if (result.status === 'method-not-allowed') {
+        const response = new HttpResponseMethodNotAllowed()
+          .setHeader('Allow', result.allowedMethods.join(', '));
+        if (corsConfig) {
+          setCorsHeaders(response, getCorsHeaders(corsConfig, req.headers.origin));
+        }
+        await sendResponse(response, req, res, logger);
+        return;
+      }
+
+      // Parse request body.
+      let body: any;
+      try {
+        body = await parseBody(req, limit);
+      } catch (error: any) {
+        if (!(error instanceof BodyParserError)) {
+          throw error;
+        }
+        sendError(res, error.status, error.status === 400 ? { body: error.body, message: error.message } : error.message);
+        return;
+      }
+
+      const request = createRequest(req, { body, cookieSecret });
+      request.params = result.params;
+
+      // Request-scoped services are disposed once the response is sent, streamed bodies included.
+      const scope = services.createScope();
+      disposeScopeOnFinish(scope, res, logger);
+      const response = await result.value.handler(request, scope);
+      await sendResponse(response, req, res, logger, { compression, cookieSecret });
+    }
+
+    const app: any = (req: IncomingMessage, res: ServerResponse) => {
+      // Allow to add log context.
+      logger.initLogContext(() => {
+        handleRequest(req, res).catch(error => {
+          // The `getResponse` function catches any errors thrown or rejected in the application
+          // and converts it into a response. This is only a safety net to avoid crashing the server.
+          logger.error(error.message, { error });
+          if (!res.headersSent) {
+            sendError(res, 500, 'Internal Server Error');
+          } else {
+            res.end();
+          }
+        });
+      });
+    };
+
+    app.foal = { router, services };
+
+    return app;
+  }
+
+}
@@ -0,0 +1,88 @@
+// std
+import { deepStrictEqual, rejects, strictEqual, throws } from 'assert';
+import { Readable } from 'stream';
+
+// FoalTS
+import { BodyParserError, parseBody, parseBodyLimit } from './parse-body';
+
+function createRequest(contentType: string|undefined, body: string): any {
+  const req: any = Readable.from([ Buffer.from(body) ]);
+  req.headers = contentType ? { 'content-type': contentType } : {};
+  return req;
+}
+
+describe('parseBodyLimit', () => {
+
+  it('should return 100kb if no limit is given.', () => {
+    strictEqual(parseBodyLimit(undefined), 102400);
+  });
+
+  it('should return the limit if it is a number.', () => {
+    strictEqual(parseBodyLimit(10), 10);
+  });
+
+  it('should convert the string limits to bytes.', () => {
+    strictEqual(parseBodyLimit('50'), 50);
+    strictEqual(parseBodyLimit('10b'), 10);
+    strictEqual(parseBodyLimit('2kb'), 2048);
+    strictEqual(parseBodyLimit('1.5MB'), 1572864);
+    strictEqual(parseBodyLimit('1gb'), 1073741824);
+  });
+
+  it('should throw an error if the limit is invalid.', () => {
+    throws(() => parseBodyLimit('foo'), new Error('Invalid body size limit: "foo".'));
+  });
+
+});
+
+describe('parseBody', () => {
+
+  it('should parse JSON bodies.', async () => {
+    deepStrictEqual(await parseBody(createRequest('application/json; charset=utf-8', '{ "foo": "bar" }'), 100), { foo: 'bar' });
+    deepStrictEqual(await parseBody(createRequest('application/json', ''), 100), {});
+  });
+
+  it('should reject a BodyParserError with a 400 status if the JSON is invalid.', async () => {
+    await rejects(
+      () => parseBody(createRequest('application/json', '{ "foo": }'), 100),
+      (error: any) => error instanceof BodyParserError && error.status === 400 && error.body === '{ "foo": }'
+    );
+  });
+
+  it('should parse URL-encoded bodies.', async () => {
+    deepStrictEqual(
+      { ...await parseBody(createRequest('application/x-www-form-urlencoded', 'foo=bar&a=1&a=2'), 100) },
+      { foo: 'bar', a: [ '1', '2' ] }
+    );
+  });
+
+  it('should parse URL-encoded keys of Object.prototype as regular keys.', async () => {
+    const body = await parseBody(createRequest('application/x-www-form-urlencoded', 'constructor=x&__proto__=y'), 100);
+
+    strictEqual(Object.getPrototypeOf(body), null);
+    strictEqual(body.constructor, 'x');
+    deepStrictEqual(Object.keys(body), [ 'constructor', '__proto__' ]);
+  });
+
+  it('should parse text bodies.', async () => {
+    strictEqual(await parseBody(createRequest('text/plain', 'hello'), 100), 'hello');
+    strictEqual(await parseBody(createRequest('application/xml', '<a></a>'), 100), '<a></a>');
+    strictEqual(await parseBody(createRequest('application/graphql', '{ me }'), 100), '{ me }');
+  });
+
+  it('should not read other bodies.', async () => {
+    const req = createRequest('multipart/form-data; boundary=foo', 'hello');
+
+    strictEqual(await parseBody(req, 100), undefined);
+    strictEqual(await parseBody(createRequest(undefined, 'hello'), 100), undefined);
+    strictEqual(req.readableEnded, false);
+  });
+
+  it('should reject a BodyParserError with a 413 status if the body is too large.', async () => {
+    await rejects(
+      () => parseBody(createRequest('text/plain', 'hello world'), 5),
+      (error: any) => error instanceof BodyParserError && error.status === 413
+    );
+  });
+
+});
@@ -0,0 +1,120 @@
+// std
+import { IncomingMessage } from 'node:http';
+
+// FoalTS
+import { parseQueryString } from './create-request';
+
+const units: Record<string, number> = {
+  b: 1,
+  gb: 1024 * 1024 * 1024,
+  kb: 1024,
+  mb: 1024 * 1024,
+};
+
+/**
+ * Error rejected by `parseBody`. It contains the HTTP status code to return.
+ *
+ * @export
+ * @class BodyParserError
+ * @extends {Error}
+ */
+export class BodyParserError extends Error {
+  readonly name = 'BodyParserError';
+
+  constructor(readonly status: number, message: string, readonly body?: string) {
+    super(message);
+  }
+}
+
+/**
+ * Convert a body size limit (ex: 100, "100kb", "1mb") into a number of bytes.
+ *
+ * @export
+ * @param {(number|string|undefined)} limit - The limit. Defaults to 100kb.
+ * @returns {number} The number of bytes.
+ */
+export function parseBodyLimit(limit: number|string|undefined): number {
+  if (limit === undefined) {
+    return 100 * 1024;
+  }
+  if (typeof limit === 'number') {
+    return limit;
+  }
+
+  const result = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(limit);
+  if (!result) {
+    throw new Error(`Invalid body size limit: "${limit}".`);
+  }
+
+  return Math.floor(parseFloat(result[1]) * units[(result[2] || 'b').toLowerCase()]);
+}
+
+function getMediaType(req: IncomingMessage): string {
+  return (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+}
+
+function shouldParse(mediaType: string): boolean {
+  return mediaType === 'application/json'
+    || mediaType === 'application/x-www-form-urlencoded'
+    || mediaType === 'application/graphql'
+    || mediaType === 'application/xml'
+    || mediaType.startsWith('text/');
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > limit) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new BodyParserError(413, 'request entity too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse the request body based on its Content-Type header.
+ *
+ * JSON, URL-encoded and text bodies (text/*, application/graphql and application/xml)
+ * are read. Other bodies (multipart forms for example) are left unread so that the
+ * request stream can still be consumed in the hooks.
+ *
+ * @export
+ * @param {IncomingMessage} req - The Node.js request.
+ * @param {number} limit - The maximum size of the body in bytes.
+ * @returns {Promise<any>} The parsed body or undefined if the body was not read.
+ */
+export async function parseBody(req: IncomingMessage, limit: number): Promise<any> {
+  const mediaType = getMediaType(req);
+  if (!shouldParse(mediaType)) {
+    return undefined;
+  }
+
+  const raw = await readBody(req, limit);
+
+  if (mediaType === 'application/json') {
+    if (raw.trim() === '') {
+      return {};
+    }
+    try {
+      return JSON.parse(raw);
+    } catch (error: any) {
+      throw new BodyParserError(400, error.message, raw);
+    }
+  }
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    return parseQueryString(raw);
+  }
+
+  return raw;
+}
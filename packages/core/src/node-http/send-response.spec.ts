@@ -0,0 +1,172 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { createServer } from 'http';
+import { Readable } from 'stream';
+
+// 3p
+import * as request from 'supertest';
+
+// FoalTS
+import {
+  HttpResponse, HttpResponseBadRequest, HttpResponseCreated,
+  HttpResponseInternalServerError, HttpResponseMovedPermanently,
+  HttpResponseNoContent, HttpResponseOK, HttpResponseRedirect
+} from '../core';
+import { CompressionOptions } from '../common';
+import { sendResponse } from './send-response';
+
+function execSendResponse(
+  response: HttpResponse, options: { cookieSecret?: string, compression?: CompressionOptions } = {}
+): request.Test {
+  const server = createServer((req, res) => sendResponse(response, req, res, { error: () => {} }, options));
+  return request(server).get('/');
+}
+
+describe('sendResponse (node:http)', () => {
+
+  it('should send the response status.', () => {
+    return Promise.all([
+      execSendResponse(new HttpResponseCreated()).expect(201),
+      execSendResponse(new HttpResponseBadRequest()).expect(400),
+      execSendResponse(new HttpResponseInternalServerError()).expect(500),
+    ]);
+  });
+
+  it('should send the response body (no stream) with the same content types as Express.', () => {
+    return Promise.all([
+      execSendResponse(new HttpResponseOK('foo'))
+        .expect('foo')
+        .expect('Content-Type', 'text/html; charset=utf-8')
+        .expect('Content-Length', '3'),
+      execSendResponse(new HttpResponseOK({ message: 'bar' }))
+        .expect({ message: 'bar' })
+        .expect('Content-Type', 'application/json; charset=utf-8'),
+      execSendResponse(new HttpResponseOK(3)).expect('3'),
+      execSendResponse(new HttpResponseOK(Buffer.from('buffer')))
+        .expect('Content-Type', 'application/octet-stream'),
+      execSendResponse(new HttpResponseOK('{}').setHeader('Content-Type', 'text/plain'))
+        .expect('Content-Type', 'text/plain'),
+      execSendResponse(new HttpResponseOK()).expect('Content-Length', '0'),
+      execSendResponse(new HttpResponseNoContent()).expect(204),
+    ]);
+  });
+
+  it('should send the response body (stream).', () => {
+    const stream = new Readable({
+      read() {
+        this.push('Stream ');
+        this.push('content');
+        this.push(null);
+      }
+    });
+    return execSendResponse(new HttpResponseOK(stream, { stream: true }))
+      .expect('Stream content');
+  });
+
+  it('should log the error if the response body (stream) emits an error.', async () => {
+    let actualMessage: string|undefined;
+    const stream = new Readable({
+      read() {
+        this.destroy(new Error('Stream error'));
+      }
+    });
+    const server = createServer((req, res) => sendResponse(
+      new HttpResponseOK(stream, { stream: true }), req, res, { error: message => actualMessage = message }
+    ));
+
+    await request(server).get('/').catch(() => {});
+
+    strictEqual(actualMessage, 'Stream error');
+  });
+
+  it('should send the response headers.', () => {
+    return execSendResponse(new HttpResponseOK().setHeader('X-Foo', 'bar'))
+      .expect('X-Foo', 'bar');
+  });
+
+  it('should send the response cookies.', () => {
+    const response = new HttpResponseOK()
+      .setCookie('foo', 'bar', { httpOnly: true })
+      .setCookie('bar', 'foo', { maxAge: 60 });
+
+    return execSendResponse(response)
+      .then(res => {
+        const cookies = res.header['set-cookie'] as unknown as string[];
+        strictEqual(cookies.length, 2);
+        strictEqual(cookies[0], 'foo=bar; Path=/; HttpOnly');
+        strictEqual(cookies[1].startsWith('bar=foo; Max-Age=60; Expires='), true);
+      });
+  });
+
+  it('should sign the cookies with the secret if requested.', () => {
+    const response = new HttpResponseOK()
+      .setCookie('cookie1', 'barfoo', { signed: true });
+
+    return execSendResponse(response, { cookieSecret: 'strong-secret' })
+      .then(res => {
+        deepStrictEqual(res.header['set-cookie'], [
+          'cookie1=s%3Abarfoo.uTsjjvqRPbwnsdLHMg22%2B9HLBCoeAVFnTDZCyE83AhY; Path=/',
+        ]);
+      });
+  });
+
+  it('should redirect the client on HttpResponseRedirect and HttpResponseMovedPermanently.', () => {
+    return Promise.all([
+      execSendResponse(new HttpResponseRedirect('/foo'))
+        .expect(302)
+        .expect('Location', '/foo'),
+      execSendResponse(new HttpResponseMovedPermanently('/bar'))
+        .expect(301)
+        .expect('Location', '/bar'),
+    ]);
+  });
+
+  describe('given compression options are provided', () => {
+
+    const compression: CompressionOptions = {
+      encodings: [ 'br', 'gzip' ],
+      threshold: 10,
+      types: [ 'application/json', 'text/*' ],
+    };
+    const body = { message: 'hello world' };
+
+    it('should compress the body with the encoding accepted by the client.', async () => {
+      const response = await execSendResponse(new HttpResponseOK(body), { compression })
+        .set('Accept-Encoding', 'gzip, deflate')
+        .expect(200)
+        .expect('Content-Encoding', 'gzip')
+        .expect('Vary', 'Accept-Encoding');
+
+      deepStrictEqual(response.body, body);
+    });
+
+    it('should compress the streamed bodies.', async () => {
+      const stream = Readable.from([ 'Stream ', 'content' ]);
+      const response = await execSendResponse(
+        new HttpResponseOK(stream, { stream: true }).setHeader('Content-Type', 'text/plain'),
+        { compression }
+      )
+        .set('Accept-Encoding', 'gzip')
+        .expect(200)
+        .expect('Content-Encoding', 'gzip');
+
+      strictEqual(response.text, 'Stream content');
+    });
+
+    it('should not compress the body if it is too small, not compressible or not accepted by the client.', async () => {
+      const responses = await Promise.all([
+        execSendResponse(new HttpResponseOK({}), { compression }).set('Accept-Encoding', 'gzip'),
+        execSendResponse(new HttpResponseOK(Buffer.from('buffer-content')), { compression })
+          .set('Accept-Encoding', 'gzip'),
+        execSendResponse(new HttpResponseOK(body), { compression }).set('Accept-Encoding', 'identity'),
+        execSendResponse(new HttpResponseOK(body)).set('Accept-Encoding', 'gzip'),
+      ]);
+
+      for (const response of responses) {
+        strictEqual(response.headers['content-encoding'], undefined);
+      }
+    });
+
+  });
+
+});
@@ -0,0 +1,174 @@
+// std
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { pipeline } from 'node:stream';
+
+// FoalTS
+import {
+  compressBody,
+  CompressionEncoding,
+  CompressionOptions,
+  createCompressionStream,
+  getResponseEncoding
+} from '../common';
+import { HttpResponse, isHttpResponseMovedPermanently, isHttpResponseRedirect } from '../core';
+import { serializeCookie, signCookieValue } from './cookies';
+
+function hasHeader(res: ServerResponse, name: string): boolean {
+  return res.getHeader(name) !== undefined;
+}
+
+function getHeader(res: ServerResponse, name: string): string|undefined {
+  const value = res.getHeader(name);
+  return value === undefined ? undefined : value.toString();
+}
+
+function getEncoding(
+  req: IncomingMessage, res: ServerResponse, compression: CompressionOptions|undefined, length?: number
+): CompressionEncoding|undefined {
+  if (!compression) {
+    return;
+  }
+  return getResponseEncoding(compression, {
+    acceptEncoding: req.headers['accept-encoding'] as string|undefined,
+    contentEncoding: getHeader(res, 'Content-Encoding'),
+    contentType: getHeader(res, 'Content-Type'),
+    length,
+  });
+}
+
+function setEncodingHeaders(res: ServerResponse, encoding: CompressionEncoding): void {
+  res.setHeader('Content-Encoding', encoding);
+  const vary = getHeader(res, 'Vary');
+  res.setHeader('Vary', vary ? `${vary}, Accept-Encoding` : 'Accept-Encoding');
+}
+
+/**
+ * Serialize the cookies of a FoalTS response into Set-Cookie header values.
+ *
+ * @export
+ * @param {HttpResponse} response - FoalTS response.
+ * @param {string} [cookieSecret] - The secret used to sign cookies.
+ * @returns {string[]} The Set-Cookie header values.
+ */
+export function serializeResponseCookies(response: HttpResponse, cookieSecret?: string): string[] {
+  const setCookieHeaders: string[] = [];
+  const cookies = response.getCookies();
+  for (const cookieName in cookies) {
+    const { value = '', options: cookieOptions } = cookies[cookieName];
+    let cookieValue = value;
+    if (cookieOptions.signed) {
+      if (!cookieSecret) {
+        throw new Error('The configuration key "settings.cookieParser.secret" is required to sign cookies.');
+      }
+      cookieValue = signCookieValue(value, cookieSecret);
+    }
+    setCookieHeaders.push(serializeCookie(cookieName, cookieValue, cookieOptions));
+  }
+  return setCookieHeaders;
+}
+
+/**
+ * Serialize the body of a (non-streamed) FoalTS response as Express `res.send` does: strings are
+ * sent as HTML, buffers as binary data and other values as JSON.
+ *
+ * @export
+ * @param {HttpResponse} response - FoalTS response.
+ * @returns {{ body: string|Buffer, contentType?: string }} The serialized body and its default
+ * Content-Type (used if the response does not define one).
+ */
+export function serializeResponseBody(response: HttpResponse): { body: string|Buffer, contentType?: string } {
+  if (response.body === undefined || response.statusCode === 204 || response.statusCode === 304) {
+    return { body: '' };
+  }
+  if (typeof response.body === 'string' || typeof response.body === 'number') {
+    return { body: response.body.toString(), contentType: 'text/html; charset=utf-8' };
+  }
+  if (Buffer.isBuffer(response.body)) {
+    return { body: response.body, contentType: 'application/octet-stream' };
+  }
+  return { body: JSON.stringify(response.body), contentType: 'application/json; charset=utf-8' };
+}
+
+/**
+ * Write a FoalTS response into a Node.js response.
+ *
+ * The body is serialized as Express `res.send` does: strings are sent as HTML, buffers
+ * as binary data and other values as JSON, unless a Content-Type header is already defined.
+ *
+ * @export
+ * @param {HttpResponse} response - FoalTS response.
+ * @param {IncomingMessage} req - Node.js request.
+ * @param {ServerResponse} res - Node.js response.
+ * @param {{ error: (message: string, params: { error: Error }) => void }} logger - The logger.
+ * @param {{ cookieSecret?: string, compression?: CompressionOptions }} [options={}] - The secret used
+ * to sign cookies and the compression options (if the responses must be compressed).
+ * @returns {Promise<void>}
+ */
+export async function sendResponse(
+  response: HttpResponse,
+  req: IncomingMessage,
+  res: ServerResponse,
+  logger: {
+    error: (message: string, params: { error: Error }) => void
+  },
+  options: { cookieSecret?: string, compression?: CompressionOptions } = {},
+): Promise<void> {
+  res.statusCode = response.statusCode;
+
+  for (const name of response.getRemovedHeaders()) {
+    res.removeHeader(name);
+  }
+  const headers = response.getHeaders();
+  for (const name in headers) {
+    res.setHeader(name, headers[name]);
+  }
+
+  const setCookieHeaders = serializeResponseCookies(response, options.cookieSecret);
+  if (setCookieHeaders.length > 0) {
+    res.setHeader('Set-Cookie', setCookieHeaders);
+  }
+
+  if (isHttpResponseRedirect(response) || isHttpResponseMovedPermanently(response)) {
+    res.setHeader('Location', encodeURI(response.path));
+    res.end();
+    return;
+  }
+
+  if (response.stream === true) {
+    const onError = (error: any) => {
+      if (error) {
+        logger.error(error.message, { error });
+      }
+    };
+    const streamEncoding = getEncoding(req, res, options.compression);
+    if (streamEncoding) {
+      setEncodingHeaders(res, streamEncoding);
+      res.removeHeader('Content-Length');
+      pipeline(response.body, createCompressionStream(streamEncoding, options.compression?.brotliQuality), res, onError);
+      return;
+    }
+    pipeline(response.body, res, onError);
+    return;
+  }
+
+  const serialized = serializeResponseBody(response);
+  let body = serialized.body;
+  if (serialized.contentType && !hasHeader(res, 'Content-Type')) {
+    res.setHeader('Content-Type', serialized.contentType);
+  }
+
+  const encoding = getEncoding(req, res, options.compression, Buffer.byteLength(body));
+  if (encoding) {
+    setEncodingHeaders(res, encoding);
+    body = await compressBody(body, encoding, options.compression?.brotliQuality);
+  }
+
+  res.setHeader('Content-Length', Buffer.byteLength(body));
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  res.end(body);
+}
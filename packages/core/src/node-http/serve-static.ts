@@ -0,0 +1,108 @@
+// std
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { extname, join, resolve, sep } from 'node:path';
+import { pipeline } from 'node:stream';
+
+const mimeTypes: Record<string, string> = {
+  '.css': 'text/css; charset=UTF-8',
+  '.gif': 'image/gif',
+  '.htm': 'text/html; charset=UTF-8',
+  '.html': 'text/html; charset=UTF-8',
+  '.ico': 'image/x-icon',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.js': 'application/javascript; charset=UTF-8',
+  '.json': 'application/json; charset=UTF-8',
+  '.map': 'application/json; charset=UTF-8',
+  '.mjs': 'application/javascript; charset=UTF-8',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain; charset=UTF-8',
+  '.wasm': 'application/wasm',
+  '.webp': 'image/webp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.xml': 'application/xml; charset=UTF-8',
+};
+
+export interface ServeStaticOptions {
+  root: string;
+  prefix: string;
+  cacheControl?: boolean;
+}
+
+/**
+ * Serve a file from the static directory if one matches the request path.
+ *
+ * Like `express.static`, only GET and HEAD requests are handled and the function
+ * does nothing if no file is found, so that the request can be routed to the controllers.
+ *
+ * @export
+ * @param {IncomingMessage} req - The Node.js request.
+ * @param {ServerResponse} res - The Node.js response.
+ * @param {ServeStaticOptions} options - The static directory, the path prefix and the cache option.
+ * @returns {Promise<boolean>} True if a file was served.
+ */
+export async function serveStatic(req: IncomingMessage, res: ServerResponse, options: ServeStaticOptions): Promise<boolean> {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return false;
+  }
+
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent((req.url || '/').split('?')[0]);
+  } catch (error: any) {
+    return false;
+  }
+
+  if (options.prefix) {
+    if (pathname !== options.prefix && !pathname.startsWith(`${options.prefix}/`)) {
+      return false;
+    }
+    pathname = pathname.slice(options.prefix.length) || '/';
+  }
+
+  if (pathname.includes('\0')) {
+    return false;
+  }
+
+  const root = resolve(options.root);
+  let path = join(root, pathname);
+  if (path !== root && !path.startsWith(root + sep)) {
+    return false;
+  }
+
+  let stats;
+  try {
+    stats = await stat(path);
+    if (stats.isDirectory()) {
+      path = join(path, 'index.html');
+      stats = await stat(path);
+    }
+  } catch (error: any) {
+    return false;
+  }
+
+  if (!stats.isFile()) {
+    return false;
+  }
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', mimeTypes[extname(path).toLowerCase()] || 'application/octet-stream');
+  res.setHeader('Content-Length', stats.size);
+  res.setHeader('Last-Modified', stats.mtime.toUTCString());
+  if (options.cacheControl !== false) {
+    res.setHeader('Cache-Control', 'public, max-age=0');
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return true;
+  }
+
+  pipeline(createReadStream(path), res, () => {});
+  return true;
+}
@@ -1,5 +1,6 @@
 export { SESSION_DEFAULT_ABSOLUTE_TIMEOUT, SESSION_DEFAULT_INACTIVITY_TIMEOUT } from './constants';
 export { createSession } from './create-session';
+export { MemoryStore } from './memory-store';
 export { readSession } from './read-session';
 export { Store, SessionStore, SessionAlreadyExists } from './session-store';
 export { Session } from './session';
@@ -0,0 +1,155 @@
+// std
+import { deepStrictEqual, rejects, strictEqual } from 'assert';
+
+// FoalTS
+import { Config, createService, ServiceManager } from '../../core';
+import { MemoryStore } from './memory-store';
+import { SessionState } from './session-state.interface';
+import { SessionAlreadyExists, SessionStore } from './session-store';
+
+describe('MemoryStore', () => {
+
+  let store: MemoryStore;
+
+  function createState(id: string, userId: string|number|null = null, diff: { createdAt?: number, updatedAt?: number } = {}): SessionState {
+    const now = Math.trunc(Date.now() / 1000);
+    return {
+      content: { foo: 'bar' },
+      createdAt: now + (diff.createdAt || 0),
+      flash: {},
+      id,
+      updatedAt: now + (diff.updatedAt || 0),
+      userId,
+    };
+  }
+
+  beforeEach(() => store = createService(MemoryStore));
+
+  afterEach(() => {
+    Config.remove('settings.session.store');
+    Config.remove('settings.session.memoryStore.maxSessions');
+  });
+
+  it('should be selectable with the value "memory" in settings.session.store.', () => {
+    Config.set('settings.session.store', 'memory');
+    const services = new ServiceManager();
+    strictEqual(services.get(SessionStore) instanceof MemoryStore, true);
+  });
+
+  describe('has a "save" method that', () => {
+
+    it('should save the session state.', async () => {
+      const state = createState('a');
+      await store.save(state, 60);
+      deepStrictEqual(await store.read('a'), state);
+    });
+
+    it('should throw a SessionAlreadyExists error if a session already exists with the same ID.', async () => {
+      await store.save(createState('a'), 60);
+      await rejects(() => store.save(createState('a'), 60), new SessionAlreadyExists());
+    });
+
+    it('should not keep a reference to the given state.', async () => {
+      const state = createState('a');
+      await store.save(state, 60);
+      state.content.foo = 'bar2';
+      deepStrictEqual((await store.read('a'))?.content, { foo: 'bar' });
+    });
+
+  });
+
+  describe('has a "read" method that', () => {
+
+    it('should return null if the session does not exist.', async () => {
+      strictEqual(await store.read('a'), null);
+    });
+
+    it('should return null if the session has expired (inactivity).', async () => {
+      await store.save(createState('a', null, { updatedAt: -61 }), 60);
+      strictEqual(await store.read('a'), null);
+    });
+
+  });
+
+  describe('has an "update" method that', () => {
+
+    it('should update the session state and extend its lifetime.', async () => {
+      await store.save(createState('a', null, { updatedAt: -50 }), 60);
+      const state = createState('a', 1);
+      state.content = { foo: 'bar2' };
+      await store.update(state, 60);
+      deepStrictEqual(await store.read('a'), state);
+      deepStrictEqual(await store.getSessionIDsOf(1), [ 'a' ]);
+    });
+
+    it('should save the session state if it does not exist.', async () => {
+      const state = createState('a');
+      await store.update(state, 60);
+      deepStrictEqual(await store.read('a'), state);
+    });
+
+  });
+
+  it('has a "destroy" method that should delete the session.', async () => {
+    await store.save(createState('a', 1), 60);
+    await store.destroy('a');
+    await store.destroy('b');
+    strictEqual(await store.read('a'), null);
+    deepStrictEqual(await store.getSessionIDsOf(1), []);
+  });
+
+  it('has a "clear" method that should delete all the sessions.', async () => {
+    await store.save(createState('a', 1), 60);
+    await store.save(createState('b'), 60);
+    await store.clear();
+    strictEqual(await store.read('a'), null);
+    strictEqual(await store.read('b'), null);
+    deepStrictEqual(await store.getAuthenticatedUserIds(), []);
+  });
+
+  it('has a "cleanUpExpiredSessions" method that should delete the expired sessions.', async () => {
+    await store.save(createState('a', null, { createdAt: -100 }), 1000);
+    await store.save(createState('b', null, { updatedAt: -20 }), 1000);
+    await store.save(createState('c'), 1000);
+
+    await store.cleanUpExpiredSessions(10, 50);
+
+    strictEqual(await store.read('a'), null);
+    strictEqual(await store.read('b'), null);
+    deepStrictEqual(await store.read('c'), createState('c'));
+  });
+
+  it('should index the sessions by user.', async () => {
+    await store.save(createState('a', 1), 60);
+    await store.save(createState('b', 1), 60);
+    await store.save(createState('c', 'xxx'), 60);
+    await store.save(createState('d'), 60);
+
+    deepStrictEqual(await store.getAuthenticatedUserIds(), [ 1, 'xxx' ]);
+    deepStrictEqual(await store.getSessionIDsOf(1), [ 'a', 'b' ]);
+
+    await store.destroyAllSessionsOf(1);
+
+    strictEqual(await store.read('a'), null);
+    strictEqual(await store.read('b'), null);
+    deepStrictEqual(await store.getAuthenticatedUserIds(), [ 'xxx' ]);
+  });
+
+  it('should remove the least recently used sessions when the maximum number of sessions is reached.', async () => {
+    Config.set('settings.session.memoryStore.maxSessions', 2);
+
+    await store.save(createState('a', 1), 60);
+    await store.save(createState('b'), 60);
+    await store.read('a');
+    await store.save(createState('c'), 60);
+
+    strictEqual(await store.read('b'), null);
+    deepStrictEqual(await store.read('a'), createState('a', 1));
+    deepStrictEqual(await store.read('c'), createState('c'));
+
+    await store.save(createState('d'), 60);
+    strictEqual(await store.read('a'), null);
+    deepStrictEqual(await store.getSessionIDsOf(1), []);
+  });
+
+});
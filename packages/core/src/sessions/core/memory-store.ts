@@ -0,0 +1,144 @@
+// FoalTS
+import { Config } from '../../core';
+import { SessionState } from './session-state.interface';
+import { SessionAlreadyExists, SessionStore } from './session-store';
+
+/**
+ * In-memory session store for development and tests.
+ *
+ * The sessions are lost when the process exits and are not shared between processes.
+ *
+ * It can be selected with the value "memory" in the configuration key "settings.session.store".
+ * The maximum number of sessions can be bounded with the configuration key
+ * "settings.session.memoryStore.maxSessions". When the limit is reached, the least recently
+ * used sessions are removed.
+ *
+ * @export
+ * @class MemoryStore
+ * @extends {SessionStore}
+ */
+export class MemoryStore extends SessionStore {
+
+  // The Map is ordered from the least to the most recently used session.
+  private sessions = new Map<string, { state: SessionState, expiresAt: number }>();
+  private sessionIDsByUserId = new Map<string|number, Set<string>>();
+
+  async save(state: SessionState, maxInactivity: number): Promise<void> {
+    if (this.getEntry(state.id)) {
+      throw new SessionAlreadyExists();
+    }
+    this.setEntry(state, maxInactivity);
+  }
+
+  async read(id: string): Promise<SessionState | null> {
+    const entry = this.getEntry(id);
+    if (!entry) {
+      return null;
+    }
+
+    // Mark the session as the most recently used.
+    this.sessions.delete(id);
+    this.sessions.set(id, entry);
+
+    return structuredClone(entry.state);
+  }
+
+  async update(state: SessionState, maxInactivity: number): Promise<void> {
+    this.setEntry(state, maxInactivity);
+  }
+
+  async destroy(id: string): Promise<void> {
+    const entry = this.sessions.get(id);
+    if (!entry) {
+      return;
+    }
+    this.sessions.delete(id);
+    this.unindex(entry.state);
+  }
+
+  async clear(): Promise<void> {
+    this.sessions.clear();
+    this.sessionIDsByUserId.clear();
+  }
+
+  async cleanUpExpiredSessions(maxInactivity: number, maxLifeTime: number): Promise<void> {
+    const now = Math.trunc(Date.now() / 1000);
+    for (const [ id, { state } ] of this.sessions) {
+      if (state.createdAt < now - maxLifeTime || state.updatedAt < now - maxInactivity) {
+        await this.destroy(id);
+      }
+    }
+  }
+
+  async getAuthenticatedUserIds(): Promise<(string|number)[]> {
+    return Array.from(this.sessionIDsByUserId.keys());
+  }
+
+  async destroyAllSessionsOf(userId: string|number): Promise<void> {
+    for (const id of await this.getSessionIDsOf(userId)) {
+      await this.destroy(id);
+    }
+  }
+
+  async getSessionIDsOf(userId: string|number): Promise<string[]> {
+    return Array.from(this.sessionIDsByUserId.get(userId) || []);
+  }
+
+  private getEntry(id: string): { state: SessionState, expiresAt: number }|undefined {
+    const entry = this.sessions.get(id);
+    if (entry && entry.expiresAt <= Math.trunc(Date.now() / 1000)) {
+      this.sessions.delete(id);
+      this.unindex(entry.state);
+      return;
+    }
+    return entry;
+  }
+
+  private setEntry(state: SessionState, maxInactivity: number): void {
+    const previousEntry = this.sessions.get(state.id);
+    if (previousEntry) {
+      this.sessions.delete(state.id);
+      this.unindex(previousEntry.state);
+    }
+
+    this.sessions.set(state.id, {
+      expiresAt: state.updatedAt + maxInactivity,
+      state: structuredClone(state),
+    });
+    if (state.userId !== null) {
+      const sessionIDs = this.sessionIDsByUserId.get(state.userId) || new Set<string>();
+      sessionIDs.add(state.id);
+      this.sessionIDsByUserId.set(state.userId, sessionIDs);
+    }
+
+    const maxSessions = Config.get('settings.session.memoryStore.maxSessions', 'number');
+    if (maxSessions === undefined) {
+      return;
+    }
+    for (const [ id, entry ] of this.sessions) {
+      if (this.sessions.size <= maxSessions) {
+        break;
+      }
+      this.sessions.delete(id);
+      this.unindex(entry.state);
+    }
+  }
+
+  private unindex(state: SessionState): void {
+    if (state.userId === null) {
+      return;
+    }
+    const sessionIDs = this.sessionIDsByUserId.get(state.userId);
+    if (!sessionIDs) {
+      return;
+    }
+    sessionIDs.delete(state.id);
+    if (sessionIDs.size === 0) {
+      this.sessionIDsByUserId.delete(state.userId);
+    }
+  }
+
+}
+
+// Used when the store is selected with the configuration key "settings.session.store".
+export { MemoryStore as ConcreteSessionStore };
@@ -1,3 +1,6 @@
+// std
+import { join } from 'path';
+
 // FoalTS
 import { SessionState } from './session-state.interface';
 
@@ -12,7 +15,8 @@ export class SessionAlreadyExists extends Error {
  *
  * When this class is used with the `@dependency` decorator,
  * it returns the `ConcreteSessionStore` class from the file or the package specified
- * with the configuration key "settings.session.store".
+ * with the configuration key "settings.session.store". The value "memory" selects the
+ * built-in `MemoryStore`.
  *
  * @export
  * @abstract
@@ -22,6 +26,9 @@ export abstract class Store {
 
   static readonly concreteClassConfigPath = 'settings.session.store';
   static readonly concreteClassName = 'ConcreteSessionStore';
+  static readonly concreteClassAliases: Record<string, string> = {
+    memory: join(__dirname, './memory-store'),
+  };
 
   /**
    * Saves the session for the first time.
@@ -64,7 +64,7 @@ export function UseSessions(options: UseSessionOptions = {}): HookDecorator {
       );
   }
 
-  async function hook(ctx: Context, services: ServiceManager) {
+  async function useSessions(ctx: Context, services: ServiceManager) {
     const ConcreteSessionStore: ClassOrAbstractClass<SessionStore> = options.store || SessionStore;
     const store = services.get(ConcreteSessionStore);
 
@@ -192,5 +192,5 @@ export function UseSessions(options: UseSessionOptions = {}): HookDecorator {
     }
   }
 
-  return Hook(hook, openapi, { openapi: options.openapi });
+  return Hook(useSessions, openapi, { openapi: options.openapi });
 }
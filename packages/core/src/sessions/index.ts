@@ -1,5 +1,6 @@
 export {
   createSession,
+  MemoryStore,
   readSession,
   Store,
   SessionStore,
@@ -0,0 +1,69 @@
+// std
+import { AssertionError, strictEqual, throws } from 'assert';
+
+// FoalTS
+import { HttpResponseCreated, HttpResponseNotFound, HttpResponseOK } from '../core';
+import { expect } from './expect';
+import { TestResponse } from './test-client';
+
+describe('expect', () => {
+
+  const testResponse: TestResponse = {
+    body: { name: 'John' },
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+    response: new HttpResponseCreated({ name: 'John' }),
+    status: 201,
+    text: '{"name":"John"}',
+  };
+
+  it('should check the type of the response with the isHttpResponse* guards.', () => {
+    expect(new HttpResponseNotFound())
+      .toBeHttpResponse()
+      .toBeHttpResponseClientError()
+      .toBeHttpResponseNotFound();
+    expect(testResponse).toBeHttpResponseSuccess().toBeHttpResponseCreated();
+
+    throws(
+      () => expect(new HttpResponseOK()).toBeHttpResponseNotFound(),
+      (error: any) => {
+        strictEqual(error instanceof AssertionError, true);
+        strictEqual(error.message, 'Expected an instance of HttpResponseNotFound, but got HttpResponseOK (200).');
+        return true;
+      }
+    );
+  });
+
+  it('should check the status of the response.', () => {
+    expect(testResponse).toHaveStatus(201);
+    throws(
+      () => expect(testResponse).toHaveStatus(200),
+      { message: 'Expected the response to have the status 200, but got 201.', name: 'AssertionError' }
+    );
+  });
+
+  it('should check the headers of the response.', () => {
+    expect(testResponse)
+      .toHaveHeader('Content-Type')
+      .toHaveHeader('Content-Type', 'application/json; charset=utf-8');
+    expect(new HttpResponseOK().setHeader('X-Foo', 'bar')).toHaveHeader('x-foo', 'bar');
+
+    throws(
+      () => expect(testResponse).toHaveHeader('X-Foo'),
+      { message: 'Expected the response to have the header "X-Foo".', name: 'AssertionError' }
+    );
+    throws(
+      () => expect(testResponse).toHaveHeader('Content-Type', 'text/html'),
+      {
+        message: 'Expected the header "Content-Type" to be "text/html", but got "application/json; charset=utf-8".',
+        name: 'AssertionError',
+      }
+    );
+  });
+
+  it('should check the body of the response.', () => {
+    expect(testResponse).toHaveBody({ name: 'John' });
+    expect(new HttpResponseOK('hello')).toHaveBody('hello');
+    throws(() => expect(testResponse).toHaveBody({ name: 'Jane' }), AssertionError);
+  });
+
+});
@@ -0,0 +1,227 @@
+// std
+import { AssertionError, deepStrictEqual } from 'assert';
+
+// FoalTS
+import {
+  HttpResponse,
+  isHttpResponse,
+  isHttpResponseBadRequest,
+  isHttpResponseClientError,
+  isHttpResponseConflict,
+  isHttpResponseCreated,
+  isHttpResponseForbidden,
+  isHttpResponseInternalServerError,
+  isHttpResponseMethodNotAllowed,
+  isHttpResponseMovedPermanently,
+  isHttpResponseNoContent,
+  isHttpResponseNotFound,
+  isHttpResponseNotImplemented,
+  isHttpResponseNotModified,
+  isHttpResponseOK,
+  isHttpResponseRedirect,
+  isHttpResponseRedirection,
+  isHttpResponseServerError,
+  isHttpResponseSuccess,
+  isHttpResponseTooManyRequests,
+  isHttpResponseUnauthorized,
+  isHttpResponseUnsupportedMediaType,
+} from '../core';
+import { TestResponse } from './test-client';
+
+/**
+ * Assertions on an HttpResponse object or on a response returned by the test client.
+ *
+ * The type assertions are based on the `isHttpResponse*` guards.
+ *
+ * @export
+ * @class HttpResponseAssertions
+ */
+export class HttpResponseAssertions {
+
+  private readonly response: HttpResponse;
+
+  constructor(private readonly actual: HttpResponse|TestResponse) {
+    this.response = isHttpResponse(actual) ? actual : actual.response;
+  }
+
+  toBeHttpResponse(): this {
+    return this.assertType(isHttpResponse, 'HttpResponse');
+  }
+
+  toBeHttpResponseSuccess(): this {
+    return this.assertType(isHttpResponseSuccess, 'HttpResponseSuccess');
+  }
+
+  toBeHttpResponseOK(): this {
+    return this.assertType(isHttpResponseOK, 'HttpResponseOK');
+  }
+
+  toBeHttpResponseCreated(): this {
+    return this.assertType(isHttpResponseCreated, 'HttpResponseCreated');
+  }
+
+  toBeHttpResponseNoContent(): this {
+    return this.assertType(isHttpResponseNoContent, 'HttpResponseNoContent');
+  }
+
+  toBeHttpResponseRedirection(): this {
+    return this.assertType(isHttpResponseRedirection, 'HttpResponseRedirection');
+  }
+
+  toBeHttpResponseMovedPermanently(): this {
+    return this.assertType(isHttpResponseMovedPermanently, 'HttpResponseMovedPermanently');
+  }
+
+  toBeHttpResponseRedirect(): this {
+    return this.assertType(isHttpResponseRedirect, 'HttpResponseRedirect');
+  }
+
+  toBeHttpResponseNotModified(): this {
+    return this.assertType(isHttpResponseNotModified, 'HttpResponseNotModified');
+  }
+
+  toBeHttpResponseClientError(): this {
+    return this.assertType(isHttpResponseClientError, 'HttpResponseClientError');
+  }
+
+  toBeHttpResponseBadRequest(): this {
+    return this.assertType(isHttpResponseBadRequest, 'HttpResponseBadRequest');
+  }
+
+  toBeHttpResponseUnauthorized(): this {
+    return this.assertType(isHttpResponseUnauthorized, 'HttpResponseUnauthorized');
+  }
+
+  toBeHttpResponseForbidden(): this {
+    return this.assertType(isHttpResponseForbidden, 'HttpResponseForbidden');
+  }
+
+  toBeHttpResponseNotFound(): this {
+    return this.assertType(isHttpResponseNotFound, 'HttpResponseNotFound');
+  }
+
+  toBeHttpResponseMethodNotAllowed(): this {
+    return this.assertType(isHttpResponseMethodNotAllowed, 'HttpResponseMethodNotAllowed');
+  }
+
+  toBeHttpResponseConflict(): this {
+    return this.assertType(isHttpResponseConflict, 'HttpResponseConflict');
+  }
+
+  toBeHttpResponseTooManyRequests(): this {
+    return this.assertType(isHttpResponseTooManyRequests, 'HttpResponseTooManyRequests');
+  }
+
+  toBeHttpResponseUnsupportedMediaType(): this {
+    return this.assertType(isHttpResponseUnsupportedMediaType, 'HttpResponseUnsupportedMediaType');
+  }
+
+  toBeHttpResponseServerError(): this {
+    return this.assertType(isHttpResponseServerError, 'HttpResponseServerError');
+  }
+
+  toBeHttpResponseInternalServerError(): this {
+    return this.assertType(isHttpResponseInternalServerError, 'HttpResponseInternalServerError');
+  }
+
+  toBeHttpResponseNotImplemented(): this {
+    return this.assertType(isHttpResponseNotImplemented, 'HttpResponseNotImplemented');
+  }
+
+  /**
+   * Assert that the response has the given status code.
+   *
+   * @param {number} statusCode - The expected status code.
+   * @returns {this}
+   * @memberof HttpResponseAssertions
+   */
+  toHaveStatus(statusCode: number): this {
+    if (this.response.statusCode !== statusCode) {
+      throw new AssertionError({
+        actual: this.response.statusCode,
+        expected: statusCode,
+        message: `Expected the response to have the status ${statusCode}, but got ${this.response.statusCode}.`,
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Assert that the response has the given header. If a value is given, the header value
+   * must be equal to it.
+   *
+   * @param {string} name - The header name.
+   * @param {string} [value] - The expected value.
+   * @returns {this}
+   * @memberof HttpResponseAssertions
+   */
+  toHaveHeader(name: string, value?: string): this {
+    const actualValue = this.getHeader(name);
+    if (actualValue === undefined) {
+      throw new AssertionError({
+        actual: undefined,
+        expected: value,
+        message: `Expected the response to have the header "${name}".`,
+      });
+    }
+    if (value !== undefined && actualValue !== value) {
+      throw new AssertionError({
+        actual: actualValue,
+        expected: value,
+        message: `Expected the header "${name}" to be "${value}", but got "${actualValue}".`,
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Assert that the response body is deeply equal to the given value.
+   *
+   * With a response returned by the test client, the parsed body is compared. Otherwise, the
+   * body of the HttpResponse object is compared.
+   *
+   * @param {*} body - The expected body.
+   * @returns {this}
+   * @memberof HttpResponseAssertions
+   */
+  toHaveBody(body: any): this {
+    deepStrictEqual(this.actual.body, body);
+    return this;
+  }
+
+  private getHeader(name: string): string|string[]|undefined {
+    if (!isHttpResponse(this.actual)) {
+      return this.actual.headers[name.toLowerCase()];
+    }
+    const headers = this.response.getHeaders();
+    const headerName = Object.keys(headers).find(key => key.toLowerCase() === name.toLowerCase());
+    return headerName === undefined ? undefined : headers[headerName];
+  }
+
+  private assertType(guard: (obj: any) => boolean, className: string): this {
+    if (!guard(this.response)) {
+      const actualName = this.response?.constructor?.name || typeof this.response;
+      throw new AssertionError({
+        actual: actualName,
+        expected: className,
+        message: `Expected an instance of ${className}, but got ${actualName} (${this.response?.statusCode}).`,
+      });
+    }
+    return this;
+  }
+
+}
+
+/**
+ * Create assertions on an HttpResponse object or on a response returned by the test client.
+ *
+ * @example
+ * expect(await client.get('/users/1')).toBeHttpResponseNotFound();
+ *
+ * @export
+ * @param {(HttpResponse|TestResponse)} response - The response.
+ * @returns {HttpResponseAssertions} The assertions.
+ */
+export function expect(response: HttpResponse|TestResponse): HttpResponseAssertions {
+  return new HttpResponseAssertions(response);
+}
@@ -0,0 +1,2 @@
+export { expect, HttpResponseAssertions } from './expect';
+export { createTestClient, TestClient, TestClientOptions, TestRequest, TestResponse } from './test-client';
@@ -0,0 +1,235 @@
+// std
+import { deepStrictEqual, strictEqual } from 'assert';
+import { Readable } from 'stream';
+
+// FoalTS
+import { controller } from '../common';
+import {
+  Config,
+  Context,
+  dependency,
+  Get,
+  HttpResponseCreated,
+  HttpResponseOK,
+  isHttpResponseCreated,
+  isHttpResponseMethodNotAllowed,
+  isHttpResponseNotFound,
+  Post,
+} from '../core';
+import { createSession, SessionState, SessionStore, UseSessions } from '../sessions';
+import { createTestClient } from './test-client';
+
+describe('createTestClient', () => {
+
+  class Store extends SessionStore {
+    sessions = new Map<string, SessionState>();
+
+    async save(state: SessionState): Promise<void> {
+      this.sessions.set(state.id, state);
+    }
+    async read(id: string): Promise<SessionState | null> {
+      return this.sessions.get(id) || null;
+    }
+    async update(state: SessionState): Promise<void> {
+      this.sessions.set(state.id, state);
+    }
+    async destroy(id: string): Promise<void> {
+      this.sessions.delete(id);
+    }
+    async clear(): Promise<void> {
+      this.sessions.clear();
+    }
+    async cleanUpExpiredSessions(): Promise<void> {}
+  }
+
+  afterEach(() => Config.remove('settings.logger.format'));
+
+  beforeEach(() => Config.set('settings.logger.format', 'none'));
+
+  it('should return the HttpResponse object and the serialized response.', async () => {
+    class AppController {
+      @Post('/users')
+      createUser(ctx: Context) {
+        return new HttpResponseCreated({ name: ctx.request.body.name })
+          .setHeader('X-Foo', 'bar')
+          .setCookie('foo', 'bar');
+      }
+    }
+
+    const client = await createTestClient(AppController);
+    const res = await client.post('/users').send({ name: 'John' });
+
+    strictEqual(isHttpResponseCreated(res.response), true);
+    strictEqual(res.status, 201);
+    deepStrictEqual(res.body, { name: 'John' });
+    strictEqual(res.text, '{"name":"John"}');
+    strictEqual(res.headers['x-foo'], 'bar');
+    strictEqual(res.headers['content-type'], 'application/json; charset=utf-8');
+    deepStrictEqual(res.headers['set-cookie'], [ 'foo=bar; Path=/' ]);
+  });
+
+  it('should pass the path params, the query params, the headers and the cookies to the controllers.', async () => {
+    class AppController {
+      @Get('/users/:id')
+      getUser(ctx: Context) {
+        return new HttpResponseOK({
+          cookie: ctx.request.cookies.foo,
+          header: ctx.request.get('X-Foo'),
+          id: ctx.request.params.id,
+          query: ctx.request.query,
+        });
+      }
+    }
+
+    const client = await createTestClient(AppController);
+    const res = await client.get('/users/1')
+      .query({ tags: [ 'a', 'b' ] })
+      .set('X-Foo', 'bar')
+      .cookie('foo', 'hello world');
+
+    deepStrictEqual(res.body, {
+      cookie: 'hello world',
+      header: 'bar',
+      id: '1',
+      query: { tags: [ 'a', 'b' ] },
+    });
+  });
+
+  it('should return 404 and 405 responses if no route matches.', async () => {
+    class AppController {
+      @Get('/foo')
+      foo() {
+        return new HttpResponseOK();
+      }
+    }
+
+    const client = await createTestClient(AppController);
+
+    const notFound = await client.get('/bar');
+    strictEqual(isHttpResponseNotFound(notFound.response), true);
+    strictEqual(notFound.text, 'Cannot GET /bar');
+
+    const notAllowed = await client.post('/foo');
+    strictEqual(isHttpResponseMethodNotAllowed(notAllowed.response), true);
+    strictEqual(notAllowed.headers.allow, 'GET, HEAD');
+  });
+
+  it('should add the CORS headers of settings.cors to the 404 and 405 responses.', async () => {
+    Config.set('settings.cors.origin', 'https://example.com');
+
+    class AppController {
+      @Get('/foo')
+      foo() {
+        return new HttpResponseOK();
+      }
+    }
+
+    try {
+      const client = await createTestClient(AppController);
+
+      const notFound = await client.get('/bar').set('Origin', 'https://example.com');
+      strictEqual(notFound.headers['access-control-allow-origin'], 'https://example.com');
+
+      const notAllowed = await client.post('/foo').set('Origin', 'https://example.com');
+      strictEqual(notAllowed.headers['access-control-allow-origin'], 'https://example.com');
+    } finally {
+      Config.remove('settings.cors.origin');
+    }
+  });
+
+  it('should read the streamed responses.', async () => {
+    class AppController {
+      @Get('/')
+      index() {
+        return new HttpResponseOK(Readable.from([ 'hello ', 'world' ]), { stream: true });
+      }
+    }
+
+    const client = await createTestClient(AppController);
+    const res = await client.get('/');
+
+    strictEqual(res.text, 'hello world');
+  });
+
+  it('should let override the services.', async () => {
+    class Mailer {
+      send() {
+        return 'real';
+      }
+    }
+
+    class AppController {
+      @dependency
+      mailer: Mailer;
+
+      @Get('/')
+      index() {
+        return new HttpResponseOK(this.mailer.send());
+      }
+    }
+
+    const client = await createTestClient(AppController, {
+      services: [ [ Mailer, { send: () => 'mock' } ] ],
+    });
+    const res = await client.get('/');
+
+    strictEqual(res.text, 'mock');
+  });
+
+  it('should authenticate the requests with a session.', async () => {
+    @UseSessions({ store: Store, required: true })
+    class ApiController {
+      @Get('/')
+      index(ctx: Context) {
+        return new HttpResponseOK(ctx.session?.get('foo'));
+      }
+    }
+
+    @UseSessions({ store: Store, cookie: true, csrf: false, required: true })
+    class WebController {
+      @Get('/')
+      index(ctx: Context) {
+        return new HttpResponseOK(ctx.session?.get('foo'));
+      }
+    }
+
+    class AppController {
+      subControllers = [
+        controller('/api', ApiController),
+        controller('/web', WebController),
+      ];
+    }
+
+    const client = await createTestClient(AppController);
+    const session = await createSession(client.services.get(Store));
+    session.set('foo', 'bar');
+    await session.commit();
+
+    const unauthenticated = await client.get('/api');
+    strictEqual(unauthenticated.status, 400);
+
+    const apiRes = await client.get('/api').withSession(session);
+    strictEqual(apiRes.text, 'bar');
+
+    const webRes = await client.get('/web').withSession(session, { cookie: true });
+    strictEqual(webRes.text, 'bar');
+  });
+
+  it('should send the JWTs in the Authorization header or in a cookie.', async () => {
+    class AppController {
+      @Get('/')
+      index(ctx: Context) {
+        return new HttpResponseOK({
+          cookie: ctx.request.cookies.auth,
+          header: ctx.request.get('Authorization'),
+        });
+      }
+    }
+
+    const client = await createTestClient(AppController);
+
+    deepStrictEqual((await client.get('/').withJwt('xxx')).body, { header: 'Bearer xxx' });
+    deepStrictEqual((await client.get('/').withJwt('xxx', { cookie: true })).body, { cookie: 'xxx' });
+  });
+
+});
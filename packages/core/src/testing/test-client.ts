@@ -0,0 +1,390 @@
+// std
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { Readable } from 'node:stream';
+
+// FoalTS
+import {
+  Class,
+  ClassOrAbstractClass,
+  Config,
+  HttpAdapter,
+  HttpAdapterOptions,
+  HttpAdapterRoute,
+  HttpMethod,
+  HttpResponse,
+  HttpResponseMethodNotAllowed,
+  HttpResponseNotFound,
+  IAppController,
+  Logger,
+  Router,
+  ServiceManager,
+} from '../core';
+import { getCorsConfig, getCorsHeaders, setCorsHeaders } from '../common';
+import { createApp } from '../express';
+import { createRequest } from '../node-http/create-request';
+import { serializeResponseBody, serializeResponseCookies } from '../node-http/send-response';
+import { Session } from '../sessions';
+
+/**
+ * Response returned by the test client.
+ *
+ * @export
+ * @interface TestResponse
+ */
+export interface TestResponse {
+  /** The HttpResponse object returned by the controller or the hooks. */
+  response: HttpResponse;
+  status: number;
+  /** The serialized headers. Their names are lowercased. */
+  headers: Record<string, string|string[]>;
+  /** The serialized body. */
+  text: string;
+  /** The parsed body if it is JSON, the serialized body otherwise. */
+  body: any;
+}
+
+export interface TestClientOptions {
+  /**
+   * Services to use instead of the default ones (ex: `[ [ Mailer, mockMailer ] ]`).
+   */
+  services?: [ string|ClassOrAbstractClass, any ][];
+  /**
+   * Service manager of the application. A new one is created by default.
+   */
+  serviceManager?: ServiceManager;
+  /**
+   * JSON Schema of the configuration (see `createApp`).
+   */
+  configSchema?: object;
+}
+
+/**
+ * Request built with the test client. It is executed when it is awaited.
+ *
+ * @export
+ * @class TestRequest
+ * @implements {PromiseLike<TestResponse>}
+ */
+export class TestRequest implements PromiseLike<TestResponse> {
+
+  private readonly headers: Record<string, string> = {};
+  private readonly cookies: Record<string, string> = {};
+  private queryParams: Record<string, string|string[]> = {};
+  private body: any;
+
+  constructor(private readonly client: TestClient, private readonly method: HttpMethod, private readonly path: string) {}
+
+  /**
+   * Set a request header.
+   *
+   * @param {string} name - The header name.
+   * @param {string} value - The header value.
+   * @returns {this}
+   * @memberof TestRequest
+   */
+  set(name: string, value: string): this {
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  }
+
+  /**
+   * Add query parameters to the request.
+   *
+   * @param {Record<string, string|string[]>} params - The query parameters.
+   * @returns {this}
+   * @memberof TestRequest
+   */
+  query(params: Record<string, string|string[]>): this {
+    this.queryParams = { ...this.queryParams, ...params };
+    return this;
+  }
+
+  /**
+   * Set a request cookie.
+   *
+   * @param {string} name - The cookie name.
+   * @param {string} value - The cookie value.
+   * @returns {this}
+   * @memberof TestRequest
+   */
+  cookie(name: string, value: string): this {
+    this.cookies[name] = value;
+    return this;
+  }
+
+  /**
+   * Set the request body. The body is passed as is to the controllers (it is not serialized).
+   *
+   * @param {*} body - The request body.
+   * @returns {this}
+   * @memberof TestRequest
+   */
+  send(body: any): this {
+    this.body = body;
+    if (!this.headers['content-type'] && typeof body === 'object' && body !== null) {
+      this.headers['content-type'] = 'application/json';
+    }
+    return this;
+  }
+
+  /**
+   * Authenticate the request with a session. The session must have been committed to the store
+   * used by the application.
+   *
+   * By default, the session token is sent in the Authorization header. If `cookie` is true, it
+   * is sent in the session cookie along with the CSRF token (if any).
+   *
+   * @param {Session} session - The session.
+   * @param {{ cookie?: boolean }} [options={}] - Where to send the session token.
+   * @returns {this}
+   * @memberof TestRequest
+   */
+  withSession(session: Session, options: { cookie?: boolean } = {}): this {
+    if (!options.cookie) {
+      return this.set('Authorization', `Bearer ${session.getToken()}`);
+    }
+
+    const csrfToken = session.get<string|undefined>('csrfToken');
+    if (csrfToken) {
+      this.set('X-CSRF-Token', csrfToken);
+    }
+    return this.cookie(Config.get('settings.session.cookie.name', 'string', 'sessionID'), session.getToken());
+  }
+
+  /**
+   * Authenticate the request with a JSON Web Token.
+   *
+   * By default, the token is sent in the Authorization header. If `cookie` is true, it is
+   * sent in the JWT cookie.
+   *
+   * @param {string} token - The encoded JWT.
+   * @param {{ cookie?: boolean }} [options={}] - Where to send the token.
+   * @returns {this}
+   * @memberof TestRequest
+   */
+  withJwt(token: string, options: { cookie?: boolean } = {}): this {
+    if (!options.cookie) {
+      return this.set('Authorization', `Bearer ${token}`);
+    }
+    return this.cookie(Config.get('settings.jwt.cookie.name', 'string', 'auth'), token);
+  }
+
+  /**
+   * Execute the request.
+   *
+   * @returns {Promise<TestResponse>} The response.
+   * @memberof TestRequest
+   */
+  execute(): Promise<TestResponse> {
+    const search = new URLSearchParams();
+    for (const key in this.queryParams) {
+      for (const value of ([] as string[]).concat(this.queryParams[key])) {
+        search.append(key, value);
+      }
+    }
+    const queryString = search.toString();
+
+    const headers = { ...this.headers };
+    const cookieHeader = Object.keys(this.cookies)
+      .map(name => `${name}=${encodeURIComponent(this.cookies[name])}`)
+      .join('; ');
+    if (cookieHeader) {
+      headers.cookie = headers.cookie ? `${headers.cookie}; ${cookieHeader}` : cookieHeader;
+    }
+
+    return this.client.execute({
+      body: this.body,
+      headers,
+      method: this.method,
+      url: queryString ? `${this.path}?${queryString}` : this.path,
+    });
+  }
+
+  then<TResult1 = TestResponse, TResult2 = never>(
+    onfulfilled?: ((value: TestResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * In-process HTTP client to test FoalTS applications. The requests go through the router,
+ * the hooks and the controllers without opening a socket.
+ *
+ * Use `createTestClient` to create one.
+ *
+ * @export
+ * @class TestClient
+ */
+export class TestClient {
+
+  constructor(
+    readonly services: ServiceManager,
+    private readonly router: Router<HttpAdapterRoute>,
+    private readonly logger: Logger,
+  ) {}
+
+  get(path: string): TestRequest {
+    return new TestRequest(this, 'GET', path);
+  }
+
+  post(path: string): TestRequest {
+    return new TestRequest(this, 'POST', path);
+  }
+
+  put(path: string): TestRequest {
+    return new TestRequest(this, 'PUT', path);
+  }
+
+  patch(path: string): TestRequest {
+    return new TestRequest(this, 'PATCH', path);
+  }
+
+  delete(path: string): TestRequest {
+    return new TestRequest(this, 'DELETE', path);
+  }
+
+  head(path: string): TestRequest {
+    return new TestRequest(this, 'HEAD', path);
+  }
+
+  options(path: string): TestRequest {
+    return new TestRequest(this, 'OPTIONS', path);
+  }
+
+  /**
+   * Execute a raw request. Prefer the methods `get`, `post`, etc.
+   *
+   * @param {{ method: HttpMethod, url: string, headers: Record<string, string>, body: any }} req - The request.
+   * @returns {Promise<TestResponse>} The response.
+   * @memberof TestClient
+   */
+  execute(req: { method: HttpMethod, url: string, headers: Record<string, string>, body: any }): Promise<TestResponse> {
+    return new Promise<TestResponse>((resolve, reject) => {
+      this.logger.initLogContext(() => {
+        this.handleRequest(req).then(resolve, reject);
+      });
+    });
+  }
+
+  private async handleRequest(
+    req: { method: HttpMethod, url: string, headers: Record<string, string>, body: any }
+  ): Promise<TestResponse> {
+    const cookieSecret = Config.get('settings.cookieParser.secret', 'string');
+    const requestId = req.headers['x-request-id'] || randomUUID();
+    this.logger.addLogContext({ requestId });
+
+    const path = req.url.split('?')[0];
+    const result = this.router.lookup(req.method, path);
+
+    let response: HttpResponse;
+    let scope: ServiceManager|undefined;
+    if (result.status !== 'found') {
+      response = result.status === 'not-found'
+        ? new HttpResponseNotFound(`Cannot ${req.method} ${path}`)
+        : new HttpResponseMethodNotAllowed().setHeader('Allow', result.allowedMethods.join(', '));
+      const corsConfig = getCorsConfig();
+      if (corsConfig) {
+        setCorsHeaders(response, getCorsHeaders(corsConfig, req.headers.origin));
+      }
+    } else {
+      const incomingMessage = {
+        headers: req.headers,
+        method: req.method,
+        socket: { remoteAddress: '127.0.0.1' },
+        url: req.url,
+      } as unknown as IncomingMessage;
+      const request = createRequest(incomingMessage, { body: req.body, cookieSecret });
+      request.id = requestId;
+      request.params = result.params;
+      scope = this.services.createScope();
+      response = await result.value.handler(request, scope);
+    }
+
+    try {
+      return await this.readResponse(req, response, cookieSecret);
+    } finally {
+      // The request scope is disposed once the (possibly streamed) body has been read.
+      await scope?.dispose().catch(error => this.logger.error(error.message, { error }));
+    }
+  }
+
+  private async readResponse(
+    req: { method: HttpMethod, url: string }, response: HttpResponse, cookieSecret: string|undefined
+  ): Promise<TestResponse> {
+    const headers: Record<string, string|string[]> = {};
+    const responseHeaders = response.getHeaders();
+    for (const name in responseHeaders) {
+      headers[name.toLowerCase()] = responseHeaders[name];
+    }
+    const setCookieHeaders = serializeResponseCookies(response, cookieSecret);
+    if (setCookieHeaders.length > 0) {
+      headers['set-cookie'] = setCookieHeaders;
+    }
+
+    let text: string;
+    if (response.stream === true) {
+      text = (await readStream(response.body)).toString();
+    } else {
+      const { body, contentType } = serializeResponseBody(response);
+      text = body.toString();
+      if (contentType && !headers['content-type']) {
+        headers['content-type'] = contentType;
+      }
+    }
+
+    const isJSON = String(headers['content-type'] || '').startsWith('application/json');
+    return {
+      body: isJSON && text !== '' ? JSON.parse(text) : text,
+      headers,
+      response,
+      status: response.statusCode,
+      text: req.method === 'HEAD' ? '' : text,
+    };
+  }
+
+}
+
+class TestAdapter implements HttpAdapter {
+
+  createApplication({ router, services, logger }: HttpAdapterOptions): TestClient {
+    return new TestClient(services, router, logger);
+  }
+
+}
+
+/**
+ * Create an application from the root controller and return an in-process client to test it.
+ *
+ * The services are booted and `AppController.init` is called as with `createApp`.
+ *
+ * @export
+ * @param {Class<IAppController>} AppController - The root controller.
+ * @param {TestClientOptions} [options={}] - The services to override and other options.
+ * @returns {Promise<TestClient>} The test client.
+ */
+export async function createTestClient(
+  AppController: Class<IAppController>, options: TestClientOptions = {}
+): Promise<TestClient> {
+  const serviceManager = options.serviceManager || new ServiceManager();
+  for (const [ identifier, service ] of options.services || []) {
+    serviceManager.set(identifier, service);
+  }
+
+  return createApp(AppController, {
+    adapter: new TestAdapter(),
+    configSchema: options.configSchema,
+    serviceManager,
+  });
+}
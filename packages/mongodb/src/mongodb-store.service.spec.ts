@@ -98,6 +98,14 @@ describe('MongoDBStore', () => {
 
   });
 
+  describe('has a "dispose" method that', () => {
+
+    it('should not throw if the store has not been booted.', () => {
+      return createService(MongoDBStore).dispose();
+    });
+
+  });
+
   describe('when the service has been initialized', () => {
 
     let state: SessionState;
@@ -99,4 +99,15 @@ export class MongoDBStore extends SessionStore {
     await this.mongoDBClient.close();
   }
 
+  /**
+   * Closes the connection to the database if it exists. Called by `ServiceManager.dispose`.
+   *
+   * @memberof MongoDBStore
+   */
+  async dispose(): Promise<void> {
+    if (this.mongoDBClient) {
+      await this.close();
+    }
+  }
+
 }
@@ -4,6 +4,14 @@
  * Released under the MIT License.
  */
 
+export {
+  RedisCacheStore,
+  RedisCacheStore as ConcreteCacheStore,
+} from './redis-cache-store.service';
+export {
+  RedisRateLimitStore,
+  RedisRateLimitStore as ConcreteRateLimitStore,
+} from './redis-rate-limit-store.service';
 export {
   RedisStore,
   RedisStore as ConcreteSessionStore,
@@ -0,0 +1,146 @@
+// 3p
+import { Config, createService } from '@foal/core';
+import { createClient } from 'redis';
+
+// FoalTS
+import { deepStrictEqual, strictEqual } from 'assert';
+import { RedisCacheStore } from './redis-cache-store.service';
+
+describe('RedisCacheStore', () => {
+
+  const REDIS_URI = 'redis://localhost:6380';
+
+  let store: RedisCacheStore;
+  let redisClient: ReturnType<typeof createClient>;
+
+  before(async () => {
+    Config.set('settings.redis.uri', REDIS_URI);
+
+    redisClient = createClient({ url: REDIS_URI });
+    await redisClient.connect();
+
+    store = createService(RedisCacheStore);
+    await store.boot();
+  });
+
+  beforeEach(() => redisClient.flushDb());
+
+  after(async () => {
+    Config.remove('settings.redis.uri');
+    await Promise.all([
+      redisClient.quit(),
+      store.close(),
+    ]);
+  });
+
+  describe('has a "set" method that', () => {
+
+    it('should save the value in JSON.', async () => {
+      await store.set('foo', { bar: 'baz' });
+
+      strictEqual(await redisClient.get('cache:foo'), '{"bar":"baz"}');
+      strictEqual(await redisClient.ttl('cache:foo'), -1);
+    });
+
+    it('should set the lifetime of the entry.', async () => {
+      await store.set('foo', 'bar', { ttl: 10 });
+
+      const ttl = await redisClient.ttl('cache:foo');
+      strictEqual(ttl > 0 && ttl <= 10, true);
+    });
+
+    it('should save the tags of the entry.', async () => {
+      await store.set('foo', 'bar', { tags: [ 'products' ] });
+
+      deepStrictEqual(await redisClient.sMembers('cache-tag:products'), [ 'foo' ]);
+    });
+
+    it('should make the set of a tag expire with its longest-lived entry.', async () => {
+      await store.set('foo', 'bar', { tags: [ 'products' ], ttl: 10 });
+      let ttl = await redisClient.ttl('cache-tag:products');
+      strictEqual(ttl > 0 && ttl <= 10, true);
+
+      await store.set('bar', 'baz', { tags: [ 'products' ], ttl: 100 });
+      ttl = await redisClient.ttl('cache-tag:products');
+      strictEqual(ttl > 10 && ttl <= 100, true);
+
+      await store.set('baz', 'qux', { tags: [ 'products' ], ttl: 5 });
+      ttl = await redisClient.ttl('cache-tag:products');
+      strictEqual(ttl > 10 && ttl <= 100, true);
+
+      await store.set('qux', 'foo', { tags: [ 'products' ] });
+      strictEqual(await redisClient.ttl('cache-tag:products'), -1);
+    });
+
+  });
+
+  describe('has an "add" method that', () => {
+
+    it('should create the entry with its lifetime and tags only if it does not exist.', async () => {
+      strictEqual(await store.add('foo', 'bar', { tags: [ 'products' ], ttl: 10 }), true);
+      strictEqual(await store.add('foo', 'baz', { tags: [ 'users' ] }), false);
+
+      strictEqual(await redisClient.get('cache:foo'), '"bar"');
+      const ttl = await redisClient.ttl('cache:foo');
+      strictEqual(ttl > 0 && ttl <= 10, true);
+      deepStrictEqual(await redisClient.sMembers('cache-tag:products'), [ 'foo' ]);
+      strictEqual(await redisClient.exists('cache-tag:users'), 0);
+    });
+
+  });
+
+  describe('has a "get" method that', () => {
+
+    it('should return the value of the entry or undefined if it does not exist.', async () => {
+      strictEqual(await store.get('foo'), undefined);
+
+      await redisClient.set('cache:foo', '{"bar":"baz"}');
+
+      deepStrictEqual(await store.get('foo'), { bar: 'baz' });
+    });
+
+  });
+
+  describe('has a "delete" method that', () => {
+
+    it('should delete the entry.', async () => {
+      await redisClient.set('cache:foo', '"bar"');
+
+      await store.delete('foo');
+
+      strictEqual(await redisClient.exists('cache:foo'), 0);
+    });
+
+  });
+
+  describe('has an "invalidateTag" method that', () => {
+
+    it('should delete the entries with the given tag.', async () => {
+      await store.set('a', 1, { tags: [ 'products' ] });
+      await store.set('b', 2, { tags: [ 'users' ] });
+
+      await store.invalidateTag('products');
+
+      strictEqual(await redisClient.exists('cache:a'), 0);
+      strictEqual(await redisClient.exists('cache-tag:products'), 0);
+      strictEqual(await redisClient.exists('cache:b'), 1);
+    });
+
+  });
+
+  describe('has a "clear" method that', () => {
+
+    it('should delete all the entries and only them.', async () => {
+      await store.set('foo', 'bar', { tags: [ 'products' ] });
+      await redisClient.set('sessions:bar', 'baz');
+
+      await store.clear();
+
+      strictEqual(await redisClient.exists('cache:foo'), 0);
+      strictEqual(await redisClient.exists('cache-tag:products'), 0);
+      strictEqual(await redisClient.exists('sessions:bar'), 1);
+    });
+
+  });
+
+});
@@ -0,0 +1,133 @@
+import { CacheEntryOptions, CacheStore, Config } from '@foal/core';
+import { createClient } from 'redis';
+
+// Add a key to the set of a tag and make the set live at least as long as the entry:
+// the set expires after the given lifetime (ARGV[2]) unless it already lives longer,
+// and it never expires if the entry has no lifetime.
+const ADD_TAG_KEY_SCRIPT = `
+local ttl = redis.call('PTTL', KEYS[1])
+redis.call('SADD', KEYS[1], ARGV[1])
+if ARGV[2] == '' then
+  redis.call('PERSIST', KEYS[1])
+elseif ttl == -2 or (ttl >= 0 and ttl < tonumber(ARGV[2])) then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+`;
+
+/**
+ * Redis cache store.
+ *
+ * Like the session store, it connects to the URI specified with the configuration key
+ * "settings.redis.uri" unless a client is provided with `setRedisClient`.
+ *
+ * The values are saved in JSON. The keys of the entries of a tag are saved in a Redis set
+ * which is deleted when the tag is invalidated. The set expires with its longest-lived entry.
+ *
+ * @export
+ * @class RedisCacheStore
+ * @extends {CacheStore}
+ */
+export class RedisCacheStore extends CacheStore {
+
+  private redisClient: ReturnType<typeof createClient>;
+
+  setRedisClient(redisClient: ReturnType<typeof createClient>): void {
+    this.redisClient = redisClient;
+  }
+
+  async boot() {
+    if (this.redisClient) {
+      return;
+    }
+    const redisURI = Config.get('settings.redis.uri', 'string');
+    this.redisClient = createClient({ url: redisURI });
+    await this.redisClient.connect();
+  }
+
+  async get<T = unknown>(key: string): Promise<T|undefined> {
+    const value = await this.redisClient.get(`cache:${key}`);
+    if (value === null) {
+      return;
+    }
+    return JSON.parse(value);
+  }
+
+  async set(key: string, value: unknown, options: CacheEntryOptions = {}): Promise<void> {
+    const multi = this.redisClient.multi();
+    const lifetime = options.ttl === undefined ? '' : Math.ceil(options.ttl * 1000).toString();
+    if (lifetime === '') {
+      multi.set(`cache:${key}`, JSON.stringify(value));
+    } else {
+      multi.set(`cache:${key}`, JSON.stringify(value), { PX: Number(lifetime) });
+    }
+    for (const tag of options.tags || []) {
+      multi.eval(ADD_TAG_KEY_SCRIPT, { arguments: [ key, lifetime ], keys: [ `cache-tag:${tag}` ] });
+    }
+    await multi.exec();
+  }
+
+  async add(key: string, value: unknown, options: CacheEntryOptions = {}): Promise<boolean> {
+    const lifetime = options.ttl === undefined ? '' : Math.ceil(options.ttl * 1000).toString();
+    const result = lifetime === ''
+      ? await this.redisClient.set(`cache:${key}`, JSON.stringify(value), { NX: true })
+      : await this.redisClient.set(`cache:${key}`, JSON.stringify(value), { NX: true, PX: Number(lifetime) });
+    if (result !== 'OK') {
+      return false;
+    }
+    const tags = options.tags || [];
+    if (tags.length > 0) {
+      const multi = this.redisClient.multi();
+      for (const tag of tags) {
+        multi.eval(ADD_TAG_KEY_SCRIPT, { arguments: [ key, lifetime ], keys: [ `cache-tag:${tag}` ] });
+      }
+      await multi.exec();
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redisClient.del(`cache:${key}`);
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    const keys = await this.redisClient.sMembers(`cache-tag:${tag}`);
+    await this.redisClient.del([ `cache-tag:${tag}`, ...keys.map(key => `cache:${key}`) ]);
+  }
+
+  async clear(): Promise<void> {
+    // SCAN does not block the server as KEYS does.
+    for (const pattern of [ 'cache:*', 'cache-tag:*' ]) {
+      let keys: string[] = [];
+      for await (const key of this.redisClient.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+        keys.push(key);
+        if (keys.length >= 100) {
+          await this.redisClient.del(keys);
+          keys = [];
+        }
+      }
+      if (keys.length > 0) {
+        await this.redisClient.del(keys);
+      }
+    }
+  }
+
+  /**
+   * Closes the connection to the database.
+   *
+   * @memberof RedisCacheStore
+   */
+  async close(): Promise<void> {
+    await this.redisClient.quit();
+  }
+
+  /**
+   * Closes the connection to the database if it is open. Called by `ServiceManager.dispose`.
+   *
+   * @memberof RedisCacheStore
+   */
+  async dispose(): Promise<void> {
+    if (this.redisClient?.isOpen) {
+      await this.close();
+    }
+  }
+}
@@ -0,0 +1,132 @@
+// 3p
+import { Config, createService } from '@foal/core';
+import { createClient } from 'redis';
+
+// FoalTS
+import { strictEqual } from 'assert';
+import { RedisRateLimitStore } from './redis-rate-limit-store.service';
+
+describe('RedisRateLimitStore', () => {
+
+  const REDIS_URI = 'redis://localhost:6380';
+
+  let store: RedisRateLimitStore;
+  let redisClient: ReturnType<typeof createClient>;
+
+  before(async () => {
+    Config.set('settings.redis.uri', REDIS_URI);
+
+    redisClient = createClient({ url: REDIS_URI });
+    await redisClient.connect();
+
+    store = createService(RedisRateLimitStore);
+    await store.redisStore.boot();
+  });
+
+  beforeEach(() => redisClient.flushDb());
+
+  after(async () => {
+    Config.remove('settings.redis.uri');
+    await Promise.all([
+      redisClient.quit(),
+      store.redisStore.close(),
+    ]);
+  });
+
+  describe('should use a Redis client that', () => {
+
+    it('should be the one of the RedisStore by default.', async () => {
+      const rateLimitStore = createService(RedisRateLimitStore, {
+        redisStore: { getRedisClient: () => redisClient },
+      });
+
+      await rateLimitStore.increment('foo', 10);
+
+      strictEqual(await redisClient.get('rate-limit:foo'), '1');
+    });
+
+    it('should be the one given with setRedisClient if it is called.', async () => {
+      const rateLimitStore = createService(RedisRateLimitStore, {
+        redisStore: { getRedisClient: () => { throw new Error('The RedisStore client should not be used.'); } },
+      });
+      rateLimitStore.setRedisClient(redisClient);
+
+      await rateLimitStore.increment('foo', 10);
+
+      strictEqual(await redisClient.get('rate-limit:foo'), '1');
+    });
+
+    it('should connect to the URI of the configuration if the sessions are not stored in Redis.', async () => {
+      // The RedisStore has not been booted.
+      const rateLimitStore = createService(RedisRateLimitStore);
+
+      try {
+        await rateLimitStore.increment('foo', 10);
+        await rateLimitStore.increment('foo', 10);
+
+        strictEqual(await rateLimitStore.get('foo'), 2);
+        strictEqual(await redisClient.get('rate-limit:foo'), '2');
+      } finally {
+        await rateLimitStore.dispose();
+      }
+    });
+
+  });
+
+  describe('has an "increment" method that', () => {
+
+    it('should create the counter if it does not exist and increment it otherwise.', async () => {
+      strictEqual(await store.increment('foo', 10), 1);
+      strictEqual(await store.increment('foo', 10), 2);
+      strictEqual(await store.increment('bar', 10), 1);
+
+      strictEqual(await redisClient.get('rate-limit:foo'), '2');
+    });
+
+    it('should set the lifetime of the counter when it is created only.', async () => {
+      await store.increment('foo', 10);
+      await store.increment('foo', 1000);
+
+      const ttl = await redisClient.ttl('rate-limit:foo');
+      strictEqual(ttl > 0 && ttl <= 10, true);
+    });
+
+  });
+
+  describe('has a "get" method that', () => {
+
+    it('should return the value of the counter or 0 if it does not exist.', async () => {
+      strictEqual(await store.get('foo'), 0);
+
+      await redisClient.set('rate-limit:foo', '3');
+
+      strictEqual(await store.get('foo'), 3);
+    });
+
+  });
+
+  describe('has a "clear" method that', () => {
+
+    it('should delete all the counters and only them.', async () => {
+      await redisClient.set('rate-limit:foo', '3');
+      await redisClient.set('sessions:bar', 'baz');
+
+      await store.clear();
+
+      strictEqual(await redisClient.exists('rate-limit:foo'), 0);
+      strictEqual(await redisClient.exists('sessions:bar'), 1);
+    });
+
+    it('should delete the counters by batches.', async () => {
+      for (let i = 0; i < 250; i++) {
+        await redisClient.set(`rate-limit:foo${i}`, '1');
+      }
+
+      await store.clear();
+
+      strictEqual((await redisClient.keys('rate-limit:*')).length, 0);
+    });
+
+  });
+
+});
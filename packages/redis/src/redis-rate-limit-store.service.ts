@@ -0,0 +1,105 @@
+import { Config, dependency, RateLimitStore } from '@foal/core';
+import { createClient } from 'redis';
+
+import { RedisStore } from './redis-store.service';
+
+/**
+ * Redis store for the `@RateLimit` hook.
+ *
+ * It uses the client provided with `setRedisClient` or, if the Redis session store (see `RedisStore`)
+ * has been booted, the client of this store. Otherwise, it connects to the URI specified with the
+ * configuration key "settings.redis.uri" when it is first used. The store is retrieved by the
+ * `@RateLimit` hook when a request is received, so it is not booted with the other services.
+ *
+ * @export
+ * @class RedisRateLimitStore
+ * @extends {RateLimitStore}
+ */
+export class RedisRateLimitStore extends RateLimitStore {
+
+  @dependency
+  redisStore: RedisStore;
+
+  private redisClient: ReturnType<typeof createClient>|undefined;
+  private connection: Promise<ReturnType<typeof createClient>>|undefined;
+
+  setRedisClient(redisClient: ReturnType<typeof createClient>): void {
+    this.redisClient = redisClient;
+  }
+
+  async increment(key: string, lifetime: number): Promise<number> {
+    // The expiration is only set when the counter is created.
+    const [ , value ] = await (await this.getRedisClient()).multi()
+      .set(`rate-limit:${key}`, '0', { NX: true, PX: Math.ceil(lifetime * 1000) })
+      .incr(`rate-limit:${key}`)
+      .exec();
+    return Number(value);
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await (await this.getRedisClient()).get(`rate-limit:${key}`);
+    return value === null ? 0 : Number(value);
+  }
+
+  async clear(): Promise<void> {
+    const redisClient = await this.getRedisClient();
+    // SCAN does not block the server as KEYS does.
+    let keys: string[] = [];
+    for await (const key of redisClient.scanIterator({ MATCH: 'rate-limit:*', COUNT: 100 })) {
+      keys.push(key);
+      if (keys.length >= 100) {
+        await redisClient.del(keys);
+        keys = [];
+      }
+    }
+    if (keys.length > 0) {
+      await redisClient.del(keys);
+    }
+  }
+
+  /**
+   * Closes the connection to the database if the store opened its own connection.
+   * The clients of `setRedisClient` and of the `RedisStore` are not closed.
+   *
+   * @memberof RedisRateLimitStore
+   */
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    if (connection) {
+      await (await connection).quit();
+    }
+  }
+
+  /**
+   * Closes the connection opened by the store, if any. Called by `ServiceManager.dispose`.
+   *
+   * @memberof RedisRateLimitStore
+   */
+  async dispose(): Promise<void> {
+    await this.close();
+  }
+
+  private async getRedisClient(): Promise<ReturnType<typeof createClient>> {
+    if (this.redisClient) {
+      return this.redisClient;
+    }
+    const sessionRedisClient: ReturnType<typeof createClient>|undefined = this.redisStore.getRedisClient();
+    if (sessionRedisClient) {
+      return sessionRedisClient;
+    }
+    if (!this.connection) {
+      const redisURI = Config.get('settings.redis.uri', 'string');
+      const redisClient = createClient({ url: redisURI });
+      this.connection = redisClient.connect().then(
+        () => redisClient,
+        error => {
+          // Try again on the next call.
+          this.connection = undefined;
+          throw error;
+        }
+      );
+    }
+    return this.connection;
+  }
+}
@@ -47,6 +47,14 @@ describe('RedisStore', () => {
 
   });
 
+  describe('has a "dispose" method that', () => {
+
+    it('should not throw if the store has not been booted.', () => {
+      return createService(RedisStore).dispose();
+    });
+
+  });
+
   describe('when the service has been initialized', () => {
 
     let state: SessionState;
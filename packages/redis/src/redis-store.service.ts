@@ -16,6 +16,17 @@ export class RedisStore extends SessionStore {
     this.redisClient = redisClient;
   }
 
+  /**
+   * Returns the Redis client of the store. It is shared with the other Redis services
+   * (such as `RedisRateLimitStore`) so that they do not open their own connection.
+   *
+   * @returns {ReturnType<typeof createClient>} The Redis client.
+   * @memberof RedisStore
+   */
+  getRedisClient(): ReturnType<typeof createClient> {
+    return this.redisClient;
+  }
+
   async boot() {
     if (this.redisClient) {
       return;
@@ -70,4 +81,15 @@ export class RedisStore extends SessionStore {
   async close(): Promise<void> {
     await this.redisClient.quit();
   }
+
+  /**
+   * Closes the connection to the database if it is open. Called by `ServiceManager.dispose`.
+   *
+   * @memberof RedisStore
+   */
+  async dispose(): Promise<void> {
+    if (this.redisClient?.isOpen) {
+      await this.close();
+    }
+  }
 }
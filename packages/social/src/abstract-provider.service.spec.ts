@@ -11,6 +11,8 @@ import {
   Context,
   createApp,
   createService,
+  createSession,
+  MemoryStore,
   HttpResponseBadRequest,
   HttpResponseOK,
   isHttpResponseOK,
@@ -24,8 +26,10 @@ import {
   AuthorizationError,
   CodeVerifierNotFound,
   InvalidStateError,
+  RefreshTokenError,
   SocialTokens,
-  TokenError
+  TokenError,
+  TokenRevocationError
 } from './abstract-provider.service';
 
 const STATE_COOKIE_NAME = 'oauth2-state';
@@ -141,6 +145,46 @@ describe('TokenError', () => {
 
 });
 
+describe('RefreshTokenError', () => {
+
+  it('should be an instance of TokenError with a "name", a "message" and an "error" property.', () => {
+    const err = { error: 'invalid_grant' };
+    const error = new RefreshTokenError(err);
+
+    ok(error instanceof TokenError);
+    strictEqual(error.name, 'RefreshTokenError');
+    strictEqual(
+      error.message,
+      `The authorization server returned an error. Impossible to refresh the access token.
+{
+  "error": "invalid_grant"
+}`
+    );
+    strictEqual(error.error, err);
+  });
+
+});
+
+describe('TokenRevocationError', () => {
+
+  it('should be an instance of TokenError with a "name", a "message" and an "error" property.', () => {
+    const err = { error: 'unsupported_token_type' };
+    const error = new TokenRevocationError(err);
+
+    ok(error instanceof TokenError);
+    strictEqual(error.name, 'TokenRevocationError');
+    strictEqual(
+      error.message,
+      `The authorization server returned an error. Impossible to revoke the token.
+{
+  "error": "unsupported_token_type"
+}`
+    );
+    strictEqual(error.error, err);
+  });
+
+});
+
 describe('AbstractProvider', () => {
 
   class ConcreteProvider extends AbstractProvider<any, any, any> {
@@ -681,6 +725,222 @@ describe('AbstractProvider', () => {
 
   });
 
+  describe('has a "refreshTokens" method that', () => {
+
+    let server: Server;
+    let receivedBody: any;
+
+    afterEach(() => {
+      if (server) {
+        server.close();
+      }
+    });
+
+    it('should send a refresh_token request to the token endpoint and return the new tokens.', async () => {
+      class AppController {
+        @Post('/token')
+        token(ctx: Context) {
+          receivedBody = { ...ctx.request.body };
+          return new HttpResponseOK({
+            access_token: 'a_new_access_token',
+            expires_in: 3600,
+            token_type: 'bearer',
+          });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      const tokens = await provider.refreshTokens('a_refresh_token', { scopes: [ 'foo', 'bar' ] });
+
+      deepStrictEqual(receivedBody, {
+        client_id: clientId,
+        client_secret: clientSecret,
+        grant_type: 'refresh_token',
+        refresh_token: 'a_refresh_token',
+        scope: 'foo bar',
+      });
+      deepStrictEqual(tokens, {
+        access_token: 'a_new_access_token',
+        expires_in: 3600,
+        refresh_token: 'a_refresh_token',
+        token_type: 'bearer',
+      });
+    });
+
+    it('should return the new refresh token if the authorization server rotates it.', async () => {
+      class AppController {
+        @Post('/token')
+        token() {
+          return new HttpResponseOK({
+            access_token: 'a_new_access_token',
+            refresh_token: 'a_new_refresh_token',
+            token_type: 'bearer',
+          });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      const tokens = await provider.refreshTokens('a_refresh_token');
+
+      strictEqual(tokens.refresh_token, 'a_new_refresh_token');
+    });
+
+    it('should throw a RefreshTokenError if the token endpoint returns an error.', async () => {
+      class AppController {
+        @Post('/token')
+        token() {
+          return new HttpResponseBadRequest({ error: 'invalid_grant' });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      try {
+        await provider.refreshTokens('a_refresh_token');
+        throw new Error('refreshTokens should have thrown a RefreshTokenError.');
+      } catch (error: any) {
+        if (!(error instanceof RefreshTokenError)) {
+          throw error;
+        }
+        deepStrictEqual(error.error, { error: 'invalid_grant' });
+      }
+    });
+
+  });
+
+  describe('has a "revokeToken" method that', () => {
+
+    let server: Server;
+    let receivedBody: any;
+
+    class ConcreteProvider2 extends ConcreteProvider {
+      protected revocationEndpoint = 'http://localhost:3000/revoke';
+    }
+
+    afterEach(() => {
+      if (server) {
+        server.close();
+      }
+    });
+
+    it('should throw an error if the provider has no revocation endpoint.', async () => {
+      try {
+        await provider.revokeToken('a_token');
+        throw new Error('revokeToken should have thrown an error.');
+      } catch (error: any) {
+        strictEqual(error.message, '[ConcreteProvider] This provider does not support token revocation.');
+      }
+    });
+
+    it('should send the token to the revocation endpoint.', async () => {
+      class AppController {
+        @Post('/revoke')
+        revoke(ctx: Context) {
+          receivedBody = { ...ctx.request.body };
+          return new HttpResponseOK();
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      await createService(ConcreteProvider2).revokeToken('a_token', 'refresh_token');
+
+      deepStrictEqual(receivedBody, {
+        client_id: clientId,
+        client_secret: clientSecret,
+        token: 'a_token',
+        token_type_hint: 'refresh_token',
+      });
+    });
+
+    it('should throw a TokenRevocationError if the revocation endpoint returns an error.', async () => {
+      class AppController {
+        @Post('/revoke')
+        revoke() {
+          return new HttpResponseBadRequest({ error: 'unsupported_token_type' });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      try {
+        await createService(ConcreteProvider2).revokeToken('a_token');
+        throw new Error('revokeToken should have thrown a TokenRevocationError.');
+      } catch (error: any) {
+        if (!(error instanceof TokenRevocationError)) {
+          throw error;
+        }
+        deepStrictEqual(error.error, { error: 'unsupported_token_type' });
+      }
+    });
+
+  });
+
+  describe('has a "saveTokensInSession", a "getTokensFromSession" and a "removeTokensFromSession" methods that', () => {
+
+    let server: Server;
+
+    beforeEach(() => {
+      Config.set('settings.social.secret.tokensSecret', 'tokens_secret');
+    });
+
+    afterEach(() => {
+      Config.remove('settings.social.secret.tokensSecret');
+      if (server) {
+        server.close();
+      }
+    });
+
+    it('should store the tokens encrypted in the session and retrieve them.', async () => {
+      const session = await createSession(createService(MemoryStore));
+      const tokens: SocialTokens = { access_token: 'an_access_token', token_type: 'bearer' };
+
+      strictEqual(await provider.getTokensFromSession(session), null);
+
+      provider.saveTokensInSession(session, tokens);
+
+      const storedValue = session.get<string>('social-tokens:settings.social.example.clientId', '');
+      strictEqual(typeof storedValue, 'string');
+      strictEqual(storedValue.includes('an_access_token'), false);
+      deepStrictEqual(await provider.getTokensFromSession(session), tokens);
+
+      provider.removeTokensFromSession(session);
+      strictEqual(await provider.getTokensFromSession(session), null);
+    });
+
+    it('should refresh the expired tokens and save them in the session.', async () => {
+      class AppController {
+        @Post('/token')
+        token() {
+          return new HttpResponseOK({ access_token: 'a_new_access_token', expires_in: 3600, token_type: 'bearer' });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      const session = await createSession(createService(MemoryStore));
+      provider.saveTokensInSession(session, {
+        access_token: 'an_access_token',
+        expires_in: 30,
+        refresh_token: 'a_refresh_token',
+        token_type: 'bearer',
+      });
+
+      const notRefreshedTokens = await provider.getTokensFromSession(session, { refresh: false });
+      strictEqual(notRefreshedTokens?.access_token, 'an_access_token');
+
+      const tokens = await provider.getTokensFromSession(session);
+      strictEqual(tokens?.access_token, 'a_new_access_token');
+      strictEqual(tokens?.refresh_token, 'a_refresh_token');
+      ok(tokens?.expires_at > Date.now() / 1000 + 3500);
+
+      strictEqual((await provider.getTokensFromSession(session))?.access_token, 'a_new_access_token');
+    });
+
+  });
+
 });
 
 describe('Abstract Provider With PKCE', () => {
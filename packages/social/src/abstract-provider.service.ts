@@ -3,7 +3,16 @@ import { URL, URLSearchParams } from 'url';
 import * as crypto from 'crypto';
 
 // 3p
-import { Config, Context, generateToken, HttpResponseRedirect, convertBase64ToBase64url, CookieOptions, HttpResponseOK } from '@foal/core';
+import {
+  Config,
+  Context,
+  convertBase64ToBase64url,
+  CookieOptions,
+  generateToken,
+  HttpResponseOK,
+  HttpResponseRedirect,
+  Session
+} from '@foal/core';
 
 /**
  * Tokens returned by an OAuth2 authorization server.
@@ -88,16 +97,46 @@ export class AuthorizationError extends Error {
  * @extends {Error}
  */
 export class TokenError extends Error {
-  readonly name = 'TokenError';
+  readonly name: string = 'TokenError';
 
-  constructor(readonly error: any) {
+  constructor(readonly error: any, reason = 'Impossible to get an access token.') {
     super(
-      'The authorization server returned an error. Impossible to get an access token.\n'
+      `The authorization server returned an error. ${reason}\n`
       + JSON.stringify(error, null, 2)
     );
   }
 }
 
+/**
+ * Error thrown if the token endpoint does not return a 2xx response when refreshing the tokens.
+ *
+ * @export
+ * @class RefreshTokenError
+ * @extends {TokenError}
+ */
+export class RefreshTokenError extends TokenError {
+  readonly name = 'RefreshTokenError';
+
+  constructor(error: any) {
+    super(error, 'Impossible to refresh the access token.');
+  }
+}
+
+/**
+ * Error thrown if the revocation endpoint does not return a 2xx response.
+ *
+ * @export
+ * @class TokenRevocationError
+ * @extends {TokenError}
+ */
+export class TokenRevocationError extends TokenError {
+  readonly name = 'TokenRevocationError';
+
+  constructor(error: any) {
+    super(error, 'Impossible to revoke the token.');
+  }
+}
+
 const STATE_COOKIE_NAME = 'oauth2-state';
 const CODE_VERIFIER_COOKIE_NAME = 'oauth2-code-verifier'
 
@@ -154,6 +193,17 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
    */
   protected readonly abstract tokenEndpoint: string;
 
+  /**
+   * URL of the revocation endpoint (RFC 7009) used to revoke access and refresh tokens.
+   *
+   * If it is undefined, the provider does not support token revocation.
+   *
+   * @protected
+   * @type {string}
+   * @memberof AbstractProvider
+   */
+  protected readonly revocationEndpoint?: string;
+
   /**
    * Default scopes requested by the social provider.
    *
@@ -199,6 +249,15 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
    */
   protected readonly codeVerifierSecretPath: string = 'settings.social.secret.codeVerifierSecret';
 
+  /**
+   * Configuration path from which the secret used to encrypt the tokens stored in the session must be retrieved.
+   *
+   * @protected
+   * @type {string}
+   * @memberof AbstractProvider
+   */
+  protected readonly tokensSecretPath: string = 'settings.social.secret.tokensSecret';
+
   /**
    * Specifies whether the client ID and client secret must be sent in a Authorization header using Basic scheme.
    *
@@ -252,7 +311,7 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
    */
   async createHttpResponseWithConsentPageUrl({ scopes, isRedirection }: { scopes?: string[], isRedirection?: boolean } = {}, params?: AuthParameters): Promise<HttpResponseOK | HttpResponseRedirect> {
     // Build the authorization URL.
-    const url = new URL(this.authEndpoint);
+    const url = new URL(await this.getAuthEndpoint());
     url.searchParams.set('response_type', 'code');
     url.searchParams.set('client_id', this.config.clientId);
     url.searchParams.set('redirect_uri', this.config.redirectUri);
@@ -285,17 +344,7 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
 
     const response = isRedirection ? new HttpResponseRedirect(url.href) : new HttpResponseOK({ consentPageUrl: url.href });
 
-    const cookieOptions: CookieOptions = {
-      httpOnly: true,
-      maxAge: 300,
-      path: '/',
-      secure: Config.get('settings.social.cookie.secure', 'boolean', false)
-    }
-
-    const cookieDomain = Config.get('settings.social.cookie.domain', 'string');
-    if (cookieDomain) {
-      cookieOptions.domain = cookieDomain;
-    }
+    const cookieOptions = this.getCookieOptions();
 
     // Add Code Challenge COOKIE for token request
     if (this.usePKCE) {
@@ -334,11 +383,6 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
     params.set('code', ctx.request.query.code || '');
     params.set('redirect_uri', this.config.redirectUri);
 
-    if (!this.useAuthorizationHeaderForTokenEndpoint) {
-      params.set('client_id', this.config.clientId);
-      params.set('client_secret', this.config.clientSecret);
-    }
-
     if (this.usePKCE) {
       const encryptedCodeVerifier = ctx.request.cookies[CODE_VERIFIER_COOKIE_NAME]
       if (!encryptedCodeVerifier) {
@@ -349,28 +393,69 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
       params.set('code_verifier', codeVerifier);
     }
 
-    const headers: Record<string, string> = {
-      Accept: 'application/json',
-      'Content-Type': 'application/x-www-form-urlencoded'
-    };
+    const response = await this.sendClientRequest(await this.getTokenEndpoint(), params);
+    const body = await response.json();
 
-    if (this.useAuthorizationHeaderForTokenEndpoint) {
-      const auth = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
-      headers.Authorization = `Basic ${auth}`;
+    if (!response.ok) {
+      throw new TokenError(body);
     }
 
-    const response = await fetch(this.tokenEndpoint, {
-      body: params,
-      headers,
-      method: 'POST',
-    });
+    return body;
+  }
+
+  /**
+   * Requests new tokens from the token endpoint using a refresh token.
+   *
+   * If the authorization server does not return a new refresh token, the given one is kept in the returned tokens.
+   *
+   * @param {string} refreshToken - The refresh token.
+   * @param {{ scopes?: string[] }} [{ scopes }={}] - Scopes to request (they must have been granted originally).
+   * @returns {Promise<SocialTokens>} The new tokens.
+   * @memberof AbstractProvider
+   */
+  async refreshTokens(refreshToken: string, { scopes }: { scopes?: string[] } = {}): Promise<SocialTokens> {
+    const params = new URLSearchParams();
+    params.set('grant_type', 'refresh_token');
+    params.set('refresh_token', refreshToken);
+    if (scopes) {
+      params.set('scope', scopes.join(this.scopeSeparator));
+    }
+
+    const response = await this.sendClientRequest(await this.getTokenEndpoint(), params);
     const body = await response.json();
 
     if (!response.ok) {
-      throw new TokenError(body);
+      throw new RefreshTokenError(body);
     }
 
-    return body;
+    return { refresh_token: refreshToken, ...body };
+  }
+
+  /**
+   * Revokes an access token or a refresh token using the revocation endpoint of the provider.
+   *
+   * @param {string} token - The token to revoke.
+   * @param {('access_token'|'refresh_token')} [tokenTypeHint] - The type of the token.
+   * @returns {Promise<void>}
+   * @memberof AbstractProvider
+   */
+  async revokeToken(token: string, tokenTypeHint?: 'access_token'|'refresh_token'): Promise<void> {
+    const revocationEndpoint = await this.getRevocationEndpoint();
+    if (!revocationEndpoint) {
+      throw new Error(`[${this.constructor.name}] This provider does not support token revocation.`);
+    }
+
+    const params = new URLSearchParams();
+    params.set('token', token);
+    if (tokenTypeHint) {
+      params.set('token_type_hint', tokenTypeHint);
+    }
+
+    const response = await this.sendClientRequest(revocationEndpoint, params);
+
+    if (!response.ok) {
+      throw new TokenRevocationError(await this.parseErrorBody(response));
+    }
   }
 
   /**
@@ -389,21 +474,190 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
     return { userInfo, tokens };
   }
 
+  /**
+   * Encrypts the tokens and stores them in the session.
+   *
+   * If the tokens have an "expires_in" property, their expiration date is saved as well so that
+   * the method `getTokensFromSession` can refresh them when they expire.
+   *
+   * The secret used to encrypt the tokens is retrieved from the configuration key "settings.social.secret.tokensSecret".
+   *
+   * @param {Session} session - The user session.
+   * @param {SocialTokens} tokens - The tokens to store.
+   * @memberof AbstractProvider
+   */
+  saveTokensInSession(session: Session, tokens: SocialTokens): void {
+    const storedTokens: SocialTokens = { ...tokens };
+    if (typeof tokens.expires_in === 'number' && tokens.expires_at === undefined) {
+      storedTokens.expires_at = Math.floor(Date.now() / 1000) + tokens.expires_in;
+    }
+    session.set(this.tokensSessionKey, this.encryptString(JSON.stringify(storedTokens), this.getTokensSecretBuffer()));
+  }
+
+  /**
+   * Retrieves the tokens stored in the session with `saveTokensInSession`.
+   *
+   * If the access token has expired (or expires in less than a minute) and a refresh token is available,
+   * the tokens are refreshed and saved again in the session.
+   *
+   * @param {Session} session - The user session.
+   * @param {{ refresh?: boolean }} [{ refresh = true }={}] - Set to false to not refresh the expired tokens.
+   * @returns {(Promise<SocialTokens|null>)} The tokens or null if none are stored in the session.
+   * @memberof AbstractProvider
+   */
+  async getTokensFromSession(session: Session, { refresh = true }: { refresh?: boolean } = {}): Promise<SocialTokens|null> {
+    const encryptedTokens = session.get(this.tokensSessionKey);
+    if (typeof encryptedTokens !== 'string') {
+      return null;
+    }
+
+    const tokens: SocialTokens = JSON.parse(this.decryptString(encryptedTokens, this.getTokensSecretBuffer()));
+    const isExpired = typeof tokens.expires_at === 'number' && tokens.expires_at - 60 < Date.now() / 1000;
+    if (!refresh || !isExpired || !tokens.refresh_token) {
+      return tokens;
+    }
+
+    const refreshedTokens = await this.refreshTokens(tokens.refresh_token);
+    this.saveTokensInSession(session, refreshedTokens);
+    return this.getTokensFromSession(session, { refresh: false });
+  }
+
+  /**
+   * Removes the tokens stored in the session.
+   *
+   * @param {Session} session - The user session.
+   * @memberof AbstractProvider
+   */
+  removeTokensFromSession(session: Session): void {
+    session.set(this.tokensSessionKey, null);
+  }
+
+  /**
+   * Returns the URL of the authorization endpoint. By default, this is the authEndpoint property.
+   *
+   * Providers whose endpoints are not known in advance (ex: OpenID Connect discovery) can override this method.
+   *
+   * @protected
+   * @returns {(string|Promise<string>)} The URL of the authorization endpoint.
+   * @memberof AbstractProvider
+   */
+  protected getAuthEndpoint(): string|Promise<string> {
+    return this.authEndpoint;
+  }
+
+  /**
+   * Returns the URL of the token endpoint. By default, this is the tokenEndpoint property.
+   *
+   * @protected
+   * @returns {(string|Promise<string>)} The URL of the token endpoint.
+   * @memberof AbstractProvider
+   */
+  protected getTokenEndpoint(): string|Promise<string> {
+    return this.tokenEndpoint;
+  }
+
+  /**
+   * Returns the URL of the revocation endpoint. By default, this is the revocationEndpoint property.
+   *
+   * @protected
+   * @returns {(string|undefined|Promise<string|undefined>)} The URL of the revocation endpoint if any.
+   * @memberof AbstractProvider
+   */
+  protected getRevocationEndpoint(): string|undefined|Promise<string|undefined> {
+    return this.revocationEndpoint;
+  }
+
+  /**
+   * Sends an authenticated POST request to an endpoint of the authorization server.
+   *
+   * The client credentials are sent in the body or in an Authorization header
+   * depending on the useAuthorizationHeaderForTokenEndpoint property.
+   *
+   * @protected
+   * @param {string} endpoint - The URL of the endpoint.
+   * @param {URLSearchParams} params - The form parameters.
+   * @returns {Promise<Response>} The response.
+   * @memberof AbstractProvider
+   */
+  protected sendClientRequest(endpoint: string, params: URLSearchParams): Promise<Response> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded'
+    };
+
+    if (this.useAuthorizationHeaderForTokenEndpoint) {
+      const auth = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+      headers.Authorization = `Basic ${auth}`;
+    } else {
+      params.set('client_id', this.config.clientId);
+      params.set('client_secret', this.config.clientSecret);
+    }
+
+    return fetch(endpoint, {
+      body: params,
+      headers,
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Returns the body of an error response. Revocation endpoints do not always return JSON.
+   *
+   * @protected
+   * @param {Response} response - The error response.
+   * @returns {Promise<any>} The parsed body or, if it is not JSON, the status and the raw body.
+   * @memberof AbstractProvider
+   */
+  protected async parseErrorBody(response: Response): Promise<any> {
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return { status: response.status, body: text };
+    }
+  }
+
+  /**
+   * Returns the options of the cookies set during the authorization request.
+   *
+   * @protected
+   * @returns {CookieOptions} The cookie options.
+   * @memberof AbstractProvider
+   */
+  protected getCookieOptions(): CookieOptions {
+    const cookieOptions: CookieOptions = {
+      httpOnly: true,
+      maxAge: 300,
+      path: '/',
+      secure: Config.get('settings.social.cookie.secure', 'boolean', false)
+    }
+
+    const cookieDomain = Config.get('settings.social.cookie.domain', 'string');
+    if (cookieDomain) {
+      cookieOptions.domain = cookieDomain;
+    }
+
+    return cookieOptions;
+  }
+
+  private get tokensSessionKey(): string {
+    return `social-tokens:${this.configPaths.clientId}`;
+  }
+
   private async getState(): Promise<string> {
     return generateToken();
   }
 
   /**
-   * This function is for encrypt a string using aes-256 and codeVerifierSecret.
+   * This function is for encrypt a string using aes-256 and a secret (codeVerifierSecret by default).
    * Notice that init vector base64-encoded is concatenated at start of encrypted message.
    * We'll need init vector to decrypt message.
    * Init vector is 16 bytes length and it base64-encoded is 24 bytes length.
    *
    * @param {string} message - String to encrypt
+   * @param {Buffer} [hashedSecret] - 32-byte secret
    */
-  private encryptString(message: string): string {
-
-    const hashedSecret = this.getCodeVerifierSecretBuffer();
+  private encryptString(message: string, hashedSecret = this.getCodeVerifierSecretBuffer()): string {
 
     // Initiate iv with random bytes
     const initVector = crypto.randomBytes(16);
@@ -419,14 +673,13 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
   }
 
   /**
-   * This function is for decrypt a string using aes-256 and codeVerifierSecret
+   * This function is for decrypt a string using aes-256 and a secret (codeVerifierSecret by default)
    * encryptedMessage is {iv}{encrypted data}
    *
    * @param {string} encryptedMessage - String to decrypt
+   * @param {Buffer} [hashedSecret] - 32-byte secret
    */
-    private decryptString(encryptedMessage: string): string {
-      const hashedSecret = this.getCodeVerifierSecretBuffer();
-
+    private decryptString(encryptedMessage: string, hashedSecret = this.getCodeVerifierSecretBuffer()): string {
       // Get init vector back from encryptedMessage
       const initVector: Buffer = Buffer.from(encryptedMessage.substring(0,24), 'base64'); // original iv is 16 bytes long, so base64 encoded is 24 bytes long
       const message: string = encryptedMessage.substring(24);
@@ -447,4 +700,9 @@ export abstract class AbstractProvider<AuthParameters extends ObjectType, UserIn
       // We create a sha256 hash to ensure that key is 32 bytes long
       return crypto.createHash('sha256').update(codeVerifierSecret).digest();
     }
+
+    private getTokensSecretBuffer(): Buffer {
+      const tokensSecret = Config.getOrThrow(this.tokensSecretPath, 'string');
+      return crypto.createHash('sha256').update(tokensSecret).digest();
+    }
 }
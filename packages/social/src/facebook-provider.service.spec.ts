@@ -1,12 +1,21 @@
 // std
-import { deepStrictEqual, strictEqual } from 'assert';
+import { deepStrictEqual, rejects, strictEqual } from 'assert';
 import { Server } from 'http';
 
 // 3p
-import { Config, Context, createApp, createService, Get, HttpResponseBadRequest, HttpResponseOK } from '@foal/core';
+import {
+  Config,
+  Context,
+  createApp,
+  createService,
+  Delete,
+  Get,
+  HttpResponseBadRequest,
+  HttpResponseOK
+} from '@foal/core';
 
 // FoalTS
-import { SocialTokens } from './abstract-provider.service';
+import { SocialTokens, TokenError, TokenRevocationError } from './abstract-provider.service';
 import { FacebookProvider } from './facebook-provider.service';
 import { UserInfoError } from './user-info.error';
 
@@ -111,4 +120,151 @@ describe('FacebookProvider', () => {
 
   });
 
+  describe('has a "refreshTokens" method that', () => {
+
+    it('should throw an error since Facebook does not issue refresh tokens.', async () => {
+      const provider = createService(FacebookProvider);
+
+      await rejects(
+        () => provider.refreshTokens(),
+        new Error(
+          '[FacebookProvider] This provider does not support refresh tokens.'
+          + ' Use the "exchangeForLongLivedToken" method to get a long-lived access token.'
+        )
+      );
+    });
+
+  });
+
+  describe('has an "exchangeForLongLivedToken" method that', () => {
+
+    class FacebookProvider2 extends FacebookProvider {
+      tokenEndpoint = 'http://localhost:3000/oauth/access_token';
+    }
+
+    let server: Server;
+    let provider: FacebookProvider;
+
+    beforeEach(() => {
+      provider = createService(FacebookProvider2);
+      Config.set('settings.logger.logHttpRequests', false);
+      Config.set('settings.social.facebook.clientId', 'my_client_id');
+      Config.set('settings.social.facebook.clientSecret', 'my_client_secret');
+    });
+
+    afterEach(() => {
+      Config.remove('settings.logger.logHttpRequests');
+      Config.remove('settings.social.facebook.clientId');
+      Config.remove('settings.social.facebook.clientSecret');
+      if (server) {
+        server.close();
+      }
+    });
+
+    it('should exchange the access token for a long-lived access token.', async () => {
+      const tokens = { access_token: 'a_long_lived_access_token', expires_in: 5183944, token_type: 'bearer' };
+
+      class AppController {
+        @Get('/oauth/access_token')
+        token(ctx: Context) {
+          deepStrictEqual(ctx.request.query, {
+            client_id: 'my_client_id',
+            client_secret: 'my_client_secret',
+            fb_exchange_token: 'an_access_token',
+            grant_type: 'fb_exchange_token',
+          });
+          return new HttpResponseOK(tokens);
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      deepStrictEqual(await provider.exchangeForLongLivedToken('an_access_token'), tokens);
+    });
+
+    it('should throw a TokenError if the token endpoint returns an error.', async () => {
+      class AppController {
+        @Get('/oauth/access_token')
+        token() {
+          return new HttpResponseBadRequest({ error: { message: 'Invalid token' } });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      try {
+        await provider.exchangeForLongLivedToken('an_access_token');
+        throw new Error('exchangeForLongLivedToken should have thrown a TokenError.');
+      } catch (error: any) {
+        if (!(error instanceof TokenError)) {
+          throw error;
+        }
+        deepStrictEqual(error.error, { error: { message: 'Invalid token' } });
+      }
+    });
+
+  });
+
+  describe('has a "revokeToken" method that', () => {
+
+    class FacebookProvider2 extends FacebookProvider {
+      userInfoEndpoint = 'http://localhost:3000/users/me';
+    }
+
+    let server: Server;
+    let provider: FacebookProvider;
+
+    beforeEach(() => {
+      provider = createService(FacebookProvider2);
+      Config.set('settings.logger.logHttpRequests', false);
+    });
+
+    afterEach(() => {
+      Config.remove('settings.logger.logHttpRequests');
+      if (server) {
+        server.close();
+      }
+    });
+
+    it('should delete the permissions of the user.', async () => {
+      let accessToken: string|undefined;
+
+      class AppController {
+        @Delete('/users/me/permissions')
+        revoke(ctx: Context) {
+          accessToken = ctx.request.query.access_token;
+          return new HttpResponseOK({ success: true });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      await provider.revokeToken('an_access_token');
+
+      strictEqual(accessToken, 'an_access_token');
+    });
+
+    it('should throw a TokenRevocationError if the API returns an error.', async () => {
+      class AppController {
+        @Delete('/users/me/permissions')
+        revoke() {
+          return new HttpResponseBadRequest({ error: { message: 'Invalid token' } });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      try {
+        await provider.revokeToken('an_access_token');
+        throw new Error('revokeToken should have thrown a TokenRevocationError.');
+      } catch (error: any) {
+        if (!(error instanceof TokenRevocationError)) {
+          throw error;
+        }
+        deepStrictEqual(error.error, { error: { message: 'Invalid token' } });
+      }
+    });
+
+  });
+
 });
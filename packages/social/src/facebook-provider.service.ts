@@ -1,8 +1,11 @@
 // std
 import { URL } from 'url';
 
+// 3p
+import { Config } from '@foal/core';
+
 // FoalTS
-import { AbstractProvider, SocialTokens } from './abstract-provider.service';
+import { AbstractProvider, SocialTokens, TokenError, TokenRevocationError } from './abstract-provider.service';
 import { UserInfoError } from './user-info.error';
 
 export interface FacebookAuthParams {
@@ -51,4 +54,60 @@ export class FacebookProvider extends AbstractProvider<FacebookAuthParams, Faceb
     return body;
   }
 
+  /**
+   * Facebook does not issue refresh tokens. Use `exchangeForLongLivedToken` instead.
+   *
+   * @returns {Promise<SocialTokens>}
+   * @memberof FacebookProvider
+   */
+  async refreshTokens(): Promise<SocialTokens> {
+    throw new Error(
+      `[${this.constructor.name}] This provider does not support refresh tokens.`
+      + ' Use the "exchangeForLongLivedToken" method to get a long-lived access token.'
+    );
+  }
+
+  /**
+   * Exchanges a (short-lived or long-lived) access token for a new long-lived access token.
+   *
+   * @param {string} accessToken - The access token to exchange.
+   * @returns {Promise<SocialTokens>} The long-lived access token.
+   * @memberof FacebookProvider
+   */
+  async exchangeForLongLivedToken(accessToken: string): Promise<SocialTokens> {
+    const url = new URL(this.tokenEndpoint);
+    url.searchParams.set('grant_type', 'fb_exchange_token');
+    url.searchParams.set('client_id', Config.getOrThrow(this.configPaths.clientId, 'string'));
+    url.searchParams.set('client_secret', Config.getOrThrow(this.configPaths.clientSecret, 'string'));
+    url.searchParams.set('fb_exchange_token', accessToken);
+
+    const response = await fetch(url.href);
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new TokenError(body);
+    }
+
+    return body;
+  }
+
+  /**
+   * Revokes all the permissions granted by the user to the application, which
+   * invalidates the access token.
+   *
+   * @param {string} token - The user access token.
+   * @returns {Promise<void>}
+   * @memberof FacebookProvider
+   */
+  async revokeToken(token: string): Promise<void> {
+    const url = new URL(`${this.userInfoEndpoint}/permissions`);
+    url.searchParams.set('access_token', token);
+
+    const response = await fetch(url.href, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw new TokenRevocationError(await this.parseErrorBody(response));
+    }
+  }
+
 }
@@ -3,10 +3,20 @@ import { deepStrictEqual, strictEqual } from 'assert';
 import { Server } from 'http';
 
 // 3p
-import { Config, Context, createApp, createService, Get, HttpResponseBadRequest, HttpResponseOK } from '@foal/core';
+import {
+  Config,
+  Context,
+  createApp,
+  createService,
+  Delete,
+  Get,
+  HttpResponseBadRequest,
+  HttpResponseNoContent,
+  HttpResponseOK
+} from '@foal/core';
 
 // FoalTS
-import { SocialTokens } from './abstract-provider.service';
+import { SocialTokens, TokenRevocationError } from './abstract-provider.service';
 import { GithubProvider } from './github-provider.service';
 import { UserInfoError } from './user-info.error';
 
@@ -88,4 +98,73 @@ describe('GithubProvider', () => {
 
   });
 
+  describe('has a "revokeToken" method that', () => {
+
+    class GithubProvider2 extends GithubProvider {
+      applicationsEndpoint = 'http://localhost:3000/applications';
+    }
+
+    let server: Server;
+    let provider: GithubProvider;
+
+    beforeEach(() => {
+      provider = createService(GithubProvider2);
+      Config.set('settings.logger.logHttpRequests', false);
+      Config.set('settings.social.github.clientId', 'my_client_id');
+      Config.set('settings.social.github.clientSecret', 'my_client_secret');
+    });
+
+    afterEach(() => {
+      Config.remove('settings.logger.logHttpRequests');
+      Config.remove('settings.social.github.clientId');
+      Config.remove('settings.social.github.clientSecret');
+      if (server) {
+        server.close();
+      }
+    });
+
+    it('should delete the token using the OAuth Authorizations API.', async () => {
+      let authorization: string|undefined;
+      let body: any;
+
+      class AppController {
+        @Delete('/applications/my_client_id/token')
+        revoke(ctx: Context) {
+          authorization = ctx.request.headers.authorization;
+          body = ctx.request.body;
+          return new HttpResponseNoContent();
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      await provider.revokeToken('an_access_token');
+
+      strictEqual(authorization, `Basic ${Buffer.from('my_client_id:my_client_secret').toString('base64')}`);
+      deepStrictEqual(body, { access_token: 'an_access_token' });
+    });
+
+    it('should throw a TokenRevocationError if the API returns an error.', async () => {
+      class AppController {
+        @Delete('/applications/my_client_id/token')
+        revoke() {
+          return new HttpResponseBadRequest({ message: 'Bad request' });
+        }
+      }
+
+      server = (await createApp(AppController)).listen(3000);
+
+      try {
+        await provider.revokeToken('an_access_token');
+        throw new Error('revokeToken should have thrown a TokenRevocationError.');
+      } catch (error: any) {
+        if (!(error instanceof TokenRevocationError)) {
+          throw error;
+        }
+        deepStrictEqual(error.error, { message: 'Bad request' });
+      }
+    });
+
+  });
+
 });
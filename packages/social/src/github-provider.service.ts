@@ -1,5 +1,8 @@
+// 3p
+import { Config } from '@foal/core';
+
 // FoalTS
-import { AbstractProvider, SocialTokens } from './abstract-provider.service';
+import { AbstractProvider, SocialTokens, TokenRevocationError } from './abstract-provider.service';
 import { UserInfoError } from './user-info.error';
 
 export interface GithubAuthParams {
@@ -23,6 +26,7 @@ export class GithubProvider extends AbstractProvider<GithubAuthParams, never> {
   protected authEndpoint = 'https://github.com/login/oauth/authorize';
   protected tokenEndpoint = 'https://github.com/login/oauth/access_token';
   protected userInfoEndpoint = 'https://api.github.com/user';
+  protected applicationsEndpoint = 'https://api.github.com/applications';
 
   async getUserInfoFromTokens(tokens: SocialTokens) {
     const response = await fetch(this.userInfoEndpoint, {
@@ -37,4 +41,31 @@ export class GithubProvider extends AbstractProvider<GithubAuthParams, never> {
     return body;
   }
 
+  /**
+   * Revokes an access token. GitHub does not implement RFC 7009: the token is deleted
+   * using the OAuth Authorizations API.
+   *
+   * @param {string} token - The access token to revoke.
+   * @returns {Promise<void>}
+   * @memberof GithubProvider
+   */
+  async revokeToken(token: string): Promise<void> {
+    const clientId = Config.getOrThrow(this.configPaths.clientId, 'string');
+    const clientSecret = Config.getOrThrow(this.configPaths.clientSecret, 'string');
+
+    const response = await fetch(`${this.applicationsEndpoint}/${clientId}/token`, {
+      body: JSON.stringify({ access_token: token }),
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        'Content-Type': 'application/json',
+      },
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new TokenRevocationError(await this.parseErrorBody(response));
+    }
+  }
+
 }
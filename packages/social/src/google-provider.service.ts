@@ -54,6 +54,7 @@ export class GoogleProvider extends AbstractProvider<GoogleAuthParams, never, Go
   };
   protected authEndpoint = 'https://accounts.google.com/o/oauth2/v2/auth';
   protected tokenEndpoint = 'https://oauth2.googleapis.com/token';
+  protected revocationEndpoint = 'https://oauth2.googleapis.com/revoke';
 
   protected defaultScopes: string[] = [ 'openid', 'profile', 'email' ];
 
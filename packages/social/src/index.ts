@@ -11,6 +11,8 @@ export {
   InvalidStateError,
   CodeVerifierNotFound,
   TokenError,
+  RefreshTokenError,
+  TokenRevocationError,
   AuthorizationError,
   ObjectType,
 } from './abstract-provider.service';
@@ -33,6 +35,15 @@ export {
   LinkedInProvider,
   LinkedInUserInfoParams,
 } from './linkedin-provider.service';
+export {
+  InvalidIdTokenError,
+  OIDCAuthParams,
+  OIDCDiscoveryDocument,
+  OIDCDiscoveryError,
+  OIDCProvider,
+  OIDCUserInfo,
+  OIDCUserInfoParams,
+} from './oidc-provider.service';
 export {
   TwitterProvider,
   TwitterAuthParameter,
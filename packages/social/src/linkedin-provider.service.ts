@@ -26,6 +26,7 @@ export class LinkedInProvider extends AbstractProvider<never, LinkedInUserInfoPa
 
   protected authEndpoint = 'https://www.linkedin.com/oauth/v2/authorization';
   protected tokenEndpoint = 'https://www.linkedin.com/oauth/v2/accessToken';
+  protected revocationEndpoint = 'https://www.linkedin.com/oauth/v2/revoke';
   protected userInfoEndpoint = 'https://api.linkedin.com/v2/me';
 
   protected defaultScopes: string[] = [ 'r_liteprofile' ];
@@ -0,0 +1,363 @@
+// std
+import { deepStrictEqual, ok, rejects, strictEqual } from 'assert';
+import * as crypto from 'crypto';
+import { Server } from 'http';
+
+// 3p
+import {
+  Config,
+  Context,
+  convertBase64ToBase64url,
+  createApp,
+  createService,
+  Get,
+  HttpResponseOK,
+  Post
+} from '@foal/core';
+
+// FoalTS
+import { InvalidIdTokenError, OIDCDiscoveryError, OIDCProvider } from './oidc-provider.service';
+
+function base64url(value: string|Buffer): string {
+  return convertBase64ToBase64url(Buffer.from(value).toString('base64'));
+}
+
+function hash(value: string): string {
+  return convertBase64ToBase64url(crypto.createHash('sha256').update(value).digest('base64'));
+}
+
+describe('InvalidIdTokenError', () => {
+
+  it('should have a "name" and a "message" property.', () => {
+    const error = new InvalidIdTokenError('invalid signature');
+
+    strictEqual(error.name, 'InvalidIdTokenError');
+    strictEqual(error.message, 'Suspicious operation: the ID token is invalid (invalid signature).');
+  });
+
+});
+
+describe('OIDCProvider', () => {
+
+  const issuer = 'http://localhost:3000';
+  const clientId = 'my_client_id';
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  let server: Server;
+  let provider: OIDCProvider;
+  let keys: crypto.JsonWebKey[];
+  let signingAlgorithms: string[]|undefined;
+  let idTokenPayload: object;
+  let discoveryRequests: number;
+  let jwksRequests: number;
+
+  function signIdToken(payload: object, options: { kid?: string, key?: crypto.KeyObject } = {}): string {
+    const data = `${base64url(JSON.stringify({ alg: 'RS256', kid: options.kid ?? 'key1', typ: 'JWT' }))}`
+      + `.${base64url(JSON.stringify(payload))}`;
+    return `${data}.${base64url(crypto.sign('sha256', Buffer.from(data), options.key || privateKey))}`;
+  }
+
+  function getPayload(claims: object = {}): object {
+    return {
+      aud: clientId,
+      exp: Math.floor(Date.now() / 1000) + 300,
+      iat: Math.floor(Date.now() / 1000),
+      iss: issuer,
+      sub: '123',
+      ...claims,
+    };
+  }
+
+  class IssuerController {
+    @Get('/.well-known/openid-configuration')
+    discovery() {
+      discoveryRequests++;
+      return new HttpResponseOK({
+        authorization_endpoint: `${issuer}/authorize`,
+        id_token_signing_alg_values_supported: signingAlgorithms,
+        issuer,
+        jwks_uri: `${issuer}/jwks`,
+        token_endpoint: `${issuer}/token`,
+      });
+    }
+
+    @Get('/jwks')
+    jwks() {
+      jwksRequests++;
+      return new HttpResponseOK({ keys });
+    }
+
+    @Post('/token')
+    token() {
+      return new HttpResponseOK({
+        access_token: 'an_access_token',
+        id_token: signIdToken(idTokenPayload),
+        token_type: 'bearer',
+      });
+    }
+  }
+
+  before(async () => {
+    Config.set('settings.logger.logHttpRequests', false);
+    server = (await createApp(IssuerController)).listen(3000);
+  });
+
+  after(() => {
+    Config.remove('settings.logger.logHttpRequests');
+    server.close();
+  });
+
+  beforeEach(() => {
+    Config.set('settings.social.oidc.issuer', issuer);
+    Config.set('settings.social.oidc.clientId', clientId);
+    Config.set('settings.social.oidc.clientSecret', 'my_client_secret');
+    Config.set('settings.social.oidc.redirectUri', 'https://example.com/callback');
+    Config.set('settings.social.secret.codeVerifierSecret', 'code_verifier_secret');
+
+    keys = [ { ...publicKey.export({ format: 'jwk' }), alg: 'RS256', kid: 'key1', use: 'sig' } ];
+    signingAlgorithms = undefined;
+    idTokenPayload = getPayload();
+    discoveryRequests = 0;
+    jwksRequests = 0;
+    provider = createService(OIDCProvider);
+  });
+
+  afterEach(() => {
+    Config.remove('settings.social.oidc.issuer');
+    Config.remove('settings.social.oidc.clientId');
+    Config.remove('settings.social.oidc.clientSecret');
+    Config.remove('settings.social.oidc.redirectUri');
+    Config.remove('settings.social.secret.codeVerifierSecret');
+  });
+
+  describe('has a "getDiscoveryDocument" method that', () => {
+
+    it('should fetch the discovery document of the issuer and cache it.', async () => {
+      const document = await provider.getDiscoveryDocument();
+      strictEqual(document.token_endpoint, `${issuer}/token`);
+
+      await provider.getDiscoveryDocument();
+      strictEqual(discoveryRequests, 1);
+    });
+
+    it('should throw an OIDCDiscoveryError if the issuer of the document does not match the configured one.', async () => {
+      Config.set('settings.social.oidc.issuer', `${issuer}/`);
+
+      await rejects(
+        () => provider.getDiscoveryDocument(),
+        new OIDCDiscoveryError(
+          `The issuer of the discovery document ("${issuer}") does not match the configured one ("${issuer}/").`
+        )
+      );
+    });
+
+  });
+
+  describe('has a "createHttpResponseWithConsentPageUrl" method that', () => {
+
+    it('should use the authorization endpoint of the discovery document, PKCE and a nonce.', async () => {
+      const response = await provider.createHttpResponseWithConsentPageUrl();
+
+      const url = new URL(response.body.consentPageUrl);
+      strictEqual(`${url.origin}${url.pathname}`, `${issuer}/authorize`);
+      strictEqual(url.searchParams.get('scope'), 'openid profile email');
+      strictEqual(url.searchParams.get('code_challenge_method'), 'S256');
+
+      const { value: nonce, options } = response.getCookie('oidc-nonce');
+      ok(nonce);
+      strictEqual(url.searchParams.get('nonce'), hash(nonce));
+      deepStrictEqual(options, { httpOnly: true, maxAge: 300, path: '/', secure: false });
+    });
+
+  });
+
+  describe('has a "getUserInfo" method that', () => {
+
+    async function createCallbackContext(): Promise<Context> {
+      const response = await provider.createHttpResponseWithConsentPageUrl();
+      const state = new URL(response.body.consentPageUrl).searchParams.get('state') as string;
+      idTokenPayload = getPayload({ nonce: new URL(response.body.consentPageUrl).searchParams.get('nonce') });
+      return new Context({
+        cookies: {
+          'oauth2-code-verifier': response.getCookie('oauth2-code-verifier').value,
+          'oauth2-state': state,
+          'oidc-nonce': response.getCookie('oidc-nonce').value,
+        },
+        query: { code: 'an_authorization_code', state },
+      });
+    }
+
+    it('should return the claims of the ID token.', async () => {
+      const ctx = await createCallbackContext();
+
+      const { userInfo, tokens } = await provider.getUserInfo(ctx);
+
+      deepStrictEqual(userInfo, idTokenPayload);
+      strictEqual(tokens.access_token, 'an_access_token');
+    });
+
+    it('should throw an InvalidIdTokenError if the nonce cookie is missing.', async () => {
+      const ctx = await createCallbackContext();
+      delete ctx.request.cookies['oidc-nonce'];
+
+      await rejects(() => provider.getUserInfo(ctx), new InvalidIdTokenError('nonce not found in cookie'));
+    });
+
+    it('should throw an InvalidIdTokenError if the nonce of the ID token does not match the cookie.', async () => {
+      const ctx = await createCallbackContext();
+      ctx.request.cookies['oidc-nonce'] = 'another_nonce';
+
+      await rejects(() => provider.getUserInfo(ctx), new InvalidIdTokenError('invalid "nonce" claim'));
+    });
+
+    it('should throw an InvalidIdTokenError if the nonce has already been used.', async () => {
+      const ctx = await createCallbackContext();
+
+      await provider.getUserInfo(ctx);
+      await rejects(() => provider.getUserInfo(ctx), new InvalidIdTokenError('nonce already used'));
+    });
+
+    it('should accept a nonce only once when the callbacks are received concurrently.', async () => {
+      const ctx = await createCallbackContext();
+
+      const results = await Promise.allSettled([ provider.getUserInfo(ctx), provider.getUserInfo(ctx) ]);
+
+      deepStrictEqual(results.map(result => result.status), [ 'fulfilled', 'rejected' ]);
+      deepStrictEqual(
+        (results[1] as PromiseRejectedResult).reason, new InvalidIdTokenError('nonce already used')
+      );
+    });
+
+  });
+
+  describe('has a "removeNonceCookie" method that', () => {
+
+    it('should remove the nonce cookie.', () => {
+      const response = new HttpResponseOK();
+
+      strictEqual(provider.removeNonceCookie(response), response);
+
+      const { value, options } = response.getCookie('oidc-nonce');
+      strictEqual(value, '');
+      strictEqual(options.maxAge, 0);
+      strictEqual(options.path, '/');
+    });
+
+  });
+
+  describe('has a "verifyIdToken" method that', () => {
+
+    it('should return the claims of a valid ID token.', async () => {
+      const payload = getPayload();
+
+      deepStrictEqual(await provider.verifyIdToken(signIdToken(payload)), payload);
+    });
+
+    it('should throw an InvalidIdTokenError if the token is not a JWT.', async () => {
+      await rejects(() => provider.verifyIdToken('foo.bar'), new InvalidIdTokenError('malformed JWT'));
+    });
+
+    it('should throw an InvalidIdTokenError if the algorithm is "none".', async () => {
+      const token = `${base64url('{"alg":"none"}')}.${base64url(JSON.stringify(getPayload()))}.`;
+
+      await rejects(() => provider.verifyIdToken(token), new InvalidIdTokenError('unsupported algorithm "none"'));
+    });
+
+    it('should throw an InvalidIdTokenError if the signature is invalid.', async () => {
+      const { privateKey: otherKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const token = signIdToken(getPayload(), { key: otherKey });
+
+      await rejects(() => provider.verifyIdToken(token), new InvalidIdTokenError('invalid signature'));
+    });
+
+    it('should refetch the JSON Web Key Set if the key is unknown.', async () => {
+      await provider.verifyIdToken(signIdToken(getPayload()));
+      strictEqual(jwksRequests, 1);
+
+      keys = [ { ...keys[0], kid: 'key2' } ];
+      await provider.verifyIdToken(signIdToken(getPayload(), { kid: 'key2' }));
+      strictEqual(jwksRequests, 2);
+
+      await rejects(
+        () => provider.verifyIdToken(signIdToken(getPayload(), { kid: 'key3' })),
+        new InvalidIdTokenError('signing key "key3" not found')
+      );
+      // The JSON Web Key Set is refreshed at most once per minute.
+      strictEqual(jwksRequests, 2);
+    });
+
+    it('should throw an InvalidIdTokenError if the type of the key does not match the algorithm.', async () => {
+      const { publicKey: ecPublicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      keys = [ { ...ecPublicKey.export({ format: 'jwk' }), kid: 'key1' } ];
+
+      await rejects(
+        () => provider.verifyIdToken(signIdToken(getPayload())),
+        new InvalidIdTokenError('algorithm "RS256" not allowed for key "key1"')
+      );
+    });
+
+    it('should throw an InvalidIdTokenError if the key cannot be used to verify the signature.', async () => {
+      keys = [ { kid: 'key1', kty: 'RSA' } ];
+
+      await rejects(
+        () => provider.verifyIdToken(signIdToken(getPayload())),
+        new InvalidIdTokenError('unable to verify the signature with key "key1"')
+      );
+    });
+
+    it('should throw an InvalidIdTokenError if the "iss" claim is invalid.', async () => {
+      const token = signIdToken(getPayload({ iss: 'https://evil.com' }));
+
+      await rejects(() => provider.verifyIdToken(token), new InvalidIdTokenError('invalid "iss" claim'));
+    });
+
+    it('should throw an InvalidIdTokenError if the "aud" claim is invalid.', async () => {
+      await rejects(
+        () => provider.verifyIdToken(signIdToken(getPayload({ aud: 'another_client' }))),
+        new InvalidIdTokenError('invalid "aud" claim')
+      );
+      await rejects(
+        () => provider.verifyIdToken(signIdToken(getPayload({ aud: [ clientId, 'another_client' ] }))),
+        new InvalidIdTokenError('invalid "aud" claim')
+      );
+
+      const payload = getPayload({ aud: [ clientId, 'another_client' ], azp: clientId });
+      deepStrictEqual(await provider.verifyIdToken(signIdToken(payload)), payload);
+    });
+
+    it('should throw an InvalidIdTokenError if the token has expired.', async () => {
+      const token = signIdToken(getPayload({ exp: Math.floor(Date.now() / 1000) - 60 }));
+
+      await rejects(() => provider.verifyIdToken(token), new InvalidIdTokenError('expired token'));
+    });
+
+    it('should throw an InvalidIdTokenError if the algorithm is not supported by the issuer.', async () => {
+      const data = `${base64url('{"alg":"HS256"}')}.${base64url(JSON.stringify(getPayload()))}`;
+      const token = `${data}.${base64url(crypto.createHmac('sha256', 'my_client_secret').update(data).digest())}`;
+
+      // Only RS256 is supported by default.
+      await rejects(
+        () => provider.verifyIdToken(token),
+        new InvalidIdTokenError('algorithm "HS256" not supported by the issuer')
+      );
+
+      signingAlgorithms = [ 'ES256' ];
+      await rejects(
+        () => createService(OIDCProvider).verifyIdToken(signIdToken(getPayload())),
+        new InvalidIdTokenError('algorithm "RS256" not supported by the issuer')
+      );
+    });
+
+    it('should support ID tokens signed with the client secret.', async () => {
+      signingAlgorithms = [ 'RS256', 'HS256' ];
+      const payload = getPayload();
+      const data = `${base64url('{"alg":"HS256"}')}.${base64url(JSON.stringify(payload))}`;
+      const signature = crypto.createHmac('sha256', 'my_client_secret').update(data).digest();
+
+      deepStrictEqual(await provider.verifyIdToken(`${data}.${base64url(signature)}`), payload);
+    });
+
+  });
+
+});
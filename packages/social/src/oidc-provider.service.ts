@@ -0,0 +1,419 @@
+// std
+import * as crypto from 'crypto';
+
+// 3p
+import {
+  CacheService,
+  Config,
+  Context,
+  convertBase64ToBase64url,
+  convertBase64urlToBase64,
+  dependency,
+  generateToken,
+  HttpResponse,
+  HttpResponseOK,
+  HttpResponseRedirect
+} from '@foal/core';
+
+// FoalTS
+import { AbstractProvider, ObjectType, SocialTokens, UserInfoAndTokens } from './abstract-provider.service';
+
+/**
+ * Provider metadata returned by the discovery endpoint of an OpenID Connect issuer.
+ *
+ * @export
+ * @interface OIDCDiscoveryDocument
+ */
+export interface OIDCDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  revocation_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+  [name: string]: any;
+}
+
+export interface OIDCAuthParams {
+  prompt?: string;
+  login_hint?: string;
+  max_age?: number;
+  ui_locales?: string;
+  acr_values?: string;
+  [name: string]: any;
+}
+
+export interface OIDCUserInfoParams {
+  /**
+   * Expected value of the "nonce" claim of the ID token.
+   */
+  nonce?: string;
+}
+
+// https://openid.net/specs/openid-connect-core-1_0.html#IDToken
+export interface OIDCUserInfo {
+  iss: string;
+  sub: string;
+  aud: string|string[];
+  exp: number;
+  iat: number;
+  auth_time?: number;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  family_name?: string;
+  given_name?: string;
+  locale?: string;
+  name?: string;
+  nonce?: string;
+  picture?: string;
+  preferred_username?: string;
+  [name: string]: unknown;
+}
+
+/**
+ * Error thrown if the discovery document or the JSON Web Key Set of the issuer cannot be retrieved.
+ *
+ * @export
+ * @class OIDCDiscoveryError
+ * @extends {Error}
+ */
+export class OIDCDiscoveryError extends Error {
+  readonly name = 'OIDCDiscoveryError';
+}
+
+/**
+ * Error thrown if the ID token returned by the issuer is invalid.
+ *
+ * @export
+ * @class InvalidIdTokenError
+ * @extends {Error}
+ */
+export class InvalidIdTokenError extends Error {
+  readonly name = 'InvalidIdTokenError';
+  constructor(reason: string) {
+    super(`Suspicious operation: the ID token is invalid (${reason}).`);
+  }
+}
+
+const NONCE_COOKIE_NAME = 'oidc-nonce';
+
+// The default value of "id_token_signing_alg_values_supported" (RS256 must be supported by all issuers).
+const DEFAULT_SIGNING_ALGORITHMS = [ 'RS256' ];
+
+interface SignatureAlgorithm {
+  hash: string;
+  // Key type expected in the JSON Web Key Set. HMAC algorithms use the client secret.
+  kty?: 'RSA'|'EC';
+  padding?: number;
+  dsaEncoding?: 'ieee-p1363';
+}
+
+const signatureAlgorithms: Record<string, SignatureAlgorithm> = {
+  ES256: { dsaEncoding: 'ieee-p1363', hash: 'sha256', kty: 'EC' },
+  ES384: { dsaEncoding: 'ieee-p1363', hash: 'sha384', kty: 'EC' },
+  ES512: { dsaEncoding: 'ieee-p1363', hash: 'sha512', kty: 'EC' },
+  HS256: { hash: 'sha256' },
+  HS384: { hash: 'sha384' },
+  HS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', kty: 'RSA', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', kty: 'RSA', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', kty: 'RSA', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  RS256: { hash: 'sha256', kty: 'RSA' },
+  RS384: { hash: 'sha384', kty: 'RSA' },
+  RS512: { hash: 'sha512', kty: 'RSA' },
+};
+
+function decodeBase64url(str: string): Buffer {
+  return Buffer.from(convertBase64urlToBase64(str), 'base64');
+}
+
+function hashNonce(nonce: string): string {
+  return convertBase64ToBase64url(crypto.createHash('sha256').update(nonce).digest('base64'));
+}
+
+/**
+ * Generic OpenID Connect provider.
+ *
+ * The endpoints of the provider are retrieved from the discovery document of the issuer
+ * (`<issuer>/.well-known/openid-configuration`) specified with the configuration key
+ * "settings.social.oidc.issuer". The discovery document and the JSON Web Key Set are cached
+ * with the `CacheService` for one hour.
+ *
+ * The authorization requests use PKCE and a nonce. The ID token returned by the token endpoint
+ * is verified (signature, "iss", "aud", "exp" and "nonce" claims) and its claims are returned
+ * as user information. Only the algorithms listed in the "id_token_signing_alg_values_supported"
+ * field of the discovery document (RS256 by default) are accepted.
+ *
+ * A nonce can only be used once. It is marked as used in the `CacheService` before the
+ * authorization code is exchanged, even if the exchange fails. If the application runs
+ * on several processes, the cache store must be shared between them (for example the
+ * `RedisCacheStore`), otherwise a nonce could be used once per process. The nonce cookie
+ * can be removed from the response of the redirection URI with the `removeNonceCookie` method.
+ *
+ * Several issuers can be used by extending this class and overriding the `configPaths` property.
+ *
+ * @export
+ * @class OIDCProvider
+ * @extends {AbstractProvider<OIDCAuthParams, OIDCUserInfoParams, OIDCUserInfo>}
+ */
+export class OIDCProvider extends AbstractProvider<OIDCAuthParams, OIDCUserInfoParams, OIDCUserInfo> {
+
+  @dependency
+  cache: CacheService;
+
+  protected configPaths = {
+    clientId: 'settings.social.oidc.clientId',
+    clientSecret: 'settings.social.oidc.clientSecret',
+    issuer: 'settings.social.oidc.issuer',
+    redirectUri: 'settings.social.oidc.redirectUri',
+  };
+  // The endpoints are retrieved from the discovery document.
+  protected authEndpoint = '';
+  protected tokenEndpoint = '';
+
+  protected defaultScopes: string[] = [ 'openid', 'profile', 'email' ];
+  protected usePKCE = true;
+
+  /**
+   * Clock skew (in seconds) tolerated when checking the expiration of the ID tokens.
+   *
+   * @protected
+   * @type {number}
+   * @memberof OIDCProvider
+   */
+  protected readonly clockTolerance: number = 30;
+
+  /**
+   * Lifetime (in seconds) of the cached discovery document and JSON Web Key Set.
+   *
+   * @protected
+   * @type {number}
+   * @memberof OIDCProvider
+   */
+  protected readonly cacheTtl: number = 3600;
+
+  /**
+   * Minimum delay (in seconds) between two refreshes of the JSON Web Key Set when an ID token
+   * is signed with an unknown key.
+   *
+   * @protected
+   * @type {number}
+   * @memberof OIDCProvider
+   */
+  protected readonly jwksRefreshInterval: number = 60;
+
+  /**
+   * Retrieves the discovery document of the issuer.
+   *
+   * @returns {Promise<OIDCDiscoveryDocument>} The discovery document.
+   * @memberof OIDCProvider
+   */
+  async getDiscoveryDocument(): Promise<OIDCDiscoveryDocument> {
+    const issuer = Config.getOrThrow(this.configPaths.issuer, 'string');
+
+    return this.cache.namespace('oidc').wrap(`discovery:${issuer}`, async () => {
+      const document = await this.fetchJSON(
+        `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+      ) as OIDCDiscoveryDocument;
+      if (document.issuer !== issuer) {
+        throw new OIDCDiscoveryError(
+          `The issuer of the discovery document ("${document.issuer}") does not match the configured one ("${issuer}").`
+        );
+      }
+      return document;
+    }, this.cacheTtl);
+  }
+
+  async createHttpResponseWithConsentPageUrl(
+    options: { scopes?: string[], isRedirection?: boolean } = {}, params?: OIDCAuthParams
+  ): Promise<HttpResponseOK | HttpResponseRedirect> {
+    // Only a hash of the nonce is sent to the issuer.
+    const nonce = await generateToken();
+    const response = await super.createHttpResponseWithConsentPageUrl(options, { ...params, nonce: hashNonce(nonce) });
+    return response.setCookie(NONCE_COOKIE_NAME, nonce, this.getCookieOptions());
+  }
+
+  async getUserInfo(ctx: Context, params?: OIDCUserInfoParams): Promise<UserInfoAndTokens<OIDCUserInfo>> {
+    const nonce = ctx.request.cookies[NONCE_COOKIE_NAME];
+    if (!nonce) {
+      throw new InvalidIdTokenError('nonce not found in cookie');
+    }
+
+    const hashedNonce = hashNonce(nonce);
+    // The nonce is marked as used atomically so that concurrent callbacks cannot both use it.
+    // The nonce cookie expires with the authorization request.
+    if (!await this.cache.namespace('oidc').add(`nonce:${hashedNonce}`, true, this.getCookieOptions().maxAge)) {
+      throw new InvalidIdTokenError('nonce already used');
+    }
+
+    return super.getUserInfo(ctx, { ...params, nonce: hashedNonce });
+  }
+
+  /**
+   * Removes the nonce cookie set during the authorization request. This method
+   * is meant to be called on the response of the redirection URI.
+   *
+   * @template T
+   * @param {T} response - The HTTP response.
+   * @returns {T} The HTTP response.
+   * @memberof OIDCProvider
+   */
+  removeNonceCookie<T extends HttpResponse>(response: T): T {
+    return response.setCookie(NONCE_COOKIE_NAME, '', { ...this.getCookieOptions(), maxAge: 0 });
+  }
+
+  async getUserInfoFromTokens(tokens: SocialTokens, params: OIDCUserInfoParams = {}): Promise<OIDCUserInfo> {
+    if (typeof tokens.id_token !== 'string') {
+      throw new InvalidIdTokenError('no ID token returned by the token endpoint');
+    }
+    return this.verifyIdToken(tokens.id_token, params.nonce);
+  }
+
+  /**
+   * Verifies an ID token and returns its claims.
+   *
+   * @param {string} idToken - The ID token.
+   * @param {string} [nonce] - The expected value of the "nonce" claim, if any.
+   * @returns {Promise<OIDCUserInfo>} The claims of the ID token.
+   * @memberof OIDCProvider
+   */
+  async verifyIdToken(idToken: string, nonce?: string): Promise<OIDCUserInfo> {
+    const [ encodedHeader, encodedPayload, encodedSignature ] = idToken.split('.');
+
+    let header: { alg: string, kid?: string };
+    let payload: OIDCUserInfo;
+    try {
+      header = JSON.parse(decodeBase64url(encodedHeader).toString('utf8'));
+      payload = JSON.parse(decodeBase64url(encodedPayload).toString('utf8'));
+    } catch (error: any) {
+      throw new InvalidIdTokenError('malformed JWT');
+    }
+    if (encodedSignature === undefined) {
+      throw new InvalidIdTokenError('malformed JWT');
+    }
+
+    const isValid = await this.verifySignature(
+      header, `${encodedHeader}.${encodedPayload}`, decodeBase64url(encodedSignature)
+    );
+    if (!isValid) {
+      throw new InvalidIdTokenError('invalid signature');
+    }
+
+    const { issuer } = await this.getDiscoveryDocument();
+    if (payload.iss !== issuer) {
+      throw new InvalidIdTokenError('invalid "iss" claim');
+    }
+
+    const clientId = Config.getOrThrow(this.configPaths.clientId, 'string');
+    const audiences = ([] as string[]).concat(payload.aud);
+    if (!audiences.includes(clientId) || (audiences.length > 1 && payload.azp !== clientId)) {
+      throw new InvalidIdTokenError('invalid "aud" claim');
+    }
+
+    if (typeof payload.exp !== 'number' || payload.exp + this.clockTolerance < Date.now() / 1000) {
+      throw new InvalidIdTokenError('expired token');
+    }
+
+    if (nonce !== undefined && payload.nonce !== nonce) {
+      throw new InvalidIdTokenError('invalid "nonce" claim');
+    }
+
+    return payload;
+  }
+
+  protected async getAuthEndpoint(): Promise<string> {
+    return (await this.getDiscoveryDocument()).authorization_endpoint;
+  }
+
+  protected async getTokenEndpoint(): Promise<string> {
+    return (await this.getDiscoveryDocument()).token_endpoint;
+  }
+
+  protected async getRevocationEndpoint(): Promise<string|undefined> {
+    return (await this.getDiscoveryDocument()).revocation_endpoint;
+  }
+
+  private async verifySignature(header: { alg: string, kid?: string }, data: string, signature: Buffer): Promise<boolean> {
+    const algorithm = signatureAlgorithms[header.alg];
+    if (!algorithm) {
+      throw new InvalidIdTokenError(`unsupported algorithm "${header.alg}"`);
+    }
+
+    const { id_token_signing_alg_values_supported } = await this.getDiscoveryDocument();
+    if (!(id_token_signing_alg_values_supported || DEFAULT_SIGNING_ALGORITHMS).includes(header.alg)) {
+      throw new InvalidIdTokenError(`algorithm "${header.alg}" not supported by the issuer`);
+    }
+
+    if (!algorithm.kty) {
+      const clientSecret = Config.getOrThrow(this.configPaths.clientSecret, 'string');
+      const expected = crypto.createHmac(algorithm.hash, clientSecret).update(data).digest();
+      return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+    }
+
+    let jwk = await this.getSigningKey(header.kid, false);
+    if (!jwk) {
+      // The keys may have been rotated.
+      jwk = await this.getSigningKey(header.kid, true);
+    }
+    if (!jwk) {
+      throw new InvalidIdTokenError(`signing key "${header.kid}" not found`);
+    }
+    if ((jwk.alg && jwk.alg !== header.alg) || jwk.kty !== algorithm.kty) {
+      throw new InvalidIdTokenError(`algorithm "${header.alg}" not allowed for key "${header.kid}"`);
+    }
+
+    try {
+      return crypto.verify(
+        algorithm.hash,
+        Buffer.from(data),
+        {
+          dsaEncoding: algorithm.dsaEncoding,
+          key: crypto.createPublicKey({ format: 'jwk', key: jwk }),
+          padding: algorithm.padding,
+        },
+        signature,
+      );
+    } catch (error: any) {
+      // Invalid key (ex: unsupported curve) or signature.
+      throw new InvalidIdTokenError(`unable to verify the signature with key "${header.kid}"`);
+    }
+  }
+
+  private async getSigningKey(kid: string|undefined, refresh: boolean): Promise<crypto.JsonWebKey|undefined> {
+    const { jwks_uri } = await this.getDiscoveryDocument();
+    const cache = this.cache.namespace('oidc');
+    if (refresh) {
+      // Tokens signed with random key IDs must not trigger a request to the issuer each time.
+      if (await cache.get(`jwks-refresh:${jwks_uri}`)) {
+        return undefined;
+      }
+      await cache.set(`jwks-refresh:${jwks_uri}`, true, this.jwksRefreshInterval);
+      await cache.delete(`jwks:${jwks_uri}`);
+    }
+
+    const { keys } = await cache.wrap(
+      `jwks:${jwks_uri}`, () => this.fetchJSON(jwks_uri) as Promise<{ keys: crypto.JsonWebKey[] }>, this.cacheTtl
+    );
+    const signingKeys = keys.filter(key => key.use === undefined || key.use === 'sig');
+    if (kid === undefined) {
+      return signingKeys.length === 1 ? signingKeys[0] : undefined;
+    }
+    return signingKeys.find(key => key.kid === kid);
+  }
+
+  private async fetchJSON(url: string): Promise<ObjectType> {
+    let response: Response;
+    try {
+      response = await fetch(url, { headers: { Accept: 'application/json' } });
+    } catch (error: any) {
+      throw new OIDCDiscoveryError(`Impossible to fetch ${url}: ${error.message}`);
+    }
+    if (!response.ok) {
+      throw new OIDCDiscoveryError(`Impossible to fetch ${url}: the server returned a ${response.status} response.`);
+    }
+    return response.json();
+  }
+
+}
@@ -21,6 +21,7 @@ export class TwitterProvider extends AbstractProvider<TwitterAuthParameter, neve
   };
   protected authEndpoint = 'https://twitter.com/i/oauth2/authorize';
   protected tokenEndpoint = 'https://api.twitter.com/2/oauth2/token';
+  protected revocationEndpoint = 'https://api.twitter.com/2/oauth2/revoke';
   protected userInfoEndpoint = 'https://api.twitter.com/2/users/me';
 
   protected usePKCE: boolean = true;
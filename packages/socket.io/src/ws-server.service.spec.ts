@@ -48,6 +48,21 @@ describe('WsServer', () => {
       strictEqual(called, true);
     });
 
+    it('should close the server when calling the method "dispose".', () => {
+      let called = false;
+
+      const io = {
+        close: () => {
+          called = true;
+        }
+      } as Server;
+
+      wsServer.io = io;
+      wsServer.dispose();
+
+      strictEqual(called, true);
+    });
+
   });
 
 });
\ No newline at end of file
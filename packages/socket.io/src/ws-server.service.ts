@@ -21,4 +21,8 @@ export class WsServer {
     }
   }
 
+  dispose(): void {
+    this.close();
+  }
+
 }
\ No newline at end of file